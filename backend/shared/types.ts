@@ -27,6 +27,7 @@ export type GenerationStatus =
   | "COMPILING_LATEX"
   | "COMPILING_EPUB"
   | "COMPLETED"
+  | "CANCELLED"
   | "ERROR";
 
 export type ChapterStatus =
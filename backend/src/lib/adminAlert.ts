@@ -0,0 +1,47 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Admin Alerts
+// Plain-text email to ADMIN_EMAIL through SES. Sent from ALERT_FROM_EMAIL
+// (an SES-verified identity); without it alerts are console + dashboard only.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { SESv2Client, SendEmailCommand } from "@aws-sdk/client-sesv2";
+
+let ses: SESv2Client | null = null;
+
+/** Never throws — a failed alert must not change what the caller does */
+export async function sendAdminAlert(
+  subject: string,
+  text: string,
+): Promise<void> {
+  const to = process.env.ADMIN_EMAIL;
+  const from = process.env.ALERT_FROM_EMAIL;
+  if (!to || !from || !process.env.AWS_ACCESS_KEY_ID) {
+    console.log(`  ℹ️  [ALERT] email not configured — ${subject}`);
+    return;
+  }
+
+  try {
+    ses ??= new SESv2Client({
+      region: process.env.AWS_REGION || "eu-north-1",
+      credentials: {
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+      },
+    });
+    await ses.send(
+      new SendEmailCommand({
+        FromEmailAddress: from,
+        Destination: { ToAddresses: [to] },
+        Content: {
+          Simple: {
+            Subject: { Data: `[BookForge] ${subject}` },
+            Body: { Text: { Data: text } },
+          },
+        },
+      }),
+    );
+    console.log(`  📧 [ALERT] sent to ${to}: ${subject}`);
+  } catch (err: any) {
+    console.error(`  ❌ [ALERT] ${subject} not sent:`, err.message);
+  }
+}
@@ -0,0 +1,59 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Anthropic LLM Provider
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./llm";
+
+export function createAnthropicProvider(): LlmProvider {
+  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+  const toParams = (req: LlmRequest) => ({
+    model: req.model,
+    max_tokens: req.maxTokens,
+    messages: req.messages,
+    ...(req.system ? { system: req.system } : {}),
+    ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+  });
+
+  const toResponse = (
+    req: LlmRequest,
+    msg: Anthropic.Message,
+    start: number,
+  ): LlmResponse => {
+    let text = "";
+    for (const b of msg.content) {
+      if (b.type === "text") text += b.text;
+    }
+    return {
+      task: req.task,
+      text,
+      model: msg.model,
+      usage: {
+        inputTokens: msg.usage?.input_tokens || 0,
+        outputTokens: msg.usage?.output_tokens || 0,
+        cacheReadTokens: msg.usage?.cache_read_input_tokens || 0,
+        cacheWriteTokens: msg.usage?.cache_creation_input_tokens || 0,
+      },
+      stopReason: msg.stop_reason,
+      latencyMs: Date.now() - start,
+    };
+  };
+
+  return {
+    name: "anthropic",
+
+    async complete(req) {
+      const start = Date.now();
+      const msg = await anthropic.messages.create(toParams(req));
+      return toResponse(req, msg, start);
+    },
+
+    async stream(req, onText) {
+      const start = Date.now();
+      const stream = anthropic.messages.stream(toParams(req));
+      stream.on("text", onText);
+      return toResponse(req, await stream.finalMessage(), start);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Generation Cancellation
+// POST /generation/cancel sets Project.cancelRequestedAt; long-running
+// pipelines poll it between steps and bail out with GenerationCancelledError
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { prisma } from "./prisma";
+
+export class GenerationCancelledError extends Error {
+  constructor(public projectId: string) {
+    super(`Generation cancelled for ${projectId}`);
+    this.name = "GenerationCancelledError";
+  }
+}
+
+/** Call between pipeline steps — throws if the user asked to stop */
+export async function throwIfCancelled(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { cancelRequestedAt: true },
+  });
+  if (project?.cancelRequestedAt) {
+    throw new GenerationCancelledError(projectId);
+  }
+}
+
+/**
+ * Final state after a cancel. Finished chapters are kept (so the book can
+ * be resumed); a chapter caught mid-write goes back to PENDING. Projects
+ * that already had a compiled version go back to COMPLETED, others to the
+ * pre-generation stage where generation can be started or resumed.
+ */
+export async function markCancelled(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { currentVersion: true },
+  });
+  if (!project) return;
+
+  await prisma.chapter.updateMany({
+    where: { projectId, status: "GENERATING" },
+    data: { status: "PENDING" },
+  });
+  await prisma.project.update({
+    where: { id: projectId },
+    data: {
+      generationStatus: "CANCELLED",
+      currentStage: project.currentVersion > 0 ? "COMPLETED" : "IMAGES",
+      cancelRequestedAt: null,
+    },
+  });
+}
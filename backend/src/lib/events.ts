@@ -0,0 +1,127 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Pipeline Events
+// The pipeline logger publishes every phase/step/ok/warn line to Redis so
+// GET /api/projects/:id/events can stream it (the worker is a separate
+// process). The last MAX_HISTORY events are kept for late subscribers.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type IORedis from "ioredis";
+import { getRedisConnection } from "./queue";
+
+const MAX_HISTORY = 500;
+const HISTORY_TTL_SECONDS = 24 * 3600;
+
+export type PipelineEventLevel =
+  | "header"
+  | "phase"
+  | "step"
+  | "ok"
+  | "warn"
+  | "error"
+  | "footer";
+
+/** Structured payload attached at the call sites the UI cares about */
+export type PipelineEventData =
+  | { kind: "research"; chapter: number; title?: string; sources?: number }
+  | { kind: "chapter"; chapter: number; targetWords: number; words?: number }
+  | { kind: "review"; score: number; final: boolean }
+  | { kind: "pdflatex"; attempt: number; maxAttempts: number; pass: number }
+  | { kind: "result"; status: "SUCCESS" | "ERROR" };
+
+export interface PipelineEvent {
+  /** Per-project sequence number — used as the SSE event id */
+  id: number;
+  at: string;
+  pipeline: string;
+  level: PipelineEventLevel;
+  message: string;
+  phase?: number;
+  data?: PipelineEventData;
+}
+
+const channelKey = (projectId: string) => `bookforge:events:${projectId}`;
+const historyKey = (projectId: string) => `bookforge:events:${projectId}:log`;
+const seqKey = (projectId: string) => `bookforge:events:${projectId}:seq`;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Publish
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function publishEvent(
+  projectId: string,
+  event: Omit<PipelineEvent, "id" | "at">,
+) {
+  const redis = getRedisConnection();
+  const id = await redis.incr(seqKey(projectId));
+  const payload = JSON.stringify({
+    id,
+    at: new Date().toISOString(),
+    ...event,
+  });
+
+  await redis
+    .multi()
+    .rpush(historyKey(projectId), payload)
+    .ltrim(historyKey(projectId), -MAX_HISTORY, -1)
+    .expire(historyKey(projectId), HISTORY_TTL_SECONDS)
+    .expire(seqKey(projectId), HISTORY_TTL_SECONDS)
+    .publish(channelKey(projectId), payload)
+    .exec();
+}
+
+/** Stored events, oldest first, optionally only those after `afterId` */
+export async function getRecentEvents(
+  projectId: string,
+  afterId = 0,
+): Promise<PipelineEvent[]> {
+  const raw = await getRedisConnection().lrange(historyKey(projectId), 0, -1);
+  return raw
+    .map((r) => JSON.parse(r) as PipelineEvent)
+    .filter((e) => e.id > afterId);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Subscribe
+// One subscriber connection per process, fanned out to SSE clients
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type Listener = (event: PipelineEvent) => void;
+
+let subscriber: IORedis | null = null;
+const listeners = new Map<string, Set<Listener>>();
+
+function getSubscriber(): IORedis {
+  if (!subscriber) {
+    subscriber = getRedisConnection().duplicate();
+    subscriber.on("message", (channel: string, message: string) => {
+      const set = listeners.get(channel);
+      if (!set) return;
+      const event = JSON.parse(message) as PipelineEvent;
+      for (const fn of set) fn(event);
+    });
+  }
+  return subscriber;
+}
+
+/** Returns an unsubscribe function */
+export async function subscribeToEvents(
+  projectId: string,
+  listener: Listener,
+): Promise<() => Promise<void>> {
+  const channel = channelKey(projectId);
+  let set = listeners.get(channel);
+  if (!set) {
+    set = new Set();
+    listeners.set(channel, set);
+    await getSubscriber().subscribe(channel);
+  }
+  set.add(listener);
+
+  return async () => {
+    set!.delete(listener);
+    if (set!.size === 0 && listeners.get(channel) === set) {
+      listeners.delete(channel);
+      await getSubscriber().unsubscribe(channel);
+    }
+  };
+}
@@ -0,0 +1,384 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Record & Replay Fixtures
+// FIXTURE_MODE=record writes every external call a pipeline job makes
+// (Google search, scraper, LLM, images and the .tex handed to pdflatex)
+// to FIXTURE_DIR/<projectId>.json. Replay (src/replayFixture.ts) re-runs
+// the recorded jobs from that bundle, with no network at all.
+//
+// Jobs run inside runWithFixtures(); services only call the fixture*()
+// wrappers below, which pass straight through when no session is active.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { prisma } from "./prisma";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./llm";
+
+export type FixtureMode = "record" | "replay";
+
+const FIXTURE_DIR = path.resolve(process.env.FIXTURE_DIR || "fixtures");
+const BUNDLE_VERSION = 1;
+
+/** Brief fields needed to recreate the project for a replay */
+const SNAPSHOT_FIELDS = {
+  title: true,
+  topic: true,
+  language: true,
+  authorName: true,
+  subtitle: true,
+  guidelines: true,
+  targetPages: true,
+  stylePreset: true,
+  genre: true,
+  workbook: true,
+  bookMatter: true,
+  audience: true,
+  tone: true,
+  readingLevel: true,
+  bookFormat: true,
+  customColors: true,
+  colophonText: true,
+  colophonFontSize: true,
+  colophonEnabled: true,
+  useAiImages: true,
+  priceUsdCents: true,
+  spendCapUsd: true,
+  promptVariant: true,
+  // Content written after the structure job reads the stored research
+  researchData: true,
+} as const;
+
+interface FixtureEntry {
+  /** Channel-specific match key (a hash for LLM requests) */
+  key: string;
+  /** LLM task — replay falls back to the next unused call of the same task */
+  task?: string;
+  value: any;
+}
+
+export interface FixtureBundle {
+  version: number;
+  projectId: string;
+  recordedAt: string;
+  project: Record<string, any>;
+  /**
+   * Structure and finished chapters when recording started — a bundle that
+   * begins with content/resume replays on top of them
+   */
+  structureJson?: string | null;
+  chapters?: Record<string, any>[];
+  /** Pipeline jobs that added to the bundle, in order */
+  jobs: string[];
+  calls: Record<string, FixtureEntry[]>;
+}
+
+interface FixtureSession {
+  mode: FixtureMode;
+  bundle: FixtureBundle;
+  bundlePath: string;
+  /** Replay: entries already handed out, per channel */
+  used: Record<string, Set<number>>;
+  stats: FixtureStats;
+}
+
+export interface FixtureStats {
+  /** Recorded entries handed out */
+  replayed: number;
+  /** LLM calls whose prompt changed, matched by task order instead */
+  fallbacks: number;
+  /** First line where the assembled .tex differs from the recording */
+  texDiffLine: number | null;
+}
+
+export class FixtureMissError extends Error {
+  constructor(channel: string, key: string) {
+    super(`No recorded ${channel} call for ${key.substring(0, 120)}`);
+    this.name = "FixtureMissError";
+  }
+}
+
+const sessions = new AsyncLocalStorage<FixtureSession>();
+
+export function fixtureMode(): FixtureMode | null {
+  return sessions.getStore()?.mode ?? null;
+}
+
+export function bundlePathFor(projectId: string): string {
+  return path.join(FIXTURE_DIR, `${projectId}.json`);
+}
+
+export function loadBundle(bundlePath: string): FixtureBundle {
+  const bundle = JSON.parse(fs.readFileSync(bundlePath, "utf-8"));
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new Error(
+      `Fixture bundle version ${bundle.version} — expected ${BUNDLE_VERSION}`,
+    );
+  }
+  return bundle;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Sessions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Run one pipeline job inside a fixture session. Without `options.mode`
+ * the FIXTURE_MODE env var decides; unset means no session at all.
+ * Record mode saves the bundle even when the job fails — broken books are
+ * the ones worth keeping.
+ */
+export async function runWithFixtures<T>(
+  projectId: string,
+  job: string,
+  fn: () => Promise<T>,
+  options: { mode?: FixtureMode; bundlePath?: string } = {},
+): Promise<{ result: T; stats: FixtureStats | null }> {
+  const mode =
+    options.mode || (process.env.FIXTURE_MODE as FixtureMode | undefined);
+  if (mode !== "record" && mode !== "replay") {
+    return { result: await fn(), stats: null };
+  }
+
+  const bundlePath = options.bundlePath || bundlePathFor(projectId);
+  let bundle: FixtureBundle;
+  if (fs.existsSync(bundlePath)) {
+    bundle = loadBundle(bundlePath);
+  } else if (mode === "record") {
+    const [project, structure, chapters] = await Promise.all([
+      prisma.project.findUnique({
+        where: { id: projectId },
+        select: SNAPSHOT_FIELDS,
+      }),
+      prisma.projectStructure.findUnique({
+        where: { projectId },
+        select: { structureJson: true },
+      }),
+      prisma.chapter.findMany({
+        where: { projectId, status: "LATEX_READY" },
+        omit: { id: true, projectId: true, createdAt: true, updatedAt: true },
+      }),
+    ]);
+    bundle = {
+      version: BUNDLE_VERSION,
+      projectId,
+      recordedAt: new Date().toISOString(),
+      project: project || {},
+      structureJson: structure?.structureJson ?? null,
+      chapters,
+      jobs: [],
+      calls: {},
+    };
+  } else {
+    throw new Error(`Fixture bundle not found: ${bundlePath}`);
+  }
+
+  const session: FixtureSession = {
+    mode,
+    bundle,
+    bundlePath,
+    used: {},
+    stats: { replayed: 0, fallbacks: 0, texDiffLine: null },
+  };
+  if (mode === "record") bundle.jobs.push(job);
+
+  try {
+    const result = await sessions.run(session, fn);
+    return { result, stats: session.stats };
+  } finally {
+    if (mode === "record") {
+      fs.mkdirSync(path.dirname(bundlePath), { recursive: true });
+      fs.writeFileSync(bundlePath, JSON.stringify(bundle), "utf-8");
+      console.log(`  📼 [FIXTURE] ${job} recorded → ${bundlePath}`);
+    }
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Wrappers used by services
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function keyOf(parts: unknown): string {
+  return typeof parts === "string" ? parts : JSON.stringify(parts);
+}
+
+function take(
+  session: FixtureSession,
+  channel: string,
+  match: (e: FixtureEntry) => boolean,
+): FixtureEntry | null {
+  const entries = session.bundle.calls[channel] || [];
+  const used = (session.used[channel] ||= new Set());
+  const idx = entries.findIndex((e, i) => !used.has(i) && match(e));
+  if (idx === -1) return null;
+  used.add(idx);
+  session.stats.replayed++;
+  return entries[idx];
+}
+
+function record(
+  session: FixtureSession,
+  channel: string,
+  entry: FixtureEntry,
+) {
+  (session.bundle.calls[channel] ||= []).push(entry);
+}
+
+/** An async external call (search, scrape…), matched on `key` in replay */
+export async function fixtureCall<T>(
+  channel: string,
+  key: unknown,
+  live: () => Promise<T>,
+): Promise<T> {
+  const session = sessions.getStore();
+  if (!session) return live();
+
+  const k = keyOf(key);
+  if (session.mode === "replay") {
+    const hit = take(session, channel, (e) => e.key === k);
+    if (!hit) throw new FixtureMissError(channel, k);
+    return hit.value;
+  }
+  const value = await live();
+  record(session, channel, { key: k, value });
+  return value;
+}
+
+/**
+ * A value read from the environment or the database that the replay must
+ * see exactly as recorded (API keys present? structure after user edits?).
+ */
+export function fixtureValue<T>(name: string, live: () => T): T {
+  const session = sessions.getStore();
+  if (!session) return live();
+
+  if (session.mode === "replay") {
+    const hit = take(session, "values", (e) => e.key === name);
+    if (hit) return hit.value;
+    // Not recorded by this run (e.g. older bundle) — the live value is local
+    return live();
+  }
+  const value = live();
+  record(session, "values", { key: name, value });
+  return value;
+}
+
+/**
+ * Images handed to pdflatex: recorded as file contents, written back to
+ * the build dir on replay (the replayed project has no ProjectImage rows).
+ */
+export async function fixtureImages(
+  buildDir: string,
+  live: () => Promise<Map<string, string>>,
+): Promise<Map<string, string>> {
+  const session = sessions.getStore();
+  if (!session) return live();
+
+  if (session.mode === "replay") {
+    const hit = take(session, "images", () => true);
+    const map = new Map<string, string>();
+    for (const img of hit?.value || []) {
+      const target = path.join(buildDir, img.localPath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, Buffer.from(img.base64, "base64"));
+      map.set(img.url, img.localPath);
+    }
+    return map;
+  }
+
+  const map = await live();
+  record(session, "images", {
+    key: "images",
+    value: [...map].map(([url, localPath]) => ({
+      url,
+      localPath,
+      base64: fs
+        .readFileSync(path.join(buildDir, localPath))
+        .toString("base64"),
+    })),
+  });
+  return map;
+}
+
+/**
+ * The assembled .tex. Recorded as-is; on replay the freshly assembled
+ * source is compiled and compared with the recording — returns the first
+ * differing line (null = identical) so regressions show up in the log.
+ */
+export function fixtureLatex(tex: string): { line: number } | null {
+  const session = sessions.getStore();
+  if (!session) return null;
+
+  if (session.mode === "record") {
+    record(session, "latex", { key: "book.tex", value: tex });
+    return null;
+  }
+  const hit = take(session, "latex", () => true);
+  if (!hit || hit.value === tex) return null;
+  const a = tex.split("\n");
+  const b = (hit.value as string).split("\n");
+  let line = 0;
+  while (line < a.length && a[line] === b[line]) line++;
+  session.stats.texDiffLine = line + 1;
+  return { line: line + 1 };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LLM provider wrapper
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function llmKey(req: LlmRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify([req.model, req.system || "", req.messages]))
+    .digest("hex");
+}
+
+function llmEntry(req: LlmRequest, res: LlmResponse): FixtureEntry {
+  return { key: llmKey(req), task: req.task, value: res };
+}
+
+/**
+ * Replay matches on the exact request first. If the prompt changed (you
+ * are testing a prompt or code fix) it falls back to the next unused
+ * response for the same task, so the rest of the book still replays.
+ */
+function replayLlm(session: FixtureSession, req: LlmRequest): LlmResponse {
+  const key = llmKey(req);
+  let hit = take(session, "llm", (e) => e.key === key);
+  if (!hit) {
+    hit = take(session, "llm", (e) => e.task === req.task);
+    if (!hit) throw new FixtureMissError("llm", req.task);
+    session.stats.fallbacks++;
+    console.warn(
+      `  📼 [FIXTURE] ${req.task}: prompt changed — replaying by order`,
+    );
+  }
+  return hit.value;
+}
+
+export function withFixtures(inner: LlmProvider): LlmProvider {
+  return {
+    name: inner.name,
+
+    async complete(req) {
+      const session = sessions.getStore();
+      if (session?.mode === "replay") return replayLlm(session, req);
+      const res = await inner.complete(req);
+      if (session) record(session, "llm", llmEntry(req, res));
+      return res;
+    },
+
+    async stream(req, onText) {
+      const session = sessions.getStore();
+      if (session?.mode === "replay") {
+        const res = replayLlm(session, req);
+        onText(res.text);
+        return res;
+      }
+      const res = await inner.stream(req, onText);
+      if (session) record(session, "llm", llmEntry(req, res));
+      return res;
+    },
+  };
+}
@@ -0,0 +1,111 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — LLM Provider Layer
+// Every service talks to the model through getLlm(). LLM_PROVIDER picks
+// the backend: "anthropic" (default) or "mock" (deterministic, offline).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { createAnthropicProvider } from "./anthropicProvider";
+import { createMockProvider } from "./mockProvider";
+import { withFixtures } from "./fixtures";
+
+/** Model ids — the only place they are spelled out */
+export const MODELS = {
+  /** Chapters, structure, revisions, section edits */
+  writer: process.env.LLM_WRITER_MODEL || "claude-sonnet-4-5",
+  /** Registries, summaries, search queries, source selection, review */
+  utility: process.env.LLM_UTILITY_MODEL || "claude-haiku-4-5",
+};
+
+/**
+ * What the call is for. Real providers ignore it; the mock uses it to
+ * decide which response shape to produce.
+ */
+export type LlmTask =
+  | "structure"
+  | "chapter"
+  | "chapter-continue"
+  | "chapter-opener"
+  | "chapter-section"
+  | "length-expand"
+  | "length-condense"
+  | "fact-check"
+  | "fact-revise"
+  | "overlap-rewrite"
+  | "chapter-registry"
+  | "chapter-summary"
+  | "search-query"
+  | "chapter-queries"
+  | "select-sources"
+  | "select-global-sources"
+  | "review"
+  | "review-insert"
+  | "review-remove"
+  | "section-edit"
+  | "book-matter"
+  | "appendix";
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  maxTokens: number;
+  system?: string;
+  messages: LlmMessage[];
+  temperature?: number;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt-cache hits / writes (0 when the provider doesn't cache) */
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface LlmResponse {
+  /** Echoed from the request so logger.api() can record it */
+  task: LlmTask;
+  /** All text blocks joined */
+  text: string;
+  /** Model that actually served the call (priced in llmUsage.ts) */
+  model: string;
+  usage: LlmUsage;
+  /** "end_turn" | "max_tokens" | ... (provider-specific, null if unknown) */
+  stopReason: string | null;
+  latencyMs: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(req: LlmRequest): Promise<LlmResponse>;
+  /** Same as complete(), calling onText with each chunk as it arrives */
+  stream(
+    req: LlmRequest,
+    onText: (chunk: string) => void,
+  ): Promise<LlmResponse>;
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlm(): LlmProvider {
+  if (!provider) {
+    const name = process.env.LLM_PROVIDER || "anthropic";
+    switch (name) {
+      case "anthropic":
+        provider = createAnthropicProvider();
+        break;
+      case "mock":
+        provider = createMockProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+    }
+    // Pass-through unless a job runs in a record/replay session
+    provider = withFixtures(provider);
+  }
+  return provider;
+}
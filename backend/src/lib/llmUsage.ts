@@ -0,0 +1,102 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — LLM Usage Ledger
+// Every logger.api() call lands here: one LlmCall row priced from
+// MODEL_PRICES, plus an increment of the project's running totals.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { prisma } from "./prisma";
+import type { LlmUsage } from "./llm";
+
+interface ModelPrice {
+  /** USD per million tokens */
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * Matched by prefix against the served model id, so dated snapshots
+ * ("claude-haiku-4-5-20251001") resolve too. More specific prefixes first.
+ */
+const MODEL_PRICES: [prefix: string, price: ModelPrice][] = [
+  ["mock:", { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 }],
+  ["claude-opus-4-5", { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 }],
+  ["claude-opus-4", { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 }],
+  ["claude-sonnet-4", { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }],
+  ["claude-3-7-sonnet", { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }],
+  ["claude-haiku-4-5", { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 }],
+  ["claude-3-5-haiku", { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 }],
+];
+
+/** Unknown models are priced like the default writer — better to overcount */
+const FALLBACK_PRICE = MODEL_PRICES.find(([p]) => p === "claude-sonnet-4")![1];
+const warnedModels = new Set<string>();
+
+function priceFor(model: string): ModelPrice {
+  const hit = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  if (hit) return hit[1];
+  if (!warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`⚠️  No price for model "${model}" — using Sonnet rates`);
+  }
+  return FALLBACK_PRICE;
+}
+
+export function computeCostUsd(model: string, usage: LlmUsage): number {
+  const p = priceFor(model);
+  return (
+    (usage.inputTokens * p.input +
+      usage.outputTokens * p.output +
+      usage.cacheReadTokens * p.cacheRead +
+      usage.cacheWriteTokens * p.cacheWrite) /
+    1_000_000
+  );
+}
+
+export interface LlmCallRecord {
+  projectId: string;
+  pipeline: string;
+  phase: string | null;
+  task: string;
+  chapterNumber?: number;
+  model: string;
+  usage: LlmUsage;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export async function recordLlmCall(call: LlmCallRecord) {
+  const { usage } = call;
+  await prisma.$transaction([
+    prisma.llmCall.create({
+      data: {
+        projectId: call.projectId,
+        pipeline: call.pipeline,
+        phase: call.phase,
+        task: call.task,
+        chapterNumber: call.chapterNumber ?? null,
+        model: call.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cacheReadTokens: usage.cacheReadTokens,
+        cacheWriteTokens: usage.cacheWriteTokens,
+        latencyMs: call.latencyMs,
+        costUsd: call.costUsd,
+      },
+    }),
+    prisma.project.update({
+      where: { id: call.projectId },
+      data: {
+        totalTokensUsed: {
+          increment:
+            usage.inputTokens +
+            usage.outputTokens +
+            usage.cacheReadTokens +
+            usage.cacheWriteTokens,
+        },
+        totalCostUsd: { increment: call.costUsd },
+      },
+    }),
+  ]);
+}
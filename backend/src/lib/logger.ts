@@ -1,8 +1,18 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // BookForge — Pipeline Logger
 // Consistent, timestamped logging for all pipeline steps
+// Also publishes header/phase/step/ok/warn/err/footer as pipeline events
+// and records every api() call in the LlmCall ledger
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+import {
+  publishEvent,
+  type PipelineEventData,
+  type PipelineEventLevel,
+} from "./events";
+import type { LlmResponse } from "./llm";
+import { computeCostUsd, recordLlmCall } from "./llmUsage";
+
 const COLORS = {
   reset: "\x1b[0m",
   bright: "\x1b[1m",
@@ -37,6 +47,22 @@ function trunc(s: string, maxLen: number): string {
 export function createPipelineLogger(pipeline: string, projectId: string) {
   const pipelineStart = Date.now();
   const tag = `[${pipeline}][${projectId.substring(0, 8)}]`;
+  let currentPhase: string | null = null;
+  const usage = { calls: 0, tokens: 0, costUsd: 0 };
+
+  // Fire-and-forget — a Redis hiccup must never break the pipeline
+  const emit = (
+    level: PipelineEventLevel,
+    message: string,
+    extra: { phase?: number; data?: PipelineEventData } = {},
+  ) => {
+    publishEvent(projectId, {
+      pipeline,
+      level,
+      message: message.trim(),
+      ...extra,
+    }).catch(() => {});
+  };
 
   return {
     /** Pipeline header */
@@ -54,6 +80,7 @@ export function createPipelineLogger(pipeline: string, projectId: string) {
         }
       }
       console.log(`${COLORS.cyan}${"═".repeat(70)}${COLORS.reset}\n`);
+      emit("header", title);
     },
 
     /** Phase separator */
@@ -61,25 +88,30 @@ export function createPipelineLogger(pipeline: string, projectId: string) {
       console.log(
         `${COLORS.bright}${COLORS.blue}  ━━━ Phase ${num}: ${title} ━━━${COLORS.reset}`,
       );
+      currentPhase = title;
+      emit("phase", title, { phase: num });
     },
 
     /** Step within a phase */
-    step(msg: string) {
+    step(msg: string, data?: PipelineEventData) {
       console.log(`${COLORS.gray}  ${ts()}${COLORS.reset} ${tag} ${msg}`);
+      emit("step", msg, { data });
     },
 
     /** Success */
-    ok(msg: string) {
+    ok(msg: string, data?: PipelineEventData) {
       console.log(
         `${COLORS.gray}  ${ts()}${COLORS.reset} ${tag} ${COLORS.green}✅ ${msg}${COLORS.reset}`,
       );
+      emit("ok", msg, { data });
     },
 
     /** Warning */
-    warn(msg: string) {
+    warn(msg: string, data?: PipelineEventData) {
       console.log(
         `${COLORS.gray}  ${ts()}${COLORS.reset} ${tag} ${COLORS.yellow}⚠️  ${msg}${COLORS.reset}`,
       );
+      emit("warn", msg, { data });
     },
 
     /** Error */
@@ -98,6 +130,8 @@ export function createPipelineLogger(pipeline: string, projectId: string) {
           console.log(`${COLORS.dim}${stackLines.join("\n")}${COLORS.reset}`);
         }
       }
+      // Only the message goes out — stack traces stay in the server log
+      emit("error", msg);
     },
 
     /** Data/stats line */
@@ -107,19 +141,45 @@ export function createPipelineLogger(pipeline: string, projectId: string) {
       );
     },
 
-    /** API call tracking */
-    api(
-      model: string,
-      inputTokens: number,
-      outputTokens: number,
-      durationMs?: number,
-    ) {
-      const dur = durationMs ? ` (${elapsed(Date.now() - durationMs)})` : "";
+    /** API call tracking — priced and written to the LlmCall ledger */
+    api(response: LlmResponse, call: { chapter?: number } = {}) {
+      const { model, usage: u } = response;
+      const costUsd = computeCostUsd(model, u);
+      const cache =
+        u.cacheReadTokens || u.cacheWriteTokens
+          ? ` | cache r/w: ${u.cacheReadTokens}/${u.cacheWriteTokens}`
+          : "";
       console.log(
-        `${COLORS.gray}  ${ts()}${COLORS.reset} ${tag}   🤖 ${model} | in: ${inputTokens} | out: ${outputTokens}${dur}`,
+        `${COLORS.gray}  ${ts()}${COLORS.reset} ${tag}   🤖 ${model} | in: ${u.inputTokens} | out: ${u.outputTokens}${cache} | $${costUsd.toFixed(4)} (${response.latencyMs}ms)`,
+      );
+      usage.calls++;
+      usage.tokens +=
+        u.inputTokens + u.outputTokens + u.cacheReadTokens + u.cacheWriteTokens;
+      usage.costUsd += costUsd;
+
+      // Fire-and-forget like emit() — accounting must never fail a chapter
+      recordLlmCall({
+        projectId,
+        pipeline,
+        phase: currentPhase,
+        task: response.task,
+        chapterNumber: call.chapter,
+        model,
+        usage: u,
+        latencyMs: response.latencyMs,
+        costUsd,
+      }).catch((e) =>
+        console.log(
+          `${COLORS.yellow}  ${tag} LlmCall not recorded: ${e?.message || e}${COLORS.reset}`,
+        ),
       );
     },
 
+    /** Calls, tokens and cost recorded through this logger so far */
+    usage() {
+      return { ...usage };
+    },
+
     /** Claude API request preview — shows truncated prompt (max 500 chars) */
     claudeReq(label: string, prompt: string) {
       console.log(
@@ -144,6 +204,9 @@ export function createPipelineLogger(pipeline: string, projectId: string) {
       );
       if (summary) console.log(`${color}  ${summary}${COLORS.reset}`);
       console.log(`${color}${"═".repeat(70)}${COLORS.reset}\n`);
+      emit("footer", summary || `${pipeline} ${status}`, {
+        data: { kind: "result", status },
+      });
     },
 
     /** Timer helper */
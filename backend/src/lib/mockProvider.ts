@@ -0,0 +1,731 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Mock LLM Provider (LLM_PROVIDER=mock)
+// Deterministic, offline responses in the shape each task expects:
+// schema-valid structure JSON, LaTeX chapters with the tcolorbox
+// environments and a booktabs table, registry/review JSON. Fiction prompts
+// ("GENRE: Fiction") get a cast, prose-only scenes and a story registry.
+// Same prompt → same output, so pipeline runs are reproducible in demos
+// and CI.
+// Text is always English filler; numbers come from the prompt.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { LlmProvider, LlmRequest, LlmResponse, LlmTask } from "./llm";
+
+/** Optional artificial latency so the progress UI has something to show */
+const MOCK_DELAY_MS = parseInt(process.env.MOCK_LLM_DELAY_MS || "0", 10);
+const STREAM_CHUNK_CHARS = 200;
+
+export function createMockProvider(): LlmProvider {
+  const complete = async (req: LlmRequest): Promise<LlmResponse> => {
+    const start = Date.now();
+    if (MOCK_DELAY_MS > 0) {
+      await new Promise((r) => setTimeout(r, MOCK_DELAY_MS));
+    }
+    const prompt = [req.system || "", ...req.messages.map((m) => m.content)]
+      .join("\n\n");
+    const lastUser =
+      [...req.messages].reverse().find((m) => m.role === "user")?.content ||
+      "";
+    const text = respond(req.task, prompt, lastUser, rng(hash(prompt)));
+
+    return {
+      task: req.task,
+      text,
+      model: `mock:${req.model}`,
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4),
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+      },
+      stopReason: "end_turn",
+      latencyMs: Date.now() - start,
+    };
+  };
+
+  return {
+    name: "mock",
+    complete,
+    async stream(req, onText) {
+      const res = await complete(req);
+      for (let i = 0; i < res.text.length; i += STREAM_CHUNK_CHARS) {
+        onText(res.text.substring(i, i + STREAM_CHUNK_CHARS));
+      }
+      return res;
+    },
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Dispatch
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type Rng = () => number;
+
+/** Fiction templates (prompts/fiction.ts) and the fiction section editor */
+const FICTION_RE = /^GENRE: Fiction$|editing ONE scene/m;
+/** Workbook prompts show the exercise syntax; edits carry the section's own */
+const WORKBOOK_RE = /\\begin\{(?:exercise|worksheet)\}/;
+
+function respond(
+  task: LlmTask,
+  prompt: string,
+  lastUser: string,
+  r: Rng,
+): string {
+  const fiction = FICTION_RE.test(prompt);
+  const workbook = !fiction && WORKBOOK_RE.test(prompt);
+  switch (task) {
+    case "structure":
+      return fiction
+        ? mockStoryStructure(prompt, r)
+        : mockStructure(prompt, r);
+    case "chapter":
+      return mockChapter(prompt, r, fiction, workbook);
+    case "chapter-continue":
+      return mockContinuation(lastUser, r, fiction, workbook);
+    case "chapter-opener":
+      return mockOpener(prompt, lastUser, r, fiction);
+    case "chapter-section":
+      return mockSection(prompt, lastUser, r, fiction, workbook);
+    case "length-expand":
+    case "length-condense":
+      return mockLengthPass(lastUser, r, fiction, workbook);
+    case "chapter-registry":
+      return fiction ? mockStoryRegistry(prompt) : mockRegistry(prompt);
+    case "fact-check":
+      return mockFactCheck(prompt);
+    case "fact-revise":
+      return mockFactRevise(prompt);
+    case "overlap-rewrite":
+      return mockOverlapRewrite(prompt, r);
+    case "chapter-summary":
+      return "This chapter lays out the core framework and backs it with worked examples. It closes with a checklist the reader can apply immediately.";
+    case "search-query":
+      return topicOf(prompt).split(/\s+/).slice(0, 3).join(" ");
+    case "chapter-queries":
+      return `${topicOf(prompt)} statistics\n${topicOf(prompt)} case study`;
+    case "select-sources":
+      return "[0, 1]";
+    case "select-global-sources":
+      return JSON.stringify({
+        selected: [0, 1, 2],
+        sufficient: true,
+        reasoning: "Mock selection",
+      });
+    case "review":
+      // Score 8 skips the automatic revisions; the topic stays on offer
+      return JSON.stringify({
+        missing_topics: ["Common mistakes to avoid"],
+        redundancies: [],
+        removals: [],
+        score: 8,
+        needs_revision: false,
+        summary: "Mock review — coverage is adequate.",
+      });
+    case "review-insert":
+      return JSON.stringify({
+        target_chapter: 1,
+        insert_after: "\\\\end{keyinsight}",
+        reasoning: "Mock insertion",
+        new_content: `\\\\subsection{Additional Notes}\\n\\n${paragraph(r, "the topic", 80)}`,
+      });
+    case "review-remove":
+      return JSON.stringify({ remove_start: "", remove_end: "" });
+    case "section-edit":
+      return mockSectionEdit(lastUser, r, fiction, workbook);
+    case "book-matter":
+      return mockBookMatter(prompt, r);
+    case "appendix":
+      return mockAppendix(prompt, r);
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Structure
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const CHAPTER_ANGLES = [
+  "Why Most Attempts Fail",
+  "The Core Framework",
+  "Measuring What Matters",
+  "Tools and Workflows",
+  "Case Studies From the Field",
+  "Scaling Up",
+  "Common Pitfalls",
+  "Building a Long-Term Practice",
+  "Advanced Techniques",
+  "Putting It All Together",
+];
+
+const SECTION_ANGLES = [
+  "Key Concepts",
+  "A Worked Example",
+  "Data and Benchmarks",
+  "Step-by-Step Method",
+  "Trade-offs",
+  "Checklist",
+];
+
+function mockStructure(prompt: string, r: Rng): string {
+  const topic = topicOf(prompt);
+  const chapters = num(prompt, /Create EXACTLY (\d+) chapters/, 4);
+  const sections = num(prompt, /Each chapter: (\d+)/, 3);
+  const pages = num(prompt, /Target: (\d+) pages/, 40);
+  const title = prompt.match(/^Title: (.+)$/m)?.[1]?.trim();
+  const appendixPages = num(prompt, /at most (\d+) pages in total/, 0);
+
+  const chapterPages = split(pages, chapters);
+  return JSON.stringify(
+    {
+      suggestedTitle: title || `${capitalize(topic)}: A Practical Guide`,
+      chapters: chapterPages.map((chPages, i) => ({
+        id: `ch${i + 1}`,
+        number: i + 1,
+        title: `${CHAPTER_ANGLES[i % CHAPTER_ANGLES.length]}: ${capitalize(topic)}`,
+        description: `Chapter ${i + 1} explains ${CHAPTER_ANGLES[i % CHAPTER_ANGLES.length].toLowerCase()} for ${topic}, with concrete numbers and a worked example the reader can reuse.`,
+        targetPages: chPages,
+        sections: split(chPages, sections).map((sPages, j) => ({
+          id: `ch${i + 1}-s${j + 1}`,
+          title: `${SECTION_ANGLES[(i + j) % SECTION_ANGLES.length]} ${i + 1}.${j + 1}`,
+          description: `Cover ${SECTION_ANGLES[(i + j) % SECTION_ANGLES.length].toLowerCase()} for ${topic}; include a number from ${2015 + Math.floor(r() * 10)} and one named example.`,
+          targetPages: Math.max(1, sPages),
+          order: j,
+        })),
+      })),
+      appendices:
+        appendixPages > 0
+          ? [
+              {
+                id: "appA",
+                letter: "A",
+                title: `Checklists and Reference Tables: ${capitalize(topic)}`,
+                description: `One checklist per chapter and a table of the key figures for ${topic}, to come back to.`,
+                targetPages: appendixPages,
+              },
+            ]
+          : [],
+    },
+    null,
+    2,
+  );
+}
+
+const CAST = [
+  {
+    name: "Mara Quill",
+    role: "protagonist",
+    description: "Stubborn and quick, afraid of the dark; wants to keep her aunt's house",
+  },
+  {
+    name: "Jonas Hale",
+    role: "antagonist",
+    description: "Soft-spoken lawyer who wants the house sold by the end of the month",
+  },
+  {
+    name: "Edda Quill",
+    role: "mentor",
+    description: "Mara's late aunt, present through letters and the things she left",
+  },
+];
+
+const STORY_BEATS = [
+  "An Unexpected Letter",
+  "The Locked Study",
+  "Footsteps on the Stairs",
+  "What the Lawyer Knew",
+  "The Night of the Storm",
+  "A Map in the Margins",
+  "The Deal",
+  "Down to the Cellar",
+  "The Truth About Edda",
+  "Morning Light",
+];
+
+function mockStoryStructure(prompt: string, r: Rng): string {
+  const chapters = num(prompt, /Create EXACTLY (\d+) chapters/, 4);
+  const scenes = num(prompt, /Each chapter: (\d+)/, 3);
+  const pages = num(prompt, /Target: (\d+) pages/, 40);
+  const title = prompt.match(/^Title: (.+)$/m)?.[1]?.trim();
+
+  const chapterPages = split(pages, chapters);
+  return JSON.stringify(
+    {
+      suggestedTitle: title || "The House on Quill Street",
+      setting:
+        "A narrow, creaking house on Quill Street in a small harbour town, late autumn",
+      characters: CAST,
+      chapters: chapterPages.map((chPages, i) => ({
+        id: `ch${i + 1}`,
+        number: i + 1,
+        title: STORY_BEATS[i % STORY_BEATS.length],
+        description: `Mara pushes one step closer to the secret of the house; by the end of chapter ${i + 1} Jonas knows more than she does.`,
+        targetPages: chPages,
+        sections: split(chPages, scenes).map((sPages, j) => ({
+          id: `ch${i + 1}-s${j + 1}`,
+          title: `Scene ${i + 1}.${j + 1}`,
+          description: `${CAST[(i + j) % 2].name} wants something from the house; ${CAST[(i + j + 1) % 2].name} gets in the way. Ends on a discovery made at ${1 + Math.floor(r() * 11)} o'clock.`,
+          targetPages: Math.max(1, sPages),
+          order: j,
+        })),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Chapters & sections
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const BOXES = ["tipbox", "examplebox", "warningbox"] as const;
+
+function mockChapter(
+  prompt: string,
+  r: Rng,
+  fiction: boolean,
+  workbook: boolean,
+): string {
+  const topic = topicOf(prompt);
+  const target = num(prompt, /WORD COUNT TARGET: (\d+) words/, 1500);
+  const chapterTitle =
+    prompt.match(/Start with \\chapter\{([^}]*)\}/)?.[1] || "Chapter";
+  const sections = [
+    ...prompt.matchAll(/^\s*\d+\. "([^"]+)" — .*\(~(\d+) words\)\s*$/gm),
+  ].map((m) => ({ title: m[1], words: parseInt(m[2], 10) }));
+  if (sections.length === 0) {
+    sections.push(
+      { title: "Overview", words: Math.round(target / 2) },
+      { title: "In Practice", words: Math.round(target / 2) },
+    );
+  }
+
+  const parts = [`\\chapter{${chapterTitle}}`];
+  sections.forEach((s, i) => {
+    parts.push(
+      fiction
+        ? sceneLatex(s.title, s.words, r)
+        : sectionLatex(s.title, s.words, topic, r, {
+            box: BOXES[i % BOXES.length],
+            table: i === 0,
+            exercise: workbook ? i : undefined,
+          }),
+    );
+  });
+  return parts.join("\n\n");
+}
+
+function mockContinuation(
+  lastUser: string,
+  r: Rng,
+  fiction: boolean,
+  workbook: boolean,
+): string {
+  const words = num(lastUser, /remaining ~(\d+) words/, 300);
+  if (fiction) return sceneLatex("Later That Night", words, r);
+  return sectionLatex("Further Considerations", words, "the topic", r, {
+    box: "tipbox",
+    table: false,
+    exercise: workbook ? 2 : undefined,
+  });
+}
+
+function mockOpener(
+  prompt: string,
+  lastUser: string,
+  r: Rng,
+  fiction: boolean,
+): string {
+  const chapterTitle =
+    lastUser.match(/start with \\chapter\{([^}]*)\}/)?.[1] || "Chapter";
+  const words = num(lastUser, /~(\d+) words\) that open/, 150);
+  const text = fiction
+    ? storyParagraph(r, words)
+    : paragraph(r, topicOf(prompt), words);
+  return `\\chapter{${chapterTitle}}\n\n${text}`;
+}
+
+function mockSection(
+  prompt: string,
+  lastUser: string,
+  r: Rng,
+  fiction: boolean,
+  workbook: boolean,
+): string {
+  const title =
+    lastUser.match(/Start with \\section\{([^}]*)\}/)?.[1] || "Section";
+  const words = num(
+    lastUser,
+    /WORD COUNT TARGET for this (?:section|scene): (\d+) words/,
+    500,
+  );
+  if (fiction) return sceneLatex(title, words, r);
+  const n = num(lastUser, /section (\d+)\/\d+ of Chapter/, 1);
+  return sectionLatex(title, words, topicOf(prompt), r, {
+    box: BOXES[(n - 1) % BOXES.length],
+    table: n === 1,
+    exercise: workbook ? n - 1 : undefined,
+  });
+}
+
+function mockLengthPass(
+  lastUser: string,
+  r: Rng,
+  fiction: boolean,
+  workbook: boolean,
+): string {
+  const title =
+    lastUser.match(/Start with \\section\{([^}]*)\}/)?.[1] || "Section";
+  const words = num(lastUser, /TARGET: (\d+) words/, 400);
+  if (fiction) return sceneLatex(title, words, r);
+  return sectionLatex(title, words, "the topic", r, {
+    box: "examplebox",
+    table: false,
+    exercise: workbook ? 0 : undefined,
+  });
+}
+
+function mockSectionEdit(
+  lastUser: string,
+  r: Rng,
+  fiction: boolean,
+  workbook: boolean,
+): string {
+  const heading =
+    lastUser.match(/starting with \\section\{([^}]*)\}/)?.[1] || "Section";
+  const words = num(lastUser, /~(\d+) words in/, 400);
+  if (fiction) return sceneLatex(heading, words, r);
+  return sectionLatex(heading, words, "the topic", r, {
+    box: "examplebox",
+    table: false,
+    exercise: workbook ? 3 : undefined,
+  });
+}
+
+function sectionLatex(
+  title: string,
+  words: number,
+  topic: string,
+  r: Rng,
+  opts: {
+    box: (typeof BOXES)[number];
+    table: boolean;
+    /** Workbook: which of the EXERCISES closes the section */
+    exercise?: number;
+  },
+): string {
+  const out = [`\\section{${title}}`];
+  // Boxes and the table carry ~120 words; the rest is paragraphs
+  let remaining = Math.max(60, words - 120);
+  let n = 0;
+  while (remaining > 0) {
+    const len = Math.min(remaining, 70 + Math.floor(r() * 50));
+    out.push(paragraph(r, topic, len));
+    remaining -= len;
+    if (++n === 2) out.push(box(opts.box, r, topic));
+    if (n === 3 && opts.table) out.push(table(r, topic));
+  }
+  if (n < 2) out.push(box(opts.box, r, topic));
+  out.push(
+    `\\begin{keyinsight}{Key Insight}\n${sentence(r, topic)} ${sentence(r, topic)}\n\\end{keyinsight}`,
+  );
+  if (opts.exercise !== undefined) {
+    out.push(EXERCISES[opts.exercise % EXERCISES.length](r, topic));
+  }
+  return out.join("\n\n");
+}
+
+/** One of each workbook exercise type (services/workbook.ts) */
+const EXERCISES: ((r: Rng, topic: string) => string)[] = [
+  (r, topic) =>
+    [
+      "\\begin{exercise}{Check Your Understanding}",
+      `What should come first when applying ${topic}?`,
+      "\\begin{choices}",
+      "\\choice Rolling it out to every team at once",
+      "\\correctchoice Measuring the baseline before changing anything",
+      "\\choice Buying the most expensive tool on the market",
+      "\\end{choices}",
+      `\\answer{${sentence(r, topic)}}`,
+      "\\end{exercise}",
+    ].join("\n"),
+  () =>
+    [
+      "\\begin{exercise}{Fill in the Blanks}",
+      "Before any change, record the \\blank{baseline} so that the \\blank{improvement} can be measured later.",
+      "\\end{exercise}",
+    ].join("\n"),
+  (r, topic) =>
+    [
+      "\\begin{exercise}{Reflection}",
+      `Where could ${topic} save your team the most time this quarter?`,
+      "\\writelines{4}",
+      `\\answer{${sentence(r, topic)}}`,
+      "\\end{exercise}",
+    ].join("\n"),
+  () =>
+    [
+      "\\begin{worksheet}{Action Plan}",
+      "\\textbf{Goal:} what you want to change \\writelines{2}",
+      "\\textbf{First step:} what you will do this week \\writelines{2}",
+      "\\answer{Goal: cut report preparation from two days to one. First step: list every manual data export.}",
+      "\\end{worksheet}",
+    ].join("\n"),
+];
+
+/** Fiction: prose and dialogue only — no boxes, no tables */
+function sceneLatex(title: string, words: number, r: Rng): string {
+  const out = [`\\section{${title}}`];
+  let remaining = Math.max(60, words);
+  let n = 0;
+  while (remaining > 0) {
+    const len = Math.min(remaining, 70 + Math.floor(r() * 50));
+    out.push(++n % 3 === 2 ? dialogue(r) : storyParagraph(r, len));
+    remaining -= len;
+  }
+  return out.join("\n\n");
+}
+
+function box(env: string, r: Rng, topic: string): string {
+  const titles: Record<string, string> = {
+    tipbox: "Practical Tip",
+    examplebox: "Case Study: Northwind Analytics",
+    warningbox: "Common Mistake",
+  };
+  return `\\begin{${env}}{${titles[env]}}\n${sentence(r, topic)} ${sentence(r, topic)} ${sentence(r, topic)}\n\\end{${env}}`;
+}
+
+function table(r: Rng, topic: string): string {
+  const rows = ["Baseline", "After 3 months", "After 12 months"]
+    .map(
+      (label) =>
+        `${label} & ${capitalize(topic)} adoption across teams & ${10 + Math.floor(r() * 80)}\\% \\\\`,
+    )
+    .join("\n");
+  return `\\begin{table}[ht]
+\\centering
+\\caption{Illustrative benchmarks}
+\\begin{tabularx}{\\textwidth}{lXr}
+\\toprule
+\\textbf{Stage} & \\textbf{What is measured} & \\textbf{Value} \\\\
+\\midrule
+${rows}
+\\bottomrule
+\\end{tabularx}
+\\end{table}`;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Registry
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function mockRegistry(prompt: string): string {
+  const chapter = prompt.match(/CHAPTER (\d+): "([^"]*)"/);
+  const headings = [...prompt.matchAll(/^## (.+)$/gm)].map((m) => m[1].trim());
+  return JSON.stringify({
+    summary: `Chapter ${chapter?.[1] || "?"} "${chapter?.[2] || ""}" covers ${headings.slice(1).join(", ") || "its core topic"}.`,
+    usedExamples: ["Case Study: Northwind Analytics"],
+    usedStats: (prompt.match(/[^.\n]*\d+\\?%[^.\n]*/g) || [])
+      .slice(0, 3)
+      .map((s) => s.trim()),
+    keyTerms: headings.slice(1, 9),
+    closingTopic: headings[headings.length - 1] || "",
+  });
+}
+
+function mockStoryRegistry(prompt: string): string {
+  const chapter = prompt.match(/CHAPTER (\d+): "([^"]*)"/);
+  return JSON.stringify({
+    summary: `In chapter ${chapter?.[1] || "?"} "${chapter?.[2] || ""}", Mara searches the house while Jonas presses her to sell.`,
+    characters: [
+      `${CAST[0].name} — still in the house, holding Edda's letter`,
+      `${CAST[1].name} — suspects Mara has found something`,
+    ],
+    plotState: [
+      "Open: what Edda hid in the house",
+      `Resolved: who was on the stairs in chapter ${chapter?.[1] || "?"}`,
+    ],
+    closingTopic: "Mara locks the study door behind her",
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Fact check
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Supported when the claim's first number appears in its excerpts */
+function mockFactCheck(prompt: string): string {
+  const re = /═══ CLAIM (\d+): (.*)\nEXCERPTS:\n([\s\S]*?)(?=\n\n═══|$)/g;
+  const claims = [...prompt.matchAll(re)].map((m) => {
+    const n = m[2].match(/\d+/)?.[0];
+    const supported = !!n && m[3].includes(n);
+    return {
+      id: parseInt(m[1]),
+      verdict: supported ? "supported" : "unsupported",
+      source: m[3].match(/^\[([^\]]+)\]/)?.[1] || null,
+      note: supported ? "Same number in the excerpt" : "Not in the excerpts",
+    };
+  });
+  return JSON.stringify({ claims });
+}
+
+function mockFactRevise(prompt: string): string {
+  const paragraph =
+    prompt.match(/═══ PARAGRAPH ═══\n([\s\S]*?)\n\n═══ OUTPUT/)?.[1] || "";
+  return paragraph.replace(/\d+\\%/g, "a large share");
+}
+
+/** Fresh wording of about the same length */
+function mockOverlapRewrite(prompt: string, r: Rng): string {
+  const original =
+    prompt.match(/═══ PARAGRAPH ═══\n([\s\S]*?)\n\n═══ OUTPUT/)?.[1] || "";
+  return paragraph(r, "the topic", original.split(/\s+/).length);
+}
+
+/** Preface, introduction… — the dedication is a single line */
+function mockBookMatter(prompt: string, r: Rng): string {
+  if (/^A dedication:/m.test(prompt)) {
+    return "For everyone who does the work when nobody is watching.";
+  }
+  const topic = (
+    prompt.match(/\((?:topic|premise): ([^)\n]+)\)/)?.[1] || "the subject"
+  ).replace(/[\\{}$&%#_]/g, "");
+  const words = num(prompt, /About (\d+) words/, 300);
+  return split(words, Math.max(1, Math.round(words / 120)))
+    .map((w) => paragraph(r, topic, w))
+    .join("\n\n");
+}
+
+/** Reference material — a checklist and a table, no narrative */
+function mockAppendix(prompt: string, r: Rng): string {
+  const topic = (
+    prompt.match(/\(topic: ([^)\n]+)\)/)?.[1] || "the subject"
+  ).replace(/[\\{}$&%#_]/g, "");
+  const words = num(prompt, /About (\d+) words/, 400);
+  const items = Math.max(3, Math.round(words / 40));
+  const checklist = Array.from(
+    { length: items },
+    () => `  \\item ${sentence(r, topic)}`,
+  );
+  return [
+    "\\section{Checklist}",
+    ["\\begin{itemize}", ...checklist, "\\end{itemize}"].join("\n"),
+    "\\section{Reference Table}",
+    table(r, topic),
+  ].join("\n\n");
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Text helpers
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const OPENERS = [
+  "In practice",
+  "Across the teams we studied",
+  "According to a 2023 industry survey",
+  "In most mid-sized organisations",
+  "Over a typical twelve-month period",
+  "When the process is written down",
+];
+const CLAIMS = [
+  "teams that review {t} weekly cut rework by {n}\\%",
+  "a simple checklist for {t} prevents roughly {n}\\% of avoidable errors",
+  "the first {n} days decide whether {t} sticks",
+  "budgets for {t} pay back within {n} months when progress is measured",
+  "{n}\\% of practitioners underestimate how long {t} takes to mature",
+  "documenting decisions about {t} halves onboarding time for new staff",
+];
+
+function sentence(r: Rng, topic: string): string {
+  const claim = CLAIMS[Math.floor(r() * CLAIMS.length)]
+    .replace("{t}", topic)
+    .replace("{n}", String(5 + Math.floor(r() * 60)));
+  return `${OPENERS[Math.floor(r() * OPENERS.length)]}, ${claim}.`;
+}
+
+function paragraph(r: Rng, topic: string, words: number): string {
+  const out: string[] = [];
+  let count = 0;
+  while (count < words) {
+    const s = sentence(r, topic);
+    out.push(s);
+    count += s.split(/\s+/).length;
+  }
+  return out.join(" ");
+}
+
+const STORY_LINES = [
+  "Rain ticked against the kitchen window while {c} counted the keys again",
+  "{c} stopped on the third stair, where the boards always complained",
+  "The study smelled of pipe smoke and old paper, and {c} breathed it in",
+  "Somewhere below, a door closed that nobody should have opened",
+  "{c} turned the letter over; the handwriting slanted the way Edda's always had",
+  "The clock in the hall struck, late as ever, and {c} held still until it finished",
+];
+const STORY_SPEECH = [
+  "You weren't supposed to find that",
+  "Then tell me what it means",
+  "Sell the house, and none of this matters",
+  "She left it to me for a reason",
+];
+
+function storyParagraph(r: Rng, words: number): string {
+  const out: string[] = [];
+  let count = 0;
+  while (count < words) {
+    const line = STORY_LINES[Math.floor(r() * STORY_LINES.length)];
+    const s = `${line.replace("{c}", CAST[Math.floor(r() * 2)].name)}.`;
+    out.push(s);
+    count += s.split(/\s+/).length;
+  }
+  return out.join(" ");
+}
+
+function dialogue(r: Rng): string {
+  const who = CAST[Math.floor(r() * 2)].name;
+  const line = STORY_SPEECH[Math.floor(r() * STORY_SPEECH.length)];
+  return `\`\`${line},'' ${who} said, and for a moment neither of them moved.`;
+}
+
+function topicOf(prompt: string): string {
+  const m =
+    prompt.match(/Topic: ([^|\n]+)/i) || prompt.match(/TOPIC: ([^|\n]+)/);
+  return (m?.[1] || "the subject").trim().replace(/[\\{}$&%#_]/g, "");
+}
+
+function num(text: string, re: RegExp, fallback: number): number {
+  const m = text.match(re);
+  return m ? parseInt(m[1], 10) : fallback;
+}
+
+/** Split total into n near-equal integer parts */
+function split(total: number, n: number): number[] {
+  const base = Math.floor(total / n);
+  return Array.from({ length: n }, (_, i) => base + (i < total % n ? 1 : 0));
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+/** FNV-1a — seeds the generator from the prompt */
+function hash(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32 */
+function rng(seed: number): Rng {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
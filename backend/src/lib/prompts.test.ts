@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderTemplate } from "./prompts";
+
+test("renderTemplate inserts variables", () => {
+  assert.equal(
+    renderTemplate("t", "Chapter {{n}}: {{title}} ({{draft}})", {
+      n: 3,
+      title: "Ports",
+      draft: false,
+    }),
+    "Chapter 3: Ports (false)",
+  );
+});
+
+test("renderTemplate keeps {{#x}} blocks when truthy, {{^x}} when falsy", () => {
+  const body = "{{#fiction}}scene{{/fiction}}{{^fiction}}section{{/fiction}}";
+  assert.equal(renderTemplate("t", body, { fiction: true }), "scene");
+  assert.equal(renderTemplate("t", body, { fiction: false }), "section");
+  // Empty strings and 0 count as falsy
+  assert.equal(renderTemplate("t", body, { fiction: "" }), "section");
+  assert.equal(renderTemplate("t", body, { fiction: 0 }), "section");
+});
+
+test("renderTemplate unwraps nested sections", () => {
+  const body = "{{#a}}A{{#b}}B{{/b}}{{^b}}-{{/b}}{{/a}}";
+  assert.equal(renderTemplate("t", body, { a: true, b: true }), "AB");
+  assert.equal(renderTemplate("t", body, { a: true, b: false }), "A-");
+  assert.equal(renderTemplate("t", body, { a: false, b: true }), "");
+});
+
+test("renderTemplate leaves LaTeX braces around a variable", () => {
+  assert.equal(
+    renderTemplate("t", "\\section{{{title}}}", { title: "Intro" }),
+    "\\section{Intro}",
+  );
+});
+
+test("renderTemplate never re-scans inserted values", () => {
+  assert.equal(
+    renderTemplate("t", "Notes: {{notes}}", { notes: "{{secret}}" }),
+    "Notes: {{secret}}",
+  );
+});
+
+test("renderTemplate throws on a variable without a value", () => {
+  assert.throws(
+    () => renderTemplate("chapter.system", "{{missing}}", {}),
+    /Prompt "chapter\.system": no value for \{\{missing\}\}/,
+  );
+  assert.throws(
+    () => renderTemplate("t", "{{#missing}}x{{/missing}}", {}),
+    /no value for \{\{missing\}\}/,
+  );
+});
@@ -0,0 +1,238 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Prompt Template Registry
+// Built-in templates (src/prompts, version 1) plus newer versions added by
+// admins in the PromptTemplate table — no redeploy to tune a prompt.
+// Lookup order: project variant → "default"; project language → any
+// language; latest version wins. Every render returns a PromptRef that is
+// stored with what it produced (ProjectStructure / Chapter). Built-ins are
+// edited in place, so the ref carries a hash of the exact body; an admin
+// version written against an older built-in is flagged stale.
+//
+// Syntax: {{name}} inserts a variable, {{#name}}…{{/name}} keeps the block
+// when it is truthy, {{^name}}…{{/name}} when it is falsy.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { createHash } from "crypto";
+import { prisma } from "./prisma";
+import { BUILTIN_TEMPLATES } from "../prompts";
+
+export const DEFAULT_VARIANT = "default";
+export const BUILTIN_VERSION = 1;
+
+export interface PromptTemplateDef {
+  key: string;
+  description: string;
+  /** Every variable the body may use — checked when admins add versions */
+  variables: string[];
+  body: string;
+  /** Full replacement bodies per language code */
+  overrides?: Record<string, string>;
+}
+
+/** Which template produced a prompt */
+export interface PromptRef {
+  key: string;
+  version: number;
+  variant: string;
+  /** null = the language-neutral body */
+  language: string | null;
+  /** promptHash() of the body — built-ins keep BUILTIN_VERSION when edited */
+  hash?: string;
+}
+
+export type PromptVars = Record<string, string | number | boolean>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Rendering
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const SECTION_RE = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VAR_RE = /\{\{(\w+)\}\}/g;
+
+export function renderTemplate(
+  key: string,
+  body: string,
+  vars: PromptVars,
+): string {
+  const lookup = (name: string) => {
+    if (!(name in vars)) {
+      throw new Error(`Prompt "${key}": no value for {{${name}}}`);
+    }
+    return vars[name];
+  };
+
+  // Sections first, innermost last — each pass unwraps one nesting level
+  let out = body;
+  for (let prev = ""; prev !== out; ) {
+    prev = out;
+    out = out.replace(SECTION_RE, (_, kind, name, inner) =>
+      (kind === "#") === !!lookup(name) ? inner : "",
+    );
+  }
+  // Single pass — values are never re-scanned for {{…}}
+  return out.replace(VAR_RE, (_, name) => String(lookup(name)));
+}
+
+/** Names used in a body that the template doesn't declare */
+export function unknownVariables(def: PromptTemplateDef, body: string) {
+  const used = new Set(
+    [...body.matchAll(/\{\{[#^/]?(\w+)\}\}/g)].map((m) => m[1]),
+  );
+  return [...used].filter((name) => !def.variables.includes(name));
+}
+
+export function getBuiltinTemplate(key: string): PromptTemplateDef | null {
+  return BUILTIN_TEMPLATES.find((t) => t.key === key) || null;
+}
+
+/** Short content fingerprint of a template body */
+export function promptHash(body: string): string {
+  return createHash("sha256").update(body).digest("hex").substring(0, 12);
+}
+
+/** The built-in body an admin version of this language replaces */
+export function builtinBody(def: PromptTemplateDef, language: string | null) {
+  return (language && def.overrides?.[language]) || def.body;
+}
+
+/**
+ * An admin version written against a built-in that has changed since —
+ * it misses whatever instructions the new built-in added. Versions from
+ * before baseHash was tracked count as stale.
+ */
+export function isStaleVersion(
+  def: PromptTemplateDef,
+  version: { language: string | null; baseHash: string | null },
+): boolean {
+  return version.baseHash !== promptHash(builtinBody(def, version.language));
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Prompt set — templates resolved once per pipeline run
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface PromptSet {
+  language: string;
+  variant: string;
+  render(key: string, vars: PromptVars): { text: string; ref: PromptRef };
+}
+
+interface StoredTemplate {
+  key: string;
+  version: number;
+  variant: string;
+  language: string | null;
+  body: string;
+  baseHash: string | null;
+}
+
+export async function loadPromptSet(
+  language: string,
+  variant: string = DEFAULT_VARIANT,
+): Promise<PromptSet> {
+  const variants = [...new Set([variant, DEFAULT_VARIANT])];
+  const stored: StoredTemplate[] = await prisma.promptTemplate.findMany({
+    where: {
+      variant: { in: variants },
+      OR: [{ language }, { language: null }],
+    },
+    orderBy: { version: "desc" },
+    select: {
+      key: true,
+      version: true,
+      variant: true,
+      language: true,
+      body: true,
+      baseHash: true,
+    },
+  });
+
+  const resolve = (key: string): StoredTemplate => {
+    const builtin = getBuiltinTemplate(key);
+    if (!builtin) throw new Error(`Unknown prompt template "${key}"`);
+
+    for (const v of variants) {
+      for (const lang of [language, null]) {
+        const hit = stored.find(
+          (t) => t.key === key && t.variant === v && t.language === lang,
+        );
+        if (hit) {
+          if (isStaleVersion(builtin, hit)) {
+            console.warn(
+              `  ⚠️  [PROMPTS] ${key} v${hit.version} (${hit.variant}) predates the current built-in`,
+            );
+          }
+          return hit;
+        }
+        // Built-ins only exist in the default variant
+        if (v !== DEFAULT_VARIANT) continue;
+        const body = lang ? builtin.overrides?.[lang] : builtin.body;
+        if (body) {
+          return {
+            key,
+            version: BUILTIN_VERSION,
+            variant: v,
+            language: lang,
+            body,
+            baseHash: null,
+          };
+        }
+      }
+    }
+    throw new Error(`No body for prompt template "${key}"`);
+  };
+
+  return {
+    language,
+    variant,
+    render(key, vars) {
+      const t = resolve(key);
+      return {
+        text: renderTemplate(key, t.body, vars),
+        ref: {
+          key,
+          version: t.version,
+          variant: t.variant,
+          language: t.language,
+          hash: promptHash(t.body),
+        },
+      };
+    },
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Admin: add a version
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Versions are numbered per key, across variants and languages */
+export async function createTemplateVersion(input: {
+  key: string;
+  body: string;
+  variant?: string;
+  language?: string | null;
+  notes?: string;
+}) {
+  const def = getBuiltinTemplate(input.key);
+  if (!def) throw new Error(`Unknown prompt template "${input.key}"`);
+  const unknown = unknownVariables(def, input.body);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown variables: ${unknown.join(", ")}`);
+  }
+
+  const latest = await prisma.promptTemplate.aggregate({
+    where: { key: input.key },
+    _max: { version: true },
+  });
+  return prisma.promptTemplate.create({
+    data: {
+      key: input.key,
+      version: Math.max(latest._max.version || 0, BUILTIN_VERSION) + 1,
+      variant: input.variant || DEFAULT_VARIANT,
+      language: input.language || null,
+      body: input.body,
+      baseHash: promptHash(builtinBody(def, input.language || null)),
+      notes: input.notes || null,
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { after, afterEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { Queue } from "bullmq";
+import { closeQueue, enqueueGeneration } from "./queue";
+
+after(() => closeQueue());
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test("enqueueGeneration returns the queued job", async () => {
+  const add = mock.method(
+    Queue.prototype,
+    "add",
+    async (_name: string, _data: unknown, opts: any) => ({ id: opts.jobId }),
+  );
+  const job = await enqueueGeneration("chapter", "p1", "api", {
+    chapterNumber: 2,
+  });
+
+  assert.ok(job);
+  const [name, data, opts] = add.mock.calls[0].arguments as any[];
+  assert.equal(name, "chapter");
+  assert.deepEqual(data, { projectId: "p1", source: "api", chapterNumber: 2 });
+  assert.equal(job.id, opts.jobId);
+  assert.deepEqual(opts.deduplication, { id: "project-p1" });
+});
+
+test("enqueueGeneration returns null when a job is already pending", async () => {
+  // A deduplicated add hands back the pending job, not a new one
+  mock.method(Queue.prototype, "add", async () => ({ id: "pending-job" }));
+  assert.equal(await enqueueGeneration("compile", "p1"), null);
+});
@@ -0,0 +1,145 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Generation Job Queue
+// Durable BullMQ queue shared by the API (producer) and worker (consumer)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { Queue, type JobsOptions } from "bullmq";
+import IORedis from "ioredis";
+import { randomUUID } from "crypto";
+
+export const GENERATION_QUEUE = "bookforge-generation";
+
+/**
+ * Job kinds handled by the worker:
+ * - structure: research → structure (after payment / redo)
+ * - content:   chapters → review → compile
+ * - resume:    content, keeping chapters already LATEX_READY
+ * - compile:   PDF + EPUB only (on final failure → ERROR)
+ * - recompile: user-triggered rebuild (on final failure → back to COMPLETED)
+ * - research:  admin re-research
+ * - chapter:   rewrite one chapter from user feedback
+ * - section:   rewrite / expand / insert-after one \section{} of a chapter
+ * - review:    re-run the editorial review of a finished book
+ * - review-insert: write one missing topic of the latest review into the book
+ * - registry:  re-extract a chapter's registry after the user saved its text
+ */
+export type GenerationJobName =
+  | "structure"
+  | "content"
+  | "resume"
+  | "compile"
+  | "recompile"
+  | "research"
+  | "chapter"
+  | "section"
+  | "review"
+  | "review-insert"
+  | "registry";
+
+export interface GenerationJobData {
+  projectId: string;
+  /** Who queued the job — only used for logging */
+  source: "api" | "webhook" | "admin" | "recovery";
+  /** chapter, section + registry jobs */
+  chapterNumber?: number;
+  feedback?: string;
+  /** section jobs only */
+  section?: {
+    title: string;
+    action: "rewrite" | "expand" | "insert_after";
+    newTitle?: string;
+  };
+  /** review-insert jobs only — one of the latest review's missing_topics */
+  topic?: string;
+}
+
+/** Reply when a step could not be queued — see enqueueGeneration */
+export const JOB_PENDING_ERROR =
+  "Another job is running for this book — try again shortly";
+
+const DEFAULT_JOB_OPTIONS: JobsOptions = {
+  attempts: 3,
+  backoff: { type: "exponential", delay: 30_000 },
+  removeOnComplete: 100,
+  removeOnFail: 500,
+};
+
+let connection: IORedis | null = null;
+let queue: Queue<GenerationJobData, unknown, GenerationJobName> | null = null;
+
+/** Shared Redis connection (BullMQ requires maxRetriesPerRequest: null) */
+export function getRedisConnection(): IORedis {
+  if (!connection) {
+    connection = new IORedis(
+      process.env.REDIS_URL || "redis://localhost:6379",
+      { maxRetriesPerRequest: null },
+    );
+  }
+  return connection;
+}
+
+export function getGenerationQueue() {
+  if (!queue) {
+    queue = new Queue<GenerationJobData, unknown, GenerationJobName>(
+      GENERATION_QUEUE,
+      {
+        connection: getRedisConnection(),
+        defaultJobOptions: DEFAULT_JOB_OPTIONS,
+      },
+    );
+  }
+  return queue;
+}
+
+/**
+ * Find a waiting/active/delayed job for this project, if any.
+ * Lets routes refuse early, before they change any state.
+ */
+export async function findPendingJob(projectId: string) {
+  const jobs = await getGenerationQueue().getJobs([
+    "active",
+    "waiting",
+    "delayed",
+    "prioritized",
+  ]);
+  return jobs.find((j) => j?.data?.projectId === projectId) || null;
+}
+
+/**
+ * Queue a pipeline step for a project. One job per project at a time: BullMQ
+ * deduplicates on the project id until the pending job completes or finally
+ * fails, atomically. Returns null when another job was already pending — the
+ * step was NOT queued and the caller should tell the user so.
+ */
+export async function enqueueGeneration(
+  name: GenerationJobName,
+  projectId: string,
+  source: GenerationJobData["source"] = "api",
+  extra: Pick<
+    GenerationJobData,
+    "chapterNumber" | "feedback" | "section" | "topic"
+  > = {},
+) {
+  const jobId = randomUUID();
+  const job = await getGenerationQueue().add(
+    name,
+    { projectId, source, ...extra },
+    { jobId, deduplication: { id: `project-${projectId}` } },
+  );
+  // A deduplicated add hands back the job that is already pending
+  if (job.id !== jobId) {
+    console.log(
+      `  ℹ️  [QUEUE] ${name} for ${projectId} skipped — job ${job.id} already pending`,
+    );
+    return null;
+  }
+  console.log(`  📥 [QUEUE] ${name} queued for ${projectId} (job ${job.id})`);
+  return job;
+}
+
+export async function closeQueue() {
+  await queue?.close();
+  await connection?.quit();
+  queue = null;
+  connection = null;
+}
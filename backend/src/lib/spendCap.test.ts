@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { prisma } from "./prisma";
+import {
+  checkSpend,
+  parseDegradations,
+  SpendCapExceededError,
+} from "./spendCap";
+
+const log = { warn: () => {} } as any;
+const { findUnique, update } = prisma.project;
+
+/** A $10 cap with `spentUsd` spent; returns the update calls made */
+function stubProject(
+  spentUsd: number,
+  spendDegradations: string | null = null,
+) {
+  stubFind({
+    priceUsdCents: 5000,
+    spendCapUsd: 10,
+    totalCostUsd: spentUsd,
+    spendDegradations,
+  });
+  const stub = mock.fn(async (_args: any) => ({}));
+  prisma.project.update = stub as any;
+  return stub;
+}
+
+// Model delegates aren't plain methods, so mock.method() can't wrap them
+function stubFind(project: object) {
+  prisma.project.findUnique = (async () => project) as any;
+}
+
+beforeEach(() => {
+  delete process.env.ADMIN_EMAIL;
+});
+
+afterEach(() => {
+  Object.assign(prisma.project, { findUnique, update });
+});
+
+test("checkSpend does nothing below 70% of the cap", async () => {
+  const updates = stubProject(6.9);
+  assert.deepEqual(await checkSpend("p1", "chapter 1", log), new Set());
+  assert.equal(updates.mock.callCount(), 0);
+});
+
+test("checkSpend skips revisions from 70% and records it once", async () => {
+  const updates = stubProject(7);
+  assert.deepEqual(
+    await checkSpend("p1", "chapter 4", log),
+    new Set(["skip-revisions"]),
+  );
+  assert.equal(updates.mock.callCount(), 1);
+  const data = updates.mock.calls[0].arguments[0].data;
+  const [record] = parseDegradations(data.spendDegradations);
+  assert.equal(record.degradation, "skip-revisions");
+  assert.equal(record.step, "chapter 4");
+  assert.equal(record.capUsd, 10);
+  assert.equal(data.spendCapHitAt, undefined);
+
+  // Already recorded for this cap — still active, not written again
+  const again = stubProject(7.5, data.spendDegradations);
+  assert.deepEqual(
+    await checkSpend("p1", "chapter 5", log),
+    new Set(["skip-revisions"]),
+  );
+  assert.equal(again.mock.callCount(), 0);
+});
+
+test("checkSpend trims research from 85%", async () => {
+  stubProject(8.5);
+  assert.deepEqual(
+    await checkSpend("p1", "chapter 6", log),
+    new Set(["skip-revisions", "trim-research"]),
+  );
+});
+
+test("checkSpend halts at the cap", async () => {
+  const updates = stubProject(10);
+  await assert.rejects(
+    checkSpend("p1", "chapter 7", log),
+    (err) => err instanceof SpendCapExceededError && err.capUsd === 10,
+  );
+  const data = updates.mock.calls[0].arguments[0].data;
+  assert.ok(data.spendCapHitAt instanceof Date);
+});
+
+test("checkSpend never halts steps that can't halt", async () => {
+  const updates = stubProject(12);
+  assert.deepEqual(
+    await checkSpend("p1", "review revisions", log, { canHalt: false }),
+    new Set(["skip-revisions", "trim-research"]),
+  );
+  const data = updates.mock.calls[0].arguments[0].data;
+  assert.equal(data.spendCapHitAt, undefined);
+});
+
+test("checkSpend ignores books without a cap", async () => {
+  stubFind({
+    priceUsdCents: null,
+    spendCapUsd: null,
+    totalCostUsd: 500,
+    spendDegradations: null,
+  });
+  assert.deepEqual(await checkSpend("p1", "chapter 1", log), new Set());
+});
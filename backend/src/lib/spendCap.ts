@@ -0,0 +1,160 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Per-project Spend Cap
+// The cap is SPEND_CAP_PERCENT of the book's price (or an admin override).
+// Pipelines call checkSpend() before each expensive step; as spend nears
+// the cap they degrade in order: skip review revisions → trim research in
+// prompts → halt with an admin alert. Fired steps are kept on the project.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { prisma } from "./prisma";
+import { sendAdminAlert } from "./adminAlert";
+import type { createPipelineLogger } from "./logger";
+
+export type SpendDegradation = "skip-revisions" | "trim-research" | "halt";
+
+/** Share of the cap at which each degradation kicks in, in firing order */
+const DEGRADATION_THRESHOLDS: [SpendDegradation, number][] = [
+  ["skip-revisions", 0.7],
+  ["trim-research", 0.85],
+  ["halt", 1],
+];
+
+/** Stored as JSON in Project.spendDegradations */
+export interface SpendDegradationRecord {
+  degradation: SpendDegradation;
+  /** Pipeline step that noticed it, e.g. "chapter 7" */
+  step: string;
+  at: string;
+  spentUsd: number;
+  capUsd: number;
+}
+
+export class SpendCapExceededError extends Error {
+  constructor(
+    public projectId: string,
+    public spentUsd: number,
+    public capUsd: number,
+  ) {
+    super(
+      `Spend cap reached for ${projectId}: $${spentUsd.toFixed(2)} of $${capUsd.toFixed(2)}`,
+    );
+    this.name = "SpendCapExceededError";
+  }
+}
+
+/** null = uncapped (no price, or SPEND_CAP_PERCENT=0) */
+export function spendCapFor(project: {
+  priceUsdCents: number | null;
+  spendCapUsd: number | null;
+}): number | null {
+  if (project.spendCapUsd !== null) return project.spendCapUsd;
+  const percent = parseFloat(process.env.SPEND_CAP_PERCENT || "40");
+  if (!project.priceUsdCents || !(percent > 0)) return null;
+  return (project.priceUsdCents / 100) * (percent / 100);
+}
+
+export function parseDegradations(
+  json: string | null,
+): SpendDegradationRecord[] {
+  try {
+    return json ? JSON.parse(json) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Call before each expensive step. Returns the active degradations and
+ * records newly fired ones; throws SpendCapExceededError at the cap unless
+ * `canHalt` is false (steps that only decide whether to spend more).
+ * Spend comes from Project.totalCostUsd, which logger.api() increments
+ * asynchronously — it can trail the last call by a moment.
+ */
+export async function checkSpend(
+  projectId: string,
+  step: string,
+  log: ReturnType<typeof createPipelineLogger>,
+  { canHalt = true }: { canHalt?: boolean } = {},
+): Promise<Set<SpendDegradation>> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      priceUsdCents: true,
+      spendCapUsd: true,
+      totalCostUsd: true,
+      spendDegradations: true,
+    },
+  });
+  const capUsd = project ? spendCapFor(project) : null;
+  if (!project || capUsd === null) return new Set();
+
+  const spentUsd = project.totalCostUsd;
+  const active = new Set(
+    DEGRADATION_THRESHOLDS.filter(([, share]) => spentUsd >= capUsd * share)
+      .map(([degradation]) => degradation)
+      .filter((d) => canHalt || d !== "halt"),
+  );
+
+  // Record each degradation once per cap value (a raised cap starts over)
+  const records = parseDegradations(project.spendDegradations);
+  const fresh = [...active].filter(
+    (d) => !records.some((r) => r.degradation === d && r.capUsd === capUsd),
+  );
+  const halt = active.has("halt");
+  if (fresh.length > 0 || halt) {
+    const at = new Date();
+    for (const degradation of fresh) {
+      records.push({
+        degradation,
+        step,
+        at: at.toISOString(),
+        spentUsd,
+        capUsd,
+      });
+      log.warn(
+        `Spend $${spentUsd.toFixed(2)} of $${capUsd.toFixed(2)} cap — ${degradation} (at ${step})`,
+      );
+    }
+    await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        spendDegradations: JSON.stringify(records),
+        ...(halt ? { spendCapHitAt: at } : {}),
+      },
+    });
+  }
+
+  if (halt) {
+    // The dashboard lists projects with spendCapHitAt set; the email goes
+    // out once per cap value, like the degradation records
+    const summary = `${projectId} halted at ${step}: $${spentUsd.toFixed(2)} of $${capUsd.toFixed(2)}`;
+    console.error(`  🚨 [SPEND CAP] ${summary}`);
+    if (fresh.includes("halt")) {
+      await sendAdminAlert(
+        `Spend cap reached — ${projectId}`,
+        `Book ${summary}.\n\nRaise the cap and resume it at ${process.env.FRONTEND_URL}/admin/projects/${projectId}`,
+      );
+    }
+    throw new SpendCapExceededError(projectId, spentUsd, capUsd);
+  }
+  return active;
+}
+
+/**
+ * Final state after a halt: finished chapters are kept so the book can be
+ * resumed once an admin raises the cap (POST /api/admin/projects/:id/spend-cap).
+ */
+export async function markSpendCapHalted(projectId: string) {
+  await prisma.chapter.updateMany({
+    where: { projectId, status: "GENERATING" },
+    data: { status: "PENDING" },
+  });
+  await prisma.project.update({
+    where: { id: projectId },
+    data: {
+      generationStatus: "ERROR",
+      currentStage: "ERROR",
+      cancelRequestedAt: null,
+    },
+  });
+}
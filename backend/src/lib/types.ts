@@ -28,6 +28,7 @@ export type GenerationStatus =
   | "COMPILING_LATEX"
   | "COMPILING_EPUB"
   | "COMPLETED"
+  | "CANCELLED"
   | "ERROR";
 
 export type ChapterStatus =
@@ -95,6 +96,8 @@ export interface PageSizeTier {
   maxPages: number;
   chapters: number;
   sectionsPerChapter: string;
+  /** Appendix pages on top of the chapters — checklists, templates, tables */
+  appendixPages: number;
   label: string;
   description: string;
 }
@@ -107,6 +110,7 @@ export const PAGE_SIZE_TIERS: PageSizeTier[] = [
     maxPages: 40,
     chapters: 3,
     sectionsPerChapter: "2-3",
+    appendixPages: 2,
     label: "Compact",
     description: "30–40 pages · 3 chapters",
   },
@@ -117,6 +121,7 @@ export const PAGE_SIZE_TIERS: PageSizeTier[] = [
     maxPages: 70,
     chapters: 4,
     sectionsPerChapter: "3-4",
+    appendixPages: 4,
     label: "Standard",
     description: "50–70 pages · 4 chapters",
   },
@@ -127,6 +132,7 @@ export const PAGE_SIZE_TIERS: PageSizeTier[] = [
     maxPages: 100,
     chapters: 6,
     sectionsPerChapter: "3-4",
+    appendixPages: 6,
     label: "Extended",
     description: "80–100 pages · 6 chapters",
   },
@@ -137,6 +143,7 @@ export const PAGE_SIZE_TIERS: PageSizeTier[] = [
     maxPages: 150,
     chapters: 8,
     sectionsPerChapter: "3-5",
+    appendixPages: 8,
     label: "Comprehensive",
     description: "130–150 pages · 8 chapters",
   },
@@ -147,6 +154,7 @@ export const PAGE_SIZE_TIERS: PageSizeTier[] = [
     maxPages: 200,
     chapters: 10,
     sectionsPerChapter: "4-5",
+    appendixPages: 10,
     label: "Complete",
     description: "170–200 pages · 10 chapters",
   },
@@ -268,6 +276,26 @@ export const STYLE_PRESETS = [
   "business",
 ] as const;
 export const BOOK_FORMATS = ["a5", "b5", "letter", "a4"] as const;
+export const BOOK_GENRES = ["nonfiction", "fiction"] as const;
+export type BookGenre = (typeof BOOK_GENRES)[number];
+export const AUDIENCES = [
+  "beginner",
+  "practitioner",
+  "executive",
+  "academic",
+] as const;
+export const TONES = ["formal", "conversational", "academic"] as const;
+export const READING_LEVELS = ["basic", "standard", "advanced"] as const;
+/** Front matter, then back matter — in book order */
+export const BOOK_MATTER = [
+  "dedication",
+  "preface",
+  "acknowledgements",
+  "introduction",
+  "conclusion",
+  "about-author",
+] as const;
+export type BookMatterKind = (typeof BOOK_MATTER)[number];
 
 // ── API Response Types ──
 
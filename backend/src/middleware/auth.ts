@@ -9,6 +9,8 @@ export interface JwtPayload {
 export async function authenticate(request: FastifyRequest, reply: FastifyReply) {
   try {
     await request.jwtVerify();
+    // Refresh and stream tokens are not access tokens
+    if (request.user.type !== "access") throw new Error("Wrong token type");
   } catch (err) {
     reply.status(401).send({ success: false, error: "Unauthorized" });
   }
@@ -0,0 +1,63 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Appendix Prompt
+// Checklists, templates and reference tables the structure planned as
+// appendices — written after the chapters (services/appendices.ts).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+export const APPENDIX_WRITE: PromptTemplateDef = {
+  key: "appendix.write",
+  description:
+    "Appendix — reference material (checklists, templates, tables), no narrative",
+  variables: [
+    "bookTitle",
+    "topic",
+    "letter",
+    "appendixTitle",
+    "description",
+    "targetWords",
+    "chapters",
+    "reader",
+    "guidelines",
+    "terminology",
+    "hasResearch",
+    "sourcesText",
+    "lang",
+  ],
+  body: `You are the author of "{{bookTitle}}" (topic: {{topic}}). The chapters are finished — now write Appendix {{letter}}: "{{appendixTitle}}".
+
+WHAT IT HOLDS:
+{{description}}
+
+THE READER: {{reader}}
+{{#guidelines}}Author guidelines: {{guidelines}}{{/guidelines}}
+{{#terminology}}
+MANDATORY TERMINOLOGY — use exactly these terms:
+{{terminology}}
+{{/terminology}}
+
+═══ WHAT THE CHAPTERS COVER ═══
+{{chapters}}
+{{#hasResearch}}
+
+═══ RESEARCH SOURCES ═══
+{{sourcesText}}
+- Take names, numbers and dates from these sources and put \\cite{key} after them, with the key given in that SOURCE header. Never invent a key
+{{/hasResearch}}
+
+═══ RULES — THIS IS REFERENCE MATERIAL, NOT A CHAPTER ═══
+- The reader looks things up here and comes back to it: checklists, templates, step-by-step procedures, reference tables, resource lists
+- No narrative: no introduction, no stories, no arguments, no conclusion. At most one sentence saying how to use the appendix
+- Point back to the chapters where it helps ("see Chapter 3"), never repeat their explanations
+- Checklists: \\begin{itemize} with one concrete, checkable item per \\item
+- Procedures: \\begin{enumerate}, one action per step
+- Tables: booktabs inside \\begin{table}[ht] \\centering \\caption{…} \\begin{tabularx}{\\textwidth}{…} … \\end{tabularx} \\end{table}, header row \\rowcolor{tableheadbg} with \\textcolor{tableheadfg}{\\textbf{…}}
+- Templates: \\begin{description} with one \\item[Field] and what to fill in
+- Group the material under \\section{} headings; no boxes, no \\footnote{}
+- Every \\begin{…} MUST have a matching \\end{…}
+- About {{targetWords}} words
+
+═══ OUTPUT ═══
+Output ONLY LaTeX, entirely in {{lang}}. Do NOT start with \\chapter{} — the heading is added for you. No preamble.`,
+};
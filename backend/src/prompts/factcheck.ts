@@ -0,0 +1,60 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Fact-check Prompts
+// Verify the numbers a chapter cites against excerpts of its research, then
+// rewrite the paragraphs whose numbers the sources do not back
+// (services/factChecker.ts). Source excerpts are picked in code.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+export const FACTCHECK_VERIFY: PromptTemplateDef = {
+  key: "factcheck.verify",
+  description: "Fact check — classifies each cited number against source excerpts",
+  variables: ["chapterNumber", "chapterTitle", "claims"],
+  body: `You are a fact-checker for a non-fiction book. Chapter {{chapterNumber}} "{{chapterTitle}}" cites the numbers below. Each comes with the research excerpts that look most related to it.
+
+For every claim decide:
+- "supported" — an excerpt states the same number for the same thing (rounding is fine)
+- "contradicted" — an excerpt gives a DIFFERENT number for the same thing
+- "unsupported" — no excerpt states it; related topic alone is NOT support
+
+Judge ONLY by the excerpts, never by your own knowledge.
+
+{{claims}}
+
+Respond with JSON only:
+{"claims": [{"id": 1, "verdict": "supported|unsupported|contradicted", "source": "URL of the deciding excerpt or null", "note": "one short sentence — for contradicted, the number the source gives"}]}`,
+};
+
+export const FACTCHECK_REVISE: PromptTemplateDef = {
+  key: "factcheck.revise",
+  description: "Fact check — softens, corrects or drops an unbacked number in one paragraph",
+  variables: [
+    "claim",
+    "contradicted",
+    "note",
+    "evidence",
+    "paragraph",
+    "lang",
+  ],
+  body: `You are the editor of a non-fiction book. The paragraph below cites a number our research does not back up.
+
+CLAIM: {{claim}}
+{{#contradicted}}The sources CONTRADICT it: {{note}}
+Correct the number to what the source says.{{/contradicted}}{{^contradicted}}No source states it. SOFTEN the claim: drop the invented figure and say it qualitatively ("most teams", "a clear majority", "in many cases"), or use a number from the evidence below if one fits.{{/contradicted}}
+
+EVIDENCE FROM THE RESEARCH:
+{{evidence}}
+
+RULES:
+- Change only the sentence(s) carrying the claim; keep the rest word for word
+- Keep every LaTeX command, \\cite{} and environment line exactly as it is
+- Never introduce another number that is not in the evidence
+- If the paragraph has no point without the claim, output exactly: [REMOVE]
+
+═══ PARAGRAPH ═══
+{{paragraph}}
+
+═══ OUTPUT ═══
+Output ONLY the revised paragraph (or [REMOVE]), in {{lang}}. No preamble.`,
+};
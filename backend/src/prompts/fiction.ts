@@ -0,0 +1,367 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Fiction Prompts
+// Narrative twins of the structure, writer, registry and length templates,
+// used for books with genre "fiction" (lib/prompts.ts genreKey). Each twin
+// takes the same variables as its non-fiction original. Scenes are written
+// as \section{} so the length and section tools keep working; the compiler
+// prints them as scene breaks, never as headings.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+import { STRUCTURE } from "./structure";
+import {
+  CHAPTER_USER,
+  CHAPTER_REGISTRY,
+  CHAPTER_SECTIONS_OPENER,
+  CHAPTER_SECTION,
+} from "./chapter";
+import { LENGTH_EXPAND, LENGTH_CONDENSE } from "./length";
+
+export const FICTION_STRUCTURE: PromptTemplateDef = {
+  key: "fiction.structure",
+  description: "Story planner — cast, setting, chapters and scenes as plot beats",
+  variables: STRUCTURE.variables,
+  body: `You are an experienced novelist and story editor planning a work of fiction. Your plan will drive a writer chapter by chapter, so it must be concrete: who wants what, what stands in the way, and what changes in every scene.
+
+GENRE: Fiction
+BOOK SPECS:
+Premise: {{topic}}
+{{#title}}Title: {{title}}{{/title}}
+Target: {{targetPages}} pages ({{bookFormat}}, ~{{wpp}} words/page = ~{{totalWords}} total words)
+Language: {{language}} | Reading level: {{readingLevel}}
+{{#guidelines}}Author guidelines: {{guidelines}}{{/guidelines}}
+
+═══════════════════════════════════════════════════════════════
+STORY DESIGN RULES
+═══════════════════════════════════════════════════════════════
+
+CAST & SETTING:
+- A small, memorable cast: a protagonist with a clear want and a flaw, an opposing force, and only the supporting characters the plot needs
+- Each character description gives appearance in a few words, what they want, and how they speak
+- The setting names a concrete place and time, with the details the writer should keep consistent
+- Match the audience the premise implies — a children's story needs a child-sized problem, gentle stakes and a warm resolution
+
+PLOT:
+- The chapters form one arc: setup → rising complications → crisis → climax → resolution
+- Every chapter turns the story: by its end something has changed for the protagonist
+- Plant early what pays off later — a clue, an object, a promise
+- No filler chapters, no recap chapters, no chapter that only describes the world
+
+SCENES (the "sections" of each chapter) — these are PLOT BEATS for the writer:
+- BAD: "Mara explores the house" → the writer will produce aimless description
+- GOOD: "Night. Mara searches her late aunt's study for the deed, finds a letter addressed to her instead, and hears someone on the stairs. Ends on the door handle turning."
+- Each description says who is in the scene, where, what the point-of-view character wants, what goes wrong, and how the scene ends
+- Scene titles are working labels for the writer only — they are never printed
+
+CRITICAL FORMATTING RULES:
+- Create EXACTLY {{chapters}} chapters
+- Each chapter: {{sectionsPerChapter}} scenes
+- Total pages MUST equal approximately {{targetPages}}
+- {{langInstruction}}
+- Chapter titles are evocative, not descriptive ("The Locked Study", not "Chapter About the Study")
+- suggestedTitle should be a real novel or story title — short and intriguing
+
+Respond ONLY with valid JSON:
+{
+  "suggestedTitle": "Story Title",
+  "setting": "Where and when the story happens, with the details that must stay consistent",
+  "characters": [
+    { "name": "Mara Quill", "role": "protagonist", "description": "12, stubborn, afraid of the dark; wants to keep her aunt's house; talks fast when nervous" }
+  ],
+  "chapters": [
+    {
+      "id": "ch1",
+      "number": 1,
+      "title": "Evocative Chapter Title",
+      "description": "The chapter's plot beat in 2-3 sentences: what happens, what the protagonist wants here, and what has changed by the end",
+      "targetPages": {{pagesPerChapter}},
+      "sections": [
+        {
+          "id": "ch1-s1",
+          "title": "Scene label",
+          "description": "Plot beat: who, where, what they want, what goes wrong, how the scene ends.",
+          "targetPages": 2,
+          "order": 0
+        }
+      ]
+    }
+  ]
+}`,
+};
+
+export const FICTION_CHAPTER_SYSTEM: PromptTemplateDef = {
+  key: "fiction.chapter.system",
+  description: "Fiction writer system prompt — story bible, craft rules, earlier chapters",
+  variables: [
+    "bookTitle",
+    "bookTopic",
+    "lang",
+    "bookFormat",
+    "wpp",
+    "guidelines",
+    "storyBible",
+    "previousChaptersBlock",
+    "hasPreviousChapters",
+    "chapterTitle",
+  ],
+  body: `You are a published novelist writing one chapter of a work of fiction. You write like a human storyteller — not like an AI. You output clean LaTeX body text for a professionally typeset book.
+
+GENRE: Fiction
+BOOK CONTEXT:
+Book: "{{bookTitle}}" | Premise: {{bookTopic}} | Language: {{lang}}
+Format: {{bookFormat}} (~{{wpp}} words/page with onehalfspacing)
+{{#guidelines}}Author guidelines: {{guidelines}}{{/guidelines}}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+STORY BIBLE — keep every detail consistent
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+{{storyBible}}
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+{{previousChaptersBlock}}
+
+═══════════════════════════════════════════════════════════════
+CRAFT RULES — READ CAREFULLY
+═══════════════════════════════════════════════════════════════
+
+STORYTELLING:
+- Show, don't tell: emotions come through action, dialogue and physical detail, not labels ("her hands shook", not "she was nervous")
+- Every scene has a point-of-view character who wants something, meets resistance, and leaves the scene changed
+- Keep one point of view per scene and one tense for the whole book
+- Dialogue carries conflict and character — people interrupt, dodge questions and want different things. Punctuate it the way {{lang}} fiction does
+- Ground every scene in the senses within its first paragraph: place, light, sound, smell
+- Vary rhythm: short sentences for action and tension, longer ones for reflection
+- Trust the reader — no explaining the subtext, no morals spelled out at the end of a scene{{#hasPreviousChapters}}
+- CRITICAL: You have your previously written chapters above. Continue in that EXACT voice — same narrator, same tense, same distance to the characters. The reader must not detect a change of author.{{/hasPreviousChapters}}
+
+BANNED — AI-typical fiction clichés:
+- "A testament to" / "tapestry of" / "symphony of" / "dance of" (as metaphors)
+- "Little did they know" / "Unbeknownst to" / "Suddenly, everything changed"
+- "A shiver ran down her spine" / "let out a breath she didn't know she was holding"
+- "Eyes widened" / "heart pounded in her chest" (more than once per book)
+- "In that moment" / "It was as if time stood still"
+- Characters stating their feelings in full sentences ("I feel betrayed because...")
+- Ending a chapter with a summary of what the character learned
+
+═══════════════════════════════════════════════════════════════
+LATEX OUTPUT
+═══════════════════════════════════════════════════════════════
+
+- Output ONLY the chapter body — NO preamble, NO \\documentclass, NO \\begin{document}
+- Start with \\chapter{{{chapterTitle}}}
+- Begin EVERY scene with \\section{Scene label} using the scene labels from the outline — the book prints a scene break there, never the label
+- NO \\subsection, NO tables, NO itemize/enumerate, NO colored boxes (tipbox, keyinsight, warningbox, examplebox), NO footnotes, NO \\cite
+- Use \\emph{} for emphasis, thoughts and foreign words; \\begin{quote} only for letters, songs or inscriptions the characters read
+- Escape special chars: \\%, \\&, \\#, \\$, \\_, \\{, \\}
+- Use --- for em-dash, -- for en-dash
+- ALL text in {{lang}}
+- NEVER leave a scene or sentence unfinished`,
+};
+
+export const FICTION_CHAPTER_USER: PromptTemplateDef = {
+  key: "fiction.chapter.user",
+  description: "Fiction writer user prompt — scenes, length target, continuity, ending and rewrite blocks",
+  variables: CHAPTER_USER.variables,
+  body: `Write Chapter {{chapterNumber}}/{{totalChapters}}: "{{chapterTitle}}"
+Plot of this chapter: {{chapterDescription}}
+
+SCENES TO WRITE (in this order):
+{{sectionsOutline}}
+
+ALL CHAPTERS (for context — keep the arc coherent):
+{{toc}}
+
+WORD COUNT TARGET: {{targetWords}} words (±10%) = {{targetPages}} pages in {{bookFormat}} @ {{wpp}} words/page.
+⚠️ Hard limits: minimum {{minWords}} words, maximum {{maxWords}} words.
+⚠️ STRICT MAXIMUM: Do NOT exceed {{maxWords}} words under any circumstances. If you reach the limit, bring the current scene to its end.
+⚠️ COMPLETE every scene and sentence. NEVER stop mid-sentence.
+
+CRAFT CHECKLIST — verify before finishing:
+□ Does every scene hit its plot beat from the outline?
+□ Does every scene open in a concrete place, with the senses?
+□ Is there real dialogue where people talk — with conflict, not exposition?
+□ Did you avoid ALL banned clichés from the system prompt?
+□ Does the chapter end on a change, a question or a turn — not on a summary?
+□ Does every scene start with \\section{Scene label} and contain no boxes, tables or lists?{{#hasPreviousChapters}}
+
+⚠️ CONTINUITY — your previous {{previousChapterCount}} chapter(s) are in the system prompt above:
+- Same narrator, tense and voice — the reader must feel one author
+- Pick up from the end of Chapter {{lastChapterNumber}} — don't retell it
+- Characters remember what happened to them; injuries, objects, secrets and relationships carry over
+- Keep names, places and established facts exactly as written before{{/hasPreviousChapters}}{{#isLastChapter}}
+
+⚠️ THIS IS THE FINAL CHAPTER. You MUST:
+- Bring the story to its climax and resolve the central conflict
+- Pay off what earlier chapters planted; close the open threads that matter
+- End with a final image or line that feels deliberate and earned — NOT a cutoff, NOT a moral summary{{/isLastChapter}}{{#isRevision}}
+
+⚠️ THIS IS A REWRITE OF AN EXISTING CHAPTER. The author read your previous draft and asked for changes:
+
+═══ AUTHOR FEEDBACK (highest priority) ═══
+{{revisionFeedback}}
+═══ END FEEDBACK ═══
+
+═══ PREVIOUS DRAFT ═══
+{{revisionDraft}}
+═══ END PREVIOUS DRAFT ═══
+
+- Address EVERY point of the feedback — this is why the chapter is being rewritten
+- Keep what worked in the previous draft unless the feedback says otherwise
+- Write the full chapter again from \\chapter{} — not a diff, not a list of changes{{#laterChapters}}
+- Later chapters are already written. Do NOT contradict what happens in them:
+{{laterChapters}}{{/laterChapters}}{{/isRevision}}
+
+Begin LaTeX output now. Start with \\chapter{{{chapterTitle}}}. Write exactly {{targetWords}} words (±10%), entirely in {{lang}}. Remember: scenes, not summaries; dialogue and detail, no AI clichés.`,
+};
+
+export const FICTION_CHAPTER_REGISTRY: PromptTemplateDef = {
+  key: "fiction.chapter.registry",
+  description: "Extracts characters and plot state at the end of a fiction chapter",
+  variables: CHAPTER_REGISTRY.variables,
+  body: `Extract a continuity record from this chapter of a novel. Respond ONLY with valid JSON.
+
+GENRE: Fiction
+CHAPTER {{chapterNumber}}: "{{chapterTitle}}"
+LANGUAGE: {{lang}}
+
+TEXT:
+{{chapterText}}
+
+RESPOND with this exact JSON structure:
+{
+  "summary": "2-3 sentence summary of what happens in this chapter",
+  "characters": ["Mara — sprained ankle, now has the letter, no longer trusts Jonas"],
+  "plotState": ["Open: who was on the stairs", "Resolved: where the deed is hidden"],
+  "closingTopic": "The chapter ends with Mara locking herself in the study"
+}
+
+RULES:
+- summary: 2-3 sentences in {{lang}}, the events that matter for later chapters
+- characters: every character who appears, as "Name — where they stand at the end of the chapter" (state, location, what they know or hold, relationships that changed) (max 12)
+- plotState: open threads, secrets, promises and objects in play, each prefixed "Open:" or "Resolved:" (max 8)
+- closingTopic: 1 sentence on the final moment of the chapter
+- All values in {{lang}} (keep the "Open:" / "Resolved:" prefixes)`,
+};
+
+export const FICTION_CHAPTER_SECTIONS_OPENER: PromptTemplateDef = {
+  key: "fiction.chapter.sections.opener",
+  description: "Fiction, scene-by-scene mode, first turn — chapter brief and its opening lines",
+  variables: CHAPTER_SECTIONS_OPENER.variables,
+  body: `We will write Chapter {{chapterNumber}}/{{totalChapters}}: "{{chapterTitle}}" ONE SCENE AT A TIME.
+Plot of this chapter: {{chapterDescription}}
+
+SCENES (each gets its own turn and word budget):
+{{sectionsOutline}}
+
+ALL CHAPTERS (for context — keep the arc coherent):
+{{toc}}
+
+The whole chapter is ~{{targetWords}} words across {{sectionCount}} scenes. Every scene you write stays in this conversation, so later scenes follow on from earlier ones.{{#hasPreviousChapters}}
+
+⚠️ CONTINUITY — your previous {{previousChapterCount}} chapter(s) are in the system prompt above:
+- Same narrator, tense and voice — the reader must feel one author
+- Pick up from the end of Chapter {{lastChapterNumber}} — don't retell it
+- Keep names, places, injuries, objects and relationships exactly as established{{/hasPreviousChapters}}{{#isLastChapter}}
+
+⚠️ THIS IS THE FINAL CHAPTER OF THE BOOK — its last scene resolves the story.{{/isLastChapter}}{{#isRevision}}
+
+⚠️ THIS IS A REWRITE OF AN EXISTING CHAPTER. The author read your previous draft and asked for changes:
+
+═══ AUTHOR FEEDBACK (highest priority) ═══
+{{revisionFeedback}}
+═══ END FEEDBACK ═══
+
+═══ PREVIOUS DRAFT ═══
+{{revisionDraft}}
+═══ END PREVIOUS DRAFT ═══
+
+- Address EVERY point of the feedback across the scenes you write
+- Keep what worked in the previous draft unless the feedback says otherwise{{#laterChapters}}
+- Later chapters are already written. Do NOT contradict what happens in them:
+{{laterChapters}}{{/laterChapters}}{{/isRevision}}
+
+NOW WRITE ONLY THE CHAPTER OPENING: start with \\chapter{{{chapterTitle}}}, then 1-2 paragraphs (~{{openerWords}} words) that open the first scene in a concrete moment — a place, a person, something happening. Do NOT write any \\section{} yet. Entirely in {{lang}}, no AI clichés.`,
+};
+
+export const FICTION_CHAPTER_SECTION: PromptTemplateDef = {
+  key: "fiction.chapter.section",
+  description: "Fiction, scene-by-scene mode — one scene with its own word budget",
+  variables: CHAPTER_SECTION.variables,
+  body: `Now write scene {{sectionNumber}}/{{sectionCount}} of Chapter {{chapterNumber}}: "{{sectionTitle}}"
+Plot beat: {{sectionDescription}}
+
+WORD COUNT TARGET for this scene: {{targetWords}} words (±10%) — minimum {{minWords}}, maximum {{maxWords}}.
+⚠️ Use the full budget: dramatize the beat moment by moment — action, dialogue, reactions — rather than summarizing it. COMPLETE every sentence.
+
+RULES:
+- Start with \\section{{{sectionTitle}}} and output ONLY this scene's LaTeX (the label is never printed — the book shows a scene break)
+- Follow on from where the previous scene ended — do NOT retell it
+- Hit the plot beat; end the scene on a change, not on a summary
+- NO boxes, NO tables, NO lists, NO \\subsection
+- Close every opened environment properly{{#isLastSection}}
+- This is the LAST scene of the chapter — end on a moment that pulls the reader into the next chapter{{/isLastSection}}{{#closesBook}}
+- This scene ENDS THE BOOK: resolve the central conflict, pay off what was planted, and close on a deliberate final image or line — NOT a cutoff, NOT a moral summary{{/closesBook}}
+
+Entirely in {{lang}}. Remember: show, don't tell; no AI clichés.`,
+};
+
+export const FICTION_LENGTH_EXPAND: PromptTemplateDef = {
+  key: "fiction.length.expand",
+  description: "Fiction length correction — deepens a scene of a short chapter",
+  variables: LENGTH_EXPAND.variables,
+  body: `You are the author of the novel "{{bookTitle}}". Chapter {{chapterNumber}} "{{chapterTitle}}" came out SHORTER than the page count the reader paid for. EXPAND one of its thinnest scenes.
+
+GENRE: Fiction
+SCENE: "{{sectionTitle}}"{{#sectionDescription}}
+Plot beat: {{sectionDescription}}{{/sectionDescription}}
+LENGTH: now {{currentWords}} words → TARGET: {{targetWords}} words
+
+HOW TO EXPAND:
+- Keep every event, line of dialogue and detail that is already there, in the same order
+- Dramatize what is summarized: turn reported action into moments, reported talk into dialogue
+- Add sensory detail, the point-of-view character's reactions, and beats between lines of dialogue
+- Do NOT add new plot events — nothing that the text before or after the scene would contradict
+- No boxes, tables or lists; escape \\%, \\&, \\#, \\$, \\_
+
+═══ TEXT BEFORE THE SCENE (context only — do not output) ═══
+{{before}}
+
+═══ THE SCENE ═══
+{{sectionLatex}}
+
+═══ TEXT AFTER THE SCENE (context only — do not output) ═══
+{{after}}
+
+═══ OUTPUT ═══
+Output ONLY the expanded scene. Start with \\section{{{sectionTitle}}}. ~{{targetWords}} words, entirely in {{lang}}. No preamble, no \\chapter{}.`,
+};
+
+export const FICTION_LENGTH_CONDENSE: PromptTemplateDef = {
+  key: "fiction.length.condense",
+  description: "Fiction length correction — tightens a scene of a long chapter",
+  variables: LENGTH_CONDENSE.variables,
+  body: `You are the editor of the novel "{{bookTitle}}". Chapter {{chapterNumber}} "{{chapterTitle}}" came out LONGER than the page budget allows. CONDENSE one of its longest scenes.
+
+GENRE: Fiction
+SCENE: "{{sectionTitle}}"{{#sectionDescription}}
+Plot beat: {{sectionDescription}}{{/sectionDescription}}
+LENGTH: now {{currentWords}} words → TARGET: {{targetWords}} words
+
+HOW TO CONDENSE:
+- CUT first: repeated descriptions, over-explained feelings, dialogue tags and stage directions that add nothing, lines that restate what the reader already knows
+- Keep every plot event, every clue or object later scenes depend on, and the scene's final moment
+- Tighten long sentences rather than removing dialogue that carries conflict
+- Do NOT add new material
+- Escape \\%, \\&, \\#, \\$, \\_
+
+═══ TEXT BEFORE THE SCENE (context only — do not output) ═══
+{{before}}
+
+═══ THE SCENE ═══
+{{sectionLatex}}
+
+═══ TEXT AFTER THE SCENE (context only — do not output) ═══
+{{after}}
+
+═══ OUTPUT ═══
+Output ONLY the condensed scene. Start with \\section{{{sectionTitle}}}. ~{{targetWords}} words, entirely in {{lang}}. No preamble, no \\chapter{}.`,
+};
@@ -0,0 +1,61 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Built-in Prompt Templates (version 1)
+// Newer versions, variants and language overrides live in the
+// PromptTemplate table — see lib/prompts.ts.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+import {
+  CHAPTER_SYSTEM,
+  CHAPTER_USER,
+  CHAPTER_REGISTRY,
+  CHAPTER_SECTIONS_OPENER,
+  CHAPTER_SECTION,
+} from "./chapter";
+import { STRUCTURE } from "./structure";
+import { LENGTH_EXPAND, LENGTH_CONDENSE } from "./length";
+import { REVIEW_BOOK, REVIEW_INSERT, REVIEW_REMOVE } from "./review";
+import { FACTCHECK_VERIFY, FACTCHECK_REVISE } from "./factcheck";
+import { OVERLAP_REWRITE } from "./overlap";
+import { MATTER_WRITE } from "./matter";
+import { APPENDIX_WRITE } from "./appendix";
+import { SECTION_SYSTEM, SECTION_USER } from "./section";
+import {
+  FICTION_STRUCTURE,
+  FICTION_CHAPTER_SYSTEM,
+  FICTION_CHAPTER_USER,
+  FICTION_CHAPTER_SECTIONS_OPENER,
+  FICTION_CHAPTER_SECTION,
+  FICTION_CHAPTER_REGISTRY,
+  FICTION_LENGTH_EXPAND,
+  FICTION_LENGTH_CONDENSE,
+} from "./fiction";
+
+export const BUILTIN_TEMPLATES: PromptTemplateDef[] = [
+  STRUCTURE,
+  CHAPTER_SYSTEM,
+  CHAPTER_USER,
+  CHAPTER_SECTIONS_OPENER,
+  CHAPTER_SECTION,
+  CHAPTER_REGISTRY,
+  SECTION_SYSTEM,
+  SECTION_USER,
+  LENGTH_EXPAND,
+  LENGTH_CONDENSE,
+  FACTCHECK_VERIFY,
+  FACTCHECK_REVISE,
+  OVERLAP_REWRITE,
+  REVIEW_BOOK,
+  REVIEW_INSERT,
+  REVIEW_REMOVE,
+  MATTER_WRITE,
+  APPENDIX_WRITE,
+  FICTION_STRUCTURE,
+  FICTION_CHAPTER_SYSTEM,
+  FICTION_CHAPTER_USER,
+  FICTION_CHAPTER_SECTIONS_OPENER,
+  FICTION_CHAPTER_SECTION,
+  FICTION_CHAPTER_REGISTRY,
+  FICTION_LENGTH_EXPAND,
+  FICTION_LENGTH_CONDENSE,
+];
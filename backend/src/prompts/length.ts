@@ -0,0 +1,82 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Length Correction Prompts
+// One \section{} at a time: expand a thin section, or condense a long one,
+// to the word count the corrector asks for (services/lengthCorrector.ts).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+const SHARED_VARIABLES = [
+  "bookTitle",
+  "chapterNumber",
+  "chapterTitle",
+  "sectionTitle",
+  "sectionDescription",
+  "currentWords",
+  "targetWords",
+  "sectionLatex",
+  "before",
+  "after",
+  "lang",
+];
+
+export const LENGTH_EXPAND: PromptTemplateDef = {
+  key: "length.expand",
+  description: "Length correction — adds depth to a section of a short chapter",
+  variables: SHARED_VARIABLES,
+  body: `You are the author of "{{bookTitle}}". Chapter {{chapterNumber}} "{{chapterTitle}}" came out SHORTER than the page count the reader paid for. EXPAND one of its thinnest sections.
+
+SECTION: "{{sectionTitle}}"{{#sectionDescription}}
+Planned scope: {{sectionDescription}}{{/sectionDescription}}
+LENGTH: now {{currentWords}} words → TARGET: {{targetWords}} words
+
+HOW TO EXPAND:
+- Keep everything that already works — same heading, same order of ideas
+- Exercises at the end of the section stay there, answers included
+- Add DEPTH, not padding: a worked example, a named company or study, concrete numbers, a comparison table or a tipbox/examplebox where it fits
+- Every new paragraph must carry a fact the section did not have before
+- Do NOT repeat what the text before or after the section already says
+- Close every environment you open; escape \\%, \\&, \\#, \\$, \\_
+
+═══ TEXT BEFORE THE SECTION (context only — do not output) ═══
+{{before}}
+
+═══ THE SECTION ═══
+{{sectionLatex}}
+
+═══ TEXT AFTER THE SECTION (context only — do not output) ═══
+{{after}}
+
+═══ OUTPUT ═══
+Output ONLY the expanded section. Start with \\section{{{sectionTitle}}}. ~{{targetWords}} words, entirely in {{lang}}. No preamble, no \\chapter{}.`,
+};
+
+export const LENGTH_CONDENSE: PromptTemplateDef = {
+  key: "length.condense",
+  description: "Length correction — cuts the weakest paragraphs of a long chapter",
+  variables: SHARED_VARIABLES,
+  body: `You are the editor of "{{bookTitle}}". Chapter {{chapterNumber}} "{{chapterTitle}}" came out LONGER than the page budget allows. CONDENSE one of its longest sections.
+
+SECTION: "{{sectionTitle}}"{{#sectionDescription}}
+Planned scope: {{sectionDescription}}{{/sectionDescription}}
+LENGTH: now {{currentWords}} words → TARGET: {{targetWords}} words
+
+HOW TO CONDENSE:
+- CUT the weakest paragraphs first: restatements, generic claims without data, transitions that only announce what comes next
+- Keep the heading, the strongest examples and numbers, the closing keyinsight box and any exercises after it, answers included
+- Tighten long sentences rather than deleting tables or boxes that carry data
+- Do NOT add new material
+- Close every environment you keep; escape \\%, \\&, \\#, \\$, \\_
+
+═══ TEXT BEFORE THE SECTION (context only — do not output) ═══
+{{before}}
+
+═══ THE SECTION ═══
+{{sectionLatex}}
+
+═══ TEXT AFTER THE SECTION (context only — do not output) ═══
+{{after}}
+
+═══ OUTPUT ═══
+Output ONLY the condensed section. Start with \\section{{{sectionTitle}}}. ~{{targetWords}} words, entirely in {{lang}}. No preamble, no \\chapter{}.`,
+};
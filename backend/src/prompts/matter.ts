@@ -0,0 +1,56 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Front & Back Matter Prompt
+// Preface, introduction, conclusion and the rest are written once the
+// chapters are finished, from the chapter registries
+// (services/bookMatter.ts).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+export const MATTER_WRITE: PromptTemplateDef = {
+  key: "matter.write",
+  description:
+    "Front/back matter — one preface, introduction, conclusion… from the finished chapters",
+  variables: [
+    "bookTitle",
+    "topic",
+    "sectionTitle",
+    "brief",
+    "targetWords",
+    "authorName",
+    "guidelines",
+    "chapters",
+    "reader",
+    "voiceRules",
+    "fiction",
+    "lang",
+  ],
+  body: `You are the author of "{{bookTitle}}" ({{#fiction}}premise{{/fiction}}{{^fiction}}topic{{/fiction}}: {{topic}}). The chapters are finished — now write the book's {{sectionTitle}}.
+
+WHAT IT IS FOR:
+{{brief}}
+
+THE READER: {{reader}}
+
+VOICE:
+{{voiceRules}}{{#authorName}}
+
+AUTHOR: {{authorName}}{{/authorName}}{{#guidelines}}
+
+AUTHOR'S GUIDELINES:
+{{guidelines}}{{/guidelines}}
+
+═══ WHAT THE CHAPTERS COVER ═══
+{{chapters}}
+
+═══ RULES ═══
+- Speak only of what the chapters above actually contain — never promise a topic they do not cover
+- Never invent facts about the author: no names, employers, degrees, awards, places or people that are not given above
+- No statistics, no \\cite{}, no tables, no boxes, no \\section{} headings{{#fiction}}
+- Never give away the plot beyond the premise{{/fiction}}
+- LaTeX body text only: paragraphs, with \\textit{} or \\textbf{} where they help
+- About {{targetWords}} words
+
+═══ OUTPUT ═══
+Output ONLY the text, entirely in {{lang}}. Do NOT start with \\chapter{} — the heading is added for you. No preamble.`,
+};
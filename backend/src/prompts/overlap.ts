@@ -0,0 +1,29 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Overlap Rewrite Prompt
+// A paragraph that repeats a scraped source nearly word for word is
+// rewritten in the author's own words (services/overlapDetector.ts).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+export const OVERLAP_REWRITE: PromptTemplateDef = {
+  key: "overlap.rewrite",
+  description: "Overlap check — paraphrases a paragraph copied from a source",
+  variables: ["bookTitle", "copied", "paragraph", "lang"],
+  body: `You are the author of "{{bookTitle}}", a book sold commercially. The paragraph below repeats one of the research sources nearly word for word — that is plagiarism and it must go.
+
+COPIED FROM THE SOURCE:
+"{{copied}}"
+
+REWRITE THE PARAGRAPH IN YOUR OWN WORDS:
+- Keep every fact, number and name, and every LaTeX command, \\cite{} and environment line
+- Change the sentence structure and the vocabulary — no run of more than six words may match the source
+- Add your own angle where it helps: why it matters, what the reader should do with it
+- Same length, give or take a sentence
+
+═══ PARAGRAPH ═══
+{{paragraph}}
+
+═══ OUTPUT ═══
+Output ONLY the rewritten paragraph, in {{lang}}. No preamble.`,
+};
@@ -0,0 +1,140 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Review Prompts
+// Whole-book review, then the insert / remove revisions it asks for.
+// The book text itself is appended in code, after the rendered review prompt.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+export const REVIEW_BOOK: PromptTemplateDef = {
+  key: "review.book",
+  description: "Whole-book review — finds missing topics and redundant passages",
+  variables: [
+    "bookTitle",
+    "bookTopic",
+    "lang",
+    "audience",
+    "audienceCheck",
+    "guidelines",
+  ],
+  body: `You are an expert book editor reviewing a completed eBook.
+
+BOOK: "{{bookTitle}}"
+TOPIC: {{bookTopic}}
+LANGUAGE: {{lang}}
+AUDIENCE: {{audience}}
+{{#guidelines}}AUTHOR GUIDELINES: {{guidelines}}{{/guidelines}}
+
+TASK: Review the complete book text below and evaluate its quality.
+
+EVALUATE:
+1. COMPLETENESS — Does it cover all essential subtopics a reader would expect? What's missing?
+2. REDUNDANCY — Are there sections that repeat the same information across chapters?
+3. OFF-TOPIC CONTENT — Is there anything that doesn't belong?
+4. OPENING & CLOSING — Does the book have a strong start and satisfying conclusion?
+5. PRACTICAL VALUE — Would a reader find this actionable and useful?
+6. FIT FOR THE AUDIENCE — {{audienceCheck}}
+
+SCORING (1-10):
+- 9-10: Excellent, publish-ready
+- 7-8: Good, minor gaps only
+- 5-6: Decent, notable missing topics
+- 1-4: Major problems
+
+RULES:
+- missing_topics: Only list topics that are ESSENTIAL for the reader. Max 3 topics.
+- redundancies: Only flag if the SAME specific point is made in 2+ chapters
+- removals: Only flag truly off-topic or redundant content worth removing
+- needs_revision: true if score < 8 AND there are actionable improvements
+- Be strict but fair — a 35-page ebook can't cover everything
+
+RESPOND ONLY with valid JSON (no markdown, no commentary):
+{
+  "missing_topics": ["topic1", "topic2"],
+  "redundancies": [{"chapters": [1, 2], "description": "Both chapters explain X"}],
+  "removals": [{"chapter": 1, "description": "Section about Y is off-topic"}],
+  "score": 7,
+  "needs_revision": true,
+  "summary": "Brief 1-sentence assessment"
+}`,
+};
+
+export const REVIEW_INSERT: PromptTemplateDef = {
+  key: "review.insert",
+  description: "Writes a missing section found by the review",
+  variables: [
+    "bookTitle",
+    "bookTopic",
+    "lang",
+    "chaptersOverview",
+    "missingTopic",
+  ],
+  body: `You are writing a MISSING section for an eBook.
+
+BOOK: "{{bookTitle}}" | TOPIC: {{bookTopic}} | LANGUAGE: {{lang}}
+
+THE BOOK HAS THESE CHAPTERS:
+{{chaptersOverview}}
+
+MISSING TOPIC TO ADD: "{{missingTopic}}"
+
+YOUR TASK:
+1. Decide which chapter this topic BEST fits into
+2. Write a new \\subsection{} covering this topic (~150-300 words)
+3. Identify a UNIQUE string from the target chapter's LaTeX to insert AFTER
+
+WRITING RULES:
+- Write in {{lang}}
+- Use the same LaTeX conventions: \\subsection{}, \\textbf{}, \\textit{}
+- Include at least 1 concrete example, number, or named reference
+- You can use \\begin{tipbox}{Title}...\\end{tipbox} or \\begin{warningbox}{Title}...\\end{warningbox}
+- Do NOT include \\chapter{} or \\section{} — only \\subsection{} level
+- Content must be self-contained but fit naturally into the chapter flow
+
+RESPOND ONLY with valid JSON:
+{
+  "target_chapter": 2,
+  "insert_after": "\\\\end{keyinsight}",
+  "reasoning": "This topic fits in chapter 2 because...",
+  "new_content": "\\\\subsection{Title}\\n\\nContent here..."
+}
+
+CRITICAL:
+- insert_after must be a VERBATIM string that appears EXACTLY ONCE in the target chapter
+- Prefer inserting after \\end{keyinsight} or \\end{tipbox} boundaries
+- Escape backslashes in JSON: use \\\\ for LaTeX backslash
+- new_content must be complete, valid LaTeX (all environments closed)`,
+};
+
+export const REVIEW_REMOVE: PromptTemplateDef = {
+  key: "review.remove",
+  description: "Locates the exact passage the review asked to remove",
+  variables: [
+    "chapterNumber",
+    "chapterTitle",
+    "removalDescription",
+    "chapterLatex",
+  ],
+  body: `You need to identify the EXACT boundaries of content to remove from a LaTeX chapter.
+
+CHAPTER {{chapterNumber}}: "{{chapterTitle}}"
+WHAT TO REMOVE: {{removalDescription}}
+
+Find two UNIQUE strings from the LaTeX that mark the START and END of the content to remove.
+
+RULES:
+- remove_start: First few words of the paragraph/section to remove (must be unique in the text)
+- remove_end: Last few words + closing command of the content to remove
+- Be PRECISE — only mark the redundant/off-topic content, not surrounding material
+- Include enough context (20-40 chars) to ensure uniqueness
+
+RESPOND ONLY with valid JSON:
+{
+  "remove_start": "exact string from LaTeX",
+  "remove_end": "exact string from LaTeX",
+  "chars_to_remove": 500
+}
+
+CHAPTER LATEX:
+{{chapterLatex}}`,
+};
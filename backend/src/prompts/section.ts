@@ -0,0 +1,92 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Section Editor Prompts
+// Rewrite, expand or insert after one \section{} of a finished chapter,
+// with the surrounding text as context (services/sectionEditor.ts).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+export const SECTION_SYSTEM: PromptTemplateDef = {
+  key: "section.system",
+  description:
+    "Section editor system prompt — voice, research, chapter outline",
+  variables: [
+    "bookTitle",
+    "topic",
+    "chapterNumber",
+    "chapterTitle",
+    "fiction",
+    "guidelines",
+    "terminology",
+    "hasResearch",
+    "sourcesText",
+    "outline",
+    "workbook",
+    "lang",
+  ],
+  body: `You are the author of the book "{{bookTitle}}" ({{#fiction}}premise{{/fiction}}{{^fiction}}topic{{/fiction}}: {{topic}}), editing ONE {{#fiction}}scene{{/fiction}}{{^fiction}}section{{/fiction}} of Chapter {{chapterNumber}} "{{chapterTitle}}". {{#fiction}}You write like a human storyteller — concrete, vivid, never explaining the subtext{{/fiction}}{{^fiction}}You write like a human expert — direct, specific, data-backed{{/fiction}} — and output LaTeX body text only.
+
+{{#guidelines}}Author guidelines: {{guidelines}}
+{{/guidelines}}{{#terminology}}MANDATORY TERMINOLOGY — use exactly these terms:
+{{terminology}}
+{{/terminology}}{{#hasResearch}}RESEARCH SOURCES (use specific facts, do not copy verbatim):
+{{sourcesText}}
+{{/hasResearch}}
+CHAPTER OUTLINE:
+{{outline}}
+
+STYLE RULES:
+{{#fiction}}- Match the narrator, tense, voice and sentence rhythm of the surrounding text EXACTLY
+- Show, don't tell: action, dialogue and sensory detail — no summaries of what happens
+- Keep names, places and established facts consistent with the text before and after
+- The \\section{} title is a scene label — it is never printed, the book shows a scene break
+- NO boxes, NO tables, NO lists{{/fiction}}{{^fiction}}- Match the voice, sentence rhythm and formatting of the surrounding text EXACTLY
+- Every paragraph needs a specific fact, number or named example
+- You may use \\begin{tipbox}{Title}, \\begin{keyinsight}{Title}, \\begin{warningbox}{Title}, \\begin{examplebox}{Title} and booktabs tables like the rest of the chapter{{#workbook}}
+- This book is a workbook: keep the exercises at the end of the section (\\begin{exercise}{Title}, \\begin{worksheet}{Title}) with their answers — \\correctchoice in \\begin{choices}, \\blank{answer}, \\answer{text} — unless the author notes say otherwise{{/workbook}}{{/fiction}}
+- Close every environment you open
+- Escape special chars: \\%, \\&, \\#, \\$, \\_
+- NO preamble, NO \\chapter{}, NO \\usepackage
+- ALL text in {{lang}}`,
+};
+
+export const SECTION_USER: PromptTemplateDef = {
+  key: "section.user",
+  description:
+    "Section editor task — the section, its context and the author's notes",
+  variables: [
+    "rewrite",
+    "expand",
+    "insertAfter",
+    "sectionTitle",
+    "newTitle",
+    "heading",
+    "currentWords",
+    "targetWords",
+    "fiction",
+    "plannedScope",
+    "instructions",
+    "before",
+    "section",
+    "after",
+    "lang",
+  ],
+  body: `{{#rewrite}}REWRITE the section below. Keep its heading \\section{{{sectionTitle}}}. Improve depth, specificity and flow while covering the same ground.{{/rewrite}}{{#expand}}EXPAND the section below from {{currentWords}} to ~{{targetWords}} words. Keep everything that works, keep its heading \\section{{{sectionTitle}}}, and add NEW specifics — {{#fiction}}moments, dialogue and detail that dramatize the scene{{/fiction}}{{^fiction}}examples, data, a table or box where it fits{{/fiction}}. No padding.{{/expand}}{{#insertAfter}}WRITE A NEW SECTION \\section{{{newTitle}}} that will be inserted directly AFTER the section below. It must not repeat the section below or what follows it.{{/insertAfter}}
+{{#plannedScope}}
+Planned scope of "{{sectionTitle}}": {{plannedScope}}
+{{/plannedScope}}{{#instructions}}
+AUTHOR NOTES (highest priority):
+{{instructions}}
+{{/instructions}}
+═══ TEXT BEFORE THE SECTION (context only — do not output) ═══
+{{before}}
+
+═══ THE SECTION ═══
+{{section}}
+
+═══ TEXT AFTER THE SECTION (context only — do not output) ═══
+{{after}}
+
+═══ OUTPUT ═══
+Output ONLY the {{#insertAfter}}new{{/insertAfter}}{{^insertAfter}}revised{{/insertAfter}} section, starting with \\section{{{heading}}}. ~{{targetWords}} words in {{lang}}. It must read seamlessly between the text before and after.`,
+};
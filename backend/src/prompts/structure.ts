@@ -0,0 +1,130 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Structure Prompt
+// Plans chapters, sections and appendices from topic, length and research.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import type { PromptTemplateDef } from "../lib/prompts";
+
+export const STRUCTURE: PromptTemplateDef = {
+  key: "structure",
+  description:
+    "Book structure planner — chapters, sections, appendices and page budget",
+  variables: [
+    "topic",
+    "title",
+    "targetPages",
+    "bookFormat",
+    "wpp",
+    "totalWords",
+    "language",
+    "stylePreset",
+    "audience",
+    "tone",
+    "readingLevel",
+    "audiencePlan",
+    "guidelines",
+    "hasResearch",
+    "sourcesText",
+    "chapters",
+    "sectionsPerChapter",
+    "langInstruction",
+    "pagesPerChapter",
+    "appendixPages",
+  ],
+  body: `You are an expert book editor planning a professional, data-rich eBook. Your job is to create a structure that will FORCE the writer to produce expert-level content — not generic AI filler.
+
+BOOK SPECS:
+Topic: {{topic}}
+{{#title}}Title: {{title}}{{/title}}
+Target: {{targetPages}} pages ({{bookFormat}}, ~{{wpp}} words/page = ~{{totalWords}} total words)
+Language: {{language}} | Style: {{stylePreset}}
+Audience: {{audience}} | Tone: {{tone}} | Reading level: {{readingLevel}}
+{{#guidelines}}Author guidelines: {{guidelines}}{{/guidelines}}
+
+{{#hasResearch}}
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+RESEARCH SOURCES — USE THESE TO BUILD A DATA-DRIVEN STRUCTURE
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+Your structure MUST be grounded in what the research reveals:
+- Identify the most substantive topics covered across sources
+- Note specific tools, companies, regulations, and case studies mentioned
+- Build chapters around REAL findings, not hypothetical topics
+- If sources reveal industry data/stats, plan sections that analyze them
+- Prioritize topics where sources provide enough depth for expert-level writing
+
+{{sourcesText}}
+{{/hasResearch}}{{^hasResearch}}
+No web research sources available. Plan structure based on your expert knowledge.
+Focus on topics where you can provide SPECIFIC, verifiable information — not vague overviews.
+{{/hasResearch}}
+
+═══════════════════════════════════════════════════════════════
+STRUCTURE QUALITY RULES
+═══════════════════════════════════════════════════════════════
+
+CHAPTER DESIGN PRINCIPLES:
+- AUDIENCE FIRST: {{audiencePlan}}
+- Each chapter should have a CLEAR THESIS or argument, not just "about topic X"
+- BAD chapter: "Introduction to AI Tools" → GOOD: "Why 80% of AI Tool Adoption Fails — And What the 20% Do Differently"
+- Chapters should BUILD on each other: foundational → applied → advanced → strategic
+- Avoid the trap of Chapter 1 = "What is X" / Chapter 2 = "Why X matters" — readers know what they bought
+
+SECTION DESCRIPTIONS — these are INSTRUCTIONS for the writer. Make them specific:
+- BAD: "Overview of popular AI writing tools" → The writer will produce a generic list
+- GOOD: "Compare GPT-4, Claude, and Gemini for long-form content: pricing per 1M tokens, context window limits, output quality for Polish/multilingual text. Include a decision matrix: when to use which model based on task type (blog posts vs technical docs vs ad copy). Reference the Stanford HAI benchmark data."
+- Each description should NAME specific things to include: companies, tools, frameworks, data sources
+- Include the ANGLE or argument the section should make, not just the topic
+
+WHAT TO AVOID IN STRUCTURE:
+- Generic "introduction" chapters that waste 25% of the book on basics
+- Sections that are just lists of tools without analysis
+- "Future trends" sections that speculate without substance
+- Padding sections: "Best practices" or "Tips and tricks" without specific frameworks
+- Mirror chapters: two sections that cover the same ground from slightly different angles
+
+APPENDICES — REFERENCE MATERIAL, NOT CHAPTERS:
+- Checklists, templates, reference tables, step-by-step procedures and resource lists the reader will come back to belong in appendices, not in chapters
+- Plan 0-3 appendices, only where such material genuinely helps the reader — an empty list is fine
+- Appendices have their OWN page budget: at most {{appendixPages}} pages in total, ON TOP of the chapter pages
+- Each description names exactly what the appendix holds (which checklist, which table and its columns) and which chapters it supports
+
+CRITICAL FORMATTING RULES:
+- Create EXACTLY {{chapters}} chapters
+- Each chapter: {{sectionsPerChapter}} sections
+- Total chapter pages MUST equal approximately {{targetPages}}
+- {{langInstruction}}
+- suggestedTitle should be specific and compelling — avoid generic titles
+
+Respond ONLY with valid JSON:
+{
+  "suggestedTitle": "Specific, Compelling Book Title",
+  "chapters": [
+    {
+      "id": "ch1",
+      "number": 1,
+      "title": "Specific Chapter Title With Clear Angle",
+      "description": "2-3 sentence brief: what thesis/argument this chapter makes, what concrete topics it covers, what the reader will be able to DO after reading it",
+      "targetPages": {{pagesPerChapter}},
+      "sections": [
+        {
+          "id": "ch1-s1",
+          "title": "Section Title",
+          "description": "Detailed writing instructions: name specific tools/companies/data to include, the argument to make, concrete examples to use. This description drives content quality — be specific.",
+          "targetPages": 2,
+          "order": 0
+        }
+      ]
+    }
+  ],
+  "appendices": [
+    {
+      "id": "appA",
+      "letter": "A",
+      "title": "Specific Appendix Title",
+      "description": "Exactly what this reference material contains and which chapters it supports",
+      "targetPages": 2
+    }
+  ]
+}`,
+};
@@ -0,0 +1,126 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Fixture Replay
+// Re-runs the jobs recorded in a bundle (see src/lib/fixtures.ts) against
+// the local database, with every search, scrape, LLM call and image served
+// from the bundle. The replay gets a fresh project owned by --email
+// (default ADMIN_EMAIL), seeded with the structure and chapters the
+// recording started from.
+//
+//   npm run fixture:replay -- fixtures/<projectId>.json [--email x] [--strict]
+//
+// --strict exits 1 when a prompt no longer matches its recording or the
+// assembled LaTeX differs — use it to turn a bundle into a regression test.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import "dotenv/config";
+import { prisma } from "./lib/prisma";
+import { closeQueue } from "./lib/queue";
+import { loadBundle, runWithFixtures } from "./lib/fixtures";
+
+// Nothing may leave the machine: misses fail instead of calling out
+process.env.LLM_PROVIDER = "mock";
+delete process.env.AWS_ACCESS_KEY_ID;
+delete process.env.S3_BUCKET;
+
+/**
+ * Worker jobs a bundle can hold, as the worker runs them. Chapter and
+ * section rewrites are missing: their arguments are not recorded.
+ */
+const REPLAYABLE: Record<string, (projectId: string) => Promise<unknown>> = {
+  structure: async (id) =>
+    (await import("./services/structureGenerator")).generateStructure(id),
+  research: async (id) =>
+    (await import("./services/researchService")).conductResearch(id),
+  // Content compiles the book itself
+  content: async (id) =>
+    (await import("./services/contentGenerator")).generateContent(id),
+  resume: async (id) =>
+    (await import("./services/contentGenerator")).generateContent(id, {
+      resume: true,
+    }),
+  compile: async (id) =>
+    (await import("./services/bookCompiler")).compileBook(id),
+  recompile: async (id) =>
+    (await import("./services/bookCompiler")).compileBook(id),
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const bundlePath = args.find((a) => !a.startsWith("--"));
+  const emailIdx = args.indexOf("--email");
+  const email =
+    emailIdx !== -1 ? args[emailIdx + 1] : process.env.ADMIN_EMAIL;
+  const strict = args.includes("--strict");
+  if (!bundlePath || !email) {
+    console.error(
+      "Usage: npm run fixture:replay -- <bundle.json> [--email owner] [--strict]",
+    );
+    process.exitCode = 2;
+    return;
+  }
+
+  const bundle = loadBundle(bundlePath);
+  const unreplayable = bundle.jobs.filter((job) => !REPLAYABLE[job]);
+  if (unreplayable.length > 0) {
+    throw new Error(`Cannot replay ${unreplayable.join(", ")} jobs`);
+  }
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) throw new Error(`No user ${email}`);
+
+  const project = await prisma.project.create({
+    data: {
+      ...(bundle.project as any),
+      userId: user.id,
+      currentStage: "GENERATING",
+      paymentStatus: "PAID",
+    },
+  });
+  if (bundle.structureJson) {
+    await prisma.projectStructure.create({
+      data: {
+        projectId: project.id,
+        structureJson: bundle.structureJson,
+        approvedAt: new Date(),
+      },
+    });
+  }
+  if (bundle.chapters?.length) {
+    await prisma.chapter.createMany({
+      data: bundle.chapters.map((ch) => ({
+        ...(ch as any),
+        projectId: project.id,
+      })),
+    });
+  }
+  console.log(
+    `\n  📼 Replaying ${bundle.projectId} (${bundle.jobs.join(" → ")}) as ${project.id}`,
+  );
+
+  const { stats } = await runWithFixtures(
+    project.id,
+    "replay",
+    async () => {
+      for (const job of bundle.jobs) await REPLAYABLE[job](project.id);
+    },
+    { mode: "replay", bundlePath },
+  );
+
+  console.log(`\n  📼 Replay finished — /admin/projects/${project.id}`);
+  console.log(`     Recorded calls replayed: ${stats!.replayed}`);
+  console.log(`     Changed prompts (matched by order): ${stats!.fallbacks}`);
+  console.log(
+    `     LaTeX: ${stats!.texDiffLine === null ? "identical" : `differs from line ${stats!.texDiffLine}`}`,
+  );
+
+  if (strict && (stats!.fallbacks > 0 || stats!.texDiffLine !== null)) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(`  ❌ Replay failed: ${err.message}`);
+    process.exitCode = 1;
+  })
+  // The pipeline's event log holds a Redis connection open — close it too
+  .finally(() => Promise.all([closeQueue(), prisma.$disconnect()]));
@@ -1,5 +1,22 @@
 import { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma";
+import {
+  enqueueGeneration,
+  findPendingJob,
+  JOB_PENDING_ERROR,
+} from "../lib/queue";
+import { parseDegradations, spendCapFor } from "../lib/spendCap";
+import {
+  BUILTIN_VERSION,
+  DEFAULT_VARIANT,
+  createTemplateVersion,
+  isStaleVersion,
+  promptHash,
+} from "../lib/prompts";
+import { BUILTIN_TEMPLATES } from "../prompts";
+import { bundlePathFor } from "../lib/fixtures";
+import * as fs from "fs";
 import { authenticate } from "../middleware/auth";
 
 export async function adminRoutes(app: FastifyInstance) {
@@ -35,11 +52,55 @@ export async function adminRoutes(app: FastifyInstance) {
       },
     });
 
+    const spendCapAlerts = await prisma.project.findMany({
+      where: { spendCapHitAt: { not: null } },
+      orderBy: { spendCapHitAt: "desc" },
+      select: {
+        id: true,
+        title: true,
+        topic: true,
+        totalCostUsd: true,
+        priceUsdCents: true,
+        spendCapUsd: true,
+        spendCapHitAt: true,
+      },
+    });
+
     const totalRevenue = await prisma.project.aggregate({
       where: { paymentStatus: "PAID" },
-      _sum: { priceUsdCents: true, totalTokensUsed: true, totalCostUsd: true },
+      _sum: { priceUsdCents: true },
+    });
+
+    // API spend covers every project — unpaid/abandoned ones cost money too
+    const totalUsage = await prisma.project.aggregate({
+      _sum: { totalTokensUsed: true, totalCostUsd: true },
     });
 
+    const since = new Date(Date.now() - USAGE_DAYS * 24 * 3600 * 1000);
+    const [byDay, byModel, byProject] = await Promise.all([
+      usageByDay(Prisma.sql`"createdAt" >= ${since}`),
+      prisma.llmCall.groupBy({
+        by: ["model"],
+        _count: true,
+        _sum: LEDGER_SUMS,
+        orderBy: { _sum: { costUsd: "desc" } },
+      }),
+      prisma.llmCall.groupBy({
+        by: ["projectId"],
+        _count: true,
+        _sum: LEDGER_SUMS,
+        orderBy: { _sum: { costUsd: "desc" } },
+        take: 20,
+      }),
+    ]);
+    const projectTitles = await prisma.project.findMany({
+      where: { id: { in: byProject.map((r) => r.projectId) } },
+      select: { id: true, title: true, topic: true },
+    });
+    const titleOf = new Map(
+      projectTitles.map((p) => [p.id, p.title || p.topic.slice(0, 40)]),
+    );
+
     return reply.send({
       success: true,
       data: {
@@ -49,8 +110,27 @@ export async function adminRoutes(app: FastifyInstance) {
           paid: paidCount,
           completed: completedCount,
           revenue: (totalRevenue._sum.priceUsdCents || 0) / 100,
-          totalTokens: totalRevenue._sum.totalTokensUsed || 0,
-          totalCost: totalRevenue._sum.totalCostUsd || 0,
+          totalTokens: totalUsage._sum.totalTokensUsed || 0,
+          totalCost: totalUsage._sum.totalCostUsd || 0,
+        },
+        spendCapAlerts: spendCapAlerts.map((p) => ({
+          id: p.id,
+          title: p.title || p.topic.slice(0, 40),
+          spentUsd: p.totalCostUsd,
+          capUsd: spendCapFor(p),
+          haltedAt: p.spendCapHitAt,
+        })),
+        usage: {
+          byDay,
+          byModel: byModel.map((r) => ({
+            key: r.model,
+            ...groupTotals(r._count, r._sum),
+          })),
+          byProject: byProject.map((r) => ({
+            key: r.projectId,
+            label: titleOf.get(r.projectId) || r.projectId,
+            ...groupTotals(r._count, r._sum),
+          })),
         },
         recentProjects: recentProjects.map((p) => ({
           id: p.id,
@@ -90,6 +170,42 @@ export async function adminRoutes(app: FastifyInstance) {
 
     if (!project) return reply.status(404).send({ error: "Project not found" });
 
+    const where = { projectId: id };
+    const [byPipeline, byChapter, byModel, byDay, recentCalls] =
+      await Promise.all([
+        prisma.llmCall.groupBy({
+          by: ["pipeline", "phase"],
+          where,
+          _count: true,
+          _sum: LEDGER_SUMS,
+          orderBy: { _min: { createdAt: "asc" } },
+        }),
+        prisma.llmCall.groupBy({
+          by: ["chapterNumber"],
+          where: { ...where, chapterNumber: { not: null } },
+          _count: true,
+          _sum: LEDGER_SUMS,
+          orderBy: { _min: { createdAt: "asc" } },
+        }),
+        prisma.llmCall.groupBy({
+          by: ["model"],
+          where,
+          _count: true,
+          _sum: LEDGER_SUMS,
+          orderBy: { _min: { createdAt: "asc" } },
+        }),
+        usageByDay(Prisma.sql`"projectId" = ${id}`),
+        prisma.llmCall.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take: 100,
+          select: LEDGER_FIELDS,
+        }),
+      ]);
+    const { loadBookReviews } = await import("../services/reviewService");
+    const reviews = await loadBookReviews(id);
+    const pendingJob = await findPendingJob(id);
+
     // Parse research summary (don't send full source texts here — too heavy)
     let researchSummary = null;
     if (project.researchData) {
@@ -115,9 +231,33 @@ export async function adminRoutes(app: FastifyInstance) {
         ...project,
         researchData: undefined, // Don't send raw blob in overview
         researchSummary,
+        reviews,
+        reviewPending:
+          pendingJob?.name === "review" || pendingJob?.name === "review-insert",
         priceFormatted: project.priceUsdCents
           ? `$${(project.priceUsdCents / 100).toFixed(2)}`
           : null,
+        spend: {
+          capUsd: spendCapFor(project),
+          isOverride: project.spendCapUsd !== null,
+          degradations: parseDegradations(project.spendDegradations),
+        },
+        usage: {
+          byPipeline: byPipeline.map((r) => ({
+            key: r.phase ? `${r.pipeline} · ${r.phase}` : r.pipeline,
+            ...groupTotals(r._count, r._sum),
+          })),
+          byChapter: byChapter.map((r) => ({
+            key: `Ch ${r.chapterNumber}`,
+            ...groupTotals(r._count, r._sum),
+          })),
+          byModel: byModel.map((r) => ({
+            key: r.model,
+            ...groupTotals(r._count, r._sum),
+          })),
+          byDay,
+          recentCalls,
+        },
       },
     });
   });
@@ -245,8 +385,8 @@ export async function adminRoutes(app: FastifyInstance) {
   // ━━━ POST /api/admin/projects/:id/re-research ━━━ Re-run research pipeline
   app.post("/api/admin/projects/:id/re-research", async (request, reply) => {
     const { id } = request.params as any;
-    const { conductResearch } = await import("../services/researchService");
-    conductResearch(id).catch(console.error);
+    if (!(await enqueueGeneration("research", id, "admin")))
+      return reply.status(409).send({ error: JOB_PENDING_ERROR });
     return reply.send({ success: true, message: "Research pipeline started" });
   });
 
@@ -261,6 +401,7 @@ export async function adminRoutes(app: FastifyInstance) {
           select: {
             generationPrompt: true,
             generationResponse: true,
+            promptRefs: true,
             version: true,
             isUserEdited: true,
           },
@@ -276,6 +417,10 @@ export async function adminRoutes(app: FastifyInstance) {
             actualWords: true,
             writerPrompts: true,
             writerResponses: true,
+            promptRefs: true,
+            sectionStats: true,
+            lengthCorrections: true,
+            factCheck: true,
             latexContent: true,
           },
         },
@@ -295,6 +440,12 @@ export async function adminRoutes(app: FastifyInstance) {
       latexPreview: ch.latexContent?.slice(0, 500) || null,
       prompts: ch.writerPrompts ? JSON.parse(ch.writerPrompts) : [],
       responses: ch.writerResponses ? JSON.parse(ch.writerResponses) : [],
+      promptRefs: ch.promptRefs ? JSON.parse(ch.promptRefs) : [],
+      sectionStats: ch.sectionStats ? JSON.parse(ch.sectionStats) : null,
+      lengthCorrections: ch.lengthCorrections
+        ? JSON.parse(ch.lengthCorrections)
+        : [],
+      factCheck: ch.factCheck ? JSON.parse(ch.factCheck) : null,
     }));
 
     return reply.send({
@@ -304,6 +455,9 @@ export async function adminRoutes(app: FastifyInstance) {
           ? {
               prompt: project.structure.generationPrompt,
               response: project.structure.generationResponse,
+              promptRefs: project.structure.promptRefs
+                ? JSON.parse(project.structure.promptRefs)
+                : [],
               version: project.structure.version,
               isUserEdited: project.structure.isUserEdited,
             }
@@ -348,27 +502,254 @@ export async function adminRoutes(app: FastifyInstance) {
   // ━━━ POST /api/admin/projects/:id/recompile ━━━
   app.post("/api/admin/projects/:id/recompile", async (request, reply) => {
     const { id } = request.params as any;
-    const { compileBook } = await import("../services/bookCompiler");
-    compileBook(id).catch(console.error);
+    if (!(await enqueueGeneration("compile", id, "admin")))
+      return reply.status(409).send({ error: JOB_PENDING_ERROR });
     return reply.send({ success: true, message: "Recompilation started" });
   });
 
   // ━━━ POST /api/admin/projects/:id/regenerate ━━━
   app.post("/api/admin/projects/:id/regenerate", async (request, reply) => {
     const { id } = request.params as any;
-    const { generateContent } = await import("../services/contentGenerator");
-    generateContent(id).catch(console.error);
+    if (!(await enqueueGeneration("content", id, "admin")))
+      return reply.status(409).send({ error: JOB_PENDING_ERROR });
     return reply.send({ success: true, message: "Regeneration started" });
   });
 
+  // ━━━ POST /api/admin/projects/:id/review ━━━ Re-run the editorial review
+  app.post("/api/admin/projects/:id/review", async (request, reply) => {
+    const { id } = request.params as any;
+    const { checkReviewRequest, ReviewUnavailableError } = await import(
+      "../services/reviewService"
+    );
+    try {
+      await checkReviewRequest(id);
+    } catch (err) {
+      if (!(err instanceof ReviewUnavailableError)) throw err;
+      return reply.status(err.statusCode).send({ error: err.message });
+    }
+    if (!(await enqueueGeneration("review", id, "admin")))
+      return reply.status(409).send({ error: JOB_PENDING_ERROR });
+    return reply.status(202).send({ success: true, message: "Review started" });
+  });
+
+  // ━━━ POST /api/admin/projects/:id/review/insertions ━━━ Insert a missing topic
+  // Body: { topic: string } — one of the latest review's missing_topics
+  app.post(
+    "/api/admin/projects/:id/review/insertions",
+    async (request, reply) => {
+      const { id } = request.params as any;
+      const { topic } = request.body as { topic: string };
+      if (typeof topic !== "string" || !topic.trim()) {
+        return reply.status(400).send({ error: "topic required" });
+      }
+
+      const { checkReviewRequest, ReviewUnavailableError } = await import(
+        "../services/reviewService"
+      );
+      try {
+        await checkReviewRequest(id, topic);
+      } catch (err) {
+        if (!(err instanceof ReviewUnavailableError)) throw err;
+        return reply.status(err.statusCode).send({ error: err.message });
+      }
+      if (!(await enqueueGeneration("review-insert", id, "admin", { topic })))
+        return reply.status(409).send({ error: JOB_PENDING_ERROR });
+      return reply
+        .status(202)
+        .send({ success: true, message: "Topic insertion started" });
+    },
+  );
+
+  // ━━━ POST /api/admin/projects/:id/spend-cap ━━━ Override cap, lift a halt
+  // Body: { capUsd: number | null } — null goes back to SPEND_CAP_PERCENT
+  app.post("/api/admin/projects/:id/spend-cap", async (request, reply) => {
+    const { id } = request.params as any;
+    const { capUsd } = request.body as { capUsd: number | null };
+    if (capUsd !== null && !(typeof capUsd === "number" && capUsd > 0)) {
+      return reply.status(400).send({ error: "capUsd must be > 0 or null" });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      include: { chapters: { select: { status: true } } },
+    });
+    if (!project) return reply.status(404).send({ error: "Project not found" });
+
+    const updated = await prisma.project.update({
+      where: { id },
+      data: { spendCapUsd: capUsd, spendCapHitAt: null },
+    });
+
+    // Halted mid-book: pick up where it stopped
+    let resumed = false;
+    if (project.spendCapHitAt && project.generationStatus === "ERROR") {
+      const finished = project.chapters.some(
+        (c) => c.status === "LATEX_READY",
+      );
+      await prisma.project.update({
+        where: { id },
+        data: {
+          generationStatus: "GENERATING_CONTENT",
+          currentStage: "GENERATING",
+        },
+      });
+      resumed = !!(await enqueueGeneration(
+        finished ? "resume" : "content",
+        id,
+        "admin",
+      ));
+      // Something else is queued — leave the halt for it, lift the cap only
+      if (!resumed) {
+        await prisma.project.update({
+          where: { id },
+          data: {
+            generationStatus: project.generationStatus,
+            currentStage: project.currentStage,
+          },
+        });
+      }
+    }
+
+    return reply.send({
+      success: true,
+      data: { capUsd: spendCapFor(updated), resumed },
+    });
+  });
+
+  // ━━━ POST /api/admin/projects/:id/prompt-variant ━━━ A/B prompt variant
+  // Applies from the next pipeline run; finished chapters keep their refs
+  app.post("/api/admin/projects/:id/prompt-variant", async (request, reply) => {
+    const { id } = request.params as any;
+    const { variant } = request.body as { variant: string };
+    if (typeof variant !== "string" || !VARIANT_RE.test(variant)) {
+      return reply
+        .status(400)
+        .send({ error: "variant must be lowercase letters, digits or -" });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id } });
+    if (!project) return reply.status(404).send({ error: "Project not found" });
+
+    await prisma.project.update({
+      where: { id },
+      data: { promptVariant: variant },
+    });
+    return reply.send({ success: true, data: { variant } });
+  });
+
+  // ━━━ GET /api/admin/prompts ━━━ Template registry + per-variant results
+  app.get("/api/admin/prompts", async (request, reply) => {
+    const [stored, variantStats] = await Promise.all([
+      prisma.promptTemplate.findMany({ orderBy: { version: "desc" } }),
+      prisma.project.groupBy({
+        by: ["promptVariant"],
+        _count: true,
+        _avg: { totalCostUsd: true, totalTokensUsed: true },
+      }),
+    ]);
+
+    const templates = BUILTIN_TEMPLATES.map((t) => ({
+      key: t.key,
+      description: t.description,
+      variables: t.variables,
+      versions: [
+        ...stored
+          .filter((v) => v.key === t.key)
+          .map((v) => ({
+            ...v,
+            hash: promptHash(v.body),
+            stale: isStaleVersion(t, v),
+          })),
+        {
+          id: `builtin:${t.key}`,
+          key: t.key,
+          version: BUILTIN_VERSION,
+          variant: DEFAULT_VARIANT,
+          language: null,
+          body: t.body,
+          hash: promptHash(t.body),
+          stale: false,
+          notes: "Built-in",
+          createdAt: null,
+        },
+        ...Object.entries(t.overrides || {}).map(([language, body]) => ({
+          id: `builtin:${t.key}:${language}`,
+          key: t.key,
+          version: BUILTIN_VERSION,
+          variant: DEFAULT_VARIANT,
+          language,
+          body,
+          hash: promptHash(body),
+          stale: false,
+          notes: "Built-in",
+          createdAt: null,
+        })),
+      ],
+    }));
+
+    const variants = new Set([
+      DEFAULT_VARIANT,
+      ...stored.map((v) => v.variant),
+      ...variantStats.map((v) => v.promptVariant),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: {
+        templates,
+        variants: [...variants].map((variant) => {
+          const s = variantStats.find((v) => v.promptVariant === variant);
+          return {
+            variant,
+            projects: s?._count || 0,
+            avgCostUsd: s?._avg.totalCostUsd || 0,
+            avgTokens: Math.round(s?._avg.totalTokensUsed || 0),
+          };
+        }),
+      },
+    });
+  });
+
+  // ━━━ POST /api/admin/prompts/:key ━━━ Add a template version
+  // Body: { body, variant?, language?, notes? }
+  app.post("/api/admin/prompts/:key", async (request, reply) => {
+    const { key } = request.params as any;
+    const { body, variant, language, notes } = request.body as {
+      body: string;
+      variant?: string;
+      language?: string | null;
+      notes?: string;
+    };
+    if (typeof body !== "string" || !body.trim()) {
+      return reply.status(400).send({ error: "body is required" });
+    }
+    if (variant !== undefined && !VARIANT_RE.test(variant)) {
+      return reply
+        .status(400)
+        .send({ error: "variant must be lowercase letters, digits or -" });
+    }
+
+    try {
+      const template = await createTemplateVersion({
+        key,
+        body,
+        variant,
+        language,
+        notes,
+      });
+      return reply.send({ success: true, data: template });
+    } catch (err: any) {
+      return reply.status(400).send({ error: err.message });
+    }
+  });
+
   // ━━━ POST /api/admin/projects/:id/regenerate-structure ━━━
   app.post(
     "/api/admin/projects/:id/regenerate-structure",
     async (request, reply) => {
       const { id } = request.params as any;
-      const { generateStructure } =
-        await import("../services/structureGenerator");
-      generateStructure(id).catch(console.error);
+      if (!(await enqueueGeneration("structure", id, "admin")))
+        return reply.status(409).send({ error: JOB_PENDING_ERROR });
       return reply.send({
         success: true,
         message: "Structure regeneration started",
@@ -464,6 +845,21 @@ export async function adminRoutes(app: FastifyInstance) {
       .send(pdfBuffer);
   });
 
+  // ━━━ GET /api/admin/projects/:id/fixture ━━━ Recorded fixture bundle
+  // Written by the worker with FIXTURE_MODE=record — replay it locally with
+  // `npm run fixture:replay -- <file>`
+  app.get("/api/admin/projects/:id/fixture", async (request, reply) => {
+    const { id } = request.params as any;
+    const bundlePath = bundlePathFor(id);
+    if (!fs.existsSync(bundlePath)) {
+      return reply.status(404).send({ error: "No fixture recorded" });
+    }
+    return reply
+      .header("Content-Type", "application/json")
+      .header("Content-Disposition", `attachment; filename="${id}.json"`)
+      .send(fs.createReadStream(bundlePath));
+  });
+
   // ━━━ GET /api/admin/users ━━━
   app.get("/api/admin/users", async (request, reply) => {
     const users = await prisma.user.findMany({
@@ -480,6 +876,74 @@ export async function adminRoutes(app: FastifyInstance) {
   });
 }
 
+const VARIANT_RE = /^[a-z0-9-]{1,40}$/;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LLM usage breakdowns (LlmCall ledger)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const USAGE_DAYS = 30;
+
+const LEDGER_FIELDS = {
+  createdAt: true,
+  pipeline: true,
+  phase: true,
+  task: true,
+  chapterNumber: true,
+  model: true,
+  inputTokens: true,
+  outputTokens: true,
+  cacheReadTokens: true,
+  cacheWriteTokens: true,
+  latencyMs: true,
+  costUsd: true,
+} as const;
+
+const LEDGER_SUMS = {
+  inputTokens: true,
+  outputTokens: true,
+  cacheReadTokens: true,
+  cacheWriteTokens: true,
+  costUsd: true,
+} as const;
+
+type LedgerSums = Record<keyof typeof LEDGER_SUMS, number | null>;
+
+function groupTotals(calls: number, sum: LedgerSums) {
+  return {
+    calls,
+    inputTokens: sum.inputTokens || 0,
+    outputTokens: sum.outputTokens || 0,
+    cacheTokens: (sum.cacheReadTokens || 0) + (sum.cacheWriteTokens || 0),
+    cost: sum.costUsd || 0,
+  };
+}
+
+/**
+ * Totals per UTC day, oldest first, for the calls matching `where`. Prisma's
+ * groupBy can't group on a date part, hence the raw query.
+ */
+async function usageByDay(where: Prisma.Sql) {
+  const rows = await prisma.$queryRaw<
+    ({ day: string; calls: number } & LedgerSums)[]
+  >`
+    SELECT to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS day,
+           COUNT(*)::int AS calls,
+           SUM("inputTokens")::float8 AS "inputTokens",
+           SUM("outputTokens")::float8 AS "outputTokens",
+           SUM("cacheReadTokens")::float8 AS "cacheReadTokens",
+           SUM("cacheWriteTokens")::float8 AS "cacheWriteTokens",
+           SUM("costUsd") AS "costUsd"
+    FROM "LlmCall"
+    WHERE ${where}
+    GROUP BY 1
+    ORDER BY 1`;
+  return rows.map(({ day, calls, ...sum }) => ({
+    key: day,
+    ...groupTotals(calls, sum),
+  }));
+}
+
 function sanitizeFilename(name: string): string {
   const diacriticMap: Record<string, string> = {
     ą: "a",
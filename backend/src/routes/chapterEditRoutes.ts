@@ -1,12 +1,19 @@
 import { FastifyInstance } from "fastify";
 import { prisma } from "../lib/prisma";
+import {
+  enqueueGeneration,
+  findPendingJob,
+  JOB_PENDING_ERROR,
+} from "../lib/queue";
 import { authenticate } from "../middleware/auth";
 
 export async function chapterEditRoutes(app: FastifyInstance) {
   app.addHook("preHandler", authenticate);
 
   // ━━━ GET /api/projects/:id/chapters ━━━
-  // Return all chapters with full LaTeX content for editing
+  // Return all chapters with full LaTeX content for editing, appendices and
+  // front/back matter included (kind ≠ "chapter")
+  // (GENERATING = being rewritten from feedback, read-only until done)
   app.get("/api/projects/:id/chapters", async (request, reply) => {
     const { id } = request.params as any;
 
@@ -14,15 +21,20 @@ export async function chapterEditRoutes(app: FastifyInstance) {
       where: { id, userId: request.user.userId },
       include: {
         chapters: {
-          where: { status: "LATEX_READY" },
+          where: { status: { in: ["LATEX_READY", "GENERATING"] } },
           select: {
             id: true,
             chapterNumber: true,
+            kind: true,
             title: true,
             latexContent: true,
             targetPages: true,
             actualWords: true,
             actualPages: true,
+            status: true,
+            registry: true,
+            factCheck: true,
+            overlapReport: true,
           },
           orderBy: { chapterNumber: "asc" },
         },
@@ -35,17 +47,27 @@ export async function chapterEditRoutes(app: FastifyInstance) {
         .send({ success: false, error: "Project not found" });
     }
 
+    const { storedRegistry } = await import("../services/contentGenerator");
     return reply.send({
       success: true,
       data: project.chapters.map((ch) => ({
         id: ch.id,
         chapterNumber: ch.chapterNumber,
+        kind: ch.kind,
         title: ch.title,
         latexContent: ch.latexContent || "",
         targetPages: ch.targetPages,
         actualWords: ch.actualWords,
         actualPages: ch.actualPages,
+        status: ch.status,
+        registry: storedRegistry(ch.registry),
+        factCheck: ch.factCheck ? JSON.parse(ch.factCheck) : null,
+        overlapReport: ch.overlapReport ? JSON.parse(ch.overlapReport) : null,
       })),
+      meta: {
+        regenQuota: project.chapterRegenQuota,
+        regenUsed: project.chapterRegenUsed,
+      },
     });
   });
 
@@ -107,6 +129,12 @@ export async function chapterEditRoutes(app: FastifyInstance) {
           .status(404)
           .send({ success: false, error: "Chapter not found" });
       }
+      if (chapter.status === "GENERATING") {
+        return reply.status(409).send({
+          success: false,
+          error: "Chapter is being regenerated — wait until it finishes",
+        });
+      }
 
       await prisma.chapter.update({
         where: { id: chapter.id },
@@ -118,9 +146,51 @@ export async function chapterEditRoutes(app: FastifyInstance) {
         },
       });
 
+      // Keep the registry ("what this chapter covers") in step with the text
+      // — an LLM call, so the worker does it. Front/back matter has none,
+      // it is written from the chapters'
+      const { storedRegistry } = await import("../services/contentGenerator");
+      const registry = storedRegistry(chapter.registry);
+      let registryPending = false;
+      if (
+        chapter.kind === "chapter" &&
+        (latexContent !== chapter.latexContent || !registry)
+      ) {
+        registryPending = !!(await enqueueGeneration("registry", id, "api", {
+          chapterNumber: num,
+        }));
+        // Another job holds the project — the text is saved regardless and
+        // the registry stays as it was until the chapter is edited again
+      }
+
+      // Re-check edited text against the sources — flags only, no rewrite
+      let overlapReport = chapter.overlapReport
+        ? JSON.parse(chapter.overlapReport)
+        : null;
+      if (latexContent !== chapter.latexContent || !overlapReport) {
+        const { checkOverlap } = await import("../services/overlapDetector");
+        const { loadResearch, loadChapterResearch } = await import(
+          "../services/researchService"
+        );
+        overlapReport = checkOverlap(latexContent, [
+          await loadChapterResearch(id, num),
+          await loadResearch(id),
+        ]);
+        await prisma.chapter.update({
+          where: { id: chapter.id },
+          data: { overlapReport: JSON.stringify(overlapReport) },
+        });
+      }
+
       return reply.send({
         success: true,
-        data: { chapterNumber: num, actualWords: wordCount },
+        data: {
+          chapterNumber: num,
+          actualWords: wordCount,
+          registry,
+          registryPending,
+          overlapReport,
+        },
       });
     },
   );
@@ -147,31 +217,490 @@ export async function chapterEditRoutes(app: FastifyInstance) {
         });
     }
 
+    if (await findPendingJob(id)) {
+      return reply.status(409).send({
+        success: false,
+        error: JOB_PENDING_ERROR,
+      });
+    }
+
     // Set stage to COMPILING so frontend shows progress
     await prisma.project.update({
       where: { id },
       data: {
         currentStage: "COMPILING",
         generationStatus: "COMPILING_LATEX",
+        cancelRequestedAt: null,
       },
     });
 
-    // Fire and forget — recompile in background
-    const { compileBook } = await import("../services/bookCompiler");
-    compileBook(id).catch(async (err) => {
-      console.error(`❌ Recompile failed for ${id}:`, err);
-      // Revert to COMPLETED even on failure so user can try again
-      await prisma.project
-        .update({
-          where: { id },
-          data: {
-            currentStage: "COMPLETED",
-            generationStatus: "COMPLETED",
-          },
-        })
-        .catch(console.error);
-    });
+    // Recompile in the worker — reverts to COMPLETED if it ultimately fails
+    if (!(await enqueueGeneration("recompile", id))) {
+      await prisma.project.update({
+        where: { id },
+        data: {
+          currentStage: project.currentStage,
+          generationStatus: project.generationStatus,
+          cancelRequestedAt: project.cancelRequestedAt,
+        },
+      });
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+    }
 
     return reply.send({ success: true, message: "Recompilation started" });
   });
+
+  // ━━━ POST /api/projects/:id/chapters/:chapterNumber/regenerate ━━━
+  // Rewrite one chapter from free-text feedback (counts against the quota)
+  app.post(
+    "/api/projects/:id/chapters/:chapterNumber/regenerate",
+    async (request, reply) => {
+      const { id, chapterNumber } = request.params as any;
+      const { feedback } = request.body as any;
+
+      if (typeof feedback !== "string" || feedback.trim().length < 5) {
+        return reply
+          .status(400)
+          .send({ success: false, error: "Describe what should change" });
+      }
+      if (feedback.length > 4000) {
+        return reply
+          .status(400)
+          .send({ success: false, error: "Feedback too long (max 4000)" });
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId: request.user.userId },
+      });
+      if (!project) {
+        return reply
+          .status(404)
+          .send({ success: false, error: "Project not found" });
+      }
+      if (project.currentStage !== "COMPLETED") {
+        return reply.status(400).send({
+          success: false,
+          error: "Book must be completed before regenerating chapters",
+        });
+      }
+      if (project.chapterRegenUsed >= project.chapterRegenQuota) {
+        return reply.status(403).send({
+          success: false,
+          error: "Chapter regeneration quota used up",
+        });
+      }
+
+      const num = parseInt(chapterNumber);
+      const chapter = isNaN(num)
+        ? null
+        : await prisma.chapter.findUnique({
+            where: {
+              projectId_chapterNumber: { projectId: id, chapterNumber: num },
+            },
+          });
+      if (!chapter || chapter.status !== "LATEX_READY") {
+        return reply
+          .status(404)
+          .send({ success: false, error: "Chapter not found" });
+      }
+      if (chapter.kind !== "chapter") {
+        return reply.status(400).send({
+          success: false,
+          error: "Appendices and front/back matter are edited directly",
+        });
+      }
+      if (await findPendingJob(id)) {
+        return reply.status(409).send({
+          success: false,
+          error: JOB_PENDING_ERROR,
+        });
+      }
+
+      await prisma.chapter.update({
+        where: { id: chapter.id },
+        data: { status: "GENERATING" },
+      });
+      const job = await enqueueGeneration("chapter", id, "api", {
+        chapterNumber: num,
+        feedback: feedback.trim(),
+      });
+      if (!job) {
+        await prisma.chapter.update({
+          where: { id: chapter.id },
+          data: { status: "LATEX_READY" },
+        });
+        return reply
+          .status(409)
+          .send({ success: false, error: JOB_PENDING_ERROR });
+      }
+      const updated = await prisma.project.update({
+        where: { id },
+        data: { chapterRegenUsed: { increment: 1 } },
+        select: { chapterRegenQuota: true, chapterRegenUsed: true },
+      });
+
+      return reply.send({
+        success: true,
+        message: "Chapter regeneration started",
+        data: {
+          chapterNumber: num,
+          regenQuota: updated.chapterRegenQuota,
+          regenUsed: updated.chapterRegenUsed,
+        },
+      });
+    },
+  );
+
+  // ━━━ POST /api/projects/:id/chapters/:chapterNumber/sections ━━━
+  // Rewrite, expand or insert after a single \section{} (located by heading)
+  app.post(
+    "/api/projects/:id/chapters/:chapterNumber/sections",
+    async (request, reply) => {
+      const { id, chapterNumber } = request.params as any;
+      const { sectionTitle, action, instructions, newTitle } =
+        request.body as any;
+
+      if (!["rewrite", "expand", "insert_after"].includes(action)) {
+        return reply.status(400).send({
+          success: false,
+          error: "action must be rewrite, expand or insert_after",
+        });
+      }
+      if (typeof sectionTitle !== "string" || !sectionTitle.trim()) {
+        return reply
+          .status(400)
+          .send({ success: false, error: "sectionTitle required" });
+      }
+      if (
+        action === "insert_after" &&
+        (typeof newTitle !== "string" || !newTitle.trim())
+      ) {
+        return reply
+          .status(400)
+          .send({ success: false, error: "newTitle required for insert" });
+      }
+      if (instructions && String(instructions).length > 4000) {
+        return reply
+          .status(400)
+          .send({ success: false, error: "Notes too long (max 4000)" });
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId: request.user.userId },
+      });
+      if (!project) {
+        return reply
+          .status(404)
+          .send({ success: false, error: "Project not found" });
+      }
+      if (project.currentStage !== "COMPLETED") {
+        return reply.status(400).send({
+          success: false,
+          error: "Book must be completed before editing sections",
+        });
+      }
+
+      const num = parseInt(chapterNumber);
+      const chapter = isNaN(num)
+        ? null
+        : await prisma.chapter.findUnique({
+            where: {
+              projectId_chapterNumber: { projectId: id, chapterNumber: num },
+            },
+          });
+      if (!chapter?.latexContent || chapter.status !== "LATEX_READY") {
+        return reply
+          .status(404)
+          .send({ success: false, error: "Chapter not found" });
+      }
+      if (chapter.kind !== "chapter") {
+        return reply.status(400).send({
+          success: false,
+          error: "Appendices and front/back matter are edited directly",
+        });
+      }
+
+      const { findSection } = await import("../services/sectionEditor");
+      const section = findSection(chapter.latexContent, sectionTitle);
+      if (!section) {
+        return reply.status(404).send({
+          success: false,
+          error: `Section "${sectionTitle}" not found — save your edits first`,
+        });
+      }
+      if (await findPendingJob(id)) {
+        return reply.status(409).send({
+          success: false,
+          error: JOB_PENDING_ERROR,
+        });
+      }
+
+      await prisma.chapter.update({
+        where: { id: chapter.id },
+        data: { status: "GENERATING" },
+      });
+
+      const job = await enqueueGeneration("section", id, "api", {
+        chapterNumber: num,
+        feedback: instructions ? String(instructions).trim() : undefined,
+        section: {
+          title: section.title,
+          action,
+          newTitle: action === "insert_after" ? newTitle.trim() : undefined,
+        },
+      });
+      if (!job) {
+        await prisma.chapter.update({
+          where: { id: chapter.id },
+          data: { status: "LATEX_READY" },
+        });
+        return reply
+          .status(409)
+          .send({ success: false, error: JOB_PENDING_ERROR });
+      }
+
+      return reply.send({
+        success: true,
+        message: "Section edit started",
+        data: { chapterNumber: num, section: section.title, action },
+      });
+    },
+  );
+
+  // ━━━ GET /api/projects/:id/chapters/:chapterNumber/revisions ━━━
+  // Earlier versions of a chapter, newest first
+  app.get(
+    "/api/projects/:id/chapters/:chapterNumber/revisions",
+    async (request, reply) => {
+      const { id, chapterNumber } = request.params as any;
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId: request.user.userId },
+        select: { id: true },
+      });
+      if (!project) {
+        return reply
+          .status(404)
+          .send({ success: false, error: "Project not found" });
+      }
+
+      const revisions = await prisma.chapterRevision.findMany({
+        where: {
+          projectId: id,
+          chapter: { chapterNumber: parseInt(chapterNumber) },
+        },
+        orderBy: { revision: "desc" },
+        select: {
+          id: true,
+          revision: true,
+          latexContent: true,
+          actualWords: true,
+          source: true,
+          feedback: true,
+          createdAt: true,
+        },
+      });
+
+      return reply.send({ success: true, data: revisions });
+    },
+  );
+
+  // ━━━ GET /api/projects/:id/review ━━━
+  // Editorial reviews of the book, newest first
+  app.get("/api/projects/:id/review", async (request, reply) => {
+    const { id } = request.params as any;
+
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      select: { id: true },
+    });
+    if (!project) {
+      return reply
+        .status(404)
+        .send({ success: false, error: "Project not found" });
+    }
+
+    const { loadBookReviews } = await import("../services/reviewService");
+    const job = await findPendingJob(id);
+    return reply.send({
+      success: true,
+      data: {
+        reviews: await loadBookReviews(id),
+        // A re-review or insertion still running — poll until it is gone
+        reviewPending: job?.name === "review" || job?.name === "review-insert",
+      },
+    });
+  });
+
+  // ━━━ POST /api/projects/:id/review ━━━
+  // Re-review the book as it stands (after the user's own edits)
+  app.post("/api/projects/:id/review", async (request, reply) => {
+    const { id } = request.params as any;
+
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      select: { id: true },
+    });
+    if (!project) {
+      return reply
+        .status(404)
+        .send({ success: false, error: "Project not found" });
+    }
+
+    const { checkReviewRequest, ReviewUnavailableError } = await import(
+      "../services/reviewService"
+    );
+    try {
+      await checkReviewRequest(id);
+    } catch (err) {
+      if (!(err instanceof ReviewUnavailableError)) throw err;
+      return reply
+        .status(err.statusCode)
+        .send({ success: false, error: err.message });
+    }
+    if (!(await enqueueGeneration("review", id, "api"))) {
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+    }
+
+    return reply
+      .status(202)
+      .send({ success: true, message: "Review started" });
+  });
+
+  // ━━━ POST /api/projects/:id/review/insertions ━━━
+  // Write one missing topic of the latest review into the book
+  app.post("/api/projects/:id/review/insertions", async (request, reply) => {
+    const { id } = request.params as any;
+    const { topic } = request.body as any;
+
+    if (typeof topic !== "string" || !topic.trim()) {
+      return reply
+        .status(400)
+        .send({ success: false, error: "topic required" });
+    }
+
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      select: { id: true },
+    });
+    if (!project) {
+      return reply
+        .status(404)
+        .send({ success: false, error: "Project not found" });
+    }
+
+    const { checkReviewRequest, ReviewUnavailableError } = await import(
+      "../services/reviewService"
+    );
+    try {
+      await checkReviewRequest(id, topic);
+    } catch (err) {
+      if (!(err instanceof ReviewUnavailableError)) throw err;
+      return reply
+        .status(err.statusCode)
+        .send({ success: false, error: err.message });
+    }
+    if (!(await enqueueGeneration("review-insert", id, "api", { topic }))) {
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+    }
+
+    return reply
+      .status(202)
+      .send({ success: true, message: "Topic insertion started" });
+  });
+
+  // ━━━ GET /api/projects/:id/glossary ━━━
+  // Book-wide terminology + chapters that write a term some other way
+  app.get("/api/projects/:id/glossary", async (request, reply) => {
+    const { id } = request.params as any;
+
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      include: {
+        chapters: {
+          where: { status: "LATEX_READY" },
+          select: { chapterNumber: true, latexContent: true },
+        },
+      },
+    });
+    if (!project) {
+      return reply
+        .status(404)
+        .send({ success: false, error: "Project not found" });
+    }
+
+    const { loadGlossary, checkTermConsistency } = await import(
+      "../services/glossaryService"
+    );
+    const terms = await loadGlossary(id);
+    return reply.send({
+      success: true,
+      data: {
+        enabled: project.glossaryEnabled,
+        terms,
+        issues: checkTermConsistency(terms, project.chapters),
+      },
+    });
+  });
+
+  // ━━━ PUT /api/projects/:id/glossary ━━━
+  // Replace the term list; the Glossary chapter appears on recompile
+  app.put("/api/projects/:id/glossary", async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      select: { id: true },
+    });
+    if (!project) {
+      return reply
+        .status(404)
+        .send({ success: false, error: "Project not found" });
+    }
+    if (!Array.isArray(body?.terms)) {
+      return reply
+        .status(400)
+        .send({ success: false, error: "terms must be an array" });
+    }
+
+    const terms = body.terms
+      .map((t: any) => ({
+        id: typeof t.id === "string" ? t.id : undefined,
+        term: String(t.term || "").trim(),
+        definition: String(t.definition || "").trim(),
+        variants: (Array.isArray(t.variants) ? t.variants : [])
+          .map((v: any) => String(v).trim())
+          .filter(Boolean),
+      }))
+      .filter((t: { term: string }) => t.term.length > 0);
+
+    const seen = new Set<string>();
+    for (const t of terms) {
+      const key = t.term.toLowerCase();
+      if (seen.has(key)) {
+        return reply
+          .status(400)
+          .send({ success: false, error: `Duplicate term: ${t.term}` });
+      }
+      seen.add(key);
+    }
+
+    const { saveGlossary } = await import("../services/glossaryService");
+    await saveGlossary(id, terms);
+    if (body.enabled !== undefined) {
+      await prisma.project.update({
+        where: { id },
+        data: { glossaryEnabled: !!body.enabled },
+      });
+    }
+
+    return reply.send({ success: true });
+  });
 }
@@ -1,17 +1,69 @@
 import { FastifyInstance } from "fastify";
 import Stripe from "stripe";
+import type { Prisma, Project } from "@prisma/client";
 import { prisma } from "../lib/prisma";
-import { authenticate } from "../middleware/auth";
+import {
+  enqueueGeneration,
+  findPendingJob,
+  JOB_PENDING_ERROR,
+} from "../lib/queue";
+import { markCancelled } from "../lib/cancellation";
+import {
+  getRecentEvents,
+  subscribeToEvents,
+  type PipelineEvent,
+} from "../lib/events";
+import { authenticate, type JwtPayload } from "../middleware/auth";
 import {
   calculatePrice,
   getPageSizeTier,
   MIN_PAGES,
   MAX_PAGES,
+  AUDIENCES,
+  TONES,
+  READING_LEVELS,
+  BOOK_GENRES,
 } from "../lib/types";
+import { parseBookMatter, serializeBookMatter } from "../services/bookMatter";
+import { appendicesOf } from "../services/appendices";
+
+/** Stream tokens only need to outlive the EventSource handshake */
+const STREAM_TOKEN_TTL = "60s";
+
+/**
+ * ALLOW_OFFLINE_CHECKOUT=true skips Stripe and marks books paid on the spot,
+ * so BRIEF → COMPLETED runs on a laptop (demos, CI). Refused in production.
+ */
+function offlineCheckout(): boolean {
+  return process.env.ALLOW_OFFLINE_CHECKOUT === "true";
+}
 
 export async function projectRoutes(app: FastifyInstance) {
+  if (offlineCheckout() && process.env.NODE_ENV === "production") {
+    throw new Error("ALLOW_OFFLINE_CHECKOUT must not be set in production");
+  }
+
   // All routes need auth
-  app.addHook("preHandler", authenticate);
+  app.addHook("preHandler", async (request, reply) => {
+    // EventSource can't send an Authorization header — /events takes a
+    // stream token (POST /events/token) in the URL instead of the JWT
+    if (request.routeOptions.url === "/api/projects/:id/events") {
+      const { id } = request.params as any;
+      try {
+        const payload = app.jwt.verify<JwtPayload>(
+          (request.query as any)?.token || "",
+        );
+        if (payload.type !== streamTokenType(id)) throw new Error();
+        request.user = payload;
+      } catch {
+        return reply
+          .status(401)
+          .send({ success: false, error: "Unauthorized" });
+      }
+      return;
+    }
+    await authenticate(request, reply);
+  });
 
   // ━━━ POST /api/projects ━━━
   app.post("/api/projects", async (request, reply) => {
@@ -22,6 +74,12 @@ export async function projectRoutes(app: FastifyInstance) {
       language,
       guidelines,
       stylePreset,
+      genre,
+      workbook,
+      bookMatter,
+      audience,
+      tone,
+      readingLevel,
       bookFormat,
       customColors,
       authorName,
@@ -34,14 +92,12 @@ export async function projectRoutes(app: FastifyInstance) {
         .send({ success: false, error: "Topic must be at least 5 characters" });
     }
 
-    if (!process.env.STRIPE_SECRET_KEY) {
+    if (!process.env.STRIPE_SECRET_KEY && !offlineCheckout()) {
       return reply
         .status(500)
         .send({ success: false, error: "Stripe not configured" });
     }
 
-    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
-
     // Snap to nearest tier
     const rawPages = Math.max(
       MIN_PAGES,
@@ -74,6 +130,15 @@ export async function projectRoutes(app: FastifyInstance) {
         language: language || "en",
         guidelines: guidelines || null,
         stylePreset: stylePreset || "modern",
+        // Unknown presets fall back to the column defaults
+        genre: BOOK_GENRES.includes(genre) ? genre : undefined,
+        workbook: workbook === true,
+        bookMatter: serializeBookMatter(bookMatter),
+        audience: AUDIENCES.includes(audience) ? audience : undefined,
+        tone: TONES.includes(tone) ? tone : undefined,
+        readingLevel: READING_LEVELS.includes(readingLevel)
+          ? readingLevel
+          : undefined,
         bookFormat: bookFormat || "a5",
         priceUsdCents: pricing.priceUsdCents,
         currentStage: "PAYMENT",
@@ -83,7 +148,20 @@ export async function projectRoutes(app: FastifyInstance) {
       },
     });
 
+    // ── Offline checkout: no Stripe, straight to the pipeline ──
+    if (offlineCheckout()) {
+      return reply.status(201).send({
+        success: true,
+        data: {
+          project: formatProject(project),
+          pricing: { ...pricing, tierLabel: pricing.tier.label },
+          sessionUrl: await markPaidOffline(project.id),
+        },
+      });
+    }
+
     // ── Create Stripe session immediately ──
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
     const user = await prisma.user.findUnique({
       where: { id: request.user.userId },
     });
@@ -164,6 +242,7 @@ export async function projectRoutes(app: FastifyInstance) {
           },
         },
         chapters: {
+          where: { kind: "chapter" },
           select: {
             id: true,
             chapterNumber: true,
@@ -215,6 +294,14 @@ export async function projectRoutes(app: FastifyInstance) {
       data.authorName = body.authorName || null;
     if (body.subtitle !== undefined) data.subtitle = body.subtitle || null;
     if (body.stylePreset) data.stylePreset = body.stylePreset;
+    if (BOOK_GENRES.includes(body.genre)) data.genre = body.genre;
+    if (typeof body.workbook === "boolean") data.workbook = body.workbook;
+    if (Array.isArray(body.bookMatter))
+      data.bookMatter = serializeBookMatter(body.bookMatter);
+    if (AUDIENCES.includes(body.audience)) data.audience = body.audience;
+    if (TONES.includes(body.tone)) data.tone = body.tone;
+    if (READING_LEVELS.includes(body.readingLevel))
+      data.readingLevel = body.readingLevel;
     if (body.bookFormat) data.bookFormat = body.bookFormat;
     if (body.targetPages) {
       const rawPages = Math.max(
@@ -246,13 +333,12 @@ export async function projectRoutes(app: FastifyInstance) {
 
   // ━━━ POST /api/projects/:id/checkout ━━━
   app.post("/api/projects/:id/checkout", async (request, reply) => {
-    if (!process.env.STRIPE_SECRET_KEY) {
+    if (!process.env.STRIPE_SECRET_KEY && !offlineCheckout()) {
       return reply
         .status(500)
         .send({ success: false, error: "Stripe not configured" });
     }
 
-    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
     const { id } = request.params as any;
     const project = await prisma.project.findFirst({
       where: { id, userId: request.user.userId },
@@ -265,6 +351,14 @@ export async function projectRoutes(app: FastifyInstance) {
     if (!project.priceUsdCents)
       return reply.status(400).send({ success: false, error: "Price not set" });
 
+    if (offlineCheckout()) {
+      return reply.send({
+        success: true,
+        data: { sessionUrl: await markPaidOffline(project.id), sessionId: null },
+      });
+    }
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
     const user = await prisma.user.findUnique({
       where: { id: request.user.userId },
     });
@@ -327,11 +421,23 @@ export async function projectRoutes(app: FastifyInstance) {
         .status(404)
         .send({ success: false, error: "Structure not found" });
 
-    const { chapters } = request.body as any;
+    // Fiction: the cast and setting survive chapter edits unless replaced
+    const { chapters, appendices, characters, setting } = request.body as any;
+    const stored = JSON.parse(project.structure.structureJson);
+    const storyBible = {
+      characters: characters ?? stored.characters,
+      setting: setting ?? stored.setting,
+    };
     await prisma.projectStructure.update({
       where: { id: project.structure.id },
       data: {
-        structureJson: JSON.stringify({ chapters }),
+        structureJson: JSON.stringify({
+          chapters,
+          appendices: appendicesOf({
+            appendices: appendices ?? stored.appendices,
+          }),
+          ...storyBible,
+        }),
         isUserEdited: true,
         version: { increment: 1 },
       },
@@ -386,6 +492,9 @@ export async function projectRoutes(app: FastifyInstance) {
     }
     if (body.colophonEnabled !== undefined)
       data.colophonEnabled = !!body.colophonEnabled;
+    // Back matter
+    if (["apa", "ieee", "chicago"].includes(body.citationStyle))
+      data.citationStyle = body.citationStyle;
     const updated = await prisma.project.update({ where: { id }, data });
     console.log("[TITLE-PAGE PATCH] Updated fields:", {
       title: updated.title,
@@ -412,16 +521,25 @@ export async function projectRoutes(app: FastifyInstance) {
       });
     }
 
+    if (await findPendingJob(id))
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+
     await prisma.project.update({
       where: { id },
       data: { structureRedoUsed: true, currentStage: "STRUCTURE" },
     });
 
-    const { generateStructure } =
-      await import("../services/structureGenerator");
-    generateStructure(id).catch((err) => {
-      console.error(`❌ Structure redo failed for ${id}:`, err);
-    });
+    if (!(await enqueueGeneration("structure", id))) {
+      await prisma.project.update({
+        where: { id },
+        data: { structureRedoUsed: false, currentStage: project.currentStage },
+      });
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+    }
 
     return reply.send({ success: true, message: "Regeneration started" });
   });
@@ -443,28 +561,148 @@ export async function projectRoutes(app: FastifyInstance) {
       return reply
         .status(400)
         .send({ success: false, error: "Approve structure first" });
+    if (project.spendCapHitAt)
+      return reply.status(409).send({
+        success: false,
+        error: "Generation is paused for review — our team has been notified",
+      });
 
-    await prisma.project.update({
-      where: { id },
-      data: {
-        generationStatus: "GENERATING_CONTENT",
-        currentStage: "GENERATING",
-        generationProgress: 0,
+    if (await findPendingJob(id))
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+
+    const started = {
+      generationStatus: "GENERATING_CONTENT",
+      currentStage: "GENERATING",
+      generationProgress: 0,
+      cancelRequestedAt: null,
+    } as const;
+    await prisma.project.update({ where: { id }, data: started });
+
+    if (!(await enqueueGeneration("content", id))) {
+      await restoreGenerationState(project, started);
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+    }
+
+    return reply.send({ success: true, message: "Generation started" });
+  });
+
+  // ━━━ POST /api/projects/:id/generate/resume ━━━
+  // Continue from the first unfinished chapter, keeping LATEX_READY ones
+  app.post("/api/projects/:id/generate/resume", async (request, reply) => {
+    const { id } = request.params as any;
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      include: {
+        structure: true,
+        chapters: { where: { kind: "chapter" }, select: { status: true } },
       },
     });
+    if (!project)
+      return reply.status(404).send({ success: false, error: "Not found" });
+    if (project.paymentStatus !== "PAID")
+      return reply
+        .status(403)
+        .send({ success: false, error: "Payment required" });
+    if (!project.structure?.approvedAt)
+      return reply
+        .status(400)
+        .send({ success: false, error: "Approve structure first" });
+    if (project.generationStatus === "COMPLETED")
+      return reply
+        .status(400)
+        .send({ success: false, error: "Book is already completed" });
+    if (project.spendCapHitAt)
+      return reply.status(409).send({
+        success: false,
+        error: "Generation is paused for review — our team has been notified",
+      });
 
-    const { generateContent } = await import("../services/contentGenerator");
-    generateContent(id).catch((err) => {
-      console.error(`❌ Content generation failed for ${id}:`, err);
-      prisma.project
-        .update({
-          where: { id },
-          data: { currentStage: "ERROR", generationStatus: "ERROR" },
-        })
-        .catch(console.error);
+    const finished = project.chapters.filter(
+      (c) => c.status === "LATEX_READY",
+    ).length;
+    if (finished === 0)
+      return reply.status(400).send({
+        success: false,
+        error: "No finished chapters to resume from — start generation instead",
+      });
+
+    if (await findPendingJob(id))
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+
+    const started = {
+      generationStatus: "GENERATING_CONTENT",
+      currentStage: "GENERATING",
+      cancelRequestedAt: null,
+    } as const;
+    await prisma.project.update({ where: { id }, data: started });
+
+    if (!(await enqueueGeneration("resume", id))) {
+      await restoreGenerationState(project, started);
+      return reply
+        .status(409)
+        .send({ success: false, error: JOB_PENDING_ERROR });
+    }
+
+    return reply.send({
+      success: true,
+      message: "Generation resumed",
+      data: { keptChapters: finished },
     });
+  });
 
-    return reply.send({ success: true, message: "Generation started" });
+  // ━━━ POST /api/projects/:id/generation/cancel ━━━
+  // Queued job → removed now. Running job → flag, honoured at next checkpoint.
+  app.post("/api/projects/:id/generation/cancel", async (request, reply) => {
+    const { id } = request.params as any;
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      select: { id: true, generationStatus: true },
+    });
+    if (!project)
+      return reply.status(404).send({ success: false, error: "Not found" });
+
+    const cancellable = [
+      "GENERATING_CONTENT",
+      "REVIEWING_CONTENT",
+      "CONTENT_READY",
+      "COMPILING_LATEX",
+      "COMPILING_EPUB",
+    ];
+    if (!cancellable.includes(project.generationStatus))
+      return reply
+        .status(400)
+        .send({ success: false, error: "Nothing to cancel" });
+
+    const job = await findPendingJob(id);
+    const state = job ? await job.getState() : null;
+
+    if (job && state !== "active") {
+      await job.remove();
+    }
+    if (!job || state !== "active") {
+      await markCancelled(id);
+      return reply.send({
+        success: true,
+        message: "Generation cancelled",
+        data: { status: "CANCELLED" },
+      });
+    }
+
+    await prisma.project.update({
+      where: { id },
+      data: { cancelRequestedAt: new Date() },
+    });
+    return reply.send({
+      success: true,
+      message: "Cancelling — stopping after the current step",
+      data: { status: "CANCELLING" },
+    });
   });
 
   // ━━━ GET /api/projects/:id/generation/status ━━━
@@ -474,6 +712,7 @@ export async function projectRoutes(app: FastifyInstance) {
       where: { id, userId: request.user.userId },
       include: {
         chapters: {
+          where: { kind: "chapter" },
           select: { chapterNumber: true, title: true, status: true },
           orderBy: { chapterNumber: "asc" },
         },
@@ -492,6 +731,98 @@ export async function projectRoutes(app: FastifyInstance) {
     });
   });
 
+  // ━━━ GET /api/projects/:id/events ━━━
+  // Server-Sent Events: live pipeline events (phases, research sources,
+  // chapter word counts, review score, pdflatex attempts). Replays stored
+  // events after Last-Event-ID, then streams new ones.
+  app.get("/api/projects/:id/events", async (request, reply) => {
+    const { id } = request.params as any;
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      select: { id: true },
+    });
+    if (!project)
+      return reply.status(404).send({ success: false, error: "Not found" });
+
+    let lastId =
+      parseInt(
+        (request.headers["last-event-id"] as string) ||
+          (request.query as any)?.lastEventId ||
+          "0",
+        10,
+      ) || 0;
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    let closed = false;
+    let unsubscribe: (() => Promise<void>) | null = null;
+
+    const send = (event: PipelineEvent) => {
+      if (closed || event.id <= lastId) return;
+      lastId = event.id;
+      reply.raw.write(
+        `id: ${event.id}\nevent: pipeline\ndata: ${JSON.stringify(event)}\n\n`,
+      );
+    };
+
+    // Listen for the disconnect first — the client may leave mid-replay
+    const heartbeat = setInterval(() => reply.raw.write(": ping\n\n"), 25_000);
+    const stop = () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe?.().catch(() => {});
+      unsubscribe = null;
+    };
+    request.raw.on("close", stop);
+
+    try {
+      // Subscribe before replaying so nothing published in between is lost;
+      // live events are held back until the replay is done
+      let pending: PipelineEvent[] | null = [];
+      unsubscribe = await subscribeToEvents(id, (event) => {
+        if (pending) pending.push(event);
+        else send(event);
+      });
+      if (closed) return stop();
+      for (const event of await getRecentEvents(id, lastId)) send(event);
+      for (const event of pending) send(event);
+      pending = null;
+    } catch (err) {
+      // Hijacked — Fastify can no longer answer; end the stream instead
+      console.error(`  ❌ [EVENTS] stream for ${id} failed:`, err);
+      stop();
+      reply.raw.end();
+    }
+  });
+
+  // ━━━ POST /api/projects/:id/events/token ━━━
+  // Short-lived token for the event stream only — keeps the JWT out of URLs
+  app.post("/api/projects/:id/events/token", async (request, reply) => {
+    const { id } = request.params as any;
+    const project = await prisma.project.findFirst({
+      where: { id, userId: request.user.userId },
+      select: { id: true },
+    });
+    if (!project)
+      return reply.status(404).send({ success: false, error: "Not found" });
+
+    const token = app.jwt.sign(
+      {
+        userId: request.user.userId,
+        email: request.user.email,
+        type: streamTokenType(id),
+      },
+      { expiresIn: STREAM_TOKEN_TTL },
+    );
+    return reply.send({ success: true, data: { token } });
+  });
+
   // ━━━ DELETE /api/projects/:id ━━━
   app.delete("/api/projects/:id", async (request, reply) => {
     const { id } = request.params as any;
@@ -510,6 +841,56 @@ export async function projectRoutes(app: FastifyInstance) {
   });
 }
 
+/** JWT type of a stream token — valid for one project's /events only */
+function streamTokenType(projectId: string): string {
+  return `events:${projectId}`;
+}
+
+/**
+ * Offline checkout stand-in for the Stripe webhook: mark paid, queue the
+ * structure job. Returns the URL the frontend would land on after checkout.
+ */
+async function markPaidOffline(projectId: string): Promise<string> {
+  await prisma.project.update({
+    where: { id: projectId },
+    data: {
+      paymentStatus: "PAID",
+      paidAt: new Date(),
+      currentStage: "STRUCTURE",
+    },
+  });
+  await enqueueGeneration("structure", projectId, "api");
+  return `${process.env.FRONTEND_URL}/projects/${projectId}?payment=success`;
+}
+
+/**
+ * Undo the "generating" state a route set before enqueueGeneration skipped
+ * its job (another job was queued after the route's findPendingJob check).
+ * Only while the row still holds what the route wrote — once the pending
+ * job has moved on, or the user asked to cancel it, its state stands.
+ */
+async function restoreGenerationState(
+  project: Pick<
+    Project,
+    | "id"
+    | "currentStage"
+    | "generationStatus"
+    | "generationProgress"
+    | "cancelRequestedAt"
+  >,
+  written: Prisma.ProjectWhereInput,
+) {
+  await prisma.project.updateMany({
+    where: { ...written, id: project.id },
+    data: {
+      currentStage: project.currentStage,
+      generationStatus: project.generationStatus,
+      generationProgress: project.generationProgress,
+      cancelRequestedAt: project.cancelRequestedAt,
+    },
+  });
+}
+
 function formatProject(p: any) {
   return {
     ...p,
@@ -518,5 +899,6 @@ function formatProject(p: any) {
       : null,
     // Parse customColors back to array for frontend
     customColors: p.customColors ? JSON.parse(p.customColors) : null,
+    bookMatter: parseBookMatter(p.bookMatter),
   };
 }
@@ -1,6 +1,7 @@
 import { FastifyInstance } from "fastify";
 import Stripe from "stripe";
 import { prisma } from "../lib/prisma";
+import { enqueueGeneration } from "../lib/queue";
 
 export async function webhookRoutes(app: FastifyInstance) {
   // Raw body parser for Stripe signature
@@ -78,18 +79,8 @@ export async function webhookRoutes(app: FastifyInstance) {
 
       // Launch pipeline: research → structure → (user approves) → content → compile
       console.log(`  🚀 Launching generation pipeline...`);
-      const { generateStructure } =
-        await import("../services/structureGenerator");
-      generateStructure(projectId).catch((err) => {
-        console.error(`  ❌ Pipeline failed for ${projectId}:`, err);
-        prisma.project
-          .update({
-            where: { id: projectId },
-            data: { currentStage: "ERROR", generationStatus: "ERROR" },
-          })
-          .catch(console.error);
-      });
-      console.log(`  ✅ Pipeline launched (background)\n`);
+      await enqueueGeneration("structure", projectId, "webhook");
+      console.log(`  ✅ Pipeline queued (worker)\n`);
     } else {
       console.log(`  ℹ️  Ignoring event: ${event.type}`);
     }
@@ -0,0 +1,209 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Appendices
+// Checklists, templates and reference tables get their own list in the
+// structure (structure.appendices) and their own page budget instead of
+// being forced into chapters. They are written after the chapters with
+// the appendix.write prompt and stored as Chapter rows (kind "appendix")
+// numbered from APPENDIX_BASE — after the chapters, before the back
+// matter. The PDF sets them after \appendix, lettered A, B, C…; the EPUB
+// titles them "Appendix A: …".
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { prisma } from "../lib/prisma";
+import { getLlm, MODELS } from "../lib/llm";
+import { checkSpend } from "../lib/spendCap";
+import { throwIfCancelled } from "../lib/cancellation";
+import type { PromptSet } from "../lib/prompts";
+import { voiceProfileOf, writerVoiceVars } from "./voiceProfile";
+import { formatTermsForPrompt, loadGlossary } from "./glossaryService";
+import { writtenChaptersList } from "./bookMatter";
+import {
+  cleanLatex,
+  countWords,
+  getLangName,
+  sanitizeGeneratedLatex,
+} from "./contentGenerator";
+
+const APPENDIX_MODEL = MODELS.writer;
+
+/** Chapter number of Appendix A; back matter starts at 1000 */
+export const APPENDIX_BASE = 900;
+
+export interface AppendixStructure {
+  id: string;
+  letter: string;
+  title: string;
+  description: string;
+  targetPages: number;
+}
+
+const LABELS: Record<string, string> = {
+  en: "Appendix",
+  pl: "Dodatek",
+  de: "Anhang",
+  es: "Apéndice",
+  fr: "Annexe",
+};
+
+export function appendixLabel(language: string): string {
+  return LABELS[language] || LABELS.en;
+}
+
+/** A, B, C… from the stored chapter number */
+export function appendixLetter(chapterNumber: number): string {
+  return String.fromCharCode(65 + chapterNumber - APPENDIX_BASE);
+}
+
+/** Structure JSON → appendices, lettered in order; malformed entries dropped */
+export function appendicesOf(structure: any): AppendixStructure[] {
+  const list: any[] = Array.isArray(structure?.appendices)
+    ? structure.appendices
+    : [];
+  return list
+    .filter((a) => typeof a?.title === "string" && a.title.trim())
+    .slice(0, 26)
+    .map((a, i) => {
+      const letter = appendixLetter(APPENDIX_BASE + i);
+      return {
+        id: typeof a.id === "string" && a.id ? a.id : `app${letter}`,
+        letter,
+        title: a.title.trim(),
+        description: typeof a.description === "string" ? a.description : "",
+        targetPages: Math.max(1, Number(a.targetPages) || 1),
+      };
+    });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Main entry — call once the chapters are written and reviewed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface AppendixParams {
+  projectId: string;
+  bookTitle: string;
+  appendices: AppendixStructure[];
+  /** Book-level research, already trimmed for the prompt */
+  sourcesText: string;
+  hasResearch: boolean;
+  wpp: number;
+  /** Keep appendices already LATEX_READY */
+  resume: boolean;
+  promptSet: PromptSet;
+  log: any;
+}
+
+/**
+ * Write the appendices the structure plans. Appendices removed from the
+ * structure are deleted.
+ */
+export async function generateAppendices(
+  p: AppendixParams,
+): Promise<{ written: number; tokensUsed: number }> {
+  const { projectId } = p;
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { chapters: { orderBy: { chapterNumber: "asc" } } },
+  });
+  if (!project) throw new Error("Project not found");
+
+  await prisma.chapter.deleteMany({
+    where: {
+      projectId,
+      kind: "appendix",
+      chapterNumber: { gte: APPENDIX_BASE + p.appendices.length },
+    },
+  });
+  if (p.appendices.length === 0) return { written: 0, tokensUsed: 0 };
+
+  const chapters = writtenChaptersList(project.chapters);
+  const reader = writerVoiceVars(voiceProfileOf(project)).reader;
+  const terminology = formatTermsForPrompt(await loadGlossary(projectId));
+  let written = 0;
+  let tokensUsed = 0;
+
+  for (const [i, appendix] of p.appendices.entries()) {
+    await throwIfCancelled(projectId);
+    const chapterNumber = APPENDIX_BASE + i;
+    const stored = project.chapters.find(
+      (ch) => ch.chapterNumber === chapterNumber,
+    );
+    if (p.resume && stored?.status === "LATEX_READY") {
+      p.log.step(`  App.${appendix.letter}: kept from previous run`);
+      continue;
+    }
+
+    await checkSpend(projectId, `appendix ${appendix.letter}`, p.log);
+    const targetWords = Math.round(appendix.targetPages * p.wpp);
+    const { text: prompt, ref } = p.promptSet.render("appendix.write", {
+      bookTitle: p.bookTitle,
+      topic: project.topic,
+      letter: appendix.letter,
+      appendixTitle: appendix.title,
+      description: appendix.description,
+      targetWords,
+      chapters,
+      reader,
+      guidelines: project.guidelines || "",
+      terminology,
+      hasResearch: p.hasResearch,
+      sourcesText: p.sourcesText,
+      lang: getLangName(project.language),
+    });
+
+    p.log.claudeReq?.(`appendix-${appendix.letter}`, prompt);
+    const res = await getLlm().complete({
+      task: "appendix",
+      model: APPENDIX_MODEL,
+      maxTokens: Math.min(16000, Math.max(2000, targetWords * 3)),
+      messages: [{ role: "user", content: prompt }],
+    });
+    p.log.api(res, { chapter: chapterNumber });
+    tokensUsed += res.usage.inputTokens + res.usage.outputTokens;
+    const timestamp = new Date().toISOString();
+
+    // The heading is ours — \appendix letters it
+    const body = sanitizeGeneratedLatex(
+      cleanLatex(res.text).replace(/^\\chapter\*?\{[^}]*\}\s*/, ""),
+    );
+    p.log.claudeRes?.(`appendix-${appendix.letter}`, body);
+    const words = countWords(body);
+    // Structure titles are plain text
+    const heading = appendix.title.replace(/[&%$#_]/g, (c) => `\\${c}`);
+
+    const data = {
+      kind: "appendix",
+      title: appendix.title,
+      latexContent: `\\chapter{${heading}}\n\n${body}`,
+      targetPages: appendix.targetPages,
+      targetWords,
+      actualWords: words,
+      actualPages: words / p.wpp,
+      status: "LATEX_READY" as const,
+      writerPrompts: JSON.stringify([
+        { step: "appendix", role: "user", content: prompt, timestamp },
+      ]),
+      writerResponses: JSON.stringify([
+        {
+          step: "appendix",
+          content: res.text,
+          inputTokens: res.usage.inputTokens,
+          outputTokens: res.usage.outputTokens,
+          model: res.model,
+          timestamp,
+        },
+      ]),
+      promptRefs: JSON.stringify([ref]),
+    };
+    await prisma.chapter.upsert({
+      where: { projectId_chapterNumber: { projectId, chapterNumber } },
+      create: { projectId, chapterNumber, ...data },
+      update: data,
+    });
+    written++;
+    p.log.ok(
+      `  App.${appendix.letter} "${appendix.title}": ${words}/${targetWords} words`,
+    );
+  }
+
+  return { written, tokensUsed };
+}
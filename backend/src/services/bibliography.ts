@@ -0,0 +1,295 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Bibliography
+// Every selected research source becomes a reference with a stable
+// citation key derived from its URL. The writer sees the key in the
+// SOURCE header of its research block and cites with \cite{key}; the
+// compilers turn the sources into a References chapter in the project's
+// citation style (APA, IEEE or Chicago).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { createHash } from "crypto";
+import type {
+  ResearchResult,
+  ChapterResearchResult,
+} from "./researchService";
+
+export type CitationStyle = "apa" | "ieee" | "chicago";
+export const CITATION_STYLES: CitationStyle[] = ["apa", "ieee", "chicago"];
+
+export interface BibEntry {
+  key: string;
+  title: string;
+  site: string;
+  url: string;
+  /** ISO date the source was scraped */
+  accessed: string;
+}
+
+/** A reference, split so each compiler can render italics and links */
+type Segment = { text: string; italic?: boolean; url?: boolean };
+
+export interface BookBibliography {
+  style: CitationStyle;
+  /** In reference-list order */
+  entries: BibEntry[];
+}
+
+const CITE_RE = /\\cite(?:\[[^\]]*\])?\{([^}]*)\}/g;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Keys & entries
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function siteOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Stable citation key: site name + 4 hex chars of the URL hash
+ * ("https://hbr.org/2023/x" → "hbr-3fa2"). Same URL, same key, in every
+ * chapter and on every recompile.
+ */
+export function citationKey(url: string): string {
+  const site = siteOf(url);
+  const labels = site.split(".");
+  const slug = (labels.length > 1 ? labels.slice(0, -1) : labels)
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/-+/g, "-")
+    .substring(0, 20);
+  const hash = createHash("sha1").update(url.trim()).digest("hex");
+  return `${slug || "src"}-${hash.substring(0, 4)}`;
+}
+
+/** All sources of the book — global research and every chapter's — once */
+export function collectBibliography(
+  global: ResearchResult | null,
+  chapters: (ChapterResearchResult | null)[],
+): BibEntry[] {
+  const entries = new Map<string, BibEntry>();
+  const add = (
+    research: ResearchResult | ChapterResearchResult | null,
+  ): void => {
+    for (const s of research?.selectedSources || []) {
+      if (entries.has(s.url)) continue;
+      const site = siteOf(s.url);
+      entries.set(s.url, {
+        key: citationKey(s.url),
+        title: s.title?.trim() || site,
+        site,
+        url: s.url,
+        accessed: research!.researchedAt,
+      });
+    }
+  };
+  add(global);
+  chapters.forEach(add);
+  return [...entries.values()];
+}
+
+function parseResearch<T>(json: string | null): T | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The book's references, ordered for the project's citation style. Pass
+ * the chapters through resolveCitations with the entry keys before
+ * rendering them.
+ */
+export function bibliographyForCompile(
+  project: { researchData: string | null; citationStyle: string },
+  chapters: { researchData: string | null; latexContent: string | null }[],
+): BookBibliography {
+  const style = isCitationStyle(project.citationStyle)
+    ? project.citationStyle
+    : "apa";
+  const entries = collectBibliography(
+    parseResearch<ResearchResult>(project.researchData),
+    chapters.map((c) => parseResearch<ChapterResearchResult>(c.researchData)),
+  );
+  const cited = citedKeys(chapters.map((c) => c.latexContent || ""));
+  return { style, entries: orderEntries(entries, style, cited) };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Citations in chapter text
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Cited keys in order of first citation across the given chapters */
+export function citedKeys(latexChapters: string[]): string[] {
+  const keys: string[] = [];
+  for (const latex of latexChapters) {
+    for (const m of latex.matchAll(CITE_RE)) {
+      for (const key of m[1].split(",").map((k) => k.trim())) {
+        if (key && !keys.includes(key)) keys.push(key);
+      }
+    }
+  }
+  return keys;
+}
+
+/**
+ * Drop \cite keys that match no source (invented by the model, or the
+ * source was removed) — an undefined citation prints as "[?]".
+ */
+export function resolveCitations(latex: string, known: Set<string>): string {
+  return latex.replace(
+    new RegExp(`\\s*${CITE_RE.source}`, "g"),
+    (match: string, keys: string) => {
+      const kept = keys
+        .split(",")
+        .map((k) => k.trim())
+        .filter((k) => known.has(k));
+      if (kept.length === 0) return "";
+      return match.replace(/\{[^}]*\}$/, `{${kept.join(",")}}`);
+    },
+  );
+}
+
+/**
+ * Reference-list order: IEEE by first citation (uncited sources last),
+ * APA and Chicago alphabetically by title.
+ */
+export function orderEntries(
+  entries: BibEntry[],
+  style: CitationStyle,
+  cited: string[],
+): BibEntry[] {
+  if (style === "ieee") {
+    const rank = (e: BibEntry) => {
+      const i = cited.indexOf(e.key);
+      return i === -1 ? cited.length : i;
+    };
+    return [...entries].sort((a, b) => rank(a) - rank(b));
+  }
+  return [...entries].sort((a, b) => a.title.localeCompare(b.title));
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Formatting
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const WORDS: Record<
+  string,
+  {
+    noDate: string;
+    retrieved: string;
+    from: string;
+    accessed: string;
+    available: string;
+  }
+> = {
+  en: {
+    noDate: "n.d.",
+    retrieved: "Retrieved",
+    from: "from",
+    accessed: "Accessed",
+    available: "Available",
+  },
+  pl: {
+    noDate: "b.d.",
+    retrieved: "Pobrano",
+    from: "z",
+    accessed: "Dostęp",
+    available: "Dostępne",
+  },
+  de: {
+    noDate: "o. J.",
+    retrieved: "Abgerufen am",
+    from: "von",
+    accessed: "Zugriff am",
+    available: "Verfügbar",
+  },
+};
+
+const REFERENCES_TITLES: Record<string, string> = {
+  en: "References",
+  pl: "Bibliografia",
+  de: "Literaturverzeichnis",
+  es: "Referencias",
+  fr: "Références",
+};
+
+export function referencesTitle(language: string): string {
+  return REFERENCES_TITLES[language] || REFERENCES_TITLES.en;
+}
+
+function formatDate(iso: string, language: string, short: boolean): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleDateString(language, {
+    year: "numeric",
+    month: short ? "short" : "long",
+    day: "numeric",
+  });
+}
+
+/** In-text label: "(hbr.org, n.d.)" author-date, or "[3]" for IEEE */
+export function citeLabel(
+  entry: BibEntry,
+  style: CitationStyle,
+  number: number,
+  language: string,
+): string {
+  const label = bibitemLabel(entry, style, language);
+  return label ? `(${label})` : `[${number}]`;
+}
+
+/** The label \bibitem[...] carries — what \cite prints inside its brackets */
+export function bibitemLabel(
+  entry: BibEntry,
+  style: CitationStyle,
+  language: string,
+): string | null {
+  if (style === "ieee") return null;
+  const w = WORDS[language] || WORDS.en;
+  return style === "apa"
+    ? `${entry.site}, ${w.noDate}`
+    : `${entry.site} ${w.noDate}`;
+}
+
+/** One reference in the given style, as text segments */
+export function formatReference(
+  entry: BibEntry,
+  style: CitationStyle,
+  language: string,
+): Segment[] {
+  const w = WORDS[language] || WORDS.en;
+  const date = formatDate(entry.accessed, language, style === "ieee");
+  switch (style) {
+    case "ieee":
+      return [
+        { text: `“${entry.title},” ${entry.site}. [Online]. ` },
+        { text: `${w.available}: ` },
+        { text: entry.url, url: true },
+        { text: ` (${w.accessed.toLowerCase()} ${date}).` },
+      ];
+    case "chicago":
+      return [
+        { text: `“${entry.title}.” ${entry.site}. ${w.accessed} ${date}. ` },
+        { text: entry.url, url: true },
+        { text: "." },
+      ];
+    default:
+      return [
+        { text: entry.title, italic: true },
+        { text: `. (${w.noDate}). ${entry.site}. ` },
+        { text: `${w.retrieved} ${date}, ${w.from} ` },
+        { text: entry.url, url: true },
+      ];
+  }
+}
+
+export function isCitationStyle(value: unknown): value is CitationStyle {
+  return CITATION_STYLES.includes(value as CitationStyle);
+}
@@ -4,9 +4,35 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 import { prisma } from "../lib/prisma";
+import { createPipelineLogger } from "../lib/logger";
+import {
+  throwIfCancelled,
+  GenerationCancelledError,
+} from "../lib/cancellation";
+import { fixtureImages, fixtureLatex } from "../lib/fixtures";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { compileEpub } from "./epubCompiler";
+import { glossaryForCompile, glossaryTitle } from "./glossaryService";
+import { buildBookIndex, INDEX_STYLE_FILE } from "./indexBuilder";
+import { isFiction } from "./narrativeMode";
+import { splitBookMatter } from "./bookMatter";
+import { appendixLetter } from "./appendices";
+import {
+  collectAnswerKey,
+  hasExercises,
+  workbookLabels,
+  type AnswerKeyChapter,
+  type ExerciseKind,
+} from "./workbook";
+import {
+  bibliographyForCompile,
+  bibitemLabel,
+  formatReference,
+  referencesTitle,
+  resolveCitations,
+  type BookBibliography,
+} from "./bibliography";
 import * as fs from "fs";
 import * as path from "path";
 import {
@@ -148,13 +174,16 @@ export async function compileBook(projectId: string) {
   if (readyChapters.length === 0) throw new Error("No LaTeX chapters ready");
 
   const bookTitle = project.title || project.topic;
+  const log = createPipelineLogger("COMPILE", projectId);
 
-  console.log(
-    `\n📖 Compiling "${bookTitle}" — ${readyChapters.length} chapters`,
-  );
+  log.header(`Compiling "${bookTitle}"`, {
+    Chapters: readyChapters.length,
+    Version: project.currentVersion + 1,
+  });
   console.log("[COMPILE] project.title:", project.title);
   console.log("[COMPILE] project.topic:", project.topic);
   console.log("[COMPILE] bookTitle used:", bookTitle);
+  await throwIfCancelled(projectId);
   await prisma.project.update({
     where: { id: projectId },
     data: { generationStatus: "COMPILING_LATEX", currentStage: "COMPILING" },
@@ -163,15 +192,83 @@ export async function compileBook(projectId: string) {
   // Build directory
   const buildDir = path.join(BUILD_DIR, projectId);
   if (!fs.existsSync(buildDir)) fs.mkdirSync(buildDir, { recursive: true });
-  console.log("  🖼️  Downloading project images...");
-  const imageMap = await downloadProjectImages(projectId, buildDir);
-  console.log(`  🖼️  ${imageMap.size} images downloaded`);
+  log.step("🖼️  Downloading project images...");
+  const imageMap = await fixtureImages(buildDir, () =>
+    downloadProjectImages(projectId, buildDir),
+  );
+  log.ok(`${imageMap.size} images downloaded`);
   try {
     // ── 1. Assemble full .tex document ──
+    log.phase(1, "Assemble LaTeX");
     const customColors = project.customColors
       ? JSON.parse(project.customColors)
       : undefined;
 
+    const glossary = await glossaryForCompile(
+      projectId,
+      project.glossaryEnabled,
+      project.language,
+    );
+    if (glossary.length > 0) log.data("Glossary", `${glossary.length} terms`);
+
+    // Citations of unknown sources are dropped — they would print "[?]"
+    const bibliography = bibliographyForCompile(project, readyChapters);
+    const knownKeys = new Set(bibliography.entries.map((e) => e.key));
+    const citedChapters = readyChapters.map((c) => ({
+      ...c,
+      latexContent: resolveCitations(c.latexContent!, knownKeys),
+    }));
+    if (bibliography.entries.length > 0) {
+      log.data(
+        "References",
+        `${bibliography.entries.length} sources (${bibliography.style})`,
+      );
+    }
+
+    // Front/back matter is set around the chapters, outside their numbering
+    const matter = splitBookMatter(citedChapters);
+    if (matter.front.length + matter.back.length > 0) {
+      log.data(
+        "Front/back matter",
+        [...matter.front, ...matter.back].map((c) => c.title).join(", "),
+      );
+    }
+    if (matter.appendices.length > 0) {
+      log.data(
+        "Appendices",
+        matter.appendices
+          .map((c) => `${appendixLetter(c.chapterNumber)}. ${c.title}`)
+          .join(", "),
+      );
+    }
+
+    // Index markers go into the compiled copy only, never the stored chapters
+    const fiction = isFiction(project.genre);
+    const index = fiction
+      ? { chapters: matter.chapters, terms: 0, marks: 0 }
+      : buildBookIndex(matter.chapters);
+    if (fiction) {
+      log.step("Fiction — no index; scenes typeset with breaks and drop caps");
+    } else if (index.terms > 0) {
+      fs.writeFileSync(path.join(buildDir, "book.ist"), INDEX_STYLE_FILE);
+      log.data("Index", `${index.terms} terms, ${index.marks} markers`);
+    } else {
+      log.warn("Index skipped — too few terms in the chapter registries");
+    }
+
+    // Answers come from the chapters themselves — no stored copy to go stale
+    const answerKey = collectAnswerKey(matter.chapters);
+    const exercises =
+      project.workbook ||
+      matter.chapters.some((c) => hasExercises(c.latexContent));
+    if (answerKey.length > 0) {
+      const count = answerKey.reduce((n, c) => n + c.entries.length, 0);
+      log.data(
+        "Answer Key",
+        `${count} exercises in ${answerKey.length} chapters`,
+      );
+    }
+
     const texContent = assembleLatexDocument({
       title: bookTitle,
       language: project.language,
@@ -184,24 +281,45 @@ export async function compileBook(projectId: string) {
       colophonText: project.colophonText,
       colophonFontSize: project.colophonFontSize,
       colophonEnabled: project.colophonEnabled ?? false,
-      chapters: readyChapters,
+      glossary,
+      bibliography,
+      withIndex: index.terms > 0,
+      fiction,
+      exercises,
+      answerKey,
+      frontMatter: matter.front,
+      backMatter: matter.back,
+      appendices: matter.appendices,
+      chapters: index.chapters,
     });
 
     const texPath = path.join(buildDir, "book.tex");
     fs.writeFileSync(texPath, texContent, "utf-8");
-    console.log(
-      `  📝 LaTeX assembled: ${texPath} (${texContent.length} chars)`,
-    );
+    log.ok(`LaTeX assembled: ${texContent.length.toLocaleString()} chars`);
+    const texDiff = fixtureLatex(texContent);
+    if (texDiff) {
+      log.warn(
+        `Replay: LaTeX differs from the recording at line ${texDiff.line}`,
+      );
+    }
 
     // ── 2. Run pdflatex with retry + auto-fix ──
+    log.phase(2, "pdflatex");
     const pdfPath = path.join(buildDir, "book.pdf");
     const logPath = path.join(buildDir, "book.log");
     const MAX_ATTEMPTS = 3;
+    // With an index: pass 2 settles page numbers (TOC), makeindex, pass 3
+    const PASSES = index.terms > 0 ? 3 : 2;
 
     for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-      for (let pass = 1; pass <= 2; pass++) {
-        console.log(
-          `  🔄 pdflatex attempt ${attempt}/${MAX_ATTEMPTS}, pass ${pass}/2...`,
+      await throwIfCancelled(projectId);
+      for (let pass = 1; pass <= PASSES; pass++) {
+        if (pass === PASSES && index.terms > 0) {
+          await runMakeindex(buildDir, log);
+        }
+        log.step(
+          `🔄 pdflatex attempt ${attempt}/${MAX_ATTEMPTS}, pass ${pass}/${PASSES}...`,
+          { kind: "pdflatex", attempt, maxAttempts: MAX_ATTEMPTS, pass },
         );
         try {
           await execAsync(
@@ -209,7 +327,7 @@ export async function compileBook(projectId: string) {
             { timeout: 120000, maxBuffer: 10 * 1024 * 1024 },
           );
         } catch (err: any) {
-          if (pass === 2 && !fs.existsSync(pdfPath)) {
+          if (pass === PASSES && !fs.existsSync(pdfPath)) {
             if (attempt < MAX_ATTEMPTS) {
               const didFix = attemptLatexAutoFix(texPath, logPath);
               if (didFix) {
@@ -231,7 +349,7 @@ export async function compileBook(projectId: string) {
 
       if (fs.existsSync(pdfPath)) {
         if (attempt > 1) {
-          console.log(`  ✅ Compilation succeeded on attempt ${attempt}`);
+          log.ok(`Compilation succeeded on attempt ${attempt}`);
         }
         break;
       }
@@ -239,7 +357,7 @@ export async function compileBook(projectId: string) {
       if (attempt < MAX_ATTEMPTS) {
         const didFix = attemptLatexAutoFix(texPath, logPath);
         if (!didFix) {
-          console.log(`  ⚠️ No auto-fix possible, retrying anyway...`);
+          log.warn(`No auto-fix possible, retrying anyway...`);
         }
       }
     }
@@ -249,7 +367,7 @@ export async function compileBook(projectId: string) {
     }
 
     const pdfSize = fs.statSync(pdfPath).size;
-    console.log(`  ✅ PDF compiled: ${(pdfSize / 1024).toFixed(0)} KB`);
+    log.ok(`PDF compiled: ${(pdfSize / 1024).toFixed(0)} KB`);
 
     // ── 2.5 Extract page count from PDF ──
     let pageCount: number | null = null;
@@ -263,8 +381,25 @@ export async function compileBook(projectId: string) {
     } catch {
       // pdfinfo might not be available — no problem
     }
+    if (pageCount) {
+      // Chapters are length-corrected to the tier; title pages, TOC and
+      // colophon account for the rest
+      const ofTier = Math.round((pageCount / project.targetPages) * 100);
+      log.data(
+        "Pages vs tier",
+        `${pageCount}/${project.targetPages} [${ofTier}%]`,
+      );
+      if (Math.abs(ofTier - 100) > 15) {
+        log.warn(
+          `Page count ${ofTier}% of the ${project.targetPages}-page tier`,
+        );
+      }
+    }
 
     // ── 3. Version management ──
+    // Last chance to cancel — past this point the version is published
+    await throwIfCancelled(projectId);
+    log.phase(3, "Publish Version");
     const newVersion = project.currentVersion + 1;
     const sanitizedTitle = sanitizeFilename(bookTitle);
 
@@ -314,7 +449,7 @@ export async function compileBook(projectId: string) {
           newVersion === 1 ? "Initial generation" : "Recompiled after editing",
       },
     });
-    console.log(`  📋 Version ${newVersion} recorded in database`);
+    log.ok(`Version ${newVersion} recorded`);
 
     // ── 4b. Save LaTeX source to version ──
     try {
@@ -363,19 +498,18 @@ export async function compileBook(projectId: string) {
       },
     });
 
-    console.log(`\n📖 Book compiled and ready! v${newVersion} 🎉\n`);
-    // ── 6// ── 6. EPUB compilation (non-blocking) ──
+    log.ok(`📖 Book compiled and ready! v${newVersion} 🎉`);
+    // ── 6. EPUB compilation (non-blocking) ──
+    log.phase(4, "EPUB");
     try {
-      console.log(`  📱 Starting EPUB compilation...`);
+      log.step(`📱 Starting EPUB compilation...`);
       await prisma.project.update({
         where: { id: projectId },
         data: { generationStatus: "COMPILING_EPUB" },
       });
 
       const epubResult = await compileEpub(projectId);
-      console.log(
-        `  📱 EPUB ready: ${epubResult.s3Key || epubResult.epubPath}`,
-      );
+      log.ok(`EPUB ready: ${epubResult.s3Key || epubResult.epubPath}`);
 
       // Update BookVersion with EPUB info
       await prisma.bookVersion.update({
@@ -387,8 +521,8 @@ export async function compileBook(projectId: string) {
         },
       });
       console.log(`  📱 Version ${newVersion} updated with EPUB info`);
-    } catch (epubError) {
-      console.error(`  ⚠️ EPUB compilation failed (non-fatal):`, epubError);
+    } catch (epubError: any) {
+      log.warn(`EPUB compilation failed (non-fatal): ${epubError?.message}`);
     }
 
     // Reset status to COMPLETED (might have been set to COMPILING_EPUB)
@@ -400,9 +534,16 @@ export async function compileBook(projectId: string) {
       },
     });
 
+    log.footer(
+      "SUCCESS",
+      `v${newVersion} — ${(pdfSize / 1024).toFixed(0)} KB${pageCount ? `, ${pageCount} pages` : ""}`,
+    );
     return { pdfPath, pdfUrl, s3Key, version: newVersion };
   } catch (error) {
-    console.error(`❌ Compilation failed:`, error);
+    // Cancelled: the worker sets the final CANCELLED state
+    if (error instanceof GenerationCancelledError) throw error;
+    log.err("Compilation failed", error);
+    log.footer("ERROR", (error as any)?.message);
     await prisma.project.update({
       where: { id: projectId },
       data: { generationStatus: "ERROR", currentStage: "ERROR" },
@@ -411,6 +552,42 @@ export async function compileBook(projectId: string) {
   }
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Fiction layout — \section{} is a scene, printed as a break
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Replaces the preset's section headings. The scene label (and a star or
+ * optional argument) is swallowed; every scene but a chapter's first gets
+ * a centred ornament, and the paragraph after it is not indented.
+ */
+const FICTION_SCENE_STYLE = [
+  "% ── Scenes: \\section{label} prints a break, never the label ──",
+  "\\newif\\ifbookforgefirstscene",
+  "\\makeatletter",
+  "\\renewcommand{\\section}{\\@ifstar\\bookforge@scene\\bookforge@scene}",
+  "\\newcommand{\\bookforge@scene}[2][]{%",
+  "  \\ifbookforgefirstscene\\global\\bookforgefirstscenefalse\\else",
+  "    \\par\\bigskip",
+  "    {\\centering\\textcolor{accent}{$\\ast$\\quad$\\ast$\\quad$\\ast$}\\par}",
+  "    \\bigskip\\@afterindentfalse\\@afterheading",
+  "  \\fi}",
+  "\\makeatother",
+  "\\renewcommand{\\chaptermark}[1]{\\markboth{#1}{#1}}",
+].join("\n");
+
+/**
+ * Drop cap on the first word of the chapter's opening paragraph — after
+ * \chapter{} and a first scene label. Skipped when the text opens with
+ * dialogue or a command.
+ */
+function addDropCap(latex: string): string {
+  return latex.replace(
+    /(\\chapter\*?\{[^}]*\}\s*(?:\\section\*?\{[^}]*\}\s*)?)(\p{Lu})([\p{L}\p{M}]*)/u,
+    (_, head, first, rest) => `${head}\\lettrine{${first}}{${rest}}`,
+  );
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Assemble full LaTeX document
 // (unchanged from original — keeping full function for completeness)
@@ -428,6 +605,24 @@ interface AssembleParams {
   colophonText?: string | null;
   colophonFontSize?: number | null;
   colophonEnabled?: boolean;
+  /** Back-matter Glossary chapter — omitted when empty */
+  glossary?: { term: string; definition: string }[];
+  /** Back-matter References chapter — omitted when there are no sources */
+  bibliography?: BookBibliography;
+  /** Chapters carry \index{} markers — add makeidx and \printindex */
+  withIndex?: boolean;
+  /** Narrative layout: scene breaks for \section{}, drop caps, indents */
+  fiction?: boolean;
+  /** Define the workbook environments (exercise, worksheet, choices) */
+  exercises?: boolean;
+  /** Back-matter Answer Key chapter — omitted when empty */
+  answerKey?: AnswerKeyChapter[];
+  /** Dedication (own page, before the TOC), preface, introduction… */
+  frontMatter?: MatterChapter[];
+  /** Conclusion (before the appendices), About the Author (last) */
+  backMatter?: MatterChapter[];
+  /** Lettered after \appendix, before the Answer Key */
+  appendices?: MatterChapter[];
   chapters: {
     chapterNumber: number;
     title: string;
@@ -435,6 +630,11 @@ interface AssembleParams {
   }[];
 }
 
+interface MatterChapter {
+  kind: string;
+  latexContent: string | null;
+}
+
 function assembleLatexDocument(p: AssembleParams): string {
   const babel = BABEL_LANG[p.language] || "english";
   const fontSize = FONT_SIZE[p.format] || "11pt";
@@ -494,12 +694,16 @@ function assembleLatexDocument(p: AssembleParams): string {
   add(colorsBlock);
   add("");
 
-  // ── Headers/footers (unchanged) ──
+  // ── Headers/footers — fiction: book title left, chapter title right ──
   add(
     "\\usepackage{fancyhdr}",
     "\\pagestyle{fancy}",
     "\\fancyhf{}",
-    "\\fancyhead[LE]{\\small\\textcolor{headergray}{\\textit{\\leftmark}}}",
+    p.fiction
+      ? "\\fancyhead[LE]{\\small\\textcolor{headergray}{\\textit{" +
+          title +
+          "}}}"
+      : "\\fancyhead[LE]{\\small\\textcolor{headergray}{\\textit{\\leftmark}}}",
     "\\fancyhead[RO]{\\small\\textcolor{headergray}{\\textit{\\rightmark}}}",
     "\\fancyfoot[C]{\\textcolor{headergray}{\\thepage}}",
     "\\renewcommand{\\headrulewidth}{0.4pt}",
@@ -515,15 +719,17 @@ function assembleLatexDocument(p: AssembleParams): string {
   // ── titlesec — NOTE: chapter style is defined LATER, after TOC ──
   add("\\usepackage{titlesec}");
   // Section/subsection styles go here (they don't affect TOC heading)
-  add(styleConfig.sectionStyle);
+  add(p.fiction ? FICTION_SCENE_STYLE : styleConfig.sectionStyle);
   add("");
 
-  // ── Typography (unchanged) ──
+  // ── Typography — fiction indents paragraphs instead of spacing them ──
   add(
     "\\usepackage{microtype}",
     "\\usepackage{setspace}",
     "\\onehalfspacing",
-    "\\usepackage{parskip}",
+    ...(p.fiction
+      ? ["\\usepackage{lettrine}", "\\setlength{\\parindent}{1.2em}"]
+      : ["\\usepackage{parskip}"]),
     "",
   );
 
@@ -647,6 +853,48 @@ function assembleLatexDocument(p: AssembleParams): string {
     "",
   );
 
+  // ── Workbook exercises — numbered per chapter; \answer{}, the right
+  // choice and the blank's text are only printed in the Answer Key ──
+  if (p.exercises) {
+    const labels = workbookLabels(p.language);
+    add(
+      "\\newtcolorbox[auto counter, number within=chapter]{exercise}[1]{",
+      "  enhanced, breakable,",
+      "  colback=white, colframe=accent, colbacktitle=accent,",
+      "  boxrule=0.6pt, leftrule=3.5pt,",
+      "  arc=2pt, outer arc=2pt,",
+      "  left=10pt, right=10pt, top=8pt, bottom=8pt,",
+      "  fonttitle=\\bfseries\\small\\color{white},",
+      "  title={" + escapeLatex(labels.exercise) + "~\\thetcbcounter: #1},",
+      "  before upper={\\parindent0pt\\small}",
+      "}",
+      "",
+      "\\newtcolorbox[use counter from=exercise]{worksheet}[1]{",
+      "  enhanced, breakable,",
+      "  colback=white, colframe=accent, colbacktitle=white,",
+      "  boxrule=1.2pt, arc=0pt, outer arc=0pt,",
+      "  left=10pt, right=10pt, top=8pt, bottom=8pt,",
+      "  fonttitle=\\bfseries\\color{accent},",
+      "  title={" + escapeLatex(labels.worksheet) + "~\\thetcbcounter: #1},",
+      "  titlerule=0.6pt,",
+      "  before upper={\\parindent0pt}",
+      "}",
+      "",
+      "\\newlist{choices}{enumerate}{1}",
+      "\\setlist[choices]{",
+      "  leftmargin=2em, itemsep=2pt, topsep=4pt,",
+      "  label=\\textcolor{accent}{(\\alph*)}",
+      "}",
+      "\\newcommand{\\choice}{\\item}",
+      "\\newcommand{\\correctchoice}{\\item}",
+      "\\newcommand{\\blank}[1]{\\rule[-2pt]{3.5cm}{0.4pt}}",
+      "\\newcommand{\\answer}[1]{}",
+      "\\newcommand{\\writelines}[1]{\\par\\foreach \\n in {1,...,#1}{%",
+      "  \\vspace{1.4em}\\noindent\\textcolor{rulecolor}{\\rule{\\linewidth}{0.4pt}}\\par}}",
+      "",
+    );
+  }
+
   // ── Quote (unchanged) ──
   add(
     "\\usepackage{csquotes}",
@@ -675,6 +923,31 @@ function assembleLatexDocument(p: AssembleParams): string {
     "",
   );
 
+  // ── Citations — author-date styles cite "(site, n.d.)" and list
+  // references without labels; IEEE keeps LaTeX's numbered [n] ──
+  if (p.bibliography && p.bibliography.style !== "ieee") {
+    add(
+      "\\makeatletter",
+      "\\renewcommand{\\@cite}[2]{(#1\\if@tempswa , #2\\fi)}",
+      "\\renewcommand{\\@biblabel}[1]{}",
+      "\\makeatother",
+      "",
+    );
+  }
+
+  // ── Index (makeindex runs between pdflatex passes) ──
+  if (p.withIndex) {
+    add(
+      "\\usepackage{makeidx}",
+      "\\makeindex",
+      styleConfig.indexStyle,
+      "% Index listed in the TOC, on its own first page",
+      "\\let\\bookforgetheindex\\theindex",
+      "\\renewcommand{\\theindex}{\\bookforgetheindex\\phantomsection\\addcontentsline{toc}{chapter}{\\indexname}}",
+      "",
+    );
+  }
+
   // ── Captions (unchanged) ──
   add(
     "\\usepackage[",
@@ -702,7 +975,7 @@ function assembleLatexDocument(p: AssembleParams): string {
   add("\\graphicspath{{./images/}{./}}");
   add("");
 
-  add("\\begin{document}", "");
+  add("\\begin{document}", "", "\\frontmatter", "");
 
   // ━━━ TITLE PAGE — all elements absolutely positioned ━━━
   add(
@@ -806,6 +1079,29 @@ function assembleLatexDocument(p: AssembleParams): string {
     );
   }
 
+  // ━━━ DEDICATION — alone on a right-hand page, no heading ━━━
+  const frontMatter = (p.frontMatter || []).filter((m) => m.latexContent);
+  const backMatter = (p.backMatter || []).filter((m) => m.latexContent);
+  const appendices = (p.appendices || []).filter((m) => m.latexContent);
+  const addMatter = (m: MatterChapter) =>
+    add(sanitizeChapterLatex(m.latexContent!), "\\clearpage", "");
+  const dedication = frontMatter.find((m) => m.kind === "dedication");
+  if (dedication) {
+    add(
+      "% ── Dedication ──",
+      "\\cleardoublepage",
+      "\\thispagestyle{empty}",
+      "~\\vfill",
+      "\\begin{center}",
+      "\\itshape",
+      sanitizeChapterLatex(dedication.latexContent!),
+      "\\end{center}",
+      "\\vfill\\vfill",
+      "\\clearpage",
+      "",
+    );
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // ★★★ TABLE OF CONTENTS — heading BLACK ★★★
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -836,10 +1132,19 @@ function assembleLatexDocument(p: AssembleParams): string {
     "",
   );
 
+  // ── Front matter — unnumbered chapters, roman page numbers ──
+  frontMatter.filter((m) => m !== dedication).forEach(addMatter);
+
   // ── Chapter content ──
+  add("\\mainmatter", "");
   for (const ch of p.chapters) {
     if (ch.latexContent) {
       let content = sanitizeChapterLatex(ch.latexContent);
+      if (p.fiction) {
+        content = addDropCap(content);
+        // The chapter's first scene follows its title — no break there
+        add("\\bookforgefirstscenetrue");
+      }
 
       // ── DEBUG: Check for image commands before rewriting ──
       const imgCmds = content.match(/\\includegraphics[^{]*\{[^}]+\}/g) || [];
@@ -873,6 +1178,86 @@ function assembleLatexDocument(p: AssembleParams): string {
     }
   }
 
+  // ── Back matter — the conclusion leads, About the Author closes ──
+  add("\\backmatter", "");
+  const aboutAuthor = backMatter.find((m) => m.kind === "about-author");
+  backMatter.filter((m) => m !== aboutAuthor).forEach(addMatter);
+
+  // ── Appendices — \backmatter switched chapter numbering off; \appendix
+  // brings it back as letters (A, B…) and "Appendix" headings ──
+  if (appendices.length > 0) {
+    add("\\appendix", "\\makeatletter\\@mainmattertrue\\makeatother", "");
+    appendices.forEach(addMatter);
+    add("\\makeatletter\\@mainmatterfalse\\makeatother", "");
+  }
+
+  // ── Answer Key (back matter) ──
+  if (p.answerKey && p.answerKey.length > 0) {
+    const labels = workbookLabels(p.language);
+    const heading = escapeLatex(labels.answerKey);
+    const kindLabel = (kind: ExerciseKind) => escapeLatex(labels[kind]);
+    add(
+      `\\chapter*{${heading}}`,
+      `\\addcontentsline{toc}{chapter}{${heading}}`,
+    );
+    for (const ch of p.answerKey) {
+      add(
+        `\\section*{${escapeLatex(labels.chapter)} ${ch.position}: ${escapeLatex(ch.title)}}`,
+        "\\begin{description}[style=nextline,leftmargin=1.5em]",
+        ...ch.entries.map(
+          (e) =>
+            `  \\item[{${kindLabel(e.kind)} ${e.number}${e.title ? `: ${e.title}` : ""}}] ${e.answers.join("; ")}`,
+        ),
+        "\\end{description}",
+      );
+    }
+    add("\\clearpage", "");
+  }
+
+  // ── Glossary (back matter) ──
+  if (p.glossary && p.glossary.length > 0) {
+    const glossaryHeading = escapeLatex(glossaryTitle(p.language));
+    add(
+      `\\chapter*{${glossaryHeading}}`,
+      `\\addcontentsline{toc}{chapter}{${glossaryHeading}}`,
+      "\\begin{description}[style=nextline,leftmargin=1.5em]",
+      ...p.glossary.map(
+        (t) =>
+          `  \\item[{${escapeLatex(t.term)}}] ${escapeLatex(t.definition)}`,
+      ),
+      "\\end{description}",
+      "\\clearpage",
+      "",
+    );
+  }
+
+  // ── References (back matter) ──
+  if (p.bibliography && p.bibliography.entries.length > 0) {
+    const { style, entries } = p.bibliography;
+    const widest =
+      style === "ieee" ? "9".repeat(String(entries.length).length) : "";
+    add(
+      `\\renewcommand{\\bibname}{${escapeLatex(referencesTitle(p.language))}}`,
+      `\\begin{thebibliography}{${widest}}`,
+      "\\phantomsection\\addcontentsline{toc}{chapter}{\\bibname}",
+      ...entries.map((e) => {
+        const label = bibitemLabel(e, style, p.language);
+        const item = label
+          ? `\\bibitem[${escapeLatex(label)}]{${e.key}}`
+          : `\\bibitem{${e.key}}`;
+        const text = referenceToLatex(formatReference(e, style, p.language));
+        return `${item} ${text}`;
+      }),
+      "\\end{thebibliography}",
+      "\\clearpage",
+      "",
+    );
+  }
+
+  // ── Index (back matter) ──
+  if (p.withIndex) add("\\printindex", "");
+  if (aboutAuthor) addMatter(aboutAuthor);
+
   add("\\end{document}");
 
   let assembled = L.join("\n");
@@ -902,6 +1287,9 @@ const KNOWN_ENVS = [
   "keyinsight",
   "warningbox",
   "examplebox",
+  "exercise",
+  "worksheet",
+  "choices",
   "itemize",
   "enumerate",
   "quote",
@@ -1299,6 +1687,22 @@ function sanitizeChapterLatex(latex: string): string {
   return result;
 }
 
+/**
+ * book.idx → book.ind. A failure only costs the index (\printindex prints
+ * nothing without book.ind), never the book.
+ */
+async function runMakeindex(buildDir: string, log: any): Promise<void> {
+  if (!fs.existsSync(path.join(buildDir, "book.idx"))) return;
+  try {
+    await execAsync(`makeindex -q -s book.ist book.idx`, {
+      cwd: buildDir,
+      timeout: 30000,
+    });
+  } catch (err: any) {
+    log.warn(`makeindex failed — index omitted: ${err.message}`);
+  }
+}
+
 function attemptLatexAutoFix(texPath: string, logPath: string): boolean {
   if (!fs.existsSync(logPath)) return false;
 
@@ -1609,6 +2013,8 @@ interface StyleConfig {
   chapterStyle: string;
   sectionStyle: string;
   colors: string;
+  /** Defines \indexgroup{letter} — the letter headings of the index */
+  indexStyle: string;
 }
 
 function getStyleConfig(preset: string): StyleConfig {
@@ -1619,13 +2025,15 @@ function getStyleConfig(preset: string): StyleConfig {
         chapterStyle: `\\titleformat{\\chapter}[display]\n  {\\normalfont\\Large\\bfseries}{\\textcolor{chaptercolor}{\\chaptertitlename\\ \\thechapter}}{10pt}{\\LARGE\\color{chaptercolor}}\n\\titlespacing*{\\chapter}{0pt}{-10pt}{25pt}`,
         sectionStyle: `\\titleformat{\\section}\n  {\\normalfont\\large\\bfseries\\color{sectioncolor}}{\\thesection}{1em}{}\n  [\\vspace{2pt}{\\color{rulecolor}\\titlerule[0.5pt]}]\n\\titleformat{\\subsection}{\\normalfont\\normalsize\\bfseries\\color{sectioncolor}}{\\thesubsection}{1em}{}`,
         colors: `\n\\definecolor{chaptercolor}{HTML}{1A365D}\n\\definecolor{sectioncolor}{HTML}{2D3748}\n\\definecolor{accent}{HTML}{2B6CB0}\n\\definecolor{rulecolor}{HTML}{CBD5E0}\n\\definecolor{headergray}{HTML}{718096}\n\\definecolor{quotegray}{HTML}{4A5568}\n\\definecolor{captiongray}{HTML}{4A5568}\n\\definecolor{subtitlegray}{HTML}{718096}\n\\definecolor{linkcolor}{HTML}{2B6CB0}\n\\definecolor{titletextcolor}{HTML}{1A202C}\n\\definecolor{tipbg}{HTML}{F0FFF4}\n\\definecolor{tipframe}{HTML}{276749}\n\\definecolor{keybg}{HTML}{EBF8FF}\n\\definecolor{keyframe}{HTML}{2B6CB0}\n\\definecolor{warnbg}{HTML}{FFFAF0}\n\\definecolor{warnframe}{HTML}{C05621}\n\\definecolor{exbg}{HTML}{F7FAFC}\n\\definecolor{exframe}{HTML}{4A5568}\n\\definecolor{tableheadbg}{HTML}{2D3748}\n\\definecolor{tableheadfg}{HTML}{FFFFFF}`,
+        indexStyle: `\\newcommand{\\indexgroup}[1]{\\par\\bigskip{\\normalfont\\large\\bfseries\\color{sectioncolor}#1}\\par\\nopagebreak{\\color{rulecolor}\\hrule height 0.5pt}\\nopagebreak\\smallskip}`,
       };
     case "creative":
       return {
         fontPackages: "\\usepackage{palatino}",
-        chapterStyle: `\\titleformat{\\chapter}[display]\n  {\\normalfont\\huge\\itshape}{\\textcolor{chaptercolor}{\\Large Chapter\\ \\thechapter}}{0pt}{\\Huge\\bfseries\\color{chaptercolor}}\n\\titlespacing*{\\chapter}{0pt}{-20pt}{30pt}`,
+        chapterStyle: `\\titleformat{\\chapter}[display]\n  {\\normalfont\\huge\\itshape}{\\textcolor{chaptercolor}{\\Large \\chaptertitlename\\ \\thechapter}}{0pt}{\\Huge\\bfseries\\color{chaptercolor}}\n\\titlespacing*{\\chapter}{0pt}{-20pt}{30pt}`,
         sectionStyle: `\\titleformat{\\section}\n  {\\normalfont\\Large\\bfseries\\color{sectioncolor}}{\\textcolor{accent}{\\thesection}}{1em}{}\n  [\\vspace{3pt}{\\color{accent}\\titlerule[1pt]}]\n\\titleformat{\\subsection}{\\normalfont\\large\\itshape\\color{sectioncolor}}{\\thesubsection}{1em}{}`,
         colors: `\n\\definecolor{chaptercolor}{HTML}{7C3AED}\n\\definecolor{sectioncolor}{HTML}{2D3748}\n\\definecolor{accent}{HTML}{8B5CF6}\n\\definecolor{rulecolor}{HTML}{DDD6FE}\n\\definecolor{headergray}{HTML}{6B7280}\n\\definecolor{quotegray}{HTML}{6B21A8}\n\\definecolor{captiongray}{HTML}{4A5568}\n\\definecolor{subtitlegray}{HTML}{6B7280}\n\\definecolor{linkcolor}{HTML}{7C3AED}\n\\definecolor{titletextcolor}{HTML}{1F2937}\n\\definecolor{tipbg}{HTML}{ECFDF5}\n\\definecolor{tipframe}{HTML}{059669}\n\\definecolor{keybg}{HTML}{F5F3FF}\n\\definecolor{keyframe}{HTML}{7C3AED}\n\\definecolor{warnbg}{HTML}{FFF7ED}\n\\definecolor{warnframe}{HTML}{EA580C}\n\\definecolor{exbg}{HTML}{FDF4FF}\n\\definecolor{exframe}{HTML}{A855F7}\n\\definecolor{tableheadbg}{HTML}{6D28D9}\n\\definecolor{tableheadfg}{HTML}{FFFFFF}`,
+        indexStyle: `\\newcommand{\\indexgroup}[1]{\\par\\bigskip{\\normalfont\\Large\\itshape\\color{accent}#1}\\par\\nopagebreak\\smallskip}`,
       };
     case "business":
       return {
@@ -1634,13 +2042,15 @@ function getStyleConfig(preset: string): StyleConfig {
         chapterStyle: `\\titleformat{\\chapter}[display]\n  {\\normalfont\\sffamily\\huge\\bfseries}{\\textcolor{chaptercolor}{\\chaptertitlename\\ \\thechapter}}{15pt}{\\Huge\\color{chaptercolor}}\n\\titlespacing*{\\chapter}{0pt}{-20pt}{30pt}`,
         sectionStyle: `\\titleformat{\\section}\n  {\\normalfont\\sffamily\\Large\\bfseries}{\\textcolor{accent}{\\thesection}}{1em}{}\n  [\\vspace{2pt}{\\color{rulecolor}\\titlerule[0.8pt]}]\n\\titleformat{\\subsection}{\\normalfont\\sffamily\\large\\bfseries\\color{sectioncolor}}{\\thesubsection}{1em}{}`,
         colors: `\n\\definecolor{chaptercolor}{HTML}{1E40AF}\n\\definecolor{sectioncolor}{HTML}{1F2937}\n\\definecolor{accent}{HTML}{2563EB}\n\\definecolor{rulecolor}{HTML}{BFDBFE}\n\\definecolor{headergray}{HTML}{6B7280}\n\\definecolor{quotegray}{HTML}{4B5563}\n\\definecolor{captiongray}{HTML}{4B5563}\n\\definecolor{subtitlegray}{HTML}{6B7280}\n\\definecolor{linkcolor}{HTML}{1E40AF}\n\\definecolor{titletextcolor}{HTML}{111827}\n\\definecolor{tipbg}{HTML}{F0FDF4}\n\\definecolor{tipframe}{HTML}{16A34A}\n\\definecolor{keybg}{HTML}{EFF6FF}\n\\definecolor{keyframe}{HTML}{2563EB}\n\\definecolor{warnbg}{HTML}{FFFBEB}\n\\definecolor{warnframe}{HTML}{D97706}\n\\definecolor{exbg}{HTML}{F8FAFC}\n\\definecolor{exframe}{HTML}{475569}\n\\definecolor{tableheadbg}{HTML}{1E3A5F}\n\\definecolor{tableheadfg}{HTML}{FFFFFF}`,
+        indexStyle: `\\newcommand{\\indexgroup}[1]{\\par\\bigskip{\\normalfont\\sffamily\\large\\bfseries\\color{accent}#1}\\par\\nopagebreak{\\color{rulecolor}\\hrule height 0.8pt}\\nopagebreak\\smallskip}`,
       };
     case "minimal":
       return {
         fontPackages: "",
-        chapterStyle: `\\titleformat{\\chapter}[display]\n  {\\normalfont\\Large}{\\textcolor{chaptercolor}{\\chaptername\\ \\thechapter}}{8pt}{\\LARGE\\bfseries\\color{chaptercolor}}\n\\titlespacing*{\\chapter}{0pt}{-10pt}{20pt}`,
+        chapterStyle: `\\titleformat{\\chapter}[display]\n  {\\normalfont\\Large}{\\textcolor{chaptercolor}{\\chaptertitlename\\ \\thechapter}}{8pt}{\\LARGE\\bfseries\\color{chaptercolor}}\n\\titlespacing*{\\chapter}{0pt}{-10pt}{20pt}`,
         sectionStyle: `\\titleformat{\\section}\n  {\\normalfont\\large\\bfseries\\color{sectioncolor}}{\\thesection}{1em}{}\n\\titleformat{\\subsection}{\\normalfont\\normalsize\\bfseries\\color{sectioncolor}}{\\thesubsection}{1em}{}`,
         colors: `\n\\definecolor{chaptercolor}{HTML}{374151}\n\\definecolor{sectioncolor}{HTML}{4B5563}\n\\definecolor{accent}{HTML}{6B7280}\n\\definecolor{rulecolor}{HTML}{D1D5DB}\n\\definecolor{headergray}{HTML}{9CA3AF}\n\\definecolor{quotegray}{HTML}{6B7280}\n\\definecolor{captiongray}{HTML}{6B7280}\n\\definecolor{subtitlegray}{HTML}{9CA3AF}\n\\definecolor{linkcolor}{HTML}{4B5563}\n\\definecolor{titletextcolor}{HTML}{111827}\n\\definecolor{tipbg}{HTML}{F9FAFB}\n\\definecolor{tipframe}{HTML}{6B7280}\n\\definecolor{keybg}{HTML}{F3F4F6}\n\\definecolor{keyframe}{HTML}{4B5563}\n\\definecolor{warnbg}{HTML}{FEF9EF}\n\\definecolor{warnframe}{HTML}{92400E}\n\\definecolor{exbg}{HTML}{F9FAFB}\n\\definecolor{exframe}{HTML}{9CA3AF}\n\\definecolor{tableheadbg}{HTML}{374151}\n\\definecolor{tableheadfg}{HTML}{FFFFFF}`,
+        indexStyle: `\\newcommand{\\indexgroup}[1]{\\par\\medskip{\\normalfont\\normalsize\\bfseries\\color{sectioncolor}#1}\\par\\nopagebreak}`,
       };
     default:
       return {
@@ -1648,6 +2058,7 @@ function getStyleConfig(preset: string): StyleConfig {
         chapterStyle: `\\titleformat{\\chapter}[display]\n  {\\normalfont\\huge\\bfseries}{\\textcolor{chaptercolor}{\\chaptertitlename\\ \\thechapter}}{15pt}{\\Huge\\color{chaptercolor}}\n\\titlespacing*{\\chapter}{0pt}{-30pt}{30pt}`,
         sectionStyle: `\\titleformat{\\section}\n  {\\normalfont\\Large\\bfseries}{\\textcolor{accent}{\\thesection}}{1em}{}\n  [\\vspace{3pt}{\\color{accent}\\titlerule[0.8pt]}]\n\\titleformat{\\subsection}{\\normalfont\\large\\bfseries\\color{sectioncolor}}{\\thesubsection}{1em}{}`,
         colors: `\n\\definecolor{chaptercolor}{HTML}{7C3AED}\n\\definecolor{sectioncolor}{HTML}{374151}\n\\definecolor{accent}{HTML}{7C3AED}\n\\definecolor{rulecolor}{HTML}{DDD6FE}\n\\definecolor{headergray}{HTML}{6B7280}\n\\definecolor{quotegray}{HTML}{6B7280}\n\\definecolor{captiongray}{HTML}{4B5563}\n\\definecolor{subtitlegray}{HTML}{6B7280}\n\\definecolor{linkcolor}{HTML}{7C3AED}\n\\definecolor{titletextcolor}{HTML}{1F2937}\n\\definecolor{tipbg}{HTML}{ECFDF5}\n\\definecolor{tipframe}{HTML}{059669}\n\\definecolor{keybg}{HTML}{EFF6FF}\n\\definecolor{keyframe}{HTML}{2563EB}\n\\definecolor{warnbg}{HTML}{FFFBEB}\n\\definecolor{warnframe}{HTML}{D97706}\n\\definecolor{exbg}{HTML}{FAF5FF}\n\\definecolor{exframe}{HTML}{9333EA}\n\\definecolor{tableheadbg}{HTML}{5B21B6}\n\\definecolor{tableheadfg}{HTML}{FFFFFF}`,
+        indexStyle: `\\newcommand{\\indexgroup}[1]{\\par\\bigskip{\\normalfont\\large\\bfseries\\color{accent}#1}\\par\\nopagebreak{\\color{accent}\\hrule height 0.8pt}\\nopagebreak\\smallskip}`,
       };
   }
 }
@@ -1684,6 +2095,18 @@ async function uploadToS3(filePath: string, key: string): Promise<string> {
   return `https://${bucket}.s3.${process.env.AWS_REGION || "eu-north-1"}.amazonaws.com/${key}`;
 }
 
+function referenceToLatex(
+  segments: ReturnType<typeof formatReference>,
+): string {
+  return segments
+    .map((s) => {
+      if (s.url) return `\\url{${s.text.replace(/[{}\\]/g, "")}}`;
+      const text = escapeLatex(s.text);
+      return s.italic ? `\\textit{${text}}` : text;
+    })
+    .join("");
+}
+
 function escapeLatex(text: string): string {
   return text
     .replace(/\\/g, "\\textbackslash{}")
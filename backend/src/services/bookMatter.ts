@@ -0,0 +1,317 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Front & Back Matter
+// The brief picks which of dedication, preface, acknowledgements,
+// introduction, conclusion and about-the-author the book gets. They are
+// written after the chapters, from the chapter registries, and stored as
+// special Chapter rows (kind = the matter kind) so the editor can change
+// them like any chapter. Front matter is numbered below 1 and back matter
+// from 1000 — ordering by chapterNumber puts every part in place. The PDF
+// sets them under \frontmatter / \backmatter, the EPUB tags them with
+// epub:type and lists them in the landmarks.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { prisma } from "../lib/prisma";
+import { getLlm, MODELS } from "../lib/llm";
+import { checkSpend } from "../lib/spendCap";
+import type { PromptSet } from "../lib/prompts";
+import { BOOK_MATTER, type BookMatterKind } from "../lib/types";
+import { isFiction } from "./narrativeMode";
+import { voiceProfileOf, writerVoiceVars } from "./voiceProfile";
+import {
+  cleanLatex,
+  countWords,
+  getLangName,
+  sanitizeGeneratedLatex,
+  storedRegistry,
+} from "./contentGenerator";
+
+const MATTER_MODEL = MODELS.writer;
+
+interface MatterDef {
+  part: "front" | "back";
+  chapterNumber: number;
+  /** EPUB structural semantics — section type and landmark */
+  epubType: string;
+  words: number;
+  /** What the section is for — the "brief" of the matter.write prompt */
+  brief: string;
+  /** Introduction and conclusion would only retell a novel's plot */
+  fiction: boolean;
+}
+
+export const MATTER: Record<BookMatterKind, MatterDef> = {
+  dedication: {
+    part: "front",
+    chapterNumber: -4,
+    epubType: "dedication",
+    words: 25,
+    brief:
+      "A dedication: one or two short lines, set alone on a page, for the people the book is written for. No heading and no explanation. Name a person only if the author's guidelines do.",
+    fiction: true,
+  },
+  preface: {
+    part: "front",
+    chapterNumber: -3,
+    epubType: "preface",
+    words: 350,
+    brief:
+      "The author's own note before the book begins: what prompted it, who it is for and how to get the most out of it. First person, personal, brief.",
+    fiction: true,
+  },
+  acknowledgements: {
+    part: "front",
+    chapterNumber: -2,
+    epubType: "acknowledgments",
+    words: 200,
+    brief:
+      "Thank those who made the book possible — readers, people working in the field, early readers of the draft, family — in general terms. Name someone only if the author's guidelines do.",
+    fiction: true,
+  },
+  introduction: {
+    part: "front",
+    chapterNumber: -1,
+    epubType: "introduction",
+    words: 600,
+    brief:
+      "Set the book up: the problem at its heart, why it matters to the reader now, and a short tour of the chapters in order — what each one gives the reader.",
+    fiction: false,
+  },
+  conclusion: {
+    part: "back",
+    chapterNumber: 1000,
+    epubType: "conclusion",
+    words: 500,
+    brief:
+      "Close the book: draw the chapters' main ideas together into a few lasting takeaways, show how they connect, and end with what the reader should do next. No new material.",
+    fiction: false,
+  },
+  "about-author": {
+    part: "back",
+    chapterNumber: 1001,
+    epubType: "backmatter",
+    words: 120,
+    brief:
+      "A short author bio in the third person. Use only what the author's name and guidelines say; if they say nothing about the author, write about the author's work on this book's subject without inventing credentials.",
+    fiction: true,
+  },
+};
+
+const TITLES: Record<string, Record<BookMatterKind, string>> = {
+  en: {
+    dedication: "Dedication",
+    preface: "Preface",
+    acknowledgements: "Acknowledgements",
+    introduction: "Introduction",
+    conclusion: "Conclusion",
+    "about-author": "About the Author",
+  },
+  pl: {
+    dedication: "Dedykacja",
+    preface: "Przedmowa",
+    acknowledgements: "Podziękowania",
+    introduction: "Wstęp",
+    conclusion: "Zakończenie",
+    "about-author": "O autorze",
+  },
+  de: {
+    dedication: "Widmung",
+    preface: "Vorwort",
+    acknowledgements: "Danksagung",
+    introduction: "Einleitung",
+    conclusion: "Schlusswort",
+    "about-author": "Über den Autor",
+  },
+  es: {
+    dedication: "Dedicatoria",
+    preface: "Prefacio",
+    acknowledgements: "Agradecimientos",
+    introduction: "Introducción",
+    conclusion: "Conclusión",
+    "about-author": "Sobre el autor",
+  },
+  fr: {
+    dedication: "Dédicace",
+    preface: "Préface",
+    acknowledgements: "Remerciements",
+    introduction: "Introduction",
+    conclusion: "Conclusion",
+    "about-author": "À propos de l'auteur",
+  },
+};
+
+export function matterTitle(kind: BookMatterKind, language: string): string {
+  return (TITLES[language] || TITLES.en)[kind];
+}
+
+export function isBookMatter(v: unknown): v is BookMatterKind {
+  return BOOK_MATTER.includes(v as BookMatterKind);
+}
+
+/** Project.bookMatter → known kinds, in book order */
+export function parseBookMatter(json: string | null): BookMatterKind[] {
+  let kinds: unknown = [];
+  try {
+    kinds = JSON.parse(json || "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(kinds)) return [];
+  return BOOK_MATTER.filter((k) => kinds.includes(k));
+}
+
+/** Brief input → Project.bookMatter; unknown kinds are dropped */
+export function serializeBookMatter(value: unknown): string {
+  const kinds = Array.isArray(value) ? value : [];
+  return JSON.stringify(BOOK_MATTER.filter((k) => kinds.includes(k)));
+}
+
+/**
+ * Chapters (ordered by chapterNumber) → front matter, chapters, appendices,
+ * back matter
+ */
+export function splitBookMatter<T extends { kind: string }>(
+  chapters: T[],
+): { front: T[]; chapters: T[]; appendices: T[]; back: T[] } {
+  const partOf = (ch: T) =>
+    isBookMatter(ch.kind) ? MATTER[ch.kind].part : null;
+  return {
+    front: chapters.filter((ch) => partOf(ch) === "front"),
+    chapters: chapters.filter((ch) => ch.kind === "chapter"),
+    appendices: chapters.filter((ch) => ch.kind === "appendix"),
+    back: chapters.filter((ch) => partOf(ch) === "back"),
+  };
+}
+
+/** Finished chapters as one line each — what later parts are written from */
+export function writtenChaptersList(
+  chapters: {
+    kind: string;
+    chapterNumber: number;
+    title: string;
+    status: string;
+    registry: string | null;
+  }[],
+): string {
+  return splitBookMatter(chapters)
+    .chapters.filter((ch) => ch.status === "LATEX_READY")
+    .map((ch) => {
+      const summary = storedRegistry(ch.registry)?.summary || "";
+      return `Ch.${ch.chapterNumber} "${ch.title}": ${summary}`;
+    })
+    .join("\n");
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Main entry — call once the chapters are written and reviewed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Write the matter the brief asks for, replacing any earlier version.
+ * Matter the brief no longer asks for is removed.
+ */
+export async function generateBookMatter(
+  projectId: string,
+  bookTitle: string,
+  promptSet: PromptSet,
+  log: any,
+): Promise<{ written: number; tokensUsed: number }> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { chapters: { orderBy: { chapterNumber: "asc" } } },
+  });
+  if (!project) throw new Error("Project not found");
+
+  const fiction = isFiction(project.genre);
+  const kinds = parseBookMatter(project.bookMatter).filter(
+    (k) => !fiction || MATTER[k].fiction,
+  );
+  // Only matter rows — chapters and appendices are not ours to remove
+  await prisma.chapter.deleteMany({
+    where: {
+      projectId,
+      kind: { in: BOOK_MATTER.filter((k) => !kinds.includes(k)) },
+    },
+  });
+  if (kinds.length === 0) return { written: 0, tokensUsed: 0 };
+
+  const chapters = writtenChaptersList(project.chapters);
+  await checkSpend(projectId, "book matter", log);
+  const voice = writerVoiceVars(voiceProfileOf(project));
+  let tokensUsed = 0;
+
+  for (const kind of kinds) {
+    const def = MATTER[kind];
+    const title = matterTitle(kind, project.language);
+    const { text: prompt, ref } = promptSet.render("matter.write", {
+      bookTitle,
+      topic: project.topic,
+      sectionTitle: title,
+      brief: def.brief,
+      targetWords: def.words,
+      authorName: project.authorName || "",
+      guidelines: project.guidelines || "",
+      chapters,
+      reader: voice.reader,
+      voiceRules: voice.voiceRules,
+      fiction,
+      lang: getLangName(project.language),
+    });
+
+    log.claudeReq?.(`matter-${kind}`, prompt);
+    const res = await getLlm().complete({
+      task: "book-matter",
+      model: MATTER_MODEL,
+      maxTokens: Math.max(300, def.words * 3),
+      messages: [{ role: "user", content: prompt }],
+    });
+    log.api(res, { chapter: def.chapterNumber });
+    tokensUsed += res.usage.inputTokens + res.usage.outputTokens;
+    const timestamp = new Date().toISOString();
+
+    // The heading is ours — the dedication has none
+    const body = sanitizeGeneratedLatex(
+      cleanLatex(res.text).replace(/^\\chapter\*?\{[^}]*\}\s*/, ""),
+    );
+    log.claudeRes?.(`matter-${kind}`, body);
+    const latexContent =
+      kind === "dedication" ? body : `\\chapter{${title}}\n\n${body}`;
+    const words = countWords(body);
+
+    const data = {
+      kind,
+      title,
+      latexContent,
+      targetPages: 1,
+      targetWords: def.words,
+      actualWords: words,
+      status: "LATEX_READY" as const,
+      writerPrompts: JSON.stringify([
+        { step: kind, role: "user", content: prompt, timestamp },
+      ]),
+      writerResponses: JSON.stringify([
+        {
+          step: kind,
+          content: res.text,
+          inputTokens: res.usage.inputTokens,
+          outputTokens: res.usage.outputTokens,
+          model: res.model,
+          timestamp,
+        },
+      ]),
+      promptRefs: JSON.stringify([ref]),
+    };
+    await prisma.chapter.upsert({
+      where: {
+        projectId_chapterNumber: {
+          projectId,
+          chapterNumber: def.chapterNumber,
+        },
+      },
+      create: { projectId, chapterNumber: def.chapterNumber, ...data },
+      update: data,
+    });
+    log.ok(`  ${title}: ${words} words`);
+  }
+
+  return { written: kinds.length, tokensUsed };
+}
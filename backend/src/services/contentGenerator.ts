@@ -5,22 +5,65 @@
 // + LaTeX sanitization to prevent compilation failures
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-import Anthropic from "@anthropic-ai/sdk";
-import { reviewAndReviseBook } from "./reviewService";
+import { reviewAndReviseBook, saveBookReview } from "./reviewService";
+import { correctChapterLength } from "./lengthCorrector";
+import { checkChapterFacts, remainingStats } from "./factChecker";
+import { rewriteOverlaps } from "./overlapDetector";
+import { generateBookMatter } from "./bookMatter";
+import { appendicesOf, generateAppendices } from "./appendices";
+import {
+  formatTermsForPrompt,
+  loadGlossary,
+  syncGlossaryFromRegistry,
+} from "./glossaryService";
+import {
+  VoiceProfile,
+  voiceProfileOf,
+  writerVoiceVars,
+  type Tone,
+} from "./voiceProfile";
+import {
+  isFiction,
+  promptKey,
+  storyBibleOf,
+  formatStoryBible,
+} from "./narrativeMode";
 import { prisma } from "../lib/prisma";
 import { getWordsPerPage } from "../lib/types";
 import { createPipelineLogger } from "../lib/logger";
+import { getLlm, MODELS, type LlmMessage } from "../lib/llm";
+import {
+  throwIfCancelled,
+  GenerationCancelledError,
+} from "../lib/cancellation";
+import { checkSpend, SpendCapExceededError } from "../lib/spendCap";
+import { loadPromptSet, PromptRef, PromptSet } from "../lib/prompts";
+import { fixtureValue } from "../lib/fixtures";
 import {
   loadResearch,
+  loadChapterResearch,
   conductChapterResearch,
   mergeResearchForPrompt,
   ChapterResearchResult,
 } from "./researchService";
 
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-const UTILITY_MODEL = "claude-haiku-4-5";
 
-interface ChapterStructure {
+/** Research block in chapter prompts — normal, and once near the spend cap */
+const RESEARCH_PROMPT_LIMITS = { perSource: 20000, total: 120000 };
+const TRIMMED_RESEARCH_LIMITS = { perSource: 4000, total: 12000 };
+
+/**
+ * Chapters at or above this many target words are written one section per
+ * call — a single call tends to stop at 70-80% of a long target.
+ */
+const SECTION_MODE_MIN_WORDS = parseInt(
+  process.env.SECTION_MODE_MIN_WORDS || "2000",
+  10,
+);
+/** Chapter opener in section mode (\chapter{} + intro paragraphs) */
+const SECTION_MODE_OPENER_WORDS = 150;
+
+export interface ChapterStructure {
   id: string;
   number: number;
   title: string;
@@ -51,6 +94,10 @@ export interface ChapterRegistry {
   keyTerms: string[];
   /** How the chapter ends — last topic/argument */
   closingTopic: string;
+  /** Fiction: "Name — where they stand at the end of the chapter" */
+  characters?: string[];
+  /** Fiction: open and resolved threads ("Open: …" / "Resolved: …") */
+  plotState?: string[];
 }
 
 /**
@@ -63,14 +110,21 @@ export async function extractChapterRegistry(
   chapterTitle: string,
   latex: string,
   language: string,
+  genre: string,
+  promptSet: PromptSet,
   log?: any,
 ): Promise<ChapterRegistry> {
+  const fiction = isFiction(genre);
   // Strip heavy LaTeX for cheaper processing
   const cleanText = latex
     .replace(
       /\\begin\{(table|tabularx|tabular)\}[^]*?\\end\{(table|tabularx|tabular)\}/g,
       "[TABLE]",
     )
+    .replace(
+      /\\begin\{(exercise|worksheet)\}[^]*?\\end\{(exercise|worksheet)\}/g,
+      "[EXERCISE]",
+    )
     .replace(
       /\\begin\{(tipbox|keyinsight|warningbox|examplebox)\}\{([^}]*)\}/g,
       "\n[$2]: ",
@@ -90,30 +144,15 @@ export async function extractChapterRegistry(
       language
     ] || "English";
 
-  const prompt = `Extract a content registry from this book chapter. Respond ONLY with valid JSON.
-
-CHAPTER ${chapterNumber}: "${chapterTitle}"
-LANGUAGE: ${langName}
-
-TEXT:
-${cleanText.substring(0, 6000)}
-
-RESPOND with this exact JSON structure:
-{
-  "summary": "2-3 sentence summary of what this chapter covers and its main argument",
-  "usedExamples": ["Company X did Y", "Case study: Z showed..."],
-  "usedStats": ["47% of students confuse X with Y", "N=120 respondents"],
-  "keyTerms": ["przedmiot badań = what you study", "cel badań = why you study it"],
-  "closingTopic": "The chapter ends by discussing X"
-}
-
-RULES:
-- summary: 2-3 sentences in ${langName}, capturing the MAIN argument
-- usedExamples: List every named case study, company, person, or specific scenario (max 10)
-- usedStats: List every specific number, percentage, or quantified claim (max 10)
-- keyTerms: List terms that were DEFINED or given a specific meaning (max 8)
-- closingTopic: 1 sentence about what the last section discusses
-- All values in ${langName}`;
+  const { text: prompt } = promptSet.render(
+    promptKey("chapter.registry", genre),
+    {
+      chapterNumber,
+      chapterTitle,
+      lang: langName,
+      chapterText: cleanText.substring(0, 6000),
+    },
+  );
 
   try {
     log?.claudeReq?.(
@@ -121,29 +160,23 @@ RULES:
       `[Ch${chapterNumber}] ${prompt.substring(0, 100)}...`,
     );
 
-    const response = await anthropic.messages.create({
-      model: UTILITY_MODEL,
-      max_tokens: 600,
+    const response = await getLlm().complete({
+      task: "chapter-registry",
+      model: MODELS.utility,
+      maxTokens: 600,
       temperature: 0.1,
       messages: [{ role: "user", content: prompt }],
     });
 
-    const text =
-      response.content[0].type === "text"
-        ? response.content[0].text.trim()
-        : "{}";
+    const text = response.text.trim() || "{}";
     log?.claudeRes?.("registry", text);
-    log?.api?.(
-      UTILITY_MODEL,
-      response.usage?.input_tokens || 0,
-      response.usage?.output_tokens || 0,
-    );
+    log?.api?.(response, { chapter: chapterNumber });
 
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     if (!jsonMatch) throw new Error("No JSON in registry response");
     const parsed = JSON.parse(jsonMatch[0]);
 
-    return {
+    const registry: ChapterRegistry = {
       chapterNumber,
       chapterTitle,
       summary: parsed.summary || "",
@@ -152,6 +185,11 @@ RULES:
       keyTerms: (parsed.keyTerms || []).slice(0, 8),
       closingTopic: parsed.closingTopic || "",
     };
+    if (fiction) {
+      registry.characters = (parsed.characters || []).slice(0, 12);
+      registry.plotState = (parsed.plotState || []).slice(0, 8);
+    }
+    return registry;
   } catch (err: any) {
     log?.warn?.(
       `Registry extraction failed for Ch${chapterNumber}: ${err.message}`,
@@ -162,13 +200,91 @@ RULES:
       chapterTitle,
       summary: `Chapter ${chapterNumber}: ${chapterTitle}`,
       usedExamples: [],
-      usedStats: extractStatsFromLatex(latex),
+      usedStats: fiction ? [] : extractStatsFromLatex(latex),
       keyTerms: [],
       closingTopic: "",
+      ...(fiction && { characters: [], plotState: [] }),
     };
   }
 }
 
+/** Registry saved on the Chapter row, or null if never extracted */
+export function storedRegistry(json: string | null): ChapterRegistry | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-extract the registry and style sample of a chapter whose content
+ * changed, and save both on the Chapter row.
+ */
+export async function refreshChapterRegistry(
+  chapterId: string,
+  chapterNumber: number,
+  chapterTitle: string,
+  latex: string,
+  language: string,
+  genre: string,
+  promptSet: PromptSet,
+  log?: any,
+): Promise<ChapterRegistry> {
+  const registry = await extractChapterRegistry(
+    chapterNumber,
+    chapterTitle,
+    latex,
+    language,
+    genre,
+    promptSet,
+    log,
+  );
+  const saved = await prisma.chapter.update({
+    where: { id: chapterId },
+    data: {
+      registry: JSON.stringify(registry),
+      styleSample: extractStyleSample(latex),
+    },
+  });
+  await syncGlossaryFromRegistry(saved.projectId, registry);
+  return registry;
+}
+
+/**
+ * Runs as the worker's "registry" job after the user saved a chapter. Reads
+ * the text at run time, so saves made while the job waited are covered too.
+ */
+export async function refreshSavedChapterRegistry(
+  projectId: string,
+  chapterNumber: number,
+): Promise<ChapterRegistry | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  });
+  const chapter = await prisma.chapter.findUnique({
+    where: { projectId_chapterNumber: { projectId, chapterNumber } },
+  });
+  // Front/back matter has no registry — it is written from the chapters'
+  if (!project || chapter?.kind !== "chapter" || !chapter.latexContent) {
+    return null;
+  }
+
+  const log = createPipelineLogger("CHAPTER-EDIT", projectId);
+  await checkSpend(projectId, `registry ch${chapterNumber}`, log);
+  return refreshChapterRegistry(
+    chapter.id,
+    chapterNumber,
+    chapter.title,
+    chapter.latexContent,
+    project.language,
+    project.genre,
+    await loadPromptSet(project.language, project.promptVariant),
+    log,
+  );
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Style Sample — extracted once from Chapter 1
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -237,43 +353,96 @@ interface ResponseLog {
   timestamp: string;
 }
 
+/** Word-count accuracy of one section (section mode), kept on the Chapter */
+export interface SectionStat {
+  title: string;
+  targetWords: number;
+  words: number;
+  /** words / targetWords, in percent */
+  accuracy: number;
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Main entry
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export async function generateContent(projectId: string) {
+export interface GenerateContentOptions {
+  /**
+   * Keep chapters already LATEX_READY, reuse stored chapter research and
+   * continue from the first PENDING/ERROR chapter.
+   */
+  resume?: boolean;
+}
+
+export async function generateContent(
+  projectId: string,
+  options: GenerateContentOptions = {},
+) {
+  const resume = !!options.resume;
   const log = createPipelineLogger("CONTENT", projectId);
 
   const project = await prisma.project.findUnique({
     where: { id: projectId },
-    include: { structure: true },
+    include: { structure: true, chapters: true },
   });
   if (!project || !project.structure)
     throw new Error("Project or structure not found");
 
-  const structureData = JSON.parse(project.structure.structureJson);
+  // Chapters finished by a previous (interrupted) run — kept as-is on resume
+  const finishedChapters = new Map<number, string>();
+  if (resume) {
+    for (const rec of project.chapters) {
+      if (rec.status === "LATEX_READY" && rec.latexContent) {
+        finishedChapters.set(rec.chapterNumber, rec.latexContent);
+      }
+    }
+  }
+
+  // Replays get the structure as recorded, including user edits
+  const structureJson = fixtureValue(
+    "structure",
+    () => project.structure!.structureJson,
+  );
+  const structureData = JSON.parse(structureJson);
   const chapters: ChapterStructure[] = structureData.chapters;
+  const appendices = appendicesOf(structureData);
   const bookTitle =
     structureData.suggestedTitle || project.title || project.topic;
   const wpp = getWordsPerPage(project.bookFormat);
+  const voice = voiceProfileOf(project);
+  const fiction = isFiction(project.genre);
+  const storyBible = formatStoryBible(storyBibleOf(structureData));
+  const promptSet = await loadPromptSet(
+    project.language,
+    project.promptVariant,
+  );
 
   log.header("Content Generation Pipeline v4.1", {
     Book: bookTitle,
     Topic: project.topic,
     Chapters: chapters.length,
+    Appendices: appendices.length,
     Pages: `${project.targetPages} (${project.bookFormat.toUpperCase()})`,
     "Words/page": wpp,
     Language: project.language,
     Style: project.stylePreset,
+    Genre: project.genre,
+    Voice: `${voice.audience} / ${voice.tone} / ${voice.readingLevel}`,
+    Prompts: project.promptVariant,
+    Mode: resume
+      ? `RESUME (${finishedChapters.size}/${chapters.length} chapters kept)`
+      : "FULL",
   });
 
   // ── Phase 1: Load global research ──
   log.phase(1, "Load Global Research Data");
-  const globalResearch = await loadResearch(projectId);
+  const globalResearch = fiction ? null : await loadResearch(projectId);
   const hasGlobalResearch =
     !!globalResearch && globalResearch.selectedSources.length > 0;
 
-  if (hasGlobalResearch) {
+  if (fiction) {
+    log.step("Fiction — chapters are written without research");
+  } else if (hasGlobalResearch) {
     log.ok(
       `Global research: ${globalResearch!.selectedSources.length} sources, ${globalResearch!.totalSourcesLength.toLocaleString()} chars`,
     );
@@ -289,10 +458,44 @@ export async function generateContent(projectId: string) {
   );
 
   const chapterResearchMap = new Map<number, ChapterResearchResult>();
+  if (fiction) log.step("Fiction — per-chapter research skipped");
+
+  for (const chapter of fiction ? [] : chapters) {
+    await throwIfCancelled(projectId);
+    if (resume) {
+      if (finishedChapters.has(chapter.number)) {
+        log.step(`  Ch.${chapter.number}: already written — research skipped`);
+        continue;
+      }
+      const stored = await loadChapterResearch(projectId, chapter.number);
+      if (stored) {
+        chapterResearchMap.set(chapter.number, stored);
+        stored.selectedSources.forEach((s) => globalUrls.add(s.url));
+        log.ok(
+          `  Ch.${chapter.number}: reusing stored research (${stored.selectedSources.length} sources)`,
+          {
+            kind: "research",
+            chapter: chapter.number,
+            sources: stored.selectedSources.length,
+          },
+        );
+        continue;
+      }
+    }
+
+    const spend = await checkSpend(
+      projectId,
+      `research ch${chapter.number}`,
+      log,
+    );
+    if (spend.has("trim-research")) {
+      log.warn(`  Ch.${chapter.number}: research skipped — near spend cap`);
+      continue;
+    }
 
-  for (const chapter of chapters) {
     log.step(
       `\n  🔍 Ch.${chapter.number}: "${chapter.title}" — researching...`,
+      { kind: "research", chapter: chapter.number, title: chapter.title },
     );
     const chTimer = log.timer();
 
@@ -313,6 +516,11 @@ export async function generateContent(projectId: string) {
     chapterResearchMap.set(chapter.number, chapterResearch);
     log.ok(
       `  Ch.${chapter.number}: ${chapterResearch.selectedSources.length} sources, ${chapterResearch.totalSourcesLength.toLocaleString()} chars (${chTimer()})`,
+      {
+        kind: "research",
+        chapter: chapter.number,
+        sources: chapterResearch.selectedSources.length,
+      },
     );
   }
 
@@ -328,6 +536,10 @@ export async function generateContent(projectId: string) {
   // ── Phase 3: Create chapter records ──
   log.phase(3, "Initialize Chapter Records");
   for (const ch of chapters) {
+    if (finishedChapters.has(ch.number)) {
+      log.step(`  Ch.${ch.number}: "${ch.title}" — kept (LATEX_READY)`);
+      continue;
+    }
     await prisma.chapter.upsert({
       where: {
         projectId_chapterNumber: { projectId, chapterNumber: ch.number },
@@ -361,7 +573,7 @@ export async function generateContent(projectId: string) {
     data: {
       generationStatus: "GENERATING_CONTENT",
       currentStage: "GENERATING",
-      generationProgress: 0,
+      generationProgress: finishedChapters.size / chapters.length,
     },
   });
   log.ok(
@@ -372,14 +584,11 @@ export async function generateContent(projectId: string) {
   log.phase(4, "Generate Chapter Content");
   const previousSummaries: string[] = [];
   const chapterRegistries: ChapterRegistry[] = []; // ← ADD
-  const previousChaptersContent: {
-    number: number;
-    title: string;
-    latex: string;
-  }[] = [];
+  const previousChaptersContent: GenParams["previousChaptersContent"] = [];
   let totalTokens = 0;
 
   for (let i = 0; i < chapters.length; i++) {
+    await throwIfCancelled(projectId);
     const chapter = chapters[i];
     const rec = await prisma.chapter.findUnique({
       where: {
@@ -388,9 +597,39 @@ export async function generateContent(projectId: string) {
     });
     if (!rec) continue;
 
+    // ── Resume: rebuild in-memory context from the stored chapter ──
+    const finishedLatex = finishedChapters.get(chapter.number);
+    if (finishedLatex) {
+      previousChaptersContent.push({
+        number: chapter.number,
+        title: chapter.title,
+        latex: finishedLatex,
+        styleSample: rec.styleSample,
+      });
+      const registry =
+        storedRegistry(rec.registry) ||
+        (await refreshChapterRegistry(
+          rec.id,
+          chapter.number,
+          chapter.title,
+          finishedLatex,
+          project.language,
+          project.genre,
+          promptSet,
+          log,
+        ));
+      chapterRegistries.push(registry);
+      previousSummaries.push(
+        `Ch${chapter.number} "${chapter.title}": ${registry.summary}`,
+      );
+      log.ok(`Ch ${chapter.number} kept from previous run — context rebuilt`);
+      continue;
+    }
+
     const targetWords = chapter.targetPages * wpp;
     log.step(
       `\n  ✍️  Ch ${chapter.number}/${chapters.length}: "${chapter.title}"`,
+      { kind: "chapter", chapter: chapter.number, targetWords },
     );
     log.data(
       "Target",
@@ -398,11 +637,16 @@ export async function generateContent(projectId: string) {
     );
     log.data("Sections", chapter.sections.map((s) => s.title).join(" | "));
 
+    const spend = await checkSpend(projectId, `chapter ${chapter.number}`, log);
+    const limits = spend.has("trim-research")
+      ? TRIMMED_RESEARCH_LIMITS
+      : RESEARCH_PROMPT_LIMITS;
     const chapterResearch = chapterResearchMap.get(chapter.number) || null;
     const { text: mergedSourcesText, hasResearch } = mergeResearchForPrompt(
       globalResearch,
       chapterResearch,
-      20000,
+      limits.perSource,
+      limits.total,
     );
     log.data(
       "Research for this chapter",
@@ -427,12 +671,18 @@ export async function generateContent(projectId: string) {
 
     try {
       const chTimer = log.timer();
+      const terminology = formatTermsForPrompt(await loadGlossary(projectId));
       const result = await generateChapterLatex({
         bookTitle,
         bookTopic: project.topic,
         language: project.language,
         stylePreset: project.stylePreset,
+        voice,
+        genre: project.genre,
+        storyBible,
+        workbook: project.workbook,
         guidelines: project.guidelines || "",
+        terminology,
         bookFormat: project.bookFormat,
         chapter,
         chapterIndex: i,
@@ -444,19 +694,24 @@ export async function generateContent(projectId: string) {
         sourcesText: mergedSourcesText,
         hasResearch,
         wpp,
+        promptSet,
         log,
       });
 
-      totalTokens += result.tokensUsed;
-      previousSummaries.push(
-        `Ch${chapter.number} "${chapter.title}": ${result.summary}`,
-      );
-
-      previousChaptersContent.push({
-        number: chapter.number,
-        title: chapter.title,
+      const length = await correctChapterLength({
+        projectId,
+        bookTitle,
+        chapter,
         latex: result.latexContent,
+        wpp,
+        language: project.language,
+        tone: voice.tone,
+        genre: project.genre,
+        promptSet,
+        log,
       });
+      result.latexContent = length.latex;
+      result.tokensUsed += length.tokensUsed;
 
       // Extract registry for lightweight context
       const registry = await extractChapterRegistry(
@@ -464,9 +719,54 @@ export async function generateContent(projectId: string) {
         chapter.title,
         result.latexContent,
         project.language,
+        project.genre,
+        promptSet,
         log,
       );
+
+      // Numbers the sources don't back are softened or dropped
+      const facts = await checkChapterFacts({
+        projectId,
+        chapterNumber: chapter.number,
+        chapterTitle: chapter.title,
+        latex: result.latexContent,
+        stats: registry.usedStats,
+        research: [chapterResearch, globalResearch],
+        language: project.language,
+        promptSet,
+        log,
+      });
+      result.latexContent = facts.latex;
+      result.tokensUsed += facts.tokensUsed;
+      registry.usedStats = remainingStats(registry.usedStats, facts.report);
+
+      // Paragraphs copied from a source are rewritten, or left flagged
+      const overlap = await rewriteOverlaps({
+        projectId,
+        chapterNumber: chapter.number,
+        bookTitle,
+        latex: result.latexContent,
+        research: [chapterResearch, globalResearch],
+        language: project.language,
+        promptSet,
+        log,
+      });
+      result.latexContent = overlap.latex;
+      result.tokensUsed += overlap.tokensUsed;
+
+      totalTokens += result.tokensUsed;
+      previousSummaries.push(
+        `Ch${chapter.number} "${chapter.title}": ${result.summary}`,
+      );
+
+      previousChaptersContent.push({
+        number: chapter.number,
+        title: chapter.title,
+        latex: result.latexContent,
+      });
       chapterRegistries.push(registry);
+      const newTerms = await syncGlossaryFromRegistry(projectId, registry);
+      if (newTerms > 0) log.data("Glossary", `+${newTerms} term(s)`);
 
       const wordCount = result.latexContent
         .replace(/\\[a-zA-Z]+(\{[^}]*\})?/g, "")
@@ -482,6 +782,15 @@ export async function generateContent(projectId: string) {
           status: "LATEX_READY",
           writerPrompts: JSON.stringify(result.prompts),
           writerResponses: JSON.stringify(result.responses),
+          promptRefs: JSON.stringify(result.promptRefs),
+          sectionStats: result.sectionStats
+            ? JSON.stringify(result.sectionStats)
+            : null,
+          lengthCorrections: JSON.stringify(length.corrections),
+          factCheck: JSON.stringify(facts.report),
+          overlapReport: JSON.stringify(overlap.report),
+          registry: JSON.stringify(registry),
+          styleSample: extractStyleSample(result.latexContent),
         },
       });
 
@@ -493,6 +802,12 @@ export async function generateContent(projectId: string) {
       const accuracy = Math.round((wordCount / targetWords) * 100);
       log.ok(
         `Ch ${chapter.number} DONE — ${wordCount}w (~${pageEstimate}p) [${accuracy}% of target] ${result.tokensUsed} tokens (${chTimer()})`,
+        {
+          kind: "chapter",
+          chapter: chapter.number,
+          targetWords,
+          words: wordCount,
+        },
       );
       if (accuracy < 80)
         log.warn(`  ⚠️  Chapter significantly SHORT: ${accuracy}% of target`);
@@ -514,85 +829,173 @@ export async function generateContent(projectId: string) {
   }
 
   // ── Phase 4.5: Review & Revise ──
+  await throwIfCancelled(projectId);
   log.phase(4.5, "Book Review & Targeted Revision");
   const reviewTimer = log.timer();
-  await prisma.project.update({
-    where: { id: projectId },
-    data: { generationStatus: "REVIEWING_CONTENT" },
-  });
-  try {
-    const chaptersForReview = previousChaptersContent.map((c) => ({
-      number: c.number,
-      title: c.title,
-      latex: c.latex,
-    }));
-
-    const { chapters: revisedChapters, stats: reviewStats } =
-      await reviewAndReviseBook(
+  if (fiction) {
+    log.step("Fiction — editorial review skipped");
+  } else {
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { generationStatus: "REVIEWING_CONTENT" },
+    });
+    try {
+      const chaptersForReview = previousChaptersContent.map((c) => ({
+        number: c.number,
+        title: c.title,
+        latex: c.latex,
+      }));
+
+      const {
+        chapters: revisedChapters,
+        stats: reviewStats,
+        review,
+      } = await reviewAndReviseBook(
         chaptersForReview,
         project.topic,
         bookTitle,
         project.guidelines || "",
+        voiceProfileOf(project),
         project.language,
+        promptSet,
         log,
+        () => throwIfCancelled(projectId),
+        async () =>
+          !(
+            await checkSpend(projectId, "review revisions", log, {
+              canHalt: false,
+            })
+          ).has("skip-revisions"),
       );
 
-    // Apply revised LaTeX back to DB
-    if (reviewStats.editsApplied > 0) {
-      log.step(`Saving ${reviewStats.editsApplied} revision(s) to database...`);
-      for (const revised of revisedChapters) {
-        const wordCount = revised.latex
-          .replace(/\\[a-zA-Z]+(\{[^}]*\})?/g, "")
-          .split(/\s+/).length;
-
-        await prisma.chapter.updateMany({
-          where: { projectId, chapterNumber: revised.number },
-          data: {
-            latexContent: revised.latex,
-            actualWords: wordCount,
-            actualPages: wordCount / wpp,
-          },
-        });
-
-        // Also update the in-memory content for compilation
-        const pcIdx = previousChaptersContent.findIndex(
-          (c) => c.number === revised.number,
-        );
-        if (pcIdx !== -1) {
+      // Apply revised LaTeX back to DB
+      if (reviewStats.editsApplied > 0) {
+        log.step(`Saving ${reviewStats.editsApplied} revision(s) to database...`);
+        for (const revised of revisedChapters) {
+          // Also update the in-memory content for compilation
+          const pcIdx = previousChaptersContent.findIndex(
+            (c) => c.number === revised.number,
+          );
+          if (pcIdx === -1) continue;
+          if (previousChaptersContent[pcIdx].latex === revised.latex) continue;
           previousChaptersContent[pcIdx].latex = revised.latex;
+
+          const wordCount = revised.latex
+            .replace(/\\[a-zA-Z]+(\{[^}]*\})?/g, "")
+            .split(/\s+/).length;
+          const registry = await extractChapterRegistry(
+            revised.number,
+            revised.title,
+            revised.latex,
+            project.language,
+            project.genre,
+            promptSet,
+            log,
+          );
+
+          await prisma.chapter.updateMany({
+            where: { projectId, chapterNumber: revised.number },
+            data: {
+              latexContent: revised.latex,
+              actualWords: wordCount,
+              actualPages: wordCount / wpp,
+              registry: JSON.stringify(registry),
+              styleSample: extractStyleSample(revised.latex),
+            },
+          });
+          await syncGlossaryFromRegistry(projectId, registry);
         }
       }
+
+      // Kept for the review report — the user can re-run it after editing
+      await saveBookReview(projectId, "pipeline", review, reviewStats);
+      totalTokens += reviewStats.reviewTokens + reviewStats.revisionTokens;
+
+      log.ok(
+        `Review complete: ${reviewStats.originalScore}→${reviewStats.finalScore}/10, ` +
+          `${reviewStats.editsApplied} edits, ` +
+          `+${reviewStats.reviewTokens + reviewStats.revisionTokens} tokens (${reviewTimer()})`,
+      );
+    } catch (reviewError: any) {
+      if (reviewError instanceof GenerationCancelledError) throw reviewError;
+      // Review is non-critical — if it fails, continue to compilation
+      log.warn(`Review failed (non-critical): ${reviewError.message}`);
     }
+  }
 
-    totalTokens += reviewStats.reviewTokens + reviewStats.revisionTokens;
+  // ── Phase 4.6: Appendices — reference material, after the reviewed chapters ──
+  await throwIfCancelled(projectId);
+  log.phase(4.6, "Appendices");
+  try {
+    // Checklists and tables need facts, not the whole research block
+    const research = mergeResearchForPrompt(
+      globalResearch,
+      null,
+      TRIMMED_RESEARCH_LIMITS.perSource,
+      TRIMMED_RESEARCH_LIMITS.total,
+    );
+    const written = await generateAppendices({
+      projectId,
+      bookTitle,
+      appendices,
+      sourcesText: research.text,
+      hasResearch: research.hasResearch,
+      wpp,
+      resume,
+      promptSet,
+      log,
+    });
+    totalTokens += written.tokensUsed;
+    if (appendices.length === 0) log.step("None planned in the structure");
+  } catch (appendixError: any) {
+    if (
+      appendixError instanceof GenerationCancelledError ||
+      appendixError instanceof SpendCapExceededError
+    )
+      throw appendixError;
+    // Like the review — the book compiles without them
+    log.warn(`Appendices failed (non-critical): ${appendixError.message}`);
+  }
 
-    log.ok(
-      `Review complete: ${reviewStats.originalScore}→${reviewStats.finalScore}/10, ` +
-        `${reviewStats.editsApplied} edits, ` +
-        `+${reviewStats.reviewTokens + reviewStats.revisionTokens} tokens (${reviewTimer()})`,
+  // ── Phase 4.7: Front & back matter — written from the finished chapters ──
+  await throwIfCancelled(projectId);
+  log.phase(4.7, "Front & Back Matter");
+  try {
+    const matter = await generateBookMatter(
+      projectId,
+      bookTitle,
+      promptSet,
+      log,
     );
-  } catch (reviewError: any) {
-    // Review is non-critical — if it fails, continue to compilation
-    log.warn(`Review failed (non-critical): ${reviewError.message}`);
+    totalTokens += matter.tokensUsed;
+    if (matter.written === 0) log.step("None requested in the brief");
+  } catch (matterError: any) {
+    if (
+      matterError instanceof GenerationCancelledError ||
+      matterError instanceof SpendCapExceededError
+    )
+      throw matterError;
+    // Like the review — the book compiles without it
+    log.warn(`Front/back matter failed (non-critical): ${matterError.message}`);
   }
 
   // ── Phase 5: Finalize ──
+  await throwIfCancelled(projectId);
   log.phase(5, "Compilation");
 
-  const estimatedCost = (totalTokens / 1_000_000) * 3;
+  // Tokens/cost were recorded per call in the LlmCall ledger (logger.api)
+  const usage = log.usage();
   await prisma.project.update({
     where: { id: projectId },
     data: {
       generationStatus: "CONTENT_READY",
       currentStage: "COMPILING",
       generationProgress: 1,
-      totalTokensUsed: totalTokens,
-      totalCostUsd: estimatedCost,
     },
   });
 
   log.data("Total tokens", totalTokens.toLocaleString());
-  log.data("Estimated cost", `$${estimatedCost.toFixed(4)}`);
+  log.data("LLM calls", `${usage.calls}, $${usage.costUsd.toFixed(4)}`);
   log.step("Starting PDF compilation...");
 
   const { compileBook } = await import("./bookCompiler");
@@ -600,9 +1003,261 @@ export async function generateContent(projectId: string) {
 
   log.footer(
     "SUCCESS",
-    `${chapters.length} chapters, ${totalTokens.toLocaleString()} tokens, ~$${estimatedCost.toFixed(4)}`,
+    `${chapters.length} chapters, ${totalTokens.toLocaleString()} tokens, $${usage.costUsd.toFixed(4)}`,
+  );
+  return { totalTokens, costUsd: usage.costUsd };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Single chapter: regenerate with user feedback
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Re-write one finished chapter from free-text feedback.
+ * Reuses stored research, earlier chapters as style/continuity context and
+ * registries of all other chapters. The old content is kept as a
+ * ChapterRevision. Does not recompile — the user does that from the editor.
+ */
+export async function regenerateChapter(
+  projectId: string,
+  chapterNumber: number,
+  feedback: string,
+) {
+  const log = createPipelineLogger("CHAPTER-REGEN", projectId);
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      structure: true,
+      chapters: {
+        where: { kind: "chapter" },
+        orderBy: { chapterNumber: "asc" },
+      },
+    },
+  });
+  if (!project || !project.structure)
+    throw new Error("Project or structure not found");
+
+  const structureData = JSON.parse(project.structure.structureJson);
+  const chapters: ChapterStructure[] = structureData.chapters;
+  const chapterIndex = chapters.findIndex((c) => c.number === chapterNumber);
+  const chapter = chapters[chapterIndex];
+  const rec = project.chapters.find((c) => c.chapterNumber === chapterNumber);
+  if (!chapter || !rec?.latexContent)
+    throw new Error(`Chapter ${chapterNumber} not found or has no content`);
+
+  const bookTitle =
+    structureData.suggestedTitle || project.title || project.topic;
+  const wpp = getWordsPerPage(project.bookFormat);
+  const targetWords = chapter.targetPages * wpp;
+  const voice = voiceProfileOf(project);
+  const promptSet = await loadPromptSet(
+    project.language,
+    project.promptVariant,
+  );
+
+  log.header("Chapter Regeneration", {
+    Book: bookTitle,
+    Chapter: `${chapterNumber}/${chapters.length} "${chapter.title}"`,
+    Target: `${targetWords} words`,
+    Feedback: feedback.substring(0, 100),
+  });
+
+  // ── Context: earlier chapters (style + transition), registries of all others ──
+  log.phase(1, "Rebuild Context");
+  const previousChaptersContent: GenParams["previousChaptersContent"] = [];
+  const chapterRegistries: ChapterRegistry[] = [];
+  const laterRegistries: ChapterRegistry[] = [];
+
+  for (const other of project.chapters) {
+    if (other.chapterNumber === chapterNumber || !other.latexContent) continue;
+    if (other.status !== "LATEX_READY") continue;
+
+    const registry =
+      storedRegistry(other.registry) ||
+      (await refreshChapterRegistry(
+        other.id,
+        other.chapterNumber,
+        other.title,
+        other.latexContent,
+        project.language,
+        project.genre,
+        promptSet,
+        log,
+      ));
+    if (other.chapterNumber < chapterNumber) {
+      previousChaptersContent.push({
+        number: other.chapterNumber,
+        title: other.title,
+        latex: other.latexContent,
+        styleSample: other.styleSample,
+      });
+      chapterRegistries.push(registry);
+    } else {
+      laterRegistries.push(registry);
+    }
+  }
+  log.ok(
+    `${previousChaptersContent.length} earlier + ${laterRegistries.length} later chapters in context`,
+  );
+
+  // ── Research: stored, never re-scraped ──
+  const spend = await checkSpend(projectId, `chapter ${chapterNumber}`, log);
+  const limits = spend.has("trim-research")
+    ? TRIMMED_RESEARCH_LIMITS
+    : RESEARCH_PROMPT_LIMITS;
+  const fiction = isFiction(project.genre);
+  const globalResearch = fiction ? null : await loadResearch(projectId);
+  const chapterResearch = fiction
+    ? null
+    : await loadChapterResearch(projectId, chapterNumber);
+  const { text: mergedSourcesText, hasResearch } = mergeResearchForPrompt(
+    globalResearch,
+    chapterResearch,
+    limits.perSource,
+    limits.total,
+  );
+  log.data(
+    "Research",
+    `${chapterResearch?.selectedSources.length || 0} chapter-specific + ${globalResearch?.selectedSources.length || 0} global`,
+  );
+
+  // ── Generate ──
+  log.phase(2, "Rewrite Chapter");
+  const chTimer = log.timer();
+  const result = await generateChapterLatex({
+    bookTitle,
+    bookTopic: project.topic,
+    language: project.language,
+    stylePreset: project.stylePreset,
+    voice,
+    genre: project.genre,
+    storyBible: formatStoryBible(storyBibleOf(structureData)),
+    workbook: project.workbook,
+    guidelines: project.guidelines || "",
+    terminology: formatTermsForPrompt(await loadGlossary(projectId)),
+    bookFormat: project.bookFormat,
+    chapter,
+    chapterIndex,
+    totalChapters: chapters.length,
+    previousSummaries: chapterRegistries.map(
+      (r) => `Ch${r.chapterNumber} "${r.chapterTitle}": ${r.summary}`,
+    ),
+    previousChaptersContent,
+    chapterRegistries,
+    allChapters: chapters,
+    sourcesText: mergedSourcesText,
+    hasResearch,
+    wpp,
+    promptSet,
+    log,
+    revision: {
+      feedback,
+      previousLatex: rec.latexContent,
+      laterRegistries,
+    },
+  });
+  const length = await correctChapterLength({
+    projectId,
+    bookTitle,
+    chapter,
+    latex: result.latexContent,
+    wpp,
+    language: project.language,
+    tone: voice.tone,
+    genre: project.genre,
+    promptSet,
+    log,
+  });
+  result.latexContent = length.latex;
+  result.tokensUsed += length.tokensUsed;
+
+  // ── Save: old content → revision, new content → chapter ──
+  log.phase(3, "Save");
+  const lastRevision = await prisma.chapterRevision.findFirst({
+    where: { chapterId: rec.id },
+    orderBy: { revision: "desc" },
+    select: { revision: true },
+  });
+
+  const registry = await extractChapterRegistry(
+    chapterNumber,
+    rec.title,
+    result.latexContent,
+    project.language,
+    project.genre,
+    promptSet,
+    log,
+  );
+  const facts = await checkChapterFacts({
+    projectId,
+    chapterNumber,
+    chapterTitle: rec.title,
+    latex: result.latexContent,
+    stats: registry.usedStats,
+    research: [chapterResearch, globalResearch],
+    language: project.language,
+    promptSet,
+    log,
+  });
+  result.latexContent = facts.latex;
+  result.tokensUsed += facts.tokensUsed;
+  registry.usedStats = remainingStats(registry.usedStats, facts.report);
+  const overlap = await rewriteOverlaps({
+    projectId,
+    chapterNumber,
+    bookTitle,
+    latex: result.latexContent,
+    research: [chapterResearch, globalResearch],
+    language: project.language,
+    promptSet,
+    log,
+  });
+  result.latexContent = overlap.latex;
+  result.tokensUsed += overlap.tokensUsed;
+  const wordCount = countWords(result.latexContent);
+
+  await prisma.$transaction([
+    prisma.chapterRevision.create({
+      data: {
+        chapterId: rec.id,
+        projectId,
+        revision: (lastRevision?.revision || 0) + 1,
+        latexContent: rec.latexContent,
+        actualWords: rec.actualWords,
+        source: "regenerate",
+        feedback,
+      },
+    }),
+    prisma.chapter.update({
+      where: { id: rec.id },
+      data: {
+        latexContent: result.latexContent,
+        actualWords: wordCount,
+        actualPages: wordCount / wpp,
+        status: "LATEX_READY",
+        writerPrompts: JSON.stringify(result.prompts),
+        writerResponses: JSON.stringify(result.responses),
+        promptRefs: JSON.stringify(result.promptRefs),
+        sectionStats: result.sectionStats
+          ? JSON.stringify(result.sectionStats)
+          : null,
+        lengthCorrections: JSON.stringify(length.corrections),
+        factCheck: JSON.stringify(facts.report),
+        overlapReport: JSON.stringify(overlap.report),
+        registry: JSON.stringify(registry),
+        styleSample: extractStyleSample(result.latexContent),
+      },
+    }),
+  ]);
+  await syncGlossaryFromRegistry(projectId, registry);
+
+  const accuracy = Math.round((wordCount / targetWords) * 100);
+  log.footer(
+    "SUCCESS",
+    `Ch ${chapterNumber}: ${wordCount}w [${accuracy}% of target], ${result.tokensUsed.toLocaleString()} tokens (${chTimer()})`,
   );
-  return { totalTokens, estimatedCost };
+  return { wordCount, tokensUsed: result.tokensUsed };
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -621,19 +1276,21 @@ export async function generateContent(projectId: string) {
  * Total: ~4-6K chars regardless of book size (vs 30-150K+ before)
  */
 export function buildPreviousChaptersContext(
-  previousChapters: { number: number; title: string; latex: string }[],
+  previousChapters: GenParams["previousChaptersContent"],
   _previousSummaries: string[], // prefix _ suppresses the warning
   registries: ChapterRegistry[],
+  genre: string = "nonfiction",
   _maxChars?: number,
 ): string {
   if (previousChapters.length === 0) return "";
+  const fiction = isFiction(genre);
 
   const parts: string[] = [];
 
   // ── 1. Style sample from Chapter 1 ──
   const ch1 = previousChapters[0];
   if (ch1) {
-    const sample = extractStyleSample(ch1.latex);
+    const sample = ch1.styleSample || extractStyleSample(ch1.latex);
     parts.push(`
 ═══ YOUR WRITING STYLE (from Chapter 1 — match this EXACTLY) ═══
 
@@ -642,11 +1299,13 @@ ${sample}
 ═══ END STYLE SAMPLE ═══
 
 CRITICAL: Match this voice precisely. Same sentence rhythm, same level of directness,
-same way you use data and examples. The reader must feel ONE consistent author.`);
+same way you use ${fiction ? "dialogue and description" : "data and examples"}. The reader must feel ONE consistent author.`);
   }
 
   // ── 2. Content registry (what's been covered) ──
-  if (registries.length > 0) {
+  if (fiction && registries.length > 0) {
+    parts.push(buildStoryContinuityBlock(registries));
+  } else if (registries.length > 0) {
     let registryBlock = `
 ═══ CONTENT ALREADY COVERED (do NOT repeat) ═══
 `;
@@ -703,6 +1362,40 @@ Your chapter starts where this left off. Transition naturally — don't repeat t
   return parts.join("\n\n");
 }
 
+/** Fiction registry block: what happened, where everyone stands */
+function buildStoryContinuityBlock(registries: ChapterRegistry[]): string {
+  let block = `
+═══ STORY SO FAR (stay consistent with it) ═══
+`;
+  for (const reg of registries) {
+    block += `\n── Ch.${reg.chapterNumber}: "${reg.chapterTitle}" ──\n`;
+    block += `Summary: ${reg.summary}\n`;
+    if (reg.closingTopic) block += `Ends with: ${reg.closingTopic}\n`;
+  }
+
+  // Characters and threads as of the latest chapter that recorded them
+  const latest = [...registries]
+    .reverse()
+    .find((r) => r.characters?.length || r.plotState?.length);
+  if (latest?.characters?.length) {
+    block += `\nCHARACTERS (end of Ch.${latest.chapterNumber}):\n`;
+    block += latest.characters.map((c) => `- ${c}`).join("\n") + "\n";
+  }
+  if (latest?.plotState?.length) {
+    block += `\nPLOT THREADS (end of Ch.${latest.chapterNumber}):\n`;
+    block += latest.plotState.map((t) => `- ${t}`).join("\n") + "\n";
+  }
+
+  block += `
+═══ END STORY SO FAR ═══
+
+RULES:
+- Characters keep their names, looks, knowledge, injuries and possessions from where the story left them
+- Move the open threads forward; never re-open a resolved one without a reason on the page
+- Don't retell earlier chapters — the reader was there; a brief memory in a character's head is enough`;
+  return block;
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Generate single chapter
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -712,7 +1405,16 @@ interface GenParams {
   bookTopic: string;
   language: string;
   stylePreset: string;
+  voice: VoiceProfile;
+  /** "fiction" switches to the fiction.* prompts (services/narrativeMode.ts) */
+  genre: string;
+  /** Cast and setting block of the fiction system prompt */
+  storyBible: string;
+  /** End every section with exercises (services/workbook.ts) */
+  workbook: boolean;
   guidelines: string;
+  /** Book glossary, formatted as mandatory terms ("" when empty) */
+  terminology: string;
   bookFormat: string;
   chapter: ChapterStructure;
   chapterIndex: number;
@@ -722,27 +1424,43 @@ interface GenParams {
     number: number;
     title: string;
     latex: string;
+    /** Stored on the Chapter row; extracted from `latex` when missing */
+    styleSample?: string | null;
   }[];
   chapterRegistries: ChapterRegistry[];
   allChapters: ChapterStructure[];
   sourcesText: string;
   hasResearch: boolean;
   wpp: number;
+  promptSet: PromptSet;
   log: any;
+  /** Set when re-writing an existing chapter from user feedback */
+  revision?: {
+    feedback: string;
+    previousLatex: string;
+    laterRegistries: ChapterRegistry[];
+  };
 }
 
-async function generateChapterLatex(p: GenParams): Promise<{
+interface ChapterLatexResult {
   latexContent: string;
   tokensUsed: number;
   summary: string;
   prompts: PromptLog[];
   responses: ResponseLog[];
-}> {
+  promptRefs: PromptRef[];
+  /** Set in section mode only */
+  sectionStats: SectionStat[] | null;
+}
+
+async function generateChapterLatex(
+  p: GenParams,
+): Promise<ChapterLatexResult> {
   const targetWords = p.chapter.targetPages * p.wpp;
   const lang = getLangName(p.language);
   const prompts: PromptLog[] = [];
   const responses: ResponseLog[] = [];
-  const model = "claude-sonnet-4-5";
+  const model = MODELS.writer;
   const isLastChapter = p.chapterIndex === p.totalChapters - 1;
   const hasPreviousChapters = p.previousChaptersContent.length > 0;
 
@@ -764,257 +1482,83 @@ async function generateChapterLatex(p: GenParams): Promise<{
     p.previousChaptersContent,
     p.previousSummaries,
     p.chapterRegistries,
+    p.genre,
   );
 
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // SYSTEM PROMPT
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-  const systemPrompt = `You are a seasoned subject-matter expert and published author writing a professional book chapter. You write like a human expert — not like an AI. You produce richly formatted, typographically professional LaTeX output.
-
-BOOK CONTEXT:
-Book: "${p.bookTitle}" | Topic: ${p.bookTopic} | Language: ${lang} | Style: ${p.stylePreset}
-Format: ${p.bookFormat.toUpperCase()} (~${p.wpp} words/page with onehalfspacing)
-${p.guidelines ? `Author guidelines: ${p.guidelines}` : ""}
-
-${
-  p.hasResearch
-    ? `
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-RESEARCH SOURCES — YOUR PRIMARY KNOWLEDGE BASE FOR THIS CHAPTER
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${p.sourcesText}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-HOW TO USE SOURCES:
-- PRIORITIZE ★ CHAPTER-SPECIFIC sources — they were found specifically for this chapter
-- Extract SPECIFIC facts: names, numbers, dates, percentages, tool names, pricing
-- Build arguments AROUND source data — don't just mention it, ANALYZE it
-- Contrast different sources when they disagree
-- Cite companies, products, regulations BY NAME with specifics
-- DO NOT copy verbatim — synthesize, compare, and add your expert interpretation
-- Book-level sources provide broader context; chapter-specific sources drive the core content
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-`
-    : ""
-}
-${previousChaptersBlock}
-
-═══════════════════════════════════════════════════════════════
-WRITING QUALITY RULES — READ CAREFULLY
-═══════════════════════════════════════════════════════════════
-
-VOICE & TONE:
-- Write as a confident practitioner sharing hard-won knowledge, NOT as a lecturer
-- Use direct, concise sentences. Prefer "X does Y" over "It is worth noting that X has the capability to do Y"
-- Vary sentence length: mix short punchy statements with longer analytical ones
-- Address the reader directly with "you" when giving advice
-- Show opinions and take positions — experts have viewpoints, not just summaries${
-    hasPreviousChapters
-      ? `
-- CRITICAL: You have your previously written chapters above. Match that EXACT writing style.
-  Same sentence rhythm. Same level of directness. Same way you use examples.
-  The reader must not detect any style shift between chapters.`
-      : ""
-  }
-
-BANNED PATTERNS — NEVER use these AI-typical phrases:
-- "In today's rapidly evolving..." / "In the dynamic world of..."
-- "It's worth noting that..." / "It's important to understand..."
-- "Let's dive into..." / "Let's explore..."
-- "In conclusion..." / "To summarize..."
-- "Whether you're a... or a..." / "From X to Y..."
-- "Game-changer" / "revolutionary" / "transformative" / "cutting-edge"
-- "Powerful tool" / "robust solution" / "comprehensive approach"
-- "Navigate the complexities" / "unlock the potential" / "harness the power"
-- "Fascinating" / "remarkable" / "dramatic" / "crucial" / "essential" (overuse)
-- "Landscape" (when describing an industry) / "paradigm shift" / "at the forefront"
-- "Delve into" / "realm of" / "tapestry of"
-- Starting paragraphs with "Furthermore" / "Moreover" / "Additionally" — vary transitions
-- "W dzisiejszym dynamicznie zmieniającym się świecie" / "Nie jest tajemnicą, że"
-- "Warto zauważyć" / "Należy podkreślić" / "szeroki wybór" / "najwyższa jakość"
-
-CONTENT DEPTH — what separates expert content from filler:
-- Every claim must have a SPECIFIC example, number, or case study backing it
-- BAD: "AI can significantly improve productivity" → GOOD: "Teams using Cursor report 40\\% faster code reviews, with junior developers seeing the biggest gains"
-- BAD: "Many companies are adopting AI" → GOOD: "Shopify cut its workforce by 20\\% in 2023, with CEO Tobi Lütke stating AI would replace roles, not just assist them"
-- When listing tools/methods: include PRICING, LIMITATIONS, and WHEN NOT to use them
-- Minimum 3 concrete data points per section (numbers, percentages, company names, dates)
-- When describing a process, include a realistic scenario with specific numbers
-
-STRUCTURE WITHIN SECTIONS:
-- Open each section with a specific insight, stat, or contrarian take — NOT a definition
-- Close each major section with a \\begin{keyinsight} box summarizing the actionable takeaway
-- Use \\begin{tipbox} for practical "how-to" advice within sections
-- Use \\begin{warningbox} when discussing common mistakes or counterintuitive pitfalls
-- Use \\begin{examplebox} for detailed case studies with company names and numbers
-- Use tables (booktabs) when comparing 3+ items, tools, approaches, or data points
-- Use \\begin{itemize} sparingly — prefer flowing prose with embedded specifics
-- NEVER pad content with long lists of example prompts, templates, or filler
-
-ANTI-FILLER RULES:
-- Every paragraph must contain at least one SPECIFIC fact, number, or named example
-- Do NOT write "There are many tools available" — instead, compare their trade-offs in a TABLE
-- Do NOT repeat the same point in different words across paragraphs
-- Information density: a reader should learn something new in every paragraph${
-    hasPreviousChapters
-      ? `
-- NEVER repeat data points, examples, or arguments from your previous chapters.
-  The reader has already absorbed that content. Reference it naturally instead:
-  "As discussed in Chapter X..." or "Building on the framework from Chapter X..."`
-      : ""
+  const system = p.promptSet.render(promptKey("chapter.system", p.genre), {
+    bookTitle: p.bookTitle,
+    bookTopic: p.bookTopic,
+    lang,
+    stylePreset: p.stylePreset,
+    bookFormat: p.bookFormat.toUpperCase(),
+    wpp: p.wpp,
+    ...writerVoiceVars(p.voice),
+    guidelines: p.guidelines,
+    terminology: p.terminology,
+    storyBible: p.storyBible,
+    workbook: p.workbook,
+    hasResearch: p.hasResearch,
+    sourcesText: p.sourcesText,
+    previousChaptersBlock,
+    hasPreviousChapters,
+    chapterTitle: p.chapter.title,
+  });
+  const systemPrompt = system.text;
+
+  if (
+    targetWords >= SECTION_MODE_MIN_WORDS &&
+    p.chapter.sections.length > 1
+  ) {
+    return generateChapterBySections(p, {
+      system,
+      lang,
+      sectionsOutline,
+      toc,
+      isLastChapter,
+      hasPreviousChapters,
+    });
   }
 
-═══════════════════════════════════════════════════════════════
-LATEX OUTPUT & VISUAL ELEMENTS
-═══════════════════════════════════════════════════════════════
-
-BASE RULES:
-- Output ONLY the chapter body — NO preamble, NO \\documentclass, NO \\begin{document}
-- Start with \\chapter{${p.chapter.title}}
-- Use \\section{} for main sections, \\subsection{} for subsections
-- Use \\textbf{}, \\textit{}, \\emph{} for emphasis (sparingly)
-- Use \\footnote{} for asides and source attributions
-- Escape special chars: \\%, \\&, \\#, \\$, \\_, \\{, \\}
-- Use --- for em-dash, -- for en-dash
-- NO \\usepackage, NO custom command definitions
-- ALL text in ${lang}
-- NEVER leave a section or sentence unfinished
-
-⚠️ CRITICAL LATEX RULES — ENVIRONMENT MATCHING:
-- EVERY \\begin{tipbox} MUST have a matching \\end{tipbox}
-- EVERY \\begin{keyinsight} MUST have a matching \\end{keyinsight}
-- EVERY \\begin{warningbox} MUST have a matching \\end{warningbox}
-- EVERY \\begin{examplebox} MUST have a matching \\end{examplebox}
-- EVERY \\begin{table} MUST have a matching \\end{table}
-- EVERY \\begin{tabularx} MUST have a matching \\end{tabularx}
-- EVERY \\begin{itemize} MUST have a matching \\end{itemize}
-- EVERY \\begin{enumerate} MUST have a matching \\end{enumerate}
-- NEVER leave an environment unclosed — this causes fatal compilation errors
-- Double-check ALL environments are properly closed before finishing output
-
-═══ COLORED BOXES — use 3-5 per chapter, mixing types ═══
-
-Practical tip or actionable advice (green left-border):
-\\begin{tipbox}{Title of Practical Tip}
-Actionable advice for the reader. Concrete steps, not vague suggestions. 2-4 sentences.
-\\end{tipbox}
-
-Key takeaway — place at end of each major section (blue frame):
-\\begin{keyinsight}{Title of Key Insight}
-The ONE thing the reader must remember from this section. Specific, data-backed.
-\\end{keyinsight}
-
-Warning about common mistake or pitfall (amber left-border):
-\\begin{warningbox}{Title of Warning}
-Common mistake and its consequence. Include what to do instead. 2-3 sentences.
-\\end{warningbox}
-
-Case study or real-world example (purple frame):
-\\begin{examplebox}{Case Study: Company or Person Name}
-Real-world example with specific numbers, timeline, and measurable outcomes.
-What they did, what happened, what the reader can learn from it.
-\\end{examplebox}
-
-═══ TABLES — use 1-2 per chapter for data comparisons ═══
-
-Use booktabs tables for comparing tools, approaches, statistics, or any structured data.
-Tables make data easier to scan than prose and look professional.
-
-EXACT SYNTAX — follow precisely:
-\\begin{table}[ht]
-\\centering
-\\caption{Descriptive caption explaining what this table shows}
-\\begin{tabularx}{\\textwidth}{lXr}
-\\toprule
-\\rowcolor{tableheadbg} \\textcolor{tableheadfg}{\\textbf{Column 1}} & \\textcolor{tableheadfg}{\\textbf{Column 2}} & \\textcolor{tableheadfg}{\\textbf{Column 3}} \\\\
-\\midrule
-Row 1 data & Description text & 95\\% \\\\
-Row 2 data & Description text & 72\\% \\\\
-Row 3 data & Description text & 48\\% \\\\
-\\bottomrule
-\\end{tabularx}
-\\end{table}
-
-CRITICAL TABLE RULES:
-- Column spec must use X (flexible) for text-heavy columns: {lXr}, {lXXr}, {Xlr}
-- ALWAYS include \\caption{} — it appears with styled formatting
-- Fill tables with REAL data from sources or expert knowledge — NEVER placeholder text
-- Use tables when comparing 3+ items instead of writing them as prose
-- Keep tables focused: 3-6 rows, 3-4 columns maximum
-- In \\rowcolor and \\textcolor lines: every column MUST have \\textcolor{tableheadfg}{\\textbf{...}}
-
-═══ QUOTES ═══
-
-Use \\begin{quote} for notable expert quotes — max 1-2 per chapter, only when impactful.
-
-═══ VISUAL ELEMENT MINIMUMS PER CHAPTER ═══
-
-MANDATORY — every chapter MUST include:
-□ At least 1 booktabs table with real comparative data
-□ At least 1 keyinsight box (ideally one per \\section{})
-□ At least 1 tipbox OR warningbox with actionable advice
-□ At least 1 examplebox with a named case study
-□ Total: 3-5 colored boxes + 1-2 tables per chapter
-
-These visual elements should feel NATURAL — placed where the content demands them,
-not forced. A comparison section NEEDS a table. A practical advice section NEEDS a tipbox.
-A section about mistakes NEEDS a warningbox.`;
-
   // ━━━ User prompt ━━━
-  let userPrompt = `Write Chapter ${p.chapter.number}/${p.totalChapters}: "${p.chapter.title}"
-Description: ${p.chapter.description}
-
-SECTIONS TO WRITE:
-${sectionsOutline}
-
-FULL BOOK TABLE OF CONTENTS (for context — maintain coherent narrative):
-${toc}
-
-WORD COUNT TARGET: ${targetWords} words (±10%) = ${p.chapter.targetPages} pages in ${p.bookFormat.toUpperCase()} @ ${p.wpp} words/page.
-⚠️ Hard limits: minimum ${Math.round(targetWords * 0.85)} words, maximum ${Math.round(targetWords * 1.15)} words.
-⚠️ STRICT MAXIMUM: Do NOT exceed ${Math.round(targetWords * 1.15)} words under any circumstances. If you reach the limit, wrap up the current section and move on.
-⚠️ COMPLETE every section and sentence. NEVER stop mid-sentence or leave a section unfinished.
-
-QUALITY CHECKLIST — verify before finishing:
-□ Does every section open with a specific fact/insight (not a definition)?
-□ Are there 3+ concrete data points per section?
-□ Did you avoid ALL banned AI phrases from the system prompt?
-□ Is there at least one real company/product name per section?
-□ Did you include at least 1 booktabs table with real comparative data?
-□ Did you include 3-5 colored boxes (keyinsight, tipbox, warningbox, examplebox)?
-□ Does every major \\section{} end with a keyinsight box?
-□ Did you avoid long lists of examples/templates that pad word count?
-□ Does the chapter read like a professionally typeset book — not a text dump?
-□ Is EVERY opened environment properly closed (no missing end-tags)?`;
-
-  // ── Continuity instruction for chapters 2+ ──
-  if (hasPreviousChapters) {
-    const lastChNum =
-      p.previousChaptersContent[p.previousChaptersContent.length - 1].number;
-    userPrompt += `
-
-⚠️ CONTINUITY — your previous ${p.previousChaptersContent.length} chapter(s) are in the system prompt above:
-- Match your established writing style EXACTLY — the reader must feel one consistent author
-- Transition naturally from Chapter ${lastChNum} — don't repeat its closing points
-- Reference earlier chapters when building on concepts: "As we discussed in Chapter ${lastChNum}..."
-- Do NOT reuse any examples, statistics, or case studies from previous chapters
-- Maintain the same terminology — if you called something "X" before, call it "X" again
-- Use the same ratio of visual elements (tables, boxes) as your previous chapters`;
-  }
-
-  // ── Last chapter closing instruction ──
-  if (isLastChapter) {
-    userPrompt += `
-
-⚠️ THIS IS THE FINAL CHAPTER OF THE BOOK. You MUST:
-- Write a proper conclusion section at the end (\\section{...})
-- Summarize key takeaways from the ENTIRE book (reference earlier chapters by name)
-- End with a concrete call-to-action or forward-looking statement for the reader
-- Include a final \\begin{keyinsight} box with the single most important message of the book
-- The last paragraph should feel like a deliberate, satisfying ending — NOT a cutoff
-- Do NOT end with a generic "the future is bright" statement — end with something actionable and specific`;
-  }
+  const lastPrevious =
+    p.previousChaptersContent[p.previousChaptersContent.length - 1];
+  const later = (p.revision?.laterRegistries || [])
+    .map(
+      (r) =>
+        `  Ch.${r.chapterNumber} "${r.chapterTitle}": ${r.summary}${r.usedExamples.length > 0 ? ` | Examples: ${r.usedExamples.join("; ")}` : ""}${r.plotState?.length ? ` | Threads: ${r.plotState.join("; ")}` : ""}`,
+    )
+    .join("\n");
 
-  userPrompt += `\n\nBegin LaTeX output now. Start with \\chapter{${p.chapter.title}}. Write exactly ${targetWords} words (±10%), entirely in ${lang}. Remember: expert voice, concrete data, no AI filler, RICH visual formatting (tables + colored boxes). Close every opened environment properly.`;
+  // Continuity (chapters 2+), closing (last chapter) and rewrite blocks are
+  // sections of the template, switched by the flags below
+  const user = p.promptSet.render(promptKey("chapter.user", p.genre), {
+    chapterNumber: p.chapter.number,
+    totalChapters: p.totalChapters,
+    chapterTitle: p.chapter.title,
+    chapterDescription: p.chapter.description,
+    sectionsOutline,
+    toc,
+    targetPages: p.chapter.targetPages,
+    bookFormat: p.bookFormat.toUpperCase(),
+    wpp: p.wpp,
+    targetWords,
+    minWords: Math.round(targetWords * 0.85),
+    maxWords: Math.round(targetWords * 1.15),
+    hasPreviousChapters,
+    previousChapterCount: p.previousChaptersContent.length,
+    lastChapterNumber: lastPrevious?.number ?? "",
+    isLastChapter,
+    isRevision: !!p.revision,
+    revisionFeedback: p.revision?.feedback || "",
+    revisionDraft: p.revision?.previousLatex.substring(0, 40000) || "",
+    laterChapters: later,
+    workbook: p.workbook,
+    lang,
+  });
+  const userPrompt = user.text;
 
   // ── Logging ──
   const ts = () => new Date().toISOString();
@@ -1058,24 +1602,22 @@ QUALITY CHECKLIST — verify before finishing:
     "chapter-main",
     `[system: ${systemPrompt.length} chars] ${userPrompt}`,
   );
-  const res = await anthropic.messages.create({
+  const res = await getLlm().complete({
+    task: "chapter",
     model,
-    max_tokens: maxTok,
+    maxTokens: maxTok,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }],
   });
 
-  let latex = "";
-  let tokens = (res.usage?.input_tokens || 0) + (res.usage?.output_tokens || 0);
-  for (const b of res.content) {
-    if (b.type === "text") latex += b.text;
-  }
+  let latex = res.text;
+  let tokens = res.usage.inputTokens + res.usage.outputTokens;
   latex = cleanLatex(latex);
-  latex = deAIfy(latex, p.language);
+  latex = deAIfy(latex, p.language, p.voice.tone);
   latex = sanitizeGeneratedLatex(latex);
 
   p.log.claudeRes?.("chapter-main", latex);
-  p.log.api(model, res.usage?.input_tokens || 0, res.usage?.output_tokens || 0);
+  p.log.api(res, { chapter: p.chapter.number });
   p.log.ok(
     `Main response: ${latex.length.toLocaleString()} chars (${apiTimer()})`,
   );
@@ -1083,8 +1625,8 @@ QUALITY CHECKLIST — verify before finishing:
   responses.push({
     step: "main",
     content: latex,
-    inputTokens: res.usage?.input_tokens || 0,
-    outputTokens: res.usage?.output_tokens || 0,
+    inputTokens: res.usage.inputTokens,
+    outputTokens: res.usage.outputTokens,
     model,
     timestamp: ts(),
   });
@@ -1109,22 +1651,33 @@ QUALITY CHECKLIST — verify before finishing:
     const remainingWords = targetWords - wc;
     const maxTotalWords = Math.round(targetWords * 1.15);
 
-    const contPrompt = `You wrote ${wc} of ${targetWords} target words. Continue writing the remaining ~${remainingWords} words.
-
-RULES FOR CONTINUATION:
-- Pick up EXACTLY where you left off — do NOT repeat any content
+    const contRules = isFiction(p.genre)
+      ? `- Pick up EXACTLY where you left off — do NOT repeat any content
+- Keep the same narrator, tense and voice
+- Move the story forward with action and dialogue — don't pad with description
+- Complete any unfinished scenes from the outline; start a new scene with \\section{Scene label}
+- COMPLETE every sentence — never stop mid-thought
+- NO boxes, tables or lists
+- Output only LaTeX body (no preamble). All text in ${lang}.
+- Remember: banned clichés still apply. Write like a human storyteller.`
+      : `- Pick up EXACTLY where you left off — do NOT repeat any content
 - Maintain the same expert voice and quality level
 - Add NEW data points, examples, and analysis — don't pad with filler
 - Complete any unfinished sections from the outline
 - COMPLETE every sentence — never stop mid-thought
-- Continue using visual elements: if you haven't used enough tables or colored boxes yet, add them now
+- Continue using visual elements: if you haven't used enough tables or colored boxes yet, add them now${p.workbook ? "\n- Workbook: end every section you complete with its exercises, answers included" : ""}
 - Output only LaTeX body (no preamble). All text in ${lang}.
-- Remember: banned AI phrases still apply. Write like a human expert.
+- Remember: banned AI phrases still apply. Write like a human expert.`;
+    const closing = isFiction(p.genre)
+      ? "\n- THIS IS THE FINAL CHAPTER — resolve the story and end on a deliberate final image or line."
+      : "\n- THIS IS THE FINAL CHAPTER — make sure it ends with a proper conclusion for the whole book, including a final keyinsight box.";
+    const contPrompt = `You wrote ${wc} of ${targetWords} target words. Continue writing the remaining ~${remainingWords} words.
+
+RULES FOR CONTINUATION:
+${contRules}
 - ⚠️ STOP writing at approximately ${remainingWords} additional words. Do NOT exceed ${maxTotalWords} total words for the chapter.
 - ⚠️ Close every opened environment properly — unclosed environments crash compilation.${
-      isLastChapter
-        ? "\n- THIS IS THE FINAL CHAPTER — make sure it ends with a proper conclusion for the whole book, including a final keyinsight box."
-        : ""
+      isLastChapter ? closing : ""
     }`;
 
     prompts.push({
@@ -1140,9 +1693,10 @@ RULES FOR CONTINUATION:
     );
     const contTimer = p.log.timer();
     p.log.claudeReq?.("chapter-cont", contPrompt);
-    const cont = await anthropic.messages.create({
+    const cont = await getLlm().complete({
+      task: "chapter-continue",
       model,
-      max_tokens: contMaxTok,
+      maxTokens: contMaxTok,
       system: systemPrompt,
       messages: [
         { role: "user", content: userPrompt },
@@ -1151,32 +1705,23 @@ RULES FOR CONTINUATION:
       ],
     });
 
-    let contLatex = "";
-    for (const b of cont.content) {
-      if (b.type === "text") contLatex += b.text;
-    }
-    contLatex = cleanLatex(contLatex);
-    contLatex = deAIfy(contLatex, p.language);
+    let contLatex = cleanLatex(cont.text);
+    contLatex = deAIfy(contLatex, p.language, p.voice.tone);
     contLatex = sanitizeGeneratedLatex(contLatex);
     p.log.claudeRes?.("chapter-cont", contLatex);
     latex += "\n\n" + contLatex;
-    tokens +=
-      (cont.usage?.input_tokens || 0) + (cont.usage?.output_tokens || 0);
+    tokens += cont.usage.inputTokens + cont.usage.outputTokens;
 
     const contWc = countWords(contLatex);
-    p.log.api(
-      model,
-      cont.usage?.input_tokens || 0,
-      cont.usage?.output_tokens || 0,
-    );
+    p.log.api(cont, { chapter: p.chapter.number });
     p.log.ok(`Continuation: +${contWc} words (${contTimer()})`);
     p.log.data("Total word count", `${wc + contWc}/${targetWords}`);
 
     responses.push({
       step: "continuation",
       content: contLatex,
-      inputTokens: cont.usage?.input_tokens || 0,
-      outputTokens: cont.usage?.output_tokens || 0,
+      inputTokens: cont.usage.inputTokens,
+      outputTokens: cont.usage.outputTokens,
       model,
       timestamp: ts(),
     });
@@ -1186,7 +1731,12 @@ RULES FOR CONTINUATION:
   latex = sanitizeGeneratedLatex(latex);
 
   // ── Summary ──
-  const summary = await chapterSummary(latex, p.language, p.log);
+  const summary = await chapterSummary(
+    latex,
+    p.language,
+    p.log,
+    p.chapter.number,
+  );
   p.log.step(`Summary: ${summary.substring(0, 100)}...`);
 
   return {
@@ -1195,6 +1745,190 @@ RULES FOR CONTINUATION:
     summary,
     prompts,
     responses,
+    promptRefs: [system.ref, user.ref],
+    sectionStats: null,
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Section mode — one call per \section{} for long chapters
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * First turn writes \chapter{} and a short opener; every section then gets
+ * its own turn with its own targetPages × wpp budget. All earlier turns
+ * stay in the conversation, so each section sees the opener and the
+ * sections before it.
+ */
+async function generateChapterBySections(
+  p: GenParams,
+  ctx: {
+    system: { text: string; ref: PromptRef };
+    lang: string;
+    sectionsOutline: string;
+    toc: string;
+    isLastChapter: boolean;
+    hasPreviousChapters: boolean;
+  },
+): Promise<ChapterLatexResult> {
+  const model = MODELS.writer;
+  const targetWords = p.chapter.targetPages * p.wpp;
+  const prompts: PromptLog[] = [];
+  const responses: ResponseLog[] = [];
+  const sectionStats: SectionStat[] = [];
+  const ts = () => new Date().toISOString();
+  const sections = p.chapter.sections;
+  let tokens = 0;
+
+  p.log.step(
+    `Section mode: ${sections.length} sections, ${targetWords}w (≥ ${SECTION_MODE_MIN_WORDS}w threshold)`,
+  );
+  prompts.push({
+    step: "main",
+    role: "system",
+    content: ctx.system.text,
+    timestamp: ts(),
+  });
+
+  const lastPrevious =
+    p.previousChaptersContent[p.previousChaptersContent.length - 1];
+  const later = (p.revision?.laterRegistries || [])
+    .map((r) => `  Ch.${r.chapterNumber} "${r.chapterTitle}": ${r.summary}`)
+    .join("\n");
+  const opener = p.promptSet.render(
+    promptKey("chapter.sections.opener", p.genre),
+    {
+      chapterNumber: p.chapter.number,
+      totalChapters: p.totalChapters,
+      chapterTitle: p.chapter.title,
+      chapterDescription: p.chapter.description,
+      sectionsOutline: ctx.sectionsOutline,
+      toc: ctx.toc,
+      targetWords,
+      sectionCount: sections.length,
+      openerWords: SECTION_MODE_OPENER_WORDS,
+      hasPreviousChapters: ctx.hasPreviousChapters,
+      previousChapterCount: p.previousChaptersContent.length,
+      lastChapterNumber: lastPrevious?.number ?? "",
+      isLastChapter: ctx.isLastChapter,
+      isRevision: !!p.revision,
+      revisionFeedback: p.revision?.feedback || "",
+      revisionDraft: p.revision?.previousLatex.substring(0, 40000) || "",
+      laterChapters: later,
+      lang: ctx.lang,
+    },
+  );
+
+  const messages: LlmMessage[] = [];
+  let sectionRef: PromptRef | null = null;
+
+  /** One turn of the conversation; returns the cleaned LaTeX */
+  const turn = async (
+    step: string,
+    task: "chapter-opener" | "chapter-section",
+    userPrompt: string,
+    maxTokens: number,
+  ) => {
+    prompts.push({ step, role: "user", content: userPrompt, timestamp: ts() });
+    messages.push({ role: "user", content: userPrompt });
+    p.log.claudeReq?.(step, userPrompt);
+
+    const res = await getLlm().complete({
+      task,
+      model,
+      maxTokens,
+      system: ctx.system.text,
+      messages,
+    });
+    let latex = cleanLatex(res.text);
+    latex = deAIfy(latex, p.language, p.voice.tone);
+    latex = sanitizeGeneratedLatex(latex);
+    messages.push({ role: "assistant", content: latex });
+    tokens += res.usage.inputTokens + res.usage.outputTokens;
+
+    p.log.claudeRes?.(step, latex);
+    p.log.api(res, { chapter: p.chapter.number });
+    responses.push({
+      step,
+      content: latex,
+      inputTokens: res.usage.inputTokens,
+      outputTokens: res.usage.outputTokens,
+      model,
+      timestamp: ts(),
+    });
+    return latex;
+  };
+
+  const parts = [await turn("opener", "chapter-opener", opener.text, 1000)];
+
+  for (let i = 0; i < sections.length; i++) {
+    const s = sections[i];
+    const sectionWords = Math.max(1, Math.round(s.targetPages * p.wpp));
+    const section = p.promptSet.render(promptKey("chapter.section", p.genre), {
+      chapterNumber: p.chapter.number,
+      sectionNumber: i + 1,
+      sectionCount: sections.length,
+      sectionTitle: s.title,
+      sectionDescription: s.description,
+      targetWords: sectionWords,
+      minWords: Math.round(sectionWords * 0.85),
+      maxWords: Math.round(sectionWords * 1.15),
+      isLastSection: i === sections.length - 1,
+      closesBook: ctx.isLastChapter && i === sections.length - 1,
+      workbook: p.workbook,
+      lang: ctx.lang,
+    });
+    sectionRef = section.ref;
+
+    // Same ~2.2 tokens/word margin as whole-chapter mode
+    const maxTok = Math.max(
+      2000,
+      Math.min(12000, Math.ceil(sectionWords * 2.2)),
+    );
+    const timer = p.log.timer();
+    const latex = await turn(
+      `section-${i + 1}`,
+      "chapter-section",
+      section.text,
+      maxTok,
+    );
+    parts.push(latex);
+
+    const words = countWords(latex);
+    const accuracy = Math.round((words / sectionWords) * 100);
+    sectionStats.push({
+      title: s.title,
+      targetWords: sectionWords,
+      words,
+      accuracy,
+    });
+    p.log.ok(
+      `  §${i + 1}/${sections.length} "${s.title}": ${words}/${sectionWords}w [${accuracy}%] (${timer()})`,
+    );
+    if (accuracy < 80) {
+      p.log.warn(`  ⚠️  Section SHORT: ${accuracy}% of target`);
+    }
+  }
+
+  const latex = sanitizeGeneratedLatex(parts.join("\n\n"));
+  const summary = await chapterSummary(
+    latex,
+    p.language,
+    p.log,
+    p.chapter.number,
+  );
+  p.log.step(`Summary: ${summary.substring(0, 100)}...`);
+
+  return {
+    latexContent: latex,
+    tokensUsed: tokens,
+    summary,
+    prompts,
+    responses,
+    promptRefs: sectionRef
+      ? [ctx.system.ref, opener.ref, sectionRef]
+      : [ctx.system.ref, opener.ref],
+    sectionStats,
   };
 }
 
@@ -1208,6 +1942,9 @@ const KNOWN_ENVS = [
   "keyinsight",
   "warningbox",
   "examplebox",
+  "exercise",
+  "worksheet",
+  "choices",
   "itemize",
   "enumerate",
   "quote",
@@ -1305,7 +2042,7 @@ function fixEnvironmentNesting(latex: string): string {
  * Fix unclosed/orphaned LaTeX environments and brace imbalance.
  * Applied immediately after receiving API response, before DB storage.
  */
-function sanitizeGeneratedLatex(latex: string): string {
+export function sanitizeGeneratedLatex(latex: string): string {
   let result = latex;
 
   // 1. Fix unclosed/unmatched environments
@@ -1382,9 +2119,20 @@ function sanitizeGeneratedLatex(latex: string): string {
 // Post-processing: remove AI-typical patterns
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-function deAIfy(latex: string, language: string): string {
-  const universal: [RegExp, string][] = [
+/**
+ * Formal and academic tones keep their connectives ("Furthermore",
+ * "Ponadto") — only the conversational voice bans them.
+ */
+export function deAIfy(
+  latex: string,
+  language: string,
+  tone: Tone = "conversational",
+): string {
+  const transitions: [RegExp, string][] = [
     [/^(Furthermore|Moreover|Additionally),?\s*/gm, ""],
+  ];
+
+  const universal: [RegExp, string][] = [
     [/^(In conclusion|To summarize|In summary),?\s*/gm, ""],
     [/It(?:'s| is) worth noting that\s*/gi, ""],
     [/It(?:'s| is) important to (?:understand|note|recognize) that\s*/gi, ""],
@@ -1404,22 +2152,26 @@ function deAIfy(latex: string, language: string): string {
     [/Warto zauwa[żz]y[ćc],?\s*[żz]e\s*/gi, ""],
     [/Nale[żz]y podkre[śs]li[ćc],?\s*[żz]e\s*/gi, ""],
     [/Jest to niezwykle istotne/gi, "To istotne"],
-    [/Co wi[ęe]cej,?\s*/g, ""],
-    [/Ponadto,?\s*/g, ""],
     [/Podsumowuj[aą]c,?\s*/g, ""],
     [/szeroki wybór/gi, "wybór"],
     [/najwy[żz]sz(a|ej) jako[śs]ci/gi, "wysok$1 jakości"],
     [/idealne rozwi[aą]zanie/gi, "dobre rozwiązanie"],
   ];
 
-  for (const [pattern, replacement] of universal) {
-    latex = latex.replace(pattern, replacement);
+  const polishTransitions: [RegExp, string][] = [
+    [/Co wi[ęe]cej,?\s*/g, ""],
+    [/Ponadto,?\s*/g, ""],
+  ];
+
+  const rules = [...universal];
+  if (language === "pl") rules.push(...polish);
+  if (tone === "conversational") {
+    rules.unshift(...transitions);
+    if (language === "pl") rules.push(...polishTransitions);
   }
 
-  if (language === "pl") {
-    for (const [pattern, replacement] of polish) {
-      latex = latex.replace(pattern, replacement);
-    }
+  for (const [pattern, replacement] of rules) {
+    latex = latex.replace(pattern, replacement);
   }
 
   latex = latex.replace(/^\s*\n\s*\n\s*\n/gm, "\n\n");
@@ -1428,7 +2180,7 @@ function deAIfy(latex: string, language: string): string {
 
 // ━━━ Helpers ━━━
 
-function cleanLatex(text: string): string {
+export function cleanLatex(text: string): string {
   text = text
     .replace(/^```(?:latex|tex)?\s*\n?/gm, "")
     .replace(/\n?```\s*$/gm, "");
@@ -1439,7 +2191,7 @@ function cleanLatex(text: string): string {
 }
 
 /** Count words in LaTeX content (stripping commands) */
-function countWords(latex: string): number {
+export function countWords(latex: string): number {
   return latex
     .replace(/\\[a-zA-Z]+(\{[^}]*\})?/g, "")
     .split(/\s+/)
@@ -1450,6 +2202,7 @@ async function chapterSummary(
   content: string,
   lang: string,
   log?: any,
+  chapterNumber?: number,
 ): Promise<string> {
   try {
     const plain = content
@@ -1458,29 +2211,21 @@ async function chapterSummary(
       .slice(0, 3000);
     const prompt = `2-sentence summary in ${getLangName(lang)}:\n\n${plain}`;
     log?.claudeReq?.("summary", prompt);
-    const r = await anthropic.messages.create({
-      model: "claude-haiku-4-5",
-      max_tokens: 200,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
+    const r = await getLlm().complete({
+      task: "chapter-summary",
+      model: MODELS.utility,
+      maxTokens: 200,
+      messages: [{ role: "user", content: prompt }],
     });
-    for (const b of r.content) {
-      if (b.type === "text") {
-        log?.claudeRes?.("summary", b.text);
-        return b.text;
-      }
-    }
-    return "Done.";
+    log?.claudeRes?.("summary", r.text);
+    log?.api?.(r, { chapter: chapterNumber });
+    return r.text || "Done.";
   } catch {
     return "Done.";
   }
 }
 
-function getLangName(c: string): string {
+export function getLangName(c: string): string {
   return (
     (
       {
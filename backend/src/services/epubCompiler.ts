@@ -4,6 +4,24 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 import { prisma } from "../lib/prisma";
+import { glossaryForCompile, glossaryTitle } from "./glossaryService";
+import { isFiction } from "./narrativeMode";
+import { MATTER, isBookMatter, splitBookMatter } from "./bookMatter";
+import { appendixLabel, appendixLetter } from "./appendices";
+import {
+  collectAnswerKey,
+  replaceCommandArg,
+  workbookLabels,
+  type AnswerKeyChapter,
+  type ExerciseKind,
+} from "./workbook";
+import {
+  bibliographyForCompile,
+  citeLabel,
+  formatReference,
+  referencesTitle,
+  type BookBibliography,
+} from "./bibliography";
 import * as fs from "fs";
 import * as path from "path";
 import archiver from "archiver";
@@ -11,6 +29,15 @@ import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 
 const BUILD_DIR = path.join(process.cwd(), "tmp", "builds");
 
+/** One XHTML file of the spine, in reading order */
+interface BookFile {
+  filename: string;
+  title: string;
+  id: string;
+  /** Everything but the chapters — unnumbered in the TOC, a landmark */
+  epubType?: string;
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Main entry
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -58,24 +85,159 @@ export async function compileEpub(projectId: string): Promise<{
 
   try {
     // ── 1. Convert chapters to XHTML ──
-    const chapterFiles: { filename: string; title: string; id: string }[] = [];
+    const chapterFiles: BookFile[] = [];
+    const oebpsDir = path.join(epubDir, "OEBPS");
+    fs.mkdirSync(oebpsDir, { recursive: true });
+    const bibliography = bibliographyForCompile(project, readyChapters);
+    const citations = new Map(
+      bibliography.entries.map((e, i) => [
+        e.key,
+        citeLabel(e, bibliography.style, i + 1, bookLang),
+      ]),
+    );
 
-    for (const ch of readyChapters) {
-      const xhtml = latexToXhtml(ch.latexContent!, ch.title, bookLang);
+    // Front/back matter: a section of its epub:type, outside the numbering
+    const matter = splitBookMatter(readyChapters);
+    const addMatter = (m: (typeof readyChapters)[number]) => {
+      if (!isBookMatter(m.kind)) return;
+      const { epubType } = MATTER[m.kind];
+      const filename = `${m.kind}.xhtml`;
+      fs.writeFileSync(
+        path.join(oebpsDir, filename),
+        latexToXhtml(
+          m.latexContent!,
+          m.title,
+          bookLang,
+          citations,
+          false,
+          0,
+          epubType,
+        ),
+        "utf-8",
+      );
+      chapterFiles.push({ filename, title: m.title, id: m.kind, epubType });
+      console.log(`  📄 ${filename}: ${m.title}`);
+    };
+    matter.front.forEach(addMatter);
+
+    const fiction = isFiction(project.genre);
+    let position = 0;
+    for (const ch of matter.chapters) {
+      const xhtml = latexToXhtml(
+        ch.latexContent!,
+        ch.title,
+        bookLang,
+        citations,
+        fiction,
+        ++position,
+      );
       const filename = `chapter-${ch.chapterNumber}.xhtml`;
       const chId = `ch${ch.chapterNumber}`;
-
-      const chapterDir = path.join(epubDir, "OEBPS");
-      if (!fs.existsSync(chapterDir))
-        fs.mkdirSync(chapterDir, { recursive: true });
-      fs.writeFileSync(path.join(chapterDir, filename), xhtml, "utf-8");
+      fs.writeFileSync(path.join(oebpsDir, filename), xhtml, "utf-8");
 
       chapterFiles.push({ filename, title: ch.title, id: chId });
       console.log(`  📄 ${filename}: ${ch.title}`);
     }
 
+    // ── 1b. Back matter — the conclusion leads, About the Author closes ──
+    const aboutAuthor = matter.back.filter((m) => m.kind === "about-author");
+    matter.back.filter((m) => m.kind !== "about-author").forEach(addMatter);
+
+    // ── 1c. Appendices — lettered in their titles, outside the numbering ──
+    for (const app of matter.appendices) {
+      const letter = appendixLetter(app.chapterNumber);
+      const label = `${appendixLabel(bookLang)} ${letter}`;
+      const title = `${label}: ${app.title}`;
+      const filename = `appendix-${letter.toLowerCase()}.xhtml`;
+      fs.writeFileSync(
+        path.join(oebpsDir, filename),
+        latexToXhtml(
+          app.latexContent!.replace(/\\chapter\{/, `\\chapter{${label}: `),
+          title,
+          bookLang,
+          citations,
+          false,
+          0,
+          "appendix",
+        ),
+        "utf-8",
+      );
+      chapterFiles.push({
+        filename,
+        title,
+        id: `appendix-${letter.toLowerCase()}`,
+        epubType: "appendix",
+      });
+      console.log(`  📄 ${filename}: ${title}`);
+    }
+
+    // ── 1d. Answer Key (back matter) ──
+    const answerKey = collectAnswerKey(matter.chapters);
+    if (answerKey.length > 0) {
+      const title = workbookLabels(bookLang).answerKey;
+      fs.writeFileSync(
+        path.join(epubDir, "OEBPS", "answer-key.xhtml"),
+        latexToXhtml(
+          answerKeyLatex(answerKey, bookLang),
+          title,
+          bookLang,
+          citations,
+        ),
+        "utf-8",
+      );
+      chapterFiles.push({
+        filename: "answer-key.xhtml",
+        title,
+        id: "answer-key",
+        epubType: "appendix",
+      });
+      console.log(`  📄 answer-key.xhtml: ${answerKey.length} chapters`);
+    }
+
+    // ── 1e. Glossary (back matter) ──
+    const glossary = await glossaryForCompile(
+      projectId,
+      project.glossaryEnabled,
+      bookLang,
+    );
+    if (glossary.length > 0) {
+      const title = glossaryTitle(bookLang);
+      fs.writeFileSync(
+        path.join(epubDir, "OEBPS", "glossary.xhtml"),
+        generateGlossaryPage(glossary, title, bookLang),
+        "utf-8",
+      );
+      chapterFiles.push({
+        filename: "glossary.xhtml",
+        title,
+        id: "glossary",
+        epubType: "glossary",
+      });
+      console.log(`  📄 glossary.xhtml: ${glossary.length} terms`);
+    }
+
+    // ── 1f. References (back matter) ──
+    if (bibliography.entries.length > 0) {
+      const title = referencesTitle(bookLang);
+      fs.writeFileSync(
+        path.join(epubDir, "OEBPS", "references.xhtml"),
+        generateReferencesPage(bibliography, title, bookLang),
+        "utf-8",
+      );
+      chapterFiles.push({
+        filename: "references.xhtml",
+        title,
+        id: "references",
+        epubType: "bibliography",
+      });
+      console.log(
+        `  📄 references.xhtml: ${bibliography.entries.length} sources`,
+      );
+    }
+    aboutAuthor.forEach(addMatter);
+
     // ── 2. Generate CSS ──
-    const css = generateEpubCss(project.stylePreset, customColors);
+    const css = generateEpubCss(project.stylePreset, customColors, fiction);
     fs.mkdirSync(path.join(epubDir, "OEBPS", "css"), { recursive: true });
     fs.writeFileSync(
       path.join(epubDir, "OEBPS", "css", "style.css"),
@@ -167,10 +329,20 @@ export async function compileEpub(projectId: string): Promise<{
 // LaTeX → XHTML converter
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/**
+ * citations: \cite key → in-text label; unknown keys are dropped.
+ * position: the chapter's place in the book, for exercise numbers.
+ * epubType: front/back matter and appendices — the body becomes a section
+ * of that type.
+ */
 function latexToXhtml(
   latex: string,
   chapterTitle: string,
   lang: string,
+  citations: Map<string, string> = new Map(),
+  fiction = false,
+  position = 0,
+  epubType?: string,
 ): string {
   let html = latex;
 
@@ -184,6 +356,41 @@ function latexToXhtml(
   html = html.replace(/\\maketitle/g, "");
   html = html.replace(/\\thispagestyle\{[^}]*\}/g, "");
 
+  // ── Fiction: scene labels are never shown — the first scene follows the
+  // chapter title, the others get a break ──
+  if (fiction) {
+    html = html.replace(/\\section\*?\{[^}]*\}\s*/, "");
+    html = html.replace(
+      /\\section\*?\{[^}]*\}/g,
+      '\n\n<hr class="scene-break"/>\n\n',
+    );
+  }
+
+  // ── Workbook exercises — numbered like the PDF; answers are left for
+  // the Answer Key page ──
+  html = replaceCommandArg(html, "answer", () => "");
+  html = replaceCommandArg(
+    html,
+    "blank",
+    () => '<span class="blank">&#160;</span>',
+  );
+  html = html.replace(/\\writelines\{(\d+)\}/g, (_m, n: string) => {
+    const count = Math.min(parseInt(n, 10), 12);
+    const lines = '<hr class="writeline"/>'.repeat(count);
+    return `\n\n<div class="writelines">${lines}</div>\n\n`;
+  });
+  const labels = workbookLabels(lang);
+  let exercises = 0;
+  html = html.replace(
+    /\\begin\{(exercise|worksheet)\}\{([^}]*)\}/g,
+    (_m, kind: ExerciseKind, title: string) =>
+      `<aside class="box box-${kind}"><p class="box-title">${labels[kind]} ${position}.${++exercises}: ${title}</p><div class="box-content">`,
+  );
+  html = html.replace(/\\end\{(exercise|worksheet)\}/g, "</div></aside>");
+  html = html.replace(/\\begin\{choices\}/g, '<ol class="choices">');
+  html = html.replace(/\\end\{choices\}/g, "</ol>");
+  html = html.replace(/\\(?:correctchoice|choice)\b\s*/g, "<li>");
+
   // ── Headings ──
   html = html.replace(
     /\\chapter\{([^}]*)\}/g,
@@ -316,7 +523,20 @@ function latexToXhtml(
   // ── Strip remaining LaTeX commands ──
   html = html.replace(/\\label\{[^}]*\}/g, "");
   html = html.replace(/\\ref\{[^}]*\}/g, "[ref]");
-  html = html.replace(/\\cite\{[^}]*\}/g, "[cite]");
+  html = html.replace(
+    /(?:&nbsp;|\s)*\\cite(?:\[[^\]]*\])?\{([^}]*)\}/g,
+    (_m, keys: string) => {
+      const links = keys
+        .split(",")
+        .map((k) => k.trim())
+        .filter((k) => citations.has(k))
+        .map((k) => {
+          const label = escapeXml(citations.get(k)!);
+          return `<a class="cite" href="references.xhtml#ref-${k}">${label}</a>`;
+        });
+      return links.length > 0 ? "&nbsp;" + links.join(" ") : "";
+    },
+  );
   html = html.replace(/\\vspace\{[^}]*\}/g, "");
   html = html.replace(/\\hspace\{[^}]*\}/g, "");
   html = html.replace(/\\noindent\s*/g, "");
@@ -354,6 +574,11 @@ function latexToXhtml(
       "</ol></section>";
   }
 
+  // Front/back matter is one section of its epub:type
+  const body = epubType
+    ? `<section epub:type="${epubType}" class="${epubType}">\n${html}\n${footnotesHtml}\n</section>`
+    : `${html}\n${footnotesHtml}`;
+
   // ── Final XHTML document ──
   return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE html>
@@ -364,8 +589,7 @@ function latexToXhtml(
   <link rel="stylesheet" type="text/css" href="css/style.css"/>
 </head>
 <body>
-${html}
-${footnotesHtml}
+${body}
 </body>
 </html>`;
 }
@@ -545,6 +769,7 @@ function wrapParagraphs(html: string): string {
 function generateEpubCss(
   stylePreset: string,
   customColors: string[] | null,
+  fiction = false,
 ): string {
   const colors = getColorVars(stylePreset, customColors);
 
@@ -700,6 +925,40 @@ aside.box-example {
 }
 aside.box-example .box-title { color: ${colors.exFrame}; }
 
+/* ── Workbook exercises ── */
+aside.box-exercise {
+  border: 1px solid ${colors.accent};
+  border-left: 4px solid ${colors.accent};
+}
+aside.box-exercise .box-title { color: ${colors.accent}; }
+
+aside.box-worksheet {
+  border: 2px solid ${colors.accent};
+  border-radius: 0;
+}
+aside.box-worksheet .box-title {
+  color: ${colors.accent};
+  border-bottom: 1px solid ${colors.rule};
+  padding-bottom: 0.3em;
+}
+
+ol.choices {
+  list-style-type: lower-alpha;
+  margin: 0.4em 0;
+}
+
+span.blank {
+  display: inline-block;
+  min-width: 6em;
+  border-bottom: 1px solid #1A1A1A;
+}
+
+div.writelines hr.writeline {
+  border: none;
+  border-bottom: 1px solid ${colors.rule};
+  margin: 1.4em 0 0 0;
+}
+
 /* ── Tables ── */
 table.data-table {
   width: 100%;
@@ -802,6 +1061,13 @@ ol.footnote-list li {
   margin-top: 3em;
 }
 
+/* ── Front & back matter ── */
+section.dedication {
+  text-align: center;
+  font-style: italic;
+  margin-top: 30%;
+}
+
 /* ── Navigation ── */
 nav#toc ol {
   list-style: none;
@@ -817,6 +1083,70 @@ nav#toc ol li a {
   text-decoration: none;
   font-size: 1.1em;
 }
+
+/* ── Citations & references ── */
+a.cite {
+  color: ${colors.section};
+  text-decoration: none;
+}
+
+ol.references li,
+ul.references li {
+  margin-bottom: 0.6em;
+  word-wrap: break-word;
+}
+
+ul.references {
+  list-style: none;
+  padding-left: 0;
+}
+
+/* ── Glossary ── */
+dl.glossary dt {
+  font-weight: bold;
+  color: ${colors.section};
+  margin-top: 0.8em;
+}
+
+dl.glossary dd {
+  margin: 0.2em 0 0 1.5em;
+}
+${fiction ? fictionCss(colors.accent) : ""}`;
+}
+
+/** Fiction: indented paragraphs, scene breaks, a drop cap per chapter */
+function fictionCss(accent: string): string {
+  return `
+/* ── Fiction ── */
+p {
+  margin: 0;
+  text-indent: 1.2em;
+}
+
+h1.chapter-title + p,
+hr.scene-break + p {
+  text-indent: 0;
+}
+
+h1.chapter-title + p::first-letter {
+  float: left;
+  font-size: 3.2em;
+  line-height: 0.9;
+  margin: 0.05em 0.08em 0 0;
+  color: ${accent};
+}
+
+hr.scene-break {
+  border: none;
+  margin: 1.2em 0;
+  text-align: center;
+}
+
+hr.scene-break::after {
+  content: "*  *  *";
+  color: ${accent};
+  letter-spacing: 0.3em;
+}
 `;
 }
 
@@ -991,39 +1321,148 @@ function generateTitlePage(
 </html>`;
 }
 
+/** Answer Key as a chapter body, converted like the chapters themselves */
+function answerKeyLatex(key: AnswerKeyChapter[], lang: string): string {
+  const labels = workbookLabels(lang);
+  const parts = [`\\chapter{${escapeXml(labels.answerKey)}}`];
+  for (const ch of key) {
+    parts.push(
+      `\\section{${escapeXml(`${labels.chapter} ${ch.position}: ${ch.title}`)}}`,
+    );
+    for (const e of ch.entries) {
+      const name = `${labels[e.kind]} ${e.number}${e.title ? `: ${e.title}` : ""}`;
+      parts.push(`\\textbf{${name}} --- ${e.answers.join("; ")}`);
+    }
+  }
+  return parts.join("\n\n");
+}
+
+function generateGlossaryPage(
+  terms: { term: string; definition: string }[],
+  title: string,
+  lang: string,
+): string {
+  const entries = terms
+    .map(
+      (t) =>
+        `    <dt>${escapeXml(t.term)}</dt>\n    <dd>${escapeXml(t.definition)}</dd>`,
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="css/style.css"/>
+</head>
+<body>
+  <section epub:type="glossary">
+  <h1 class="chapter-title">${escapeXml(title)}</h1>
+  <dl class="glossary">
+${entries}
+  </dl>
+  </section>
+</body>
+</html>`;
+}
+
+function generateReferencesPage(
+  bibliography: BookBibliography,
+  title: string,
+  lang: string,
+): string {
+  const { style, entries } = bibliography;
+  const items = entries
+    .map((e) => {
+      const text = formatReference(e, style, lang)
+        .map((s) => {
+          const text = escapeXml(s.text);
+          if (s.url) return `<a href="${text}">${text}</a>`;
+          return s.italic ? `<em>${text}</em>` : text;
+        })
+        .join("");
+      return `    <li id="ref-${e.key}">${text}</li>`;
+    })
+    .join("\n");
+  // IEEE references are numbered like their [n] citations
+  const list = style === "ieee" ? "ol" : "ul";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="css/style.css"/>
+</head>
+<body>
+  <section epub:type="bibliography">
+  <h1 class="chapter-title">${escapeXml(title)}</h1>
+  <${list} class="references">
+${items}
+  </${list}>
+  </section>
+</body>
+</html>`;
+}
+
 function generateNavDocument(
-  chapters: { filename: string; title: string; id: string }[],
+  chapters: BookFile[],
   bookTitle: string,
   lang: string,
 ): string {
+  // Only the chapters are numbered
+  let number = 0;
   const items = chapters
     .map(
-      (ch, i) =>
-        `      <li><a href="${ch.filename}">${i + 1}. ${escapeXml(ch.title)}</a></li>`,
+      (ch) =>
+        `      <li><a href="${ch.filename}">${ch.epubType ? "" : `${++number}. `}${escapeXml(ch.title)}</a></li>`,
     )
     .join("\n");
+  const tocTitle = lang === "pl" ? "Spis treści" : "Table of Contents";
+
+  // Reading systems jump to these: the TOC, where the text starts, and
+  // every front/back matter page
+  const firstChapter = chapters.find((ch) => !ch.epubType);
+  const landmarks = [
+    `      <li><a epub:type="toc" href="nav.xhtml#toc">${tocTitle}</a></li>`,
+    ...chapters
+      .filter((ch) => ch.epubType || ch === firstChapter)
+      .map(
+        (ch) =>
+          `      <li><a epub:type="${ch.epubType || "bodymatter"}" href="${ch.filename}">${escapeXml(ch.title)}</a></li>`,
+      ),
+  ].join("\n");
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE html>
 <html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
 <head>
   <meta charset="UTF-8"/>
-  <title>${lang === "pl" ? "Spis treści" : "Table of Contents"}</title>
+  <title>${tocTitle}</title>
   <link rel="stylesheet" type="text/css" href="css/style.css"/>
 </head>
 <body>
   <nav epub:type="toc" id="toc">
-    <h1>${lang === "pl" ? "Spis treści" : "Table of Contents"}</h1>
+    <h1>${tocTitle}</h1>
     <ol>
 ${items}
     </ol>
   </nav>
+  <nav epub:type="landmarks" id="landmarks" hidden="hidden">
+    <h2>Landmarks</h2>
+    <ol>
+${landmarks}
+    </ol>
+  </nav>
 </body>
 </html>`;
 }
 
 function generateNcx(
-  chapters: { filename: string; title: string; id: string }[],
+  chapters: BookFile[],
   bookTitle: string,
   uid: string,
 ): string {
@@ -1052,7 +1491,7 @@ function generateNcx(
 }
 
 function generateOpf(
-  chapters: { filename: string; title: string; id: string }[],
+  chapters: BookFile[],
   bookTitle: string,
   lang: string,
   uid: string,
@@ -0,0 +1,394 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Fact Check
+// The numbers a chapter cites (its registry's usedStats) are checked
+// against the full text of its research, chapter and global sources alike.
+// Each is classified supported, unsupported or contradicted; the paragraph
+// carrying an unbacked number is softened, corrected or dropped. The report
+// is stored in Chapter.factCheck for the editor and the admin view.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { getLlm, MODELS } from "../lib/llm";
+import { checkSpend } from "../lib/spendCap";
+import type { PromptSet } from "../lib/prompts";
+import type {
+  ResearchResult,
+  ChapterResearchResult,
+} from "./researchService";
+import {
+  cleanLatex,
+  sanitizeGeneratedLatex,
+  getLangName,
+} from "./contentGenerator";
+
+const VERIFY_MODEL = MODELS.utility;
+const REVISE_MODEL = MODELS.writer;
+
+/** Numbers checked per chapter — the registry keeps about ten */
+const MAX_CLAIMS = 12;
+/** Paragraph rewrites per chapter */
+const MAX_REVISIONS = 6;
+const EXCERPT_CHARS = 600;
+const EXCERPTS_PER_CLAIM = 3;
+
+export type FactVerdict = "supported" | "unsupported" | "contradicted";
+
+/** What happened to the paragraph carrying the claim */
+export type FactAction =
+  | "kept"
+  | "softened"
+  | "corrected"
+  | "removed"
+  | "not-located";
+
+export interface FactClaim {
+  stat: string;
+  verdict: FactVerdict;
+  /** URL of the excerpt that decided the verdict */
+  source: string | null;
+  note: string;
+  action: FactAction;
+}
+
+/** Stored as JSON in Chapter.factCheck */
+export interface FactCheckReport {
+  checkedAt: string;
+  claims: FactClaim[];
+  /** Why nothing was checked */
+  skipped?: "no-stats" | "no-research" | "spend-cap" | "check-failed";
+}
+
+export interface FactCheckResult {
+  latex: string;
+  report: FactCheckReport;
+  tokensUsed: number;
+}
+
+interface FactCheckParams {
+  projectId: string;
+  chapterNumber: number;
+  chapterTitle: string;
+  latex: string;
+  /** ChapterRegistry.usedStats of the finished chapter */
+  stats: string[];
+  research: (ResearchResult | ChapterResearchResult | null)[];
+  language: string;
+  promptSet: PromptSet;
+  log: any;
+}
+
+interface Excerpt {
+  url: string;
+  text: string;
+}
+
+interface Verdict {
+  verdict: FactVerdict;
+  source: string | null;
+  note: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Main entry — call once the chapter's registry is extracted
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function checkChapterFacts(
+  p: FactCheckParams,
+): Promise<FactCheckResult> {
+  const stats = [...new Set(p.stats.map((s) => s.trim()).filter(Boolean))]
+    .slice(0, MAX_CLAIMS);
+  const sources = p.research
+    .flatMap((r) => r?.selectedSources || [])
+    .filter((s) => s.text);
+  const unchanged = (
+    skipped: FactCheckReport["skipped"],
+    tokensUsed = 0,
+  ): FactCheckResult => ({
+    latex: p.latex,
+    report: { checkedAt: new Date().toISOString(), claims: [], skipped },
+    tokensUsed,
+  });
+
+  if (stats.length === 0) return unchanged("no-stats");
+  if (sources.length === 0) return unchanged("no-research");
+
+  const spend = await checkSpend(
+    p.projectId,
+    `fact-check ch${p.chapterNumber}`,
+    p.log,
+    { canHalt: false },
+  );
+  if (spend.has("skip-revisions")) {
+    p.log.warn(`  Fact check skipped — near spend cap`);
+    return unchanged("spend-cap");
+  }
+
+  p.log.step(
+    `  🔎 Fact check: ${stats.length} number(s) against ${sources.length} source(s)`,
+  );
+  const evidence = stats.map((stat) => findEvidence(stat, sources));
+  const verified = await verifyClaims(p, stats, evidence);
+  if (!verified.verdicts) return unchanged("check-failed", verified.tokens);
+  let tokensUsed = verified.tokens;
+
+  let latex = p.latex;
+  let revisions = 0;
+  const claims: FactClaim[] = stats.map((stat, i) => ({
+    stat,
+    ...verified.verdicts![i],
+    action: "kept",
+  }));
+
+  for (let i = 0; i < claims.length; i++) {
+    const claim = claims[i];
+    if (claim.verdict === "supported" || revisions >= MAX_REVISIONS) continue;
+    const paragraph = locateClaim(latex, claim.stat);
+    if (!paragraph) {
+      claim.action = "not-located";
+      continue;
+    }
+
+    revisions++;
+    const out = await reviseParagraph(p, claim, evidence[i], paragraph);
+    tokensUsed += out.tokens;
+    if (out.latex === null) {
+      p.log.warn(`  "${claim.stat}": revision rejected — kept`);
+      continue;
+    }
+    latex = latex.replace(paragraph, () => out.latex!);
+    claim.action =
+      out.latex === ""
+        ? "removed"
+        : claim.verdict === "contradicted"
+          ? "corrected"
+          : "softened";
+    p.log.ok(`  "${claim.stat}": ${claim.verdict} → ${claim.action}`);
+  }
+
+  if (latex !== p.latex) {
+    latex = sanitizeGeneratedLatex(latex.replace(/\n{3,}/g, "\n\n"));
+  }
+
+  const count = (v: FactVerdict) =>
+    claims.filter((c) => c.verdict === v).length;
+  p.log.ok(
+    `Fact check: ${count("supported")} supported, ${count("unsupported")} unsupported, ${count("contradicted")} contradicted — ${revisions} paragraph(s) revised`,
+  );
+  return {
+    latex,
+    report: { checkedAt: new Date().toISOString(), claims },
+    tokensUsed,
+  };
+}
+
+/**
+ * The stats a chapter still cites after the check — softened, corrected
+ * and removed ones are dropped from its registry.
+ */
+export function remainingStats(
+  stats: string[],
+  report: FactCheckReport,
+): string[] {
+  const changed = new Set(
+    report.claims
+      .filter((c) => c.action !== "kept" && c.action !== "not-located")
+      .map((c) => c.stat),
+  );
+  return stats.filter((s) => !changed.has(s.trim()));
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Evidence — source excerpts that share the claim's numbers and words
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** "3.5" also matches "3,5", never as part of "13.5" or "3.55" */
+function numberPattern(n: string): RegExp {
+  const body = n.replace(/[.,]/g, "[.,]");
+  return new RegExp(`(?<![\\d.,])${body}(?![\\d]|[.,]\\d)`);
+}
+
+function claimNumbers(stat: string): { re: RegExp; year: boolean }[] {
+  const numbers = [...new Set(stat.match(/\d+(?:[.,]\d+)?/g) || [])];
+  return numbers.map((n) => ({
+    re: numberPattern(n),
+    year: /^(19|20)\d\d$/.test(n),
+  }));
+}
+
+/**
+ * Best excerpts for a claim: windows of the source texts scored by shared
+ * numbers (years count less) and shared longer words.
+ */
+function findEvidence(
+  stat: string,
+  sources: { url: string; text: string }[],
+): Excerpt[] {
+  const numbers = claimNumbers(stat);
+  const words = [...new Set(stat.toLowerCase().match(/\p{L}{5,}/gu) || [])];
+
+  const scored: (Excerpt & { score: number; start: number })[] = [];
+  for (const source of sources) {
+    const text = source.text;
+    for (let start = 0; start < text.length; start += EXCERPT_CHARS / 2) {
+      const window = text.substring(start, start + EXCERPT_CHARS);
+      const lower = window.toLowerCase();
+      let score = 0;
+      for (const n of numbers) if (n.re.test(window)) score += n.year ? 1 : 3;
+      for (const w of words) if (lower.includes(w)) score += 1;
+      if (score >= 2) {
+        scored.push({ url: source.url, text: window, score, start });
+      }
+    }
+  }
+
+  // Best first; overlapping windows of the same source only once
+  const picked: typeof scored = [];
+  for (const e of scored.sort((a, b) => b.score - a.score)) {
+    const overlaps = picked.some(
+      (q) => q.url === e.url && Math.abs(q.start - e.start) < EXCERPT_CHARS,
+    );
+    if (!overlaps) picked.push(e);
+    if (picked.length === EXCERPTS_PER_CLAIM) break;
+  }
+  return picked.map((e) => ({
+    url: e.url,
+    text: e.text.replace(/\s+/g, " ").trim(),
+  }));
+}
+
+function formatEvidence(excerpts: Excerpt[]): string {
+  return excerpts.map((e) => `[${e.url}] …${e.text}…`).join("\n");
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Verify — one call for all claims that have any evidence
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function verifyClaims(
+  p: FactCheckParams,
+  stats: string[],
+  evidence: Excerpt[][],
+): Promise<{ verdicts: Verdict[] | null; tokens: number }> {
+  // No excerpt shares anything with the claim — unsupported without asking
+  const verdicts: Verdict[] = stats.map(() => ({
+    verdict: "unsupported",
+    source: null,
+    note: "No source mentions this number",
+  }));
+  const asked = stats
+    .map((stat, i) => ({ id: i + 1, stat, excerpts: evidence[i] }))
+    .filter((c) => c.excerpts.length > 0);
+  if (asked.length === 0) return { verdicts, tokens: 0 };
+
+  const { text: prompt } = p.promptSet.render("factcheck.verify", {
+    chapterNumber: p.chapterNumber,
+    chapterTitle: p.chapterTitle,
+    claims: asked
+      .map(
+        (c) =>
+          `═══ CLAIM ${c.id}: ${c.stat}\nEXCERPTS:\n${formatEvidence(c.excerpts)}`,
+      )
+      .join("\n\n"),
+  });
+
+  p.log.claudeReq?.("fact-check", prompt);
+  const res = await getLlm().complete({
+    task: "fact-check",
+    model: VERIFY_MODEL,
+    maxTokens: 200 + asked.length * 120,
+    temperature: 0.1,
+    messages: [{ role: "user", content: prompt }],
+  });
+  p.log.api(res, { chapter: p.chapterNumber });
+  const tokens = res.usage.inputTokens + res.usage.outputTokens;
+
+  try {
+    const jsonMatch = res.text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) throw new Error("No JSON in fact-check response");
+    const parsed = JSON.parse(jsonMatch[0]);
+    for (const c of parsed.claims || []) {
+      const i = parseInt(c.id) - 1;
+      if (!asked.some((a) => a.id === i + 1)) continue;
+      const verdict: FactVerdict = ["supported", "contradicted"].includes(
+        c.verdict,
+      )
+        ? c.verdict
+        : "unsupported";
+      verdicts[i] = {
+        verdict,
+        source: typeof c.source === "string" && c.source ? c.source : null,
+        note: typeof c.note === "string" ? c.note : "",
+      };
+    }
+    return { verdicts, tokens };
+  } catch (err: any) {
+    p.log.warn(`Fact-check JSON parse failed: ${err.message}`);
+    return { verdicts: null, tokens };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Revise — rewrite the paragraph that carries an unbacked number
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * The first body paragraph containing every number of the claim — headings
+ * and table rows are never rewritten.
+ */
+function locateClaim(latex: string, stat: string): string | null {
+  const numbers = claimNumbers(stat);
+  const significant = numbers.filter((n) => !n.year);
+  const required = significant.length > 0 ? significant : numbers;
+  if (required.length === 0) return null;
+
+  return (
+    latex
+      .split(/\n[ \t]*\n/)
+      .find(
+        (para) =>
+          !/^\s*\\(chapter|section|subsection)\*?\{/.test(para) &&
+          !/(?<!\\)&/.test(para) &&
+          required.every((n) => n.re.test(para)),
+      ) || null
+  );
+}
+
+const envCount = (s: string) =>
+  (s.match(/\\(begin|end)\{/g) || []).length;
+
+async function reviseParagraph(
+  p: FactCheckParams,
+  claim: FactClaim,
+  excerpts: Excerpt[],
+  paragraph: string,
+): Promise<{ latex: string | null; tokens: number }> {
+  const { text: prompt } = p.promptSet.render("factcheck.revise", {
+    claim: claim.stat,
+    contradicted: claim.verdict === "contradicted",
+    note: claim.note,
+    evidence: formatEvidence(excerpts) || "(none)",
+    paragraph: paragraph.trim(),
+    lang: getLangName(p.language),
+  });
+
+  p.log.claudeReq?.("fact-revise", prompt);
+  const res = await getLlm().complete({
+    task: "fact-revise",
+    model: REVISE_MODEL,
+    maxTokens: Math.max(600, Math.ceil(paragraph.length / 2)),
+    messages: [{ role: "user", content: prompt }],
+  });
+  p.log.api(res, { chapter: p.chapterNumber });
+  const tokens = res.usage.inputTokens + res.usage.outputTokens;
+
+  const out = cleanLatex(res.text);
+  p.log.claudeRes?.("fact-revise", out);
+  // A paragraph that opens or closes an environment is never dropped whole
+  if (out === "[REMOVE]") {
+    return { latex: envCount(paragraph) === 0 ? "" : null, tokens };
+  }
+  const sane =
+    out.length > 0 &&
+    out.length < paragraph.length * 1.5 + 200 &&
+    envCount(out) === envCount(paragraph);
+  return { latex: sane ? out : null, tokens };
+}
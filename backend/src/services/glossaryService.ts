@@ -0,0 +1,289 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Book-wide Terminology
+// The keyTerms of every chapter registry are collected into GlossaryTerm
+// rows. The user can edit them; the writer gets them as mandatory terms, a
+// consistency check flags chapters that spell or translate a term
+// differently, and the compilers can render them as a Glossary chapter.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { prisma } from "../lib/prisma";
+import type { ChapterRegistry } from "./contentGenerator";
+
+/** Max terms listed in the writer prompt */
+const PROMPT_TERM_LIMIT = 40;
+
+export interface GlossaryEntry {
+  id?: string;
+  term: string;
+  definition: string;
+  /** Alternative spellings or translations the book must not use */
+  variants: string[];
+  source: "registry" | "user";
+  chapterNumber: number | null;
+}
+
+/** A chapter that writes a registered term some other way */
+export interface TermIssue {
+  chapterNumber: number;
+  term: string;
+  found: string;
+  count: number;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Registry → glossary
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Split a registry key term ("przedmiot badań = what you study") into
+ * the term and its definition.
+ */
+export function parseKeyTerm(raw: string): {
+  term: string;
+  definition: string;
+} {
+  const m =
+    raw.match(/^(.+?)\s+(?:=|—|–|-)\s+(.+)$/) ||
+    raw.match(/^([^:]+):\s+(.+)$/);
+  if (!m) return { term: raw.trim(), definition: "" };
+  return { term: m[1].trim(), definition: m[2].trim() };
+}
+
+/**
+ * Add the key terms of a chapter registry to the book's glossary.
+ * Terms already registered — by an earlier chapter or by the user — are
+ * left untouched.
+ */
+export async function syncGlossaryFromRegistry(
+  projectId: string,
+  registry: ChapterRegistry,
+): Promise<number> {
+  const existing = await prisma.glossaryTerm.findMany({
+    where: { projectId },
+    select: { term: true },
+  });
+  const known = new Set(existing.map((t) => t.term.toLowerCase()));
+
+  const data = registry.keyTerms
+    .map(parseKeyTerm)
+    .filter((t) => t.term.length > 1 && t.term.length <= 80)
+    .filter((t) => {
+      const key = t.term.toLowerCase();
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    })
+    .map((t) => ({
+      projectId,
+      term: t.term,
+      definition: t.definition,
+      source: "registry",
+      chapterNumber: registry.chapterNumber,
+    }));
+  if (data.length === 0) return 0;
+
+  const res = await prisma.glossaryTerm.createMany({
+    data,
+    skipDuplicates: true,
+  });
+  return res.count;
+}
+
+export async function loadGlossary(
+  projectId: string,
+): Promise<GlossaryEntry[]> {
+  const rows = await prisma.glossaryTerm.findMany({
+    where: { projectId },
+    orderBy: { term: "asc" },
+  });
+  return rows.map((r) => ({
+    id: r.id,
+    term: r.term,
+    definition: r.definition,
+    variants: parseVariants(r.variants),
+    source: r.source === "user" ? "user" : "registry",
+    chapterNumber: r.chapterNumber,
+  }));
+}
+
+/**
+ * Replace the glossary with the user's edited list. Rows the user changed
+ * become source "user", so later registry syncs never overwrite them.
+ */
+export async function saveGlossary(
+  projectId: string,
+  terms: Pick<GlossaryEntry, "id" | "term" | "definition" | "variants">[],
+): Promise<void> {
+  const existing = await prisma.glossaryTerm.findMany({ where: { projectId } });
+  const byId = new Map(existing.map((t) => [t.id, t]));
+
+  const rows = terms.map((t) => {
+    const prev = t.id ? byId.get(t.id) : undefined;
+    const variants = JSON.stringify(t.variants);
+    const unchanged =
+      !!prev &&
+      prev.term === t.term &&
+      prev.definition === t.definition &&
+      prev.variants === variants;
+    return {
+      projectId,
+      term: t.term,
+      definition: t.definition,
+      variants,
+      source: unchanged ? prev!.source : "user",
+      chapterNumber: prev?.chapterNumber ?? null,
+    };
+  });
+
+  await prisma.$transaction([
+    prisma.glossaryTerm.deleteMany({ where: { projectId } }),
+    prisma.glossaryTerm.createMany({ data: rows, skipDuplicates: true }),
+  ]);
+}
+
+function parseVariants(json: string): string[] {
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed)
+      ? parsed.filter((v) => typeof v === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Mandatory-terminology list for the writer's system prompt ("" if none) */
+export function formatTermsForPrompt(terms: GlossaryEntry[]): string {
+  return terms
+    .slice(0, PROMPT_TERM_LIMIT)
+    .map((t) => {
+      let line = `- ${t.term}`;
+      if (t.definition) line += ` — ${t.definition}`;
+      if (t.variants.length > 0) line += ` (NOT: ${t.variants.join(", ")})`;
+      return line;
+    })
+    .join("\n");
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Consistency check
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Latex → plain text, close enough for term matching */
+function plainText(latex: string): string {
+  return latex
+    .replace(/%.*$/gm, "")
+    .replace(/\\[a-zA-Z]+\*?(\[[^\]]*\])?/g, " ")
+    .replace(/[{}]/g, "")
+    .replace(/\s+/g, " ");
+}
+
+const WORD = "[\\p{L}\\p{N}]";
+
+/** Whole-word, case-insensitive matches of a literal phrase */
+function countPhrase(text: string, phrase: string): number {
+  const re = new RegExp(
+    `(?<!${WORD})${escapeRegex(phrase).replace(/\s+/g, "\\s+")}(?!${WORD})`,
+    "giu",
+  );
+  return (text.match(re) || []).length;
+}
+
+/**
+ * Spellings of a multi-word term that differ only in the separators —
+ * "e-mail" vs "email", "data set" vs "dataset" vs "data-set".
+ */
+function separatorVariants(text: string, term: string): Map<string, number> {
+  const found = new Map<string, number>();
+  const tokens = term.split(/[\s-]+/).filter(Boolean);
+  if (tokens.length < 2) return found;
+
+  const re = new RegExp(
+    `(?<!${WORD})${tokens.map(escapeRegex).join("[\\s-]?")}(?!${WORD})`,
+    "giu",
+  );
+  const canonical = term.toLowerCase().replace(/\s+/g, " ");
+  for (const m of text.matchAll(re)) {
+    const spelled = m[0].replace(/\s+/g, " ");
+    if (spelled.toLowerCase() === canonical) continue;
+    found.set(spelled, (found.get(spelled) || 0) + 1);
+  }
+  return found;
+}
+
+/**
+ * Flag chapters that use a registered variant of a term, or spell a
+ * multi-word term with different separators.
+ */
+export function checkTermConsistency(
+  terms: GlossaryEntry[],
+  chapters: { chapterNumber: number; latexContent: string | null }[],
+): TermIssue[] {
+  const issues: TermIssue[] = [];
+  for (const ch of chapters) {
+    if (!ch.latexContent) continue;
+    const text = plainText(ch.latexContent);
+    for (const t of terms) {
+      for (const variant of t.variants) {
+        if (variant.toLowerCase() === t.term.toLowerCase()) continue;
+        const count = countPhrase(text, variant);
+        if (count > 0) {
+          issues.push({
+            chapterNumber: ch.chapterNumber,
+            term: t.term,
+            found: variant,
+            count,
+          });
+        }
+      }
+      for (const [found, count] of separatorVariants(text, t.term)) {
+        issues.push({
+          chapterNumber: ch.chapterNumber,
+          term: t.term,
+          found,
+          count,
+        });
+      }
+    }
+  }
+  return issues.sort(
+    (a, b) => a.chapterNumber - b.chapterNumber || a.term.localeCompare(b.term),
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Back matter
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const GLOSSARY_TITLES: Record<string, string> = {
+  en: "Glossary",
+  pl: "Słowniczek",
+  de: "Glossar",
+  es: "Glosario",
+  fr: "Glossaire",
+};
+
+export function glossaryTitle(language: string): string {
+  return GLOSSARY_TITLES[language] || GLOSSARY_TITLES.en;
+}
+
+/**
+ * Terms for the Glossary chapter — only those with a definition, in the
+ * book language's alphabetical order. Empty when the glossary is off.
+ */
+export async function glossaryForCompile(
+  projectId: string,
+  enabled: boolean,
+  language: string,
+): Promise<{ term: string; definition: string }[]> {
+  if (!enabled) return [];
+  const terms = await loadGlossary(projectId);
+  return terms
+    .filter((t) => t.definition.trim())
+    .map((t) => ({ term: t.term, definition: t.definition }))
+    .sort((a, b) => a.term.localeCompare(b.term, language));
+}
@@ -0,0 +1,274 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Back-of-book Index
+// Index terms come from the chapter registries: defined key terms, plus
+// companies, tools and people named in usedExamples. \index{} markers are
+// inserted at compile time only — at the first mention in a chapter and
+// the first mention in each later \section{} — so the stored chapter
+// LaTeX stays clean for the editor. compileBook runs makeindex between
+// pdflatex passes.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { storedRegistry, type ChapterRegistry } from "./contentGenerator";
+import { parseKeyTerm } from "./glossaryService";
+
+/** Fewer terms than this and the book gets no index */
+const MIN_INDEX_TERMS = 5;
+const MAX_INDEX_TERMS = 250;
+/** Markers per term per chapter: first mention + first per section */
+const MAX_MARKS_PER_CHAPTER = 3;
+
+/** Capitalised words that start example sentences but name nothing */
+const NAME_STOPWORDS = new Set([
+  "a", "an", "the", "in", "on", "at", "for", "of", "by", "with", "when",
+  "how", "why", "what", "after", "before", "case", "study", "example",
+  "company", "companies", "team", "teams", "client", "clients", "survey",
+  "report", "research", "data", "one", "two", "three", "most", "many",
+  "przykład", "badanie", "firma", "firmy", "klient", "zespół", "raport",
+  "w", "na", "po", "dla", "przy", "gdy", "jak",
+  "der", "die", "das", "ein", "eine", "im", "beim", "beispiel", "studie",
+  "el", "la", "los", "las", "un", "una", "le", "les", "une", "des",
+]);
+
+export interface IndexTerm {
+  /** As printed in the index */
+  term: string;
+  /** makeindex entry: sort@display, quoted */
+  key: string;
+  /** Names are matched case-sensitively, key terms are not */
+  kind: "term" | "name";
+}
+
+interface IndexChapter {
+  chapterNumber: number;
+  latexContent: string | null;
+  registry: string | null;
+}
+
+export interface BookIndex<C extends IndexChapter> {
+  /** Chapters with \index{} markers inserted */
+  chapters: C[];
+  terms: number;
+  marks: number;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Main entry — call from compileBook before assembling the document
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Pick index terms from the registries and mark them in the chapters.
+ * Returns the chapters untouched (and terms: 0) when there are too few
+ * terms for a useful index.
+ */
+export function buildBookIndex<C extends IndexChapter>(
+  chapters: C[],
+): BookIndex<C> {
+  const registries = chapters
+    .map((c) => storedRegistry(c.registry))
+    .filter((r): r is ChapterRegistry => !!r);
+  const bookText = chapters
+    .map((c) => plainText(c.latexContent || ""))
+    .join("\n");
+
+  const terms = collectIndexTerms(registries, bookText);
+  if (terms.length < MIN_INDEX_TERMS) {
+    return { chapters, terms: 0, marks: 0 };
+  }
+
+  let marks = 0;
+  const marked = chapters.map((c) => {
+    if (!c.latexContent) return c;
+    const res = insertIndexMarkers(c.latexContent, terms);
+    marks += res.marks;
+    return { ...c, latexContent: res.latex };
+  });
+  return { chapters: marked, terms: terms.length, marks };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Term selection
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const WORD = "[\\p{L}\\p{N}]";
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function plainText(latex: string): string {
+  return latex
+    .replace(/\\[a-zA-Z]+\*?(\[[^\]]*\])?/g, " ")
+    .replace(/[{}]/g, "")
+    .replace(/\\([%&#$_])/g, "$1")
+    .replace(/[ \t]+/g, " ");
+}
+
+/**
+ * Capitalised runs in an example ("Spotify's Discover Weekly raised…")
+ * that the book also writes capitalised mid-sentence — a name, not a
+ * sentence opener.
+ */
+function namesIn(example: string, bookText: string): string[] {
+  const runs =
+    example.match(
+      /(?<![\p{L}\p{N}])\p{Lu}[\p{L}\p{N}&+.-]*(?:\s+\p{Lu}[\p{L}\p{N}&+.-]*){0,3}/gu,
+    ) || [];
+  return runs
+    .map((r) => r.replace(/['’]s$/u, "").replace(/[.-]+$/, ""))
+    .filter((r) => r.length >= 2 && !NAME_STOPWORDS.has(r.toLowerCase()))
+    .filter((r) =>
+      new RegExp(
+        `[\\p{Ll},;:]\\s+${escapeRegex(r)}(?!${WORD})`,
+        "u",
+      ).test(bookText),
+    );
+}
+
+function collectIndexTerms(
+  registries: ChapterRegistry[],
+  bookText: string,
+): IndexTerm[] {
+  const seen = new Set<string>();
+  const terms: IndexTerm[] = [];
+  const add = (term: string, kind: IndexTerm["kind"]) => {
+    const key = term.toLowerCase();
+    if (seen.has(key) || term.length < 2 || term.length > 60) return;
+    seen.add(key);
+    terms.push({ term, key: indexKey(term), kind });
+  };
+
+  for (const reg of registries) {
+    for (const raw of reg.keyTerms) {
+      const { term } = parseKeyTerm(raw);
+      const re = new RegExp(
+        `(?<!${WORD})${escapeRegex(term).replace(/\s+/g, "\\s+")}(?!${WORD})`,
+        "iu",
+      );
+      if (re.test(bookText)) add(term, "term");
+    }
+    for (const example of reg.usedExamples) {
+      for (const name of namesIn(example, bookText)) add(name, "name");
+    }
+  }
+  return terms.slice(0, MAX_INDEX_TERMS);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// makeindex entries
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** makeindex's own specials are quoted with " */
+function quoteIndex(s: string): string {
+  return s.replace(/["@!|]/g, '"$&');
+}
+
+/**
+ * ASCII sort key — makeindex groups by the first byte, so a term starting
+ * with "Ł" would get a broken UTF-8 letter heading.
+ */
+function sortKey(term: string): string {
+  return term
+    .replace(/[łŁ]/g, "l")
+    .replace(/ß/g, "ss")
+    .replace(/[øØ]/g, "o")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\x20-\x7E]/g, "")
+    .replace(/[{}\\]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+function indexKey(term: string): string {
+  const display = term
+    .replace(/\\/g, "")
+    .replace(/[&%$#_{}]/g, (m) => "\\" + m)
+    .replace(/~/g, "\\textasciitilde{}")
+    .replace(/\^/g, "\\textasciicircum{}");
+  return `${quoteIndex(sortKey(term) || display)}@${quoteIndex(display)}`;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Marker insertion
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const UNMARKABLE_COMMAND =
+  /^\\(chapter|section|subsection|subsubsection|caption|label|begin|end|includegraphics|centering|toprule|midrule|bottomrule|hline)\b/;
+
+/**
+ * Lines where an \index{} would break something or never be read: headings
+ * and captions (moving arguments), environment lines, table rows, URLs
+ * and math.
+ */
+function isMarkableLine(line: string): boolean {
+  const t = line.trim();
+  if (!t || t.startsWith("%")) return false;
+  if (UNMARKABLE_COMMAND.test(t)) return false;
+  if (/(?<!\\)&/.test(t) || /(?<!\\)\$/.test(t)) return false;
+  if (/\\(url|href|index)\b/.test(t)) return false;
+  return true;
+}
+
+function insertIndexMarkers(
+  latex: string,
+  terms: IndexTerm[],
+): { latex: string; marks: number } {
+  // Not right after a backslash — that would be inside a command name
+  const patterns = terms.map((t) => ({
+    term: t,
+    re: new RegExp(
+      `(?<![\\p{L}\\p{N}\\\\])` +
+        escapeRegex(t.term).replace(/\s+/g, "\\s+") +
+        `(?!${WORD})`,
+      t.kind === "name" ? "u" : "iu",
+    ),
+  }));
+  const perTerm = new Map<string, { count: number; section: number }>();
+  let section = 0;
+  let marks = 0;
+
+  const lines = latex.split("\n").map((line) => {
+    if (/^\s*\\section\*?\{/.test(line)) section++;
+    if (!isMarkableLine(line)) return line;
+
+    const inserts: { at: number; text: string }[] = [];
+    for (const { term, re } of patterns) {
+      const state = perTerm.get(term.key) || { count: 0, section: -1 };
+      if (state.count >= MAX_MARKS_PER_CHAPTER || state.section === section)
+        continue;
+      const m = re.exec(line);
+      if (!m) continue;
+      inserts.push({
+        at: m.index + m[0].length,
+        text: `\\index{${term.key}}`,
+      });
+      perTerm.set(term.key, { count: state.count + 1, section });
+    }
+    if (inserts.length === 0) return line;
+
+    marks += inserts.length;
+    let out = line;
+    for (const ins of inserts.sort((a, b) => b.at - a.at)) {
+      out = out.substring(0, ins.at) + ins.text + out.substring(ins.at);
+    }
+    return out;
+  });
+
+  return { latex: lines.join("\n"), marks };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// makeindex style — letter headings call \indexgroup, which each
+// style preset defines (bookCompiler getStyleConfig().indexStyle)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const INDEX_STYLE_FILE = [
+  "headings_flag 1",
+  'heading_prefix "\\\\indexgroup{"',
+  'heading_suffix "}\\n"',
+  'group_skip "\\n"',
+  'delim_0 ", "',
+  'delim_1 ", "',
+  'delim_2 ", "',
+  "",
+].join("\n");
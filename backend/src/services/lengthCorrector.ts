@@ -0,0 +1,292 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Length Correction
+// A chapter outside ±LENGTH_TOLERANCE_PERCENT of its target gets corrective
+// passes: short → expand the thinnest sections, long → condense the
+// longest ones. Repeats until in tolerance, out of passes or near the
+// spend cap, so the compiled book lands on the page count that was paid for.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { getLlm, MODELS } from "../lib/llm";
+import { checkSpend } from "../lib/spendCap";
+import type { PromptSet } from "../lib/prompts";
+import { findSections, normalizeTitle } from "./sectionEditor";
+import {
+  cleanLatex,
+  deAIfy,
+  sanitizeGeneratedLatex,
+  countWords,
+  getLangName,
+  type ChapterStructure,
+} from "./contentGenerator";
+import type { Tone } from "./voiceProfile";
+import { promptKey } from "./narrativeMode";
+
+const LENGTH_MODEL = MODELS.writer;
+
+const TOLERANCE_PERCENT = parseInt(
+  process.env.LENGTH_TOLERANCE_PERCENT || "10",
+  10,
+);
+const MAX_PASSES = parseInt(
+  process.env.LENGTH_CORRECTION_MAX_PASSES || "2",
+  10,
+);
+
+/** Sections rewritten per pass — the gap is shared between them */
+const SECTIONS_PER_PASS = 3;
+/** One pass never more than doubles, or cuts more than 40% of, a section */
+const MAX_GROWTH = 2;
+const MAX_CUT = 0.6;
+
+// Context windows around the corrected section
+const BEFORE_CONTEXT_CHARS = 3000;
+const AFTER_CONTEXT_CHARS = 1500;
+
+export type LengthAction = "expand" | "condense";
+
+/** One corrective pass — stored as JSON in Chapter.lengthCorrections */
+export interface LengthCorrection {
+  pass: number;
+  action: LengthAction;
+  targetWords: number;
+  wordsBefore: number;
+  wordsAfter: number;
+  sections: { title: string; wordsBefore: number; wordsAfter: number }[];
+}
+
+export interface LengthCorrectionResult {
+  latex: string;
+  corrections: LengthCorrection[];
+  tokensUsed: number;
+  /** Final words / target, in percent */
+  accuracy: number;
+}
+
+interface LengthParams {
+  projectId: string;
+  bookTitle: string;
+  chapter: ChapterStructure;
+  latex: string;
+  wpp: number;
+  language: string;
+  /** Writer tone — decides which connectives deAIfy strips */
+  tone: Tone;
+  /** "fiction" expands/condenses with the fiction.length.* prompts */
+  genre: string;
+  promptSet: PromptSet;
+  log: any;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Main entry — call after a chapter is written
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function correctChapterLength(
+  p: LengthParams,
+): Promise<LengthCorrectionResult> {
+  const targetWords = p.chapter.targetPages * p.wpp;
+  const corrections: LengthCorrection[] = [];
+  let latex = p.latex;
+  let tokensUsed = 0;
+  let words = countWords(latex);
+
+  for (let pass = 1; pass <= MAX_PASSES; pass++) {
+    const accuracy = Math.round((words / targetWords) * 100);
+    if (Math.abs(accuracy - 100) <= TOLERANCE_PERCENT) break;
+
+    const spend = await checkSpend(
+      p.projectId,
+      `length ch${p.chapter.number}`,
+      p.log,
+      { canHalt: false },
+    );
+    if (spend.has("skip-revisions")) {
+      p.log.warn(`  Length correction skipped — near spend cap`);
+      break;
+    }
+
+    const action: LengthAction = words < targetWords ? "expand" : "condense";
+    const picks = pickSections(latex, p.chapter, p.wpp, action, targetWords);
+    if (picks.length === 0) {
+      p.log.warn(`  Length correction: no \\section{} to ${action}`);
+      break;
+    }
+
+    p.log.step(
+      `  📏 Pass ${pass}/${MAX_PASSES}: ${action} ${picks.length} section(s) — ${words}/${targetWords}w [${accuracy}%]`,
+    );
+
+    // Rewrite against the current text, then splice back-to-front so the
+    // offsets of earlier sections stay valid
+    const rewritten: { start: number; end: number; latex: string }[] = [];
+    const sections: LengthCorrection["sections"] = [];
+    for (const pick of picks) {
+      const out = await rewriteSection(p, latex, pick, action);
+      tokensUsed += out.tokens;
+      const after = countWords(out.latex);
+      // A pass that moves the wrong way is dropped, not applied
+      const helps =
+        action === "expand" ? after > pick.words : after < pick.words;
+      if (!helps) {
+        p.log.warn(
+          `  "${pick.title}": ${pick.words}→${after}w — not applied`,
+        );
+        continue;
+      }
+      rewritten.push({ start: pick.start, end: pick.end, latex: out.latex });
+      sections.push({
+        title: pick.title,
+        wordsBefore: pick.words,
+        wordsAfter: after,
+      });
+      p.log.ok(`  "${pick.title}": ${pick.words}→${after}w`);
+    }
+    if (rewritten.length === 0) break;
+
+    for (const r of rewritten.sort((a, b) => b.start - a.start)) {
+      latex = `${latex.substring(0, r.start)}${r.latex.trim()}\n\n${latex.substring(r.end).trimStart()}`;
+    }
+    latex = sanitizeGeneratedLatex(latex);
+
+    const wordsAfter = countWords(latex);
+    corrections.push({
+      pass,
+      action,
+      targetWords,
+      wordsBefore: words,
+      wordsAfter,
+      sections,
+    });
+    words = wordsAfter;
+  }
+
+  const accuracy = Math.round((words / targetWords) * 100);
+  if (corrections.length > 0) {
+    p.log.ok(
+      `Length corrected: ${countWords(p.latex)}→${words}w [${accuracy}% of target] in ${corrections.length} pass(es)`,
+    );
+  }
+  return { latex, corrections, tokensUsed, accuracy };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Pick the sections to rewrite
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+interface SectionPick {
+  title: string;
+  description: string;
+  start: number;
+  end: number;
+  words: number;
+  targetWords: number;
+}
+
+/**
+ * Thinnest (expand) or fattest (condense) sections relative to their own
+ * planned length; the chapter's gap is shared evenly between them.
+ */
+function pickSections(
+  latex: string,
+  chapter: ChapterStructure,
+  wpp: number,
+  action: LengthAction,
+  chapterTarget: number,
+): SectionPick[] {
+  const chapterWords = countWords(latex);
+  const found = findSections(latex).map((s) => {
+    const plan = chapter.sections.find(
+      (c) => normalizeTitle(c.title) === normalizeTitle(s.title),
+    );
+    const words = countWords(latex.substring(s.start, s.end));
+    // Unplanned sections are scaled like the chapter as a whole
+    const planned = plan
+      ? plan.targetPages * wpp
+      : (words * chapterTarget) / chapterWords;
+    return {
+      ...s,
+      description: plan?.description || "",
+      words,
+      ratio: words / Math.max(1, planned),
+    };
+  });
+
+  const ordered = found
+    .filter((s) => s.words > 0)
+    .sort((a, b) =>
+      action === "expand" ? a.ratio - b.ratio : b.ratio - a.ratio,
+    )
+    .slice(0, SECTIONS_PER_PASS);
+  if (ordered.length === 0) return [];
+
+  const share = Math.abs(chapterTarget - chapterWords) / ordered.length;
+  return ordered.map((s) => ({
+    title: s.title,
+    description: s.description,
+    start: s.start,
+    end: s.end,
+    words: s.words,
+    targetWords: Math.round(
+      action === "expand"
+        ? Math.min(s.words + share, s.words * MAX_GROWTH)
+        : Math.max(s.words - share, s.words * MAX_CUT),
+    ),
+  }));
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Rewrite one section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function rewriteSection(
+  p: LengthParams,
+  latex: string,
+  pick: SectionPick,
+  action: LengthAction,
+): Promise<{ latex: string; tokens: number }> {
+  const before = latex.substring(
+    Math.max(0, pick.start - BEFORE_CONTEXT_CHARS),
+    pick.start,
+  );
+  const after = latex.substring(pick.end, pick.end + AFTER_CONTEXT_CHARS);
+
+  const key = promptKey(`length.${action}`, p.genre);
+  const { text: prompt } = p.promptSet.render(key, {
+    bookTitle: p.bookTitle,
+    chapterNumber: p.chapter.number,
+    chapterTitle: p.chapter.title,
+    sectionTitle: pick.title,
+    sectionDescription: pick.description,
+    currentWords: pick.words,
+    targetWords: pick.targetWords,
+    sectionLatex: latex.substring(pick.start, pick.end).trim(),
+    before: before.trim() || "(start of chapter)",
+    after: after.trim() || "(end of chapter)",
+    lang: getLangName(p.language),
+  });
+
+  const maxTok = Math.max(
+    2000,
+    Math.min(12000, Math.ceil(pick.targetWords * 2.2)),
+  );
+  p.log.claudeReq?.(`length-${action}`, prompt);
+  const res = await getLlm().complete({
+    task: action === "expand" ? "length-expand" : "length-condense",
+    model: LENGTH_MODEL,
+    maxTokens: maxTok,
+    messages: [{ role: "user", content: prompt }],
+  });
+  p.log.api(res, { chapter: p.chapter.number });
+
+  let out = sanitizeGeneratedLatex(
+    deAIfy(cleanLatex(res.text), p.language, p.tone),
+  );
+  out = out.replace(/\\chapter\*?\{[^}]*\}\s*/g, "");
+  if (!/^\\section\*?\{/.test(out)) out = `\\section{${pick.title}}\n\n${out}`;
+  p.log.claudeRes?.(`length-${action}`, out);
+
+  return {
+    latex: out,
+    tokens: res.usage.inputTokens + res.usage.outputTokens,
+  };
+}
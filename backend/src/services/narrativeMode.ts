@@ -0,0 +1,75 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Narrative Mode
+// Books with genre "fiction" are planned as a story (cast, setting, scenes
+// as plot beats), skip web research, fact-checking and the editorial
+// review, track characters and plot state in the chapter registry, and
+// are typeset with scene breaks and drop caps instead of section headings.
+// Fiction prompts are the "fiction.*" twins of the originals
+// (prompts/fiction.ts).
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { BOOK_GENRES, type BookGenre } from "../lib/types";
+import { getBuiltinTemplate } from "../lib/prompts";
+
+export function isBookGenre(v: unknown): v is BookGenre {
+  return BOOK_GENRES.includes(v as BookGenre);
+}
+
+export function isFiction(genre: string | null | undefined): boolean {
+  return genre === "fiction";
+}
+
+/** "chapter.user" → "fiction.chapter.user" for fiction, when a twin exists */
+export function promptKey(key: string, genre: string): string {
+  const twin = `fiction.${key}`;
+  return isFiction(genre) && getBuiltinTemplate(twin) ? twin : key;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Story bible — cast and setting from the structure JSON
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface StoryCharacter {
+  name: string;
+  role: string;
+  description: string;
+}
+
+export interface StoryBible {
+  setting: string;
+  characters: StoryCharacter[];
+}
+
+/** Reads the fiction keys of a parsed structure JSON; tolerant of gaps */
+export function storyBibleOf(structure: any): StoryBible {
+  const characters: StoryCharacter[] = Array.isArray(structure?.characters)
+    ? structure.characters
+        .filter((c: any) => c && typeof c.name === "string" && c.name.trim())
+        .map((c: any) => ({
+          name: String(c.name).trim(),
+          role: typeof c.role === "string" ? c.role : "",
+          description: typeof c.description === "string" ? c.description : "",
+        }))
+    : [];
+  return {
+    setting: typeof structure?.setting === "string" ? structure.setting : "",
+    characters,
+  };
+}
+
+/** Story bible block of the "fiction.chapter.system" template */
+export function formatStoryBible(bible: StoryBible): string {
+  const lines: string[] = [];
+  if (bible.setting) lines.push(`SETTING: ${bible.setting}`);
+  if (bible.characters.length) {
+    lines.push("CHARACTERS:");
+    for (const c of bible.characters) {
+      const role = c.role ? ` (${c.role})` : "";
+      const desc = c.description ? ` — ${c.description}` : "";
+      lines.push(`- ${c.name}${role}${desc}`);
+    }
+  }
+  return lines.length
+    ? lines.join("\n")
+    : "No story bible — follow the premise and the chapter outline.";
+}
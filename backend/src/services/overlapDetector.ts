@@ -0,0 +1,276 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Verbatim Overlap Detector
+// Every chapter paragraph is compared with the scraped source texts (chapter
+// and global research) as word shingles. A paragraph that shares a long
+// verbatim run, or a large share of its shingles, with a source is flagged
+// with that source's URL. After writing, flagged paragraphs are rewritten
+// in the author's words; what is left is shown in the editor, and the
+// check re-runs whenever the user saves the chapter.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { getLlm, MODELS } from "../lib/llm";
+import { checkSpend } from "../lib/spendCap";
+import type { PromptSet } from "../lib/prompts";
+import type {
+  ResearchResult,
+  ChapterResearchResult,
+} from "./researchService";
+import {
+  cleanLatex,
+  sanitizeGeneratedLatex,
+  getLangName,
+} from "./contentGenerator";
+
+const REWRITE_MODEL = MODELS.writer;
+
+/** Words per shingle */
+const SHINGLE_WORDS = 8;
+/** A verbatim run this long (in words) is flagged on its own */
+const MIN_RUN_WORDS = parseInt(process.env.OVERLAP_MIN_RUN_WORDS || "20", 10);
+/** …as is a paragraph sharing this share of its shingles with one source */
+const SIMILARITY_PERCENT = parseInt(
+  process.env.OVERLAP_SIMILARITY_PERCENT || "30",
+  10,
+);
+/** Shorter paragraphs are never flagged on similarity alone */
+const MIN_PARAGRAPH_WORDS = 20;
+/** Paragraph rewrites per chapter */
+const MAX_REWRITES = 5;
+const EXCERPT_CHARS = 300;
+
+export interface OverlapPassage {
+  /** The copied words, as they stand in the chapter */
+  excerpt: string;
+  url: string;
+  /** Share of the paragraph's shingles found in that source, in percent */
+  similarity: number;
+  /** Longest verbatim run, in words */
+  longestRun: number;
+  status: "rewritten" | "flagged";
+}
+
+/** Stored as JSON in Chapter.overlapReport */
+export interface OverlapReport {
+  checkedAt: string;
+  passages: OverlapPassage[];
+}
+
+interface Detected extends Omit<OverlapPassage, "status"> {
+  /** The chapter paragraph, as LaTeX */
+  paragraph: string;
+}
+
+interface RewriteParams {
+  projectId: string;
+  chapterNumber: number;
+  bookTitle: string;
+  latex: string;
+  research: (ResearchResult | ChapterResearchResult | null)[];
+  language: string;
+  promptSet: PromptSet;
+  log: any;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Shingles
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function words(text: string): string[] {
+  return text.normalize("NFKC").match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/** Commands whose argument is not prose */
+const NON_TEXT_COMMAND =
+  /\\(cite|label|ref|index|url|includegraphics)(\[[^\]]*\])?\{[^}]*\}/g;
+
+function plainText(latex: string): string {
+  return latex
+    .replace(/%.*$/gm, "")
+    .replace(NON_TEXT_COMMAND, " ")
+    .replace(/\\[a-zA-Z]+\*?(\[[^\]]*\])?/g, " ")
+    .replace(/\\([%&#$_])/g, "$1");
+}
+
+/** Shingle → index of the first source that contains it */
+type SourceIndex = { shingles: Map<string, number>; urls: string[] };
+
+function indexSources(
+  research: (ResearchResult | ChapterResearchResult | null)[],
+): SourceIndex {
+  const shingles = new Map<string, number>();
+  const urls: string[] = [];
+  const seen = new Set<string>();
+  for (const s of research.flatMap((r) => r?.selectedSources || [])) {
+    if (!s.text || seen.has(s.url)) continue;
+    seen.add(s.url);
+    const i = urls.push(s.url) - 1;
+    const w = words(s.text).map((x) => x.toLowerCase());
+    for (let k = 0; k + SHINGLE_WORDS <= w.length; k++) {
+      const sh = w.slice(k, k + SHINGLE_WORDS).join(" ");
+      if (!shingles.has(sh)) shingles.set(sh, i);
+    }
+  }
+  return { shingles, urls };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Detection — no LLM, cheap enough to run on every save
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function checkParagraph(
+  paragraph: string,
+  index: SourceIndex,
+): Detected | null {
+  const original = words(plainText(paragraph));
+  const lower = original.map((w) => w.toLowerCase());
+  const total = lower.length - SHINGLE_WORDS + 1;
+  if (total <= 0) return null;
+
+  const perSource = new Map<number, number>();
+  let run = 0;
+  let best = { length: 0, end: 0 };
+  for (let k = 0; k < total; k++) {
+    const hit = index.shingles.get(
+      lower.slice(k, k + SHINGLE_WORDS).join(" "),
+    );
+    if (hit === undefined) {
+      run = 0;
+      continue;
+    }
+    perSource.set(hit, (perSource.get(hit) || 0) + 1);
+    run++;
+    if (run > best.length) best = { length: run, end: k };
+  }
+  if (perSource.size === 0) return null;
+
+  const [source, matched] = [...perSource].sort((a, b) => b[1] - a[1])[0];
+  const similarity = Math.round((matched / total) * 100);
+  const longestRun = best.length > 0 ? best.length + SHINGLE_WORDS - 1 : 0;
+  const flagged =
+    longestRun >= MIN_RUN_WORDS ||
+    (lower.length >= MIN_PARAGRAPH_WORDS && similarity >= SIMILARITY_PERCENT);
+  if (!flagged) return null;
+
+  const start = best.end - best.length + 1;
+  return {
+    paragraph,
+    excerpt: original
+      .slice(start, start + longestRun)
+      .join(" ")
+      .substring(0, EXCERPT_CHARS),
+    url: index.urls[source],
+    similarity,
+    longestRun,
+  };
+}
+
+function detect(latex: string, index: SourceIndex): Detected[] {
+  if (index.shingles.size === 0) return [];
+  return latex
+    .split(/\n[ \t]*\n/)
+    .map((para) => checkParagraph(para, index))
+    .filter((d): d is Detected => !!d);
+}
+
+/** Flag-only check, for chapters the user edited */
+export function checkOverlap(
+  latex: string,
+  research: (ResearchResult | ChapterResearchResult | null)[],
+): OverlapReport {
+  return {
+    checkedAt: new Date().toISOString(),
+    passages: detect(latex, indexSources(research)).map(
+      ({ paragraph, ...p }) => ({ ...p, status: "flagged" }),
+    ),
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Main entry — call once a chapter is written
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Rewrite the paragraphs copied from a source. A rewrite that still
+ * overlaps is not applied — the passage stays flagged for the editor.
+ */
+export async function rewriteOverlaps(
+  p: RewriteParams,
+): Promise<{ latex: string; report: OverlapReport; tokensUsed: number }> {
+  const index = indexSources(p.research);
+  const found = detect(p.latex, index);
+  const report = (passages: OverlapPassage[]): OverlapReport => ({
+    checkedAt: new Date().toISOString(),
+    passages,
+  });
+  if (found.length === 0) {
+    return { latex: p.latex, report: report([]), tokensUsed: 0 };
+  }
+
+  p.log.warn(
+    `  Verbatim overlap: ${found.length} paragraph(s) — longest run ${Math.max(...found.map((f) => f.longestRun))} words`,
+  );
+  const spend = await checkSpend(
+    p.projectId,
+    `overlap ch${p.chapterNumber}`,
+    p.log,
+    { canHalt: false },
+  );
+  const canRewrite = !spend.has("skip-revisions");
+
+  let latex = p.latex;
+  let tokensUsed = 0;
+  const passages: OverlapPassage[] = [];
+  for (const [i, d] of found.entries()) {
+    const { paragraph, ...passage } = d;
+    if (!canRewrite || i >= MAX_REWRITES) {
+      passages.push({ ...passage, status: "flagged" });
+      continue;
+    }
+
+    const out = await rewriteParagraph(p, d);
+    tokensUsed += out.tokens;
+    if (out.latex === null || checkParagraph(out.latex, index)) {
+      p.log.warn(`  Overlap with ${d.url} — rewrite not applied, flagged`);
+      passages.push({ ...passage, status: "flagged" });
+      continue;
+    }
+    latex = latex.replace(paragraph, () => out.latex!);
+    passages.push({ ...passage, status: "rewritten" });
+    p.log.ok(`  Overlap with ${d.url} rewritten (${d.longestRun}-word run)`);
+  }
+
+  if (latex !== p.latex) latex = sanitizeGeneratedLatex(latex);
+  return { latex, report: report(passages), tokensUsed };
+}
+
+const envCount = (s: string) => (s.match(/\\(begin|end)\{/g) || []).length;
+
+async function rewriteParagraph(
+  p: RewriteParams,
+  d: Detected,
+): Promise<{ latex: string | null; tokens: number }> {
+  const { text: prompt } = p.promptSet.render("overlap.rewrite", {
+    bookTitle: p.bookTitle,
+    copied: d.excerpt,
+    paragraph: d.paragraph.trim(),
+    lang: getLangName(p.language),
+  });
+
+  p.log.claudeReq?.("overlap-rewrite", prompt);
+  const res = await getLlm().complete({
+    task: "overlap-rewrite",
+    model: REWRITE_MODEL,
+    maxTokens: Math.max(800, Math.ceil(d.paragraph.length / 2)),
+    messages: [{ role: "user", content: prompt }],
+  });
+  p.log.api(res, { chapter: p.chapterNumber });
+  const tokens = res.usage.inputTokens + res.usage.outputTokens;
+
+  const out = cleanLatex(res.text);
+  p.log.claudeRes?.("overlap-rewrite", out);
+  const sane =
+    out.length > d.paragraph.length * 0.5 &&
+    out.length < d.paragraph.length * 1.8 + 200 &&
+    envCount(out) === envCount(d.paragraph);
+  return { latex: sane ? out : null, tokens };
+}
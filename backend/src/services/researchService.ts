@@ -3,12 +3,12 @@
 // Global research (book-level) + Per-chapter research
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-import Anthropic from "@anthropic-ai/sdk";
 import axios from "axios";
 import { prisma } from "../lib/prisma";
 import { createPipelineLogger } from "../lib/logger";
-
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+import { getLlm, MODELS } from "../lib/llm";
+import { fixtureCall, fixtureValue } from "../lib/fixtures";
+import { citationKey } from "./bibliography";
 
 const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || "";
 const GOOGLE_CX = process.env.GOOGLE_CX || "";
@@ -62,6 +62,8 @@ export interface ResearchResult {
   }>;
   selectedSources: Array<{
     url: string;
+    /** Search-result title — missing on research saved before titles were kept */
+    title?: string;
     text: string;
     length: number;
     lang: string;
@@ -77,6 +79,8 @@ export interface ChapterResearchResult {
   queries: string[];
   selectedSources: Array<{
     url: string;
+    /** Search-result title — missing on research saved before titles were kept */
+    title?: string;
     text: string;
     length: number;
     lang: string;
@@ -232,6 +236,9 @@ export async function conductResearch(
       })),
       selectedSources: selectedSources.map((s) => ({
         url: s.url,
+        title: [...searchResults, ...(englishSearchResults || [])].find(
+          (r) => r.link === s.url,
+        )?.title,
         text: sanitizeText(s.text),
         length: s.length,
         lang: s.lang,
@@ -331,9 +338,13 @@ export async function conductChapterResearch(
       status: string;
     }> = [];
 
+    // Search-result titles, for the bibliography
+    const titles = new Map<string, string>();
+
     for (const query of queries) {
       const searchResults = await searchGoogle(query, language, chLog);
       chLog.step(`"${query}" → ${searchResults.length} results`);
+      searchResults.forEach((r) => titles.set(r.link, r.title));
 
       // Filter out URLs already used globally or in this chapter
       const newUrls = searchResults
@@ -390,6 +401,7 @@ export async function conductChapterResearch(
         chLog,
       );
       const enResults = await searchGoogle(enQuery, "en", chLog);
+      enResults.forEach((r) => titles.set(r.link, r.title));
       const enNewUrls = enResults
         .map((r) => r.link)
         .filter((u) => !globalUrls.has(u));
@@ -431,6 +443,7 @@ export async function conductChapterResearch(
       queries,
       selectedSources: selectedSources.map((s) => ({
         url: s.url,
+        title: titles.get(s.url),
         text: sanitizeText(s.text),
         length: s.length,
         lang: s.lang,
@@ -488,16 +501,17 @@ RULES:
 Output ONLY 2 queries, one per line, nothing else:`;
 
   log?.claudeReq?.("ch-queries", prompt);
-  const message = await anthropic.messages.create({
-    model: "claude-haiku-4-5",
-    max_tokens: 100,
+  const message = await getLlm().complete({
+    task: "chapter-queries",
+    model: MODELS.utility,
+    maxTokens: 100,
     temperature: 0.3,
     messages: [{ role: "user", content: prompt }],
   });
 
-  const text =
-    message.content[0].type === "text" ? message.content[0].text.trim() : "";
+  const text = message.text.trim();
   log?.claudeRes?.("ch-queries", text);
+  log?.api?.(message, { chapter: chapter.number });
 
   const queries = text
     .split("\n")
@@ -569,21 +583,17 @@ Respond with ONLY a JSON array of source numbers (0-indexed), e.g.: [0, 2, 4]
 Pick 2-3 sources. Return [] if none are directly relevant.`;
 
   log?.claudeReq?.("ch-select", prompt);
-  const message = await anthropic.messages.create({
-    model: "claude-haiku-4-5",
-    max_tokens: 100,
+  const message = await getLlm().complete({
+    task: "select-sources",
+    model: MODELS.utility,
+    maxTokens: 100,
     temperature: 0.2,
     messages: [{ role: "user", content: prompt }],
   });
 
-  const responseText =
-    message.content[0].type === "text" ? message.content[0].text.trim() : "[]";
+  const responseText = message.text.trim() || "[]";
   log?.claudeRes?.("ch-select", responseText);
-  log.api?.(
-    "claude-haiku-4-5",
-    message.usage?.input_tokens || 0,
-    message.usage?.output_tokens || 0,
-  );
+  log.api?.(message, { chapter: chapter.number });
 
   try {
     const jsonMatch = responseText.match(/\[[\s\S]*?\]/);
@@ -725,7 +735,8 @@ export function mergeResearchForPrompt(
       const langTag = s.lang ? ` [${s.lang.toUpperCase()}]` : "";
       const priorityTag =
         s.priority === "CHAPTER-SPECIFIC" ? " ★ CHAPTER-SPECIFIC" : "";
-      return `\n═══ SOURCE ${i + 1}${langTag}${priorityTag}: ${s.url} (${s.length.toLocaleString()} chars) ═══\n\n${text}\n\n═══ END SOURCE ${i + 1} ═══`;
+      const cite = `cite as \\cite{${citationKey(s.url)}}`;
+      return `\n═══ SOURCE ${i + 1}${langTag}${priorityTag}: ${s.url} (${s.length.toLocaleString()} chars) — ${cite} ═══\n\n${text}\n\n═══ END SOURCE ${i + 1} ═══`;
     })
     .filter(Boolean)
     .join("\n\n");
@@ -783,16 +794,17 @@ RULES:
 Query:`;
 
   log?.claudeReq?.("simple-query", prompt);
-  const message = await anthropic.messages.create({
-    model: "claude-haiku-4-5",
-    max_tokens: 50,
+  const message = await getLlm().complete({
+    task: "search-query",
+    model: MODELS.utility,
+    maxTokens: 50,
     temperature: 0.2,
     messages: [{ role: "user", content: prompt }],
   });
 
-  let query =
-    message.content[0].type === "text" ? message.content[0].text.trim() : topic;
+  let query = message.text.trim() || topic;
   log?.claudeRes?.("simple-query", query);
+  log?.api?.(message);
   query = query
     .replace(/^(Query|Zapytanie|Recherche|Búsqueda)[:：]\s*/i, "")
     .replace(/^["'"]|["'"]$/g, "")
@@ -809,7 +821,14 @@ Query:`;
 // Internal: Google search
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-async function searchGoogle(
+/** One fixture call per search — see lib/fixtures.ts */
+function searchGoogle(query: string, language: string, log: any) {
+  return fixtureCall("search", { query, language }, () =>
+    fetchGoogleResults(query, language, log),
+  );
+}
+
+async function fetchGoogleResults(
   query: string,
   language: string,
   log: any,
@@ -857,7 +876,11 @@ async function searchGoogle(
 // Internal: Scraping
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-async function scrapeUrls(
+function scrapeUrls(urls: string[], log: any) {
+  return fixtureCall("scrape", urls, () => fetchScrapedTexts(urls, log));
+}
+
+async function fetchScrapedTexts(
   urls: string[],
   log: any,
 ): Promise<
@@ -990,21 +1013,17 @@ RESPOND IN THIS EXACT JSON FORMAT (no other text):
 }`;
 
   log.claudeReq?.("global-select", prompt);
-  const message = await anthropic.messages.create({
-    model: "claude-haiku-4-5",
-    max_tokens: 500,
+  const message = await getLlm().complete({
+    task: "select-global-sources",
+    model: MODELS.utility,
+    maxTokens: 500,
     temperature: 0.2,
     messages: [{ role: "user", content: prompt }],
   });
 
-  const responseText =
-    message.content[0].type === "text" ? message.content[0].text.trim() : "";
+  const responseText = message.text.trim();
   log.claudeRes?.("global-select", responseText);
-  log.api(
-    "claude-haiku-4-5",
-    message.usage?.input_tokens || 0,
-    message.usage?.output_tokens || 0,
-  );
+  log.api(message);
 
   try {
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -1068,21 +1087,17 @@ RESPOND with ONLY a JSON array of source numbers (0-indexed), e.g.: [0, 2]
 Pick 1-3 sources. If none add value, respond with: []`;
 
   log.claudeReq?.("en-supplement", prompt);
-  const message = await anthropic.messages.create({
-    model: "claude-haiku-4-5",
-    max_tokens: 100,
+  const message = await getLlm().complete({
+    task: "select-sources",
+    model: MODELS.utility,
+    maxTokens: 100,
     temperature: 0.2,
     messages: [{ role: "user", content: prompt }],
   });
 
-  const responseText =
-    message.content[0].type === "text" ? message.content[0].text.trim() : "[]";
+  const responseText = message.text.trim() || "[]";
   log.claudeRes?.("en-supplement", responseText);
-  log.api(
-    "claude-haiku-4-5",
-    message.usage?.input_tokens || 0,
-    message.usage?.output_tokens || 0,
-  );
+  log.api(message);
 
   try {
     const jsonMatch = responseText.match(/\[[\s\S]*?\]/);
@@ -1099,7 +1114,10 @@ Pick 1-3 sources. If none add value, respond with: []`;
 // ━━━ Helpers ━━━
 
 function hasApiKeys(): boolean {
-  return !!GOOGLE_API_KEY && !!GOOGLE_CX && !!SCRAPER_URL;
+  return fixtureValue(
+    "research-keys",
+    () => !!GOOGLE_API_KEY && !!GOOGLE_CX && !!SCRAPER_URL,
+  );
 }
 
 function fallbackSelection(scraped: Array<{ length: number }>): number[] {
@@ -1,20 +1,33 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // BookForge — Book Review & Revision Service
 // Post-generation quality pass: review → targeted edits
+// Every review is stored (BookReview); the user can re-run it after their
+// own edits and insert the missing topics it suggests one at a time.
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-import Anthropic from "@anthropic-ai/sdk";
+import { prisma } from "../lib/prisma";
 import { createPipelineLogger } from "../lib/logger";
-
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+import { getLlm, MODELS } from "../lib/llm";
+import { checkSpend } from "../lib/spendCap";
+import { JOB_PENDING_ERROR } from "../lib/queue";
+import { getWordsPerPage } from "../lib/types";
+import { loadPromptSet, type PromptSet } from "../lib/prompts";
+import { countWords, refreshChapterRegistry } from "./contentGenerator";
+import {
+  VoiceProfile,
+  voiceProfileOf,
+  reviewVoiceVars,
+} from "./voiceProfile";
+import { isFiction } from "./narrativeMode";
 
 // ── Models ──
-const REVIEW_MODEL = "claude-haiku-4-5"; // cheap — review & scoring
-const REVISION_MODEL = "claude-sonnet-4-5"; // quality — content generation
+const REVIEW_MODEL = MODELS.utility; // cheap — review & scoring
+const REVISION_MODEL = MODELS.writer; // quality — content generation
 
 // ── Interfaces ──
 
-interface ReviewResult {
+/** Stored as JSON in BookReview.result */
+export interface ReviewResult {
   missing_topics: string[];
   redundancies: Array<{ chapters: number[]; description: string }>;
   removals: Array<{ chapter: number; description: string }>;
@@ -41,7 +54,8 @@ interface ChapterData {
   latex: string;
 }
 
-interface ReviewStats {
+/** Stored as JSON in BookReview.stats */
+export interface ReviewStats {
   reviewTokens: number;
   revisionTokens: number;
   editsApplied: number;
@@ -49,6 +63,29 @@ interface ReviewStats {
   finalScore: number;
 }
 
+export type ReviewSource = "pipeline" | "user" | "admin";
+
+/** A BookReview row with its JSON parsed */
+export interface StoredReview {
+  id: string;
+  source: ReviewSource;
+  result: ReviewResult;
+  stats: ReviewStats;
+  appliedTopics: string[];
+  createdAt: Date;
+}
+
+/** On-demand review or insertion refused — carries the HTTP status */
+export class ReviewUnavailableError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+  ) {
+    super(message);
+    this.name = "ReviewUnavailableError";
+  }
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Main entry — call this from contentGenerator.ts
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -58,9 +95,20 @@ export async function reviewAndReviseBook(
   bookTopic: string,
   bookTitle: string,
   guidelines: string,
+  voice: VoiceProfile,
   language: string,
+  prompts: PromptSet,
   log: ReturnType<typeof createPipelineLogger>,
-): Promise<{ chapters: ChapterData[]; stats: ReviewStats }> {
+  /** Called between edits — throws to abort (e.g. user cancelled) */
+  checkpoint?: () => Promise<void>,
+  /** Called before each revision — false skips the rest (spend cap) */
+  allowRevision?: () => Promise<boolean>,
+): Promise<{
+  chapters: ChapterData[];
+  stats: ReviewStats;
+  /** The latest review — after the revisions, if any were applied */
+  review: ReviewResult;
+}> {
   const stats: ReviewStats = {
     reviewTokens: 0,
     revisionTokens: 0,
@@ -78,13 +126,20 @@ export async function reviewAndReviseBook(
     bookTopic,
     bookTitle,
     guidelines,
+    voice,
     language,
+    prompts,
     log,
   );
   stats.originalScore = review.score;
   stats.reviewTokens += review._tokens || 0;
+  const result = withoutTokens(review);
 
-  log.ok(`Review score: ${review.score}/10 (${reviewTimer()})`);
+  log.ok(`Review score: ${review.score}/10 (${reviewTimer()})`, {
+    kind: "review",
+    score: review.score,
+    final: false,
+  });
   log.step(
     `  Missing topics: ${review.missing_topics.length > 0 ? review.missing_topics.join(", ") : "none"}`,
   );
@@ -95,14 +150,24 @@ export async function reviewAndReviseBook(
   if (!review.needs_revision || review.score >= 8) {
     log.ok(`Score ${review.score}/10 — no revision needed`);
     stats.finalScore = review.score;
-    return { chapters, stats };
+    return { chapters, stats, review: result };
   }
 
   log.step("✏️  Starting targeted revisions...");
+  let revising = true;
+  const mayRevise = async () => {
+    if (revising && allowRevision && !(await allowRevision())) {
+      log.warn("Remaining revisions skipped — near spend cap");
+      revising = false;
+    }
+    return revising;
+  };
 
   // ── Step 2: Handle removals (redundant content) ──
   for (const removal of review.removals.slice(0, 3)) {
     // Max 3 removals to avoid over-editing
+    if (!(await mayRevise())) break;
+    await checkpoint?.();
     const ch = chapters.find((c) => c.number === removal.chapter);
     if (!ch) continue;
 
@@ -113,6 +178,7 @@ export async function reviewAndReviseBook(
       ch,
       removal.description,
       language,
+      prompts,
       log,
     );
     stats.revisionTokens += removalResult._tokens || 0;
@@ -136,6 +202,8 @@ export async function reviewAndReviseBook(
   // ── Step 3: Handle missing topics (insert new content) ──
   for (const missingTopic of review.missing_topics.slice(0, 3)) {
     // Max 3 additions
+    if (!(await mayRevise())) break;
+    await checkpoint?.();
     log.step(`  ➕ Adding: "${missingTopic}"...`);
     const insertTimer = log.timer();
 
@@ -145,39 +213,12 @@ export async function reviewAndReviseBook(
       bookTopic,
       bookTitle,
       language,
+      prompts,
       log,
     );
     stats.revisionTokens += edit._tokens || 0;
 
-    if (!edit.insert_after || !edit.new_content) {
-      log.warn(`    Claude returned empty edit — skipping`);
-      continue;
-    }
-
-    const targetCh = chapters.find((c) => c.number === edit.target_chapter);
-    if (!targetCh) {
-      log.warn(
-        `    Target chapter ${edit.target_chapter} not found — skipping`,
-      );
-      continue;
-    }
-
-    // Find the insertion point
-    const insertIdx = targetCh.latex.indexOf(edit.insert_after);
-    if (insertIdx === -1) {
-      // Fallback: try to insert before the last \section or at the end
-      log.warn(
-        `    Could not find "${edit.insert_after.substring(0, 40)}..." — appending to chapter end`,
-      );
-      targetCh.latex += "\n\n" + edit.new_content;
-    } else {
-      targetCh.latex =
-        targetCh.latex.substring(0, insertIdx + edit.insert_after.length) +
-        "\n\n" +
-        edit.new_content +
-        "\n\n" +
-        targetCh.latex.substring(insertIdx + edit.insert_after.length);
-    }
+    if (!applyInsertion(chapters, edit, log)) continue;
 
     stats.editsApplied++;
     const wcAdded = edit.new_content.split(/\s+/).length;
@@ -187,26 +228,32 @@ export async function reviewAndReviseBook(
   }
 
   // ── Step 4: Post-revision score ──
+  let latest = result;
   if (stats.editsApplied > 0) {
+    await checkpoint?.();
     const postReview = await reviewBook(
       chapters,
       bookTopic,
       bookTitle,
       guidelines,
+      voice,
       language,
+      prompts,
       log,
     );
     stats.finalScore = postReview.score;
     stats.reviewTokens += postReview._tokens || 0;
     log.ok(
       `Post-revision score: ${postReview.score}/10 (was ${stats.originalScore}/10)`,
+      { kind: "review", score: postReview.score, final: true },
     );
+    latest = withoutTokens(postReview);
   } else {
     stats.finalScore = stats.originalScore;
     log.step("No edits applied — score unchanged");
   }
 
-  return { chapters, stats };
+  return { chapters, stats, review: latest };
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -218,7 +265,9 @@ async function reviewBook(
   bookTopic: string,
   bookTitle: string,
   guidelines: string,
+  voice: VoiceProfile,
   language: string,
+  prompts: PromptSet,
   log: any,
 ): Promise<ReviewResult & { _tokens: number }> {
   const langName = getLangName(language);
@@ -248,48 +297,18 @@ async function reviewBook(
     })
     .join("\n\n");
 
-  const prompt = `You are an expert book editor reviewing a completed eBook.
-
-BOOK: "${bookTitle}"
-TOPIC: ${bookTopic}
-LANGUAGE: ${langName}
-${guidelines ? `AUTHOR GUIDELINES: ${guidelines}` : ""}
-
-TASK: Review the complete book text below and evaluate its quality.
-
-EVALUATE:
-1. COMPLETENESS — Does it cover all essential subtopics a reader would expect? What's missing?
-2. REDUNDANCY — Are there sections that repeat the same information across chapters?
-3. OFF-TOPIC CONTENT — Is there anything that doesn't belong?
-4. OPENING & CLOSING — Does the book have a strong start and satisfying conclusion?
-5. PRACTICAL VALUE — Would a reader find this actionable and useful?
-
-SCORING (1-10):
-- 9-10: Excellent, publish-ready
-- 7-8: Good, minor gaps only
-- 5-6: Decent, notable missing topics
-- 1-4: Major problems
-
-RULES:
-- missing_topics: Only list topics that are ESSENTIAL for the reader. Max 3 topics.
-- redundancies: Only flag if the SAME specific point is made in 2+ chapters
-- removals: Only flag truly off-topic or redundant content worth removing
-- needs_revision: true if score < 8 AND there are actionable improvements
-- Be strict but fair — a 35-page ebook can't cover everything
-
-RESPOND ONLY with valid JSON (no markdown, no commentary):
-{
-  "missing_topics": ["topic1", "topic2"],
-  "redundancies": [{"chapters": [1, 2], "description": "Both chapters explain X"}],
-  "removals": [{"chapter": 1, "description": "Section about Y is off-topic"}],
-  "score": 7,
-  "needs_revision": true,
-  "summary": "Brief 1-sentence assessment"
-}`;
-
-  const response = await anthropic.messages.create({
+  const { text: prompt } = prompts.render("review.book", {
+    bookTitle,
+    bookTopic,
+    lang: langName,
+    ...reviewVoiceVars(voice),
+    guidelines,
+  });
+
+  const response = await getLlm().complete({
+    task: "review",
     model: REVIEW_MODEL,
-    max_tokens: 800,
+    maxTokens: 800,
     temperature: 0.2,
     messages: [
       {
@@ -299,18 +318,10 @@ RESPOND ONLY with valid JSON (no markdown, no commentary):
     ],
   });
 
-  const text =
-    response.content[0].type === "text"
-      ? response.content[0].text.trim()
-      : "{}";
-  const tokens =
-    (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0);
-
-  log.api?.(
-    REVIEW_MODEL,
-    response.usage?.input_tokens || 0,
-    response.usage?.output_tokens || 0,
-  );
+  const text = response.text.trim() || "{}";
+  const tokens = response.usage.inputTokens + response.usage.outputTokens;
+
+  log.api?.(response);
 
   try {
     const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -340,6 +351,13 @@ RESPOND ONLY with valid JSON (no markdown, no commentary):
   }
 }
 
+function withoutTokens({
+  _tokens,
+  ...review
+}: ReviewResult & { _tokens: number }): ReviewResult {
+  return review;
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Step 2: Generate insertion for a missing topic
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -350,6 +368,7 @@ async function generateInsertion(
   bookTopic: string,
   bookTitle: string,
   language: string,
+  prompts: PromptSet,
   log: any,
 ): Promise<InsertEdit & { _tokens: number }> {
   const langName = getLangName(language);
@@ -379,61 +398,26 @@ async function generateInsertion(
     return { chapter: ch.number, marker: null, context: "" };
   });
 
-  const prompt = `You are writing a MISSING section for an eBook.
-
-BOOK: "${bookTitle}" | TOPIC: ${bookTopic} | LANGUAGE: ${langName}
-
-THE BOOK HAS THESE CHAPTERS:
-${chaptersOverview}
-
-MISSING TOPIC TO ADD: "${missingTopic}"
-
-YOUR TASK:
-1. Decide which chapter this topic BEST fits into
-2. Write a new \\subsection{} covering this topic (~150-300 words)
-3. Identify a UNIQUE string from the target chapter's LaTeX to insert AFTER
-
-WRITING RULES:
-- Write in ${langName}
-- Use the same LaTeX conventions: \\subsection{}, \\textbf{}, \\textit{}
-- Include at least 1 concrete example, number, or named reference
-- You can use \\begin{tipbox}{Title}...\\end{tipbox} or \\begin{warningbox}{Title}...\\end{warningbox}
-- Do NOT include \\chapter{} or \\section{} — only \\subsection{} level
-- Content must be self-contained but fit naturally into the chapter flow
-
-RESPOND ONLY with valid JSON:
-{
-  "target_chapter": 2,
-  "insert_after": "\\\\end{keyinsight}",
-  "reasoning": "This topic fits in chapter 2 because...",
-  "new_content": "\\\\subsection{Title}\\n\\nContent here..."
-}
-
-CRITICAL:
-- insert_after must be a VERBATIM string that appears EXACTLY ONCE in the target chapter
-- Prefer inserting after \\end{keyinsight} or \\end{tipbox} boundaries
-- Escape backslashes in JSON: use \\\\ for LaTeX backslash
-- new_content must be complete, valid LaTeX (all environments closed)`;
+  const { text: prompt } = prompts.render("review.insert", {
+    bookTitle,
+    bookTopic,
+    lang: langName,
+    chaptersOverview,
+    missingTopic,
+  });
 
-  const response = await anthropic.messages.create({
+  const response = await getLlm().complete({
+    task: "review-insert",
     model: REVISION_MODEL,
-    max_tokens: 2000,
+    maxTokens: 2000,
     temperature: 0.3,
     messages: [{ role: "user", content: prompt }],
   });
 
-  const text =
-    response.content[0].type === "text"
-      ? response.content[0].text.trim()
-      : "{}";
-  const tokens =
-    (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0);
-
-  log.api?.(
-    REVISION_MODEL,
-    response.usage?.input_tokens || 0,
-    response.usage?.output_tokens || 0,
-  );
+  const text = response.text.trim() || "{}";
+  const tokens = response.usage.inputTokens + response.usage.outputTokens;
+
+  log.api?.(response);
 
   try {
     const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -464,6 +448,45 @@ CRITICAL:
   }
 }
 
+/**
+ * Splice an insertion into its target chapter (in place). Returns the
+ * chapter, or null when the edit is empty or names no known chapter.
+ */
+function applyInsertion(
+  chapters: ChapterData[],
+  edit: InsertEdit,
+  log: any,
+): ChapterData | null {
+  if (!edit.insert_after || !edit.new_content) {
+    log.warn(`    Claude returned empty edit — skipping`);
+    return null;
+  }
+
+  const targetCh = chapters.find((c) => c.number === edit.target_chapter);
+  if (!targetCh) {
+    log.warn(`    Target chapter ${edit.target_chapter} not found — skipping`);
+    return null;
+  }
+
+  // Find the insertion point
+  const insertIdx = targetCh.latex.indexOf(edit.insert_after);
+  if (insertIdx === -1) {
+    // Fallback: try to insert before the last \section or at the end
+    log.warn(
+      `    Could not find "${edit.insert_after.substring(0, 40)}..." — appending to chapter end`,
+    );
+    targetCh.latex += "\n\n" + edit.new_content;
+  } else {
+    targetCh.latex =
+      targetCh.latex.substring(0, insertIdx + edit.insert_after.length) +
+      "\n\n" +
+      edit.new_content +
+      "\n\n" +
+      targetCh.latex.substring(insertIdx + edit.insert_after.length);
+  }
+  return targetCh;
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Step 3: Generate removal boundaries for redundant content
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -472,50 +495,28 @@ async function generateRemoval(
   chapter: ChapterData,
   removalDescription: string,
   language: string,
+  prompts: PromptSet,
   log: any,
 ): Promise<RemovalEdit & { _tokens: number }> {
-  const prompt = `You need to identify the EXACT boundaries of content to remove from a LaTeX chapter.
-
-CHAPTER ${chapter.number}: "${chapter.title}"
-WHAT TO REMOVE: ${removalDescription}
-
-Find two UNIQUE strings from the LaTeX that mark the START and END of the content to remove.
-
-RULES:
-- remove_start: First few words of the paragraph/section to remove (must be unique in the text)
-- remove_end: Last few words + closing command of the content to remove
-- Be PRECISE — only mark the redundant/off-topic content, not surrounding material
-- Include enough context (20-40 chars) to ensure uniqueness
-
-RESPOND ONLY with valid JSON:
-{
-  "remove_start": "exact string from LaTeX",
-  "remove_end": "exact string from LaTeX",
-  "chars_to_remove": 500
-}
-
-CHAPTER LATEX:
-${chapter.latex.substring(0, 15000)}`;
+  const { text: prompt } = prompts.render("review.remove", {
+    chapterNumber: chapter.number,
+    chapterTitle: chapter.title,
+    removalDescription,
+    chapterLatex: chapter.latex.substring(0, 15000),
+  });
 
-  const response = await anthropic.messages.create({
+  const response = await getLlm().complete({
+    task: "review-remove",
     model: REVIEW_MODEL, // Haiku is enough for locating text
-    max_tokens: 300,
+    maxTokens: 300,
     temperature: 0.1,
     messages: [{ role: "user", content: prompt }],
   });
 
-  const text =
-    response.content[0].type === "text"
-      ? response.content[0].text.trim()
-      : "{}";
-  const tokens =
-    (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0);
-
-  log.api?.(
-    REVIEW_MODEL,
-    response.usage?.input_tokens || 0,
-    response.usage?.output_tokens || 0,
-  );
+  const text = response.text.trim() || "{}";
+  const tokens = response.usage.inputTokens + response.usage.outputTokens;
+
+  log.api?.(response, { chapter: chapter.number });
 
   try {
     const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -538,6 +539,312 @@ ${chapter.latex.substring(0, 15000)}`;
   }
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Stored reviews — re-review on demand, insert a suggested topic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function parseReview(row: {
+  id: string;
+  source: string;
+  result: string;
+  stats: string;
+  appliedTopics: string;
+  createdAt: Date;
+}): StoredReview {
+  return {
+    id: row.id,
+    source: row.source as ReviewSource,
+    result: JSON.parse(row.result),
+    stats: JSON.parse(row.stats),
+    appliedTopics: JSON.parse(row.appliedTopics),
+    createdAt: row.createdAt,
+  };
+}
+
+/** Reviews of a book, newest first */
+export async function loadBookReviews(
+  projectId: string,
+  take = 20,
+): Promise<StoredReview[]> {
+  const rows = await prisma.bookReview.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+  return rows.map(parseReview);
+}
+
+export async function saveBookReview(
+  projectId: string,
+  source: ReviewSource,
+  result: ReviewResult,
+  stats: ReviewStats,
+): Promise<StoredReview> {
+  const row = await prisma.bookReview.create({
+    data: {
+      projectId,
+      source,
+      result: JSON.stringify(result),
+      stats: JSON.stringify(stats),
+    },
+  });
+  return parseReview(row);
+}
+
+/**
+ * A finished non-fiction book with no chapter being rewritten. Other queued
+ * jobs are kept out by the queue itself (one job per project).
+ */
+function assertReviewable(project: {
+  genre: string;
+  currentStage: string;
+  chapters: Array<{ status: string }>;
+}) {
+  if (isFiction(project.genre)) {
+    throw new ReviewUnavailableError(
+      "The editorial review covers non-fiction books only",
+      400,
+    );
+  }
+  if (project.currentStage !== "COMPLETED") {
+    throw new ReviewUnavailableError(
+      "Book must be completed before reviewing",
+      400,
+    );
+  }
+  if (project.chapters.some((c) => c.status === "GENERATING")) {
+    throw new ReviewUnavailableError(JOB_PENDING_ERROR, 409);
+  }
+}
+
+/** The latest review, if it suggests this topic and it is not inserted yet */
+async function requireSuggestedTopic(projectId: string, topic: string) {
+  const [latest] = await loadBookReviews(projectId, 1);
+  if (!latest?.result.missing_topics.includes(topic)) {
+    throw new ReviewUnavailableError(
+      "Topic is not suggested by the latest review",
+      404,
+    );
+  }
+  if (latest.appliedTopics.includes(topic)) {
+    throw new ReviewUnavailableError("Topic was already inserted", 409);
+  }
+  return latest;
+}
+
+/** A finished book, idle, with its chapters in review form */
+async function loadBookForReview(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      structure: true,
+      chapters: { orderBy: { chapterNumber: "asc" } },
+    },
+  });
+  if (!project) throw new ReviewUnavailableError("Project not found", 404);
+  assertReviewable(project);
+
+  const structureData = project.structure
+    ? JSON.parse(project.structure.structureJson)
+    : {};
+  // Front/back matter is written from the chapters — not reviewed itself
+  const chapters: ChapterData[] = project.chapters
+    .filter((c) => c.kind === "chapter" && c.latexContent)
+    .map((c) => ({
+      number: c.chapterNumber,
+      title: c.title,
+      latex: c.latexContent!,
+    }));
+  return {
+    project,
+    chapters,
+    bookTitle: structureData.suggestedTitle || project.title || project.topic,
+    promptSet: await loadPromptSet(project.language, project.promptVariant),
+  };
+}
+
+/** Revisions only — a re-review is refused once they are skipped */
+async function requireBudget(
+  projectId: string,
+  step: string,
+  log: ReturnType<typeof createPipelineLogger>,
+) {
+  const spend = await checkSpend(projectId, step, log, { canHalt: false });
+  if (spend.has("skip-revisions")) {
+    throw new ReviewUnavailableError(
+      "This book is near its spend cap — contact support",
+      403,
+    );
+  }
+}
+
+/**
+ * What rerunReview / insertSuggestedTopic (with a topic) would refuse before
+ * calling the model — routes check it before queueing the job.
+ */
+export async function checkReviewRequest(
+  projectId: string,
+  topic?: string,
+): Promise<void> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      genre: true,
+      currentStage: true,
+      chapters: { select: { status: true } },
+    },
+  });
+  if (!project) throw new ReviewUnavailableError("Project not found", 404);
+  assertReviewable(project);
+  if (topic !== undefined) await requireSuggestedTopic(projectId, topic);
+
+  const log = createPipelineLogger("REVIEW", projectId);
+  await requireBudget(
+    projectId,
+    topic === undefined ? "re-review" : "review insertion",
+    log,
+  );
+}
+
+/**
+ * Review the book as it stands now, e.g. after the user's own edits.
+ * Nothing is changed — missing topics can then be inserted one by one.
+ * Runs as the worker's "review" job.
+ */
+export async function rerunReview(
+  projectId: string,
+  source: ReviewSource,
+): Promise<StoredReview> {
+  const log = createPipelineLogger("REVIEW", projectId);
+  const book = await loadBookForReview(projectId);
+  await requireBudget(projectId, "re-review", log);
+
+  log.step("📋 Reviewing book completeness...");
+  const timer = log.timer();
+  const review = await reviewBook(
+    book.chapters,
+    book.project.topic,
+    book.bookTitle,
+    book.project.guidelines || "",
+    voiceProfileOf(book.project),
+    book.project.language,
+    book.promptSet,
+    log,
+  );
+  log.ok(`Review score: ${review.score}/10 (${timer()})`);
+
+  return saveBookReview(projectId, source, withoutTokens(review), {
+    reviewTokens: review._tokens,
+    revisionTokens: 0,
+    editsApplied: 0,
+    originalScore: review.score,
+    finalScore: review.score,
+  });
+}
+
+/**
+ * Write one missing topic of the latest review into the chapter the
+ * model picks. The previous chapter text is kept as a ChapterRevision.
+ * Runs as the worker's "review-insert" job.
+ */
+export async function insertSuggestedTopic(
+  projectId: string,
+  topic: string,
+): Promise<{
+  chapterNumber: number;
+  actualWords: number;
+  review: StoredReview;
+}> {
+  const log = createPipelineLogger("REVIEW", projectId);
+  const latest = await requireSuggestedTopic(projectId, topic);
+
+  const book = await loadBookForReview(projectId);
+  await requireBudget(projectId, "review insertion", log);
+
+  log.step(`  ➕ Adding: "${topic}"...`);
+  const timer = log.timer();
+  const edit = await generateInsertion(
+    book.chapters,
+    topic,
+    book.project.topic,
+    book.bookTitle,
+    book.project.language,
+    book.promptSet,
+    log,
+  );
+  const target = applyInsertion(book.chapters, edit, log);
+  const rec = book.project.chapters.find(
+    (c) => c.chapterNumber === target?.number,
+  );
+  if (!target || !rec) {
+    throw new ReviewUnavailableError(
+      "The topic could not be placed — try again",
+      502,
+    );
+  }
+
+  const wordCount = countWords(target.latex);
+  const wpp = getWordsPerPage(book.project.bookFormat);
+  const row = await prisma.$transaction(async (tx) => {
+    // Compare-and-set: a save made while the model was writing wins
+    const { count } = await tx.chapter.updateMany({
+      where: { id: rec.id, updatedAt: rec.updatedAt },
+      data: {
+        latexContent: target.latex,
+        actualWords: wordCount,
+        actualPages: wordCount / wpp,
+      },
+    });
+    if (count === 0) {
+      throw new ReviewUnavailableError(
+        `Chapter ${target.number} was edited meanwhile — insert the topic again`,
+        409,
+      );
+    }
+    const lastRevision = await tx.chapterRevision.findFirst({
+      where: { chapterId: rec.id },
+      orderBy: { revision: "desc" },
+      select: { revision: true },
+    });
+    await tx.chapterRevision.create({
+      data: {
+        chapterId: rec.id,
+        projectId,
+        revision: (lastRevision?.revision || 0) + 1,
+        latexContent: rec.latexContent!,
+        actualWords: rec.actualWords,
+        source: "review:insert",
+        feedback: topic,
+      },
+    });
+    return tx.bookReview.update({
+      where: { id: latest.id },
+      data: {
+        appliedTopics: JSON.stringify([...latest.appliedTopics, topic]),
+      },
+    });
+  });
+  await refreshChapterRegistry(
+    rec.id,
+    target.number,
+    target.title,
+    target.latex,
+    book.project.language,
+    book.project.genre,
+    book.promptSet,
+    log,
+  );
+
+  log.ok(
+    `    +${countWords(edit.new_content)} words in Ch.${target.number} (${timer()})`,
+  );
+  return {
+    chapterNumber: target.number,
+    actualWords: wordCount,
+    review: parseReview(row),
+  };
+}
+
 // ━━━ Helpers ━━━
 
 function getLangName(c: string): string {
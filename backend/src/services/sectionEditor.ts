@@ -0,0 +1,323 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Section Editor
+// Targeted \section{} edits: rewrite, expand, insert-after
+// Surrounding chapter text goes in as context so the voice still matches
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { prisma } from "../lib/prisma";
+import { getWordsPerPage } from "../lib/types";
+import { createPipelineLogger } from "../lib/logger";
+import { getLlm, MODELS } from "../lib/llm";
+import { checkSpend } from "../lib/spendCap";
+import { loadPromptSet, type PromptRef } from "../lib/prompts";
+import { formatTermsForPrompt, loadGlossary } from "./glossaryService";
+import {
+  loadResearch,
+  loadChapterResearch,
+  mergeResearchForPrompt,
+} from "./researchService";
+import {
+  cleanLatex,
+  deAIfy,
+  sanitizeGeneratedLatex,
+  countWords,
+  getLangName,
+  refreshChapterRegistry,
+} from "./contentGenerator";
+import { voiceProfileOf } from "./voiceProfile";
+import { isFiction } from "./narrativeMode";
+
+const SECTION_MODEL = MODELS.writer;
+
+// Context windows around the edited section
+const BEFORE_CONTEXT_CHARS = 6000;
+const AFTER_CONTEXT_CHARS = 3000;
+
+export type SectionAction = "rewrite" | "expand" | "insert_after";
+
+export interface LatexSection {
+  title: string;
+  /** Offset of "\section{" in the chapter LaTeX */
+  start: number;
+  /** Offset where the next \section (or end of chapter) begins */
+  end: number;
+}
+
+export interface SectionEditRequest {
+  sectionTitle: string;
+  action: SectionAction;
+  instructions?: string;
+  /** insert_after only — heading of the new section */
+  newTitle?: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Locate sections
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Allows one level of nested braces in the title, e.g. \section{The \textit{X} factor} */
+const SECTION_RE = /\\section\*?\{((?:[^{}]|\{[^{}]*\})*)\}/g;
+
+export function findSections(latex: string): LatexSection[] {
+  const matches = [...latex.matchAll(SECTION_RE)];
+  return matches.map((m, i) => ({
+    title: m[1].trim(),
+    start: m.index!,
+    end: i + 1 < matches.length ? matches[i + 1].index! : latex.length,
+  }));
+}
+
+export function normalizeTitle(t: string): string {
+  return t
+    .replace(/\\[a-zA-Z]+\{([^}]*)\}/g, "$1")
+    .replace(/[{}\\]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+export function findSection(
+  latex: string,
+  title: string,
+): LatexSection | null {
+  const wanted = normalizeTitle(title);
+  return (
+    findSections(latex).find((s) => normalizeTitle(s.title) === wanted) ||
+    null
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Main entry
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function editSection(
+  projectId: string,
+  chapterNumber: number,
+  req: SectionEditRequest,
+) {
+  const log = createPipelineLogger("SECTION-EDIT", projectId);
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { structure: true },
+  });
+  if (!project || !project.structure)
+    throw new Error("Project or structure not found");
+
+  const rec = await prisma.chapter.findUnique({
+    where: { projectId_chapterNumber: { projectId, chapterNumber } },
+  });
+  if (!rec?.latexContent)
+    throw new Error(`Chapter ${chapterNumber} not found or has no content`);
+
+  const latex = rec.latexContent;
+  const section = findSection(latex, req.sectionTitle);
+  if (!section)
+    throw new Error(`Section "${req.sectionTitle}" not found in chapter`);
+
+  const wpp = getWordsPerPage(project.bookFormat);
+  const lang = getLangName(project.language);
+  const structureData = JSON.parse(project.structure.structureJson);
+  const bookTitle =
+    structureData.suggestedTitle || project.title || project.topic;
+
+  // ── Section plan from the approved structure ──
+  const chapterPlan = (structureData.chapters || []).find(
+    (c: any) => c.number === chapterNumber,
+  );
+  const sectionPlan = (chapterPlan?.sections || []).find(
+    (s: any) => normalizeTitle(s.title) === normalizeTitle(section.title),
+  );
+
+  const sectionLatex = latex.substring(section.start, section.end);
+  const currentWords = countWords(sectionLatex);
+  const plannedWords = sectionPlan
+    ? Math.round(sectionPlan.targetPages * wpp)
+    : currentWords;
+
+  let targetWords: number;
+  switch (req.action) {
+    case "expand":
+      targetWords = Math.max(
+        plannedWords,
+        Math.round(currentWords * 1.6),
+        currentWords + 300,
+      );
+      break;
+    case "insert_after":
+      targetWords = Math.max(300, plannedWords);
+      break;
+    default:
+      targetWords = Math.max(plannedWords, currentWords);
+  }
+
+  log.header("Section Edit", {
+    Book: bookTitle,
+    Chapter: `${chapterNumber} "${rec.title}"`,
+    Section: section.title,
+    Action: req.action,
+    Target: `${targetWords} words (now ${currentWords})`,
+  });
+
+  // ── Context ──
+  const before = latex.substring(
+    Math.max(0, section.start - BEFORE_CONTEXT_CHARS),
+    section.start,
+  );
+  const after = latex.substring(
+    section.end,
+    section.end + AFTER_CONTEXT_CHARS,
+  );
+
+  const fiction = isFiction(project.genre);
+  const globalResearch = fiction ? null : await loadResearch(projectId);
+  const chapterResearch = fiction
+    ? null
+    : await loadChapterResearch(projectId, chapterNumber);
+  const { text: sourcesText, hasResearch } = mergeResearchForPrompt(
+    globalResearch,
+    chapterResearch,
+    6000,
+    20000,
+  );
+
+  const outline = (chapterPlan?.sections || [])
+    .map(
+      (s: any) =>
+        `  ${normalizeTitle(s.title) === normalizeTitle(section.title) ? "→" : " "} ${s.title} — ${s.description}`,
+    )
+    .join("\n");
+
+  const promptSet = await loadPromptSet(
+    project.language,
+    project.promptVariant,
+  );
+  const system = promptSet.render("section.system", {
+    bookTitle,
+    topic: project.topic,
+    chapterNumber,
+    chapterTitle: rec.title,
+    fiction,
+    guidelines: project.guidelines || "",
+    terminology: formatTermsForPrompt(await loadGlossary(projectId)),
+    hasResearch,
+    sourcesText,
+    outline: outline || "  (not available)",
+    workbook: project.workbook,
+    lang,
+  });
+
+  const heading =
+    req.action === "insert_after" ? req.newTitle! : section.title;
+  const user = promptSet.render("section.user", {
+    rewrite: req.action === "rewrite",
+    expand: req.action === "expand",
+    insertAfter: req.action === "insert_after",
+    sectionTitle: section.title,
+    newTitle: req.newTitle || "",
+    heading,
+    currentWords,
+    targetWords,
+    fiction,
+    plannedScope: sectionPlan?.description || "",
+    instructions: req.instructions || "",
+    before: before.trim() || "(start of chapter)",
+    section: sectionLatex.trim(),
+    after: after.trim() || "(end of chapter)",
+    lang,
+  });
+
+  const maxTok = Math.max(2000, Math.min(12000, Math.ceil(targetWords * 2.2)));
+  await checkSpend(projectId, `section edit ch${chapterNumber}`, log);
+  const apiTimer = log.timer();
+  log.claudeReq?.("section-edit", user.text);
+  const res = await getLlm().complete({
+    task: "section-edit",
+    model: SECTION_MODEL,
+    maxTokens: maxTok,
+    system: system.text,
+    messages: [{ role: "user", content: user.text }],
+  });
+
+  let out = sanitizeGeneratedLatex(
+    deAIfy(
+      cleanLatex(res.text),
+      project.language,
+      voiceProfileOf(project).tone,
+    ),
+  );
+  out = out.replace(/\\chapter\*?\{[^}]*\}\s*/g, "");
+  log.claudeRes?.("section-edit", out);
+
+  const inTok = res.usage.inputTokens;
+  const outTok = res.usage.outputTokens;
+  log.api(res, { chapter: chapterNumber });
+  log.ok(`Section written: ${countWords(out)} words (${apiTimer()})`);
+
+  if (!/^\\section\*?\{/.test(out)) out = `\\section{${heading}}\n\n${out}`;
+
+  // ── Splice back into the chapter ──
+  const newLatex =
+    req.action === "insert_after"
+      ? `${latex.substring(0, section.end).trimEnd()}\n\n${out.trim()}\n\n${latex.substring(section.end).trimStart()}`
+      : `${latex.substring(0, section.start)}${out.trim()}\n\n${latex.substring(section.end).trimStart()}`;
+
+  const lastRevision = await prisma.chapterRevision.findFirst({
+    where: { chapterId: rec.id },
+    orderBy: { revision: "desc" },
+    select: { revision: true },
+  });
+  const wordCount = countWords(newLatex);
+  const tokens = inTok + outTok;
+  // The chapter text now comes from the writer and this edit
+  const promptRefs = [
+    ...JSON.parse(rec.promptRefs || "[]").filter(
+      (r: PromptRef) => r.key !== system.ref.key && r.key !== user.ref.key,
+    ),
+    system.ref,
+    user.ref,
+  ];
+
+  await prisma.$transaction([
+    prisma.chapterRevision.create({
+      data: {
+        chapterId: rec.id,
+        projectId,
+        revision: (lastRevision?.revision || 0) + 1,
+        latexContent: latex,
+        actualWords: rec.actualWords,
+        source: `section:${req.action}`,
+        feedback: [section.title, req.newTitle, req.instructions]
+          .filter(Boolean)
+          .join(" | "),
+      },
+    }),
+    prisma.chapter.update({
+      where: { id: rec.id },
+      data: {
+        latexContent: newLatex,
+        actualWords: wordCount,
+        actualPages: wordCount / wpp,
+        status: "LATEX_READY",
+        promptRefs: JSON.stringify(promptRefs),
+      },
+    }),
+  ]);
+  await refreshChapterRegistry(
+    rec.id,
+    chapterNumber,
+    rec.title,
+    newLatex,
+    project.language,
+    project.genre,
+    promptSet,
+    log,
+  );
+
+  log.footer(
+    "SUCCESS",
+    `Ch ${chapterNumber} "${section.title}" ${req.action}: ${currentWords}→${countWords(out)} words, ${tokens.toLocaleString()} tokens`,
+  );
+  return { wordCount, tokensUsed: tokens };
+}
@@ -3,13 +3,19 @@
 // Research → Structure generation with real-world data
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-import Anthropic from "@anthropic-ai/sdk";
 import { prisma } from "../lib/prisma";
 import { getWordsPerPage, getPageSizeTier } from "../lib/types";
 import { createPipelineLogger } from "../lib/logger";
+import { getLlm, MODELS } from "../lib/llm";
+import { loadPromptSet, PromptRef, PromptSet } from "../lib/prompts";
 import { conductResearch, formatSourcesForPrompt } from "./researchService";
-
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+import {
+  VoiceProfile,
+  voiceProfileOf,
+  structureVoiceVars,
+} from "./voiceProfile";
+import { isFiction, promptKey, storyBibleOf } from "./narrativeMode";
+import { appendicesOf } from "./appendices";
 
 export async function generateStructure(projectId: string) {
   const log = createPipelineLogger("STRUCTURE", projectId);
@@ -22,6 +28,8 @@ export async function generateStructure(projectId: string) {
     Pages: `${project.targetPages} (${project.bookFormat})`,
     Language: project.language,
     Style: project.stylePreset,
+    Genre: project.genre,
+    Audience: `${project.audience} / ${project.tone} / ${project.readingLevel}`,
     Guidelines: (project.guidelines || "none").substring(0, 100),
   });
 
@@ -33,11 +41,14 @@ export async function generateStructure(projectId: string) {
   // ━━━ Phase 1: Conduct research ━━━
   log.phase(1, "Web Research");
   const researchTimer = log.timer();
-  const research = await conductResearch(projectId);
-  const sourcesText = formatSourcesForPrompt(research, 20000);
-  const hasResearch = research.selectedSources.length > 0;
-
-  if (hasResearch) {
+  const fiction = isFiction(project.genre);
+  const research = fiction ? null : await conductResearch(projectId);
+  const sourcesText = research ? formatSourcesForPrompt(research, 20000) : "";
+  const hasResearch = !!research && research.selectedSources.length > 0;
+
+  if (fiction) {
+    log.step("Fiction — no web research, the story comes from the premise");
+  } else if (research && hasResearch) {
     log.ok(
       `Research complete: ${research.selectedSources.length} sources, ${research.totalSourcesLength.toLocaleString()} chars (${researchTimer()})`,
     );
@@ -56,21 +67,28 @@ export async function generateStructure(projectId: string) {
 
   log.data(
     "Tier",
-    `${tier.label} (${tier.chapters} chapters, ${tier.sectionsPerChapter} sections each)`,
+    `${tier.label} (${tier.chapters} chapters, ${tier.sectionsPerChapter} sections each, ≤${tier.appendixPages}p appendices)`,
   );
   log.data("Words/page", wpp);
   log.data("Total target words", totalWords.toLocaleString());
 
-  const prompt = buildStructurePrompt({
+  const prompts = await loadPromptSet(
+    project.language,
+    project.promptVariant,
+  );
+  const { text: prompt, ref: promptRef } = buildStructurePrompt(prompts, {
     topic: project.topic,
     title: project.title,
     targetPages: project.targetPages,
     language: project.language,
     stylePreset: project.stylePreset,
+    voice: voiceProfileOf(project),
+    genre: project.genre,
     guidelines: project.guidelines,
     bookFormat: project.bookFormat,
     chapters: tier.chapters,
     sectionsPerChapter: tier.sectionsPerChapter,
+    appendixPages: tier.appendixPages,
     totalWords,
     wpp,
     sourcesText,
@@ -78,24 +96,24 @@ export async function generateStructure(projectId: string) {
   });
 
   log.data("Prompt length", `${prompt.length.toLocaleString()} chars`);
+  log.data(
+    "Prompt template",
+    `${promptRef.key} v${promptRef.version} (${promptRef.variant})`,
+  );
   log.step("Calling Claude API...");
 
   try {
     const apiTimer = log.timer();
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-5",
-      max_tokens: 8000,
+    const response = await getLlm().complete({
+      task: "structure",
+      model: MODELS.writer,
+      maxTokens: 8000,
       messages: [{ role: "user", content: prompt }],
     });
 
-    const text =
-      response.content[0].type === "text" ? response.content[0].text : "";
-    const stopReason = response.stop_reason;
-    log.api(
-      "claude-sonnet-4-5",
-      response.usage?.input_tokens || 0,
-      response.usage?.output_tokens || 0,
-    );
+    const text = response.text;
+    const stopReason = response.stopReason;
+    log.api(response);
     log.ok(
       `API response: ${text.length.toLocaleString()} chars, stop: ${stopReason} (${apiTimer()})`,
     );
@@ -137,6 +155,12 @@ export async function generateStructure(projectId: string) {
     if (structure.suggestedTitle) {
       log.ok(`Title: "${structure.suggestedTitle}"`);
     }
+    if (fiction) {
+      const bible = storyBibleOf(structure);
+      log.ok(
+        `Cast: ${bible.characters.map((c) => c.name).join(", ") || "(none)"}`,
+      );
+    }
     if (structure.chapters) {
       log.ok(`Chapters: ${structure.chapters.length}`);
       let totalPages = 0;
@@ -160,6 +184,12 @@ export async function generateStructure(projectId: string) {
       }
     }
 
+    const appendices = appendicesOf(structure);
+    structure.appendices = appendices;
+    for (const a of appendices) {
+      log.step(`  App.${a.letter}: "${a.title}" — ${a.targetPages}p`);
+    }
+
     // Update title if not set
     if (!project.title && structure.suggestedTitle) {
       await prisma.project.update({
@@ -178,11 +208,13 @@ export async function generateStructure(projectId: string) {
         structureJson: JSON.stringify(structure),
         generationPrompt: prompt,
         generationResponse: text,
+        promptRefs: JSON.stringify([promptRef]),
       },
       update: {
         structureJson: JSON.stringify(structure),
         generationPrompt: prompt,
         generationResponse: text,
+        promptRefs: JSON.stringify([promptRef]),
         version: { increment: 1 },
       },
     });
@@ -221,102 +253,42 @@ interface StructurePromptParams {
   targetPages: number;
   language: string;
   stylePreset: string;
+  voice: VoiceProfile;
+  genre: string;
   guidelines: string | null;
   bookFormat: string;
   chapters: number;
   sectionsPerChapter: string;
+  appendixPages: number;
   totalWords: number;
   wpp: number;
   sourcesText: string;
   hasResearch: boolean;
 }
 
-function buildStructurePrompt(p: StructurePromptParams): string {
-  const langInstruction = getLangInstruction(p.language);
-
-  return `You are an expert book editor planning a professional, data-rich eBook. Your job is to create a structure that will FORCE the writer to produce expert-level content — not generic AI filler.
-
-BOOK SPECS:
-Topic: ${p.topic}
-${p.title ? `Title: ${p.title}` : ""}
-Target: ${p.targetPages} pages (${p.bookFormat.toUpperCase()}, ~${p.wpp} words/page = ~${p.totalWords} total words)
-Language: ${p.language} | Style: ${p.stylePreset}
-${p.guidelines ? `Author guidelines: ${p.guidelines}` : ""}
-
-${
-  p.hasResearch
-    ? `
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-RESEARCH SOURCES — USE THESE TO BUILD A DATA-DRIVEN STRUCTURE
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-Your structure MUST be grounded in what the research reveals:
-- Identify the most substantive topics covered across sources
-- Note specific tools, companies, regulations, and case studies mentioned
-- Build chapters around REAL findings, not hypothetical topics
-- If sources reveal industry data/stats, plan sections that analyze them
-- Prioritize topics where sources provide enough depth for expert-level writing
-
-${p.sourcesText}
-`
-    : `
-No web research sources available. Plan structure based on your expert knowledge.
-Focus on topics where you can provide SPECIFIC, verifiable information — not vague overviews.
-`
-}
-
-═══════════════════════════════════════════════════════════════
-STRUCTURE QUALITY RULES
-═══════════════════════════════════════════════════════════════
-
-CHAPTER DESIGN PRINCIPLES:
-- Each chapter should have a CLEAR THESIS or argument, not just "about topic X"
-- BAD chapter: "Introduction to AI Tools" → GOOD: "Why 80% of AI Tool Adoption Fails — And What the 20% Do Differently"
-- Chapters should BUILD on each other: foundational → applied → advanced → strategic
-- Avoid the trap of Chapter 1 = "What is X" / Chapter 2 = "Why X matters" — readers know what they bought
-
-SECTION DESCRIPTIONS — these are INSTRUCTIONS for the writer. Make them specific:
-- BAD: "Overview of popular AI writing tools" → The writer will produce a generic list
-- GOOD: "Compare GPT-4, Claude, and Gemini for long-form content: pricing per 1M tokens, context window limits, output quality for Polish/multilingual text. Include a decision matrix: when to use which model based on task type (blog posts vs technical docs vs ad copy). Reference the Stanford HAI benchmark data."
-- Each description should NAME specific things to include: companies, tools, frameworks, data sources
-- Include the ANGLE or argument the section should make, not just the topic
-
-WHAT TO AVOID IN STRUCTURE:
-- Generic "introduction" chapters that waste 25% of the book on basics
-- Sections that are just lists of tools without analysis
-- "Future trends" sections that speculate without substance
-- Padding sections: "Best practices" or "Tips and tricks" without specific frameworks
-- Mirror chapters: two sections that cover the same ground from slightly different angles
-
-CRITICAL FORMATTING RULES:
-- Create EXACTLY ${p.chapters} chapters
-- Each chapter: ${p.sectionsPerChapter} sections
-- Total pages MUST equal approximately ${p.targetPages}
-- ${langInstruction}
-- suggestedTitle should be specific and compelling — avoid generic titles
-
-Respond ONLY with valid JSON:
-{
-  "suggestedTitle": "Specific, Compelling Book Title",
-  "chapters": [
-    {
-      "id": "ch1",
-      "number": 1,
-      "title": "Specific Chapter Title With Clear Angle",
-      "description": "2-3 sentence brief: what thesis/argument this chapter makes, what concrete topics it covers, what the reader will be able to DO after reading it",
-      "targetPages": ${Math.round(p.targetPages / p.chapters)},
-      "sections": [
-        {
-          "id": "ch1-s1",
-          "title": "Section Title",
-          "description": "Detailed writing instructions: name specific tools/companies/data to include, the argument to make, concrete examples to use. This description drives content quality — be specific.",
-          "targetPages": 2,
-          "order": 0
-        }
-      ]
-    }
-  ]
-}`;
+function buildStructurePrompt(
+  prompts: PromptSet,
+  p: StructurePromptParams,
+): { text: string; ref: PromptRef } {
+  return prompts.render(promptKey("structure", p.genre), {
+    topic: p.topic,
+    title: p.title || "",
+    targetPages: p.targetPages,
+    bookFormat: p.bookFormat.toUpperCase(),
+    wpp: p.wpp,
+    totalWords: p.totalWords,
+    language: p.language,
+    stylePreset: p.stylePreset,
+    ...structureVoiceVars(p.voice),
+    guidelines: p.guidelines || "",
+    hasResearch: p.hasResearch,
+    sourcesText: p.sourcesText,
+    chapters: p.chapters,
+    sectionsPerChapter: p.sectionsPerChapter,
+    langInstruction: getLangInstruction(p.language),
+    pagesPerChapter: Math.round(p.targetPages / p.chapters),
+    appendixPages: p.appendixPages,
+  });
 }
 
 function getLangInstruction(lang: string): string {
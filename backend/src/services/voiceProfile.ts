@@ -0,0 +1,238 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Audience, Tone & Reading Level
+// Brief presets chosen with the project. They decide how the structure is
+// planned, the writer's voice rules and banned patterns, and what the
+// editorial review judges the book against. The defaults (practitioner,
+// conversational, standard) are the original BookForge voice.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { AUDIENCES, TONES, READING_LEVELS } from "../lib/types";
+import type { PromptVars } from "../lib/prompts";
+
+export type Audience = (typeof AUDIENCES)[number];
+export type Tone = (typeof TONES)[number];
+export type ReadingLevel = (typeof READING_LEVELS)[number];
+
+export interface VoiceProfile {
+  audience: Audience;
+  tone: Tone;
+  readingLevel: ReadingLevel;
+}
+
+export const DEFAULT_VOICE: VoiceProfile = {
+  audience: "practitioner",
+  tone: "conversational",
+  readingLevel: "standard",
+};
+
+export function isAudience(v: unknown): v is Audience {
+  return AUDIENCES.includes(v as Audience);
+}
+
+export function isTone(v: unknown): v is Tone {
+  return TONES.includes(v as Tone);
+}
+
+export function isReadingLevel(v: unknown): v is ReadingLevel {
+  return READING_LEVELS.includes(v as ReadingLevel);
+}
+
+/** Project columns → profile; unknown values fall back to the defaults */
+export function voiceProfileOf(project: {
+  audience: string;
+  tone: string;
+  readingLevel: string;
+}): VoiceProfile {
+  return {
+    audience: isAudience(project.audience)
+      ? project.audience
+      : DEFAULT_VOICE.audience,
+    tone: isTone(project.tone) ? project.tone : DEFAULT_VOICE.tone,
+    readingLevel: isReadingLevel(project.readingLevel)
+      ? project.readingLevel
+      : DEFAULT_VOICE.readingLevel,
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Presets
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+interface AudiencePreset {
+  label: string;
+  /** Structure planner — how to shape the chapters */
+  plan: string;
+  /** Writer — who is reading */
+  reader: string;
+  /** Review — what "good" means for this reader */
+  check: string;
+}
+
+const AUDIENCE_PRESETS: Record<Audience, AudiencePreset> = {
+  beginner: {
+    label: "Beginners new to the topic",
+    plan: "Readers are new to the topic. One opening chapter may lay the foundations (never more), then build skills step by step — each chapter should leave the reader able to try something.",
+    reader:
+      "Beginners new to the topic — define every term at first use, explain why before how, use everyday analogies, never assume prior knowledge",
+    check:
+      "Can a newcomer follow it without outside help? Undefined jargon and missing fundamentals are gaps.",
+  },
+  practitioner: {
+    label: "Practitioners working in the field",
+    plan: "Readers already work in the field — skip the basics and build chapters around methods, trade-offs and real cases.",
+    reader:
+      "Practitioners who already work in the field — skip the basics, give them methods, numbers and trade-offs they can use tomorrow",
+    check:
+      "Does a practitioner get methods they can apply? Basics they already know are padding.",
+  },
+  executive: {
+    label: "Executives and decision-makers",
+    plan: "Readers are decision-makers with little time — build chapters around decisions, costs, risks and ROI; keep implementation detail to what a decision needs.",
+    reader:
+      "Executives and decision-makers — lead with the decision and its business impact (cost, risk, ROI, time to value), summarize before you elaborate, no step-by-step implementation",
+    check:
+      "Does every chapter help a decision-maker decide? Missing cost, risk or ROI are gaps; implementation detail is padding.",
+  },
+  academic: {
+    label: "Academics and students",
+    plan: "Readers are academics and students — build chapters around concepts, theories, methods and the state of research; give the evidence base and its limits their own place.",
+    reader:
+      "Academics and students — precise concepts, evidence kept apart from interpretation, limitations and competing views discussed, claims attributed to sources",
+    check:
+      "Is it rigorous — concepts defined, evidence separated from opinion, limitations and competing views discussed?",
+  },
+};
+
+const TONE_LABELS: Record<Tone, string> = {
+  formal: "Formal",
+  conversational: "Conversational",
+  academic: "Academic",
+};
+
+/** VOICE & TONE bullets of the writer prompt */
+const TONE_RULES: Record<Tone, string[]> = {
+  conversational: [
+    "Write as a confident practitioner sharing hard-won knowledge, NOT as a lecturer",
+    'Use direct, concise sentences. Prefer "X does Y" over "It is worth noting that X has the capability to do Y"',
+    "Vary sentence length: mix short punchy statements with longer analytical ones",
+    'Address the reader directly with "you" when giving advice',
+    "Show opinions and take positions — experts have viewpoints, not just summaries",
+  ],
+  formal: [
+    "Write as a senior advisor briefing a professional reader — measured, precise, authoritative",
+    "Use complete, well-formed sentences; no contractions, slang or exclamation marks",
+    "Put recommendations impersonally (\"organisations should…\", \"the first step is…\") rather than addressing the reader as \"you\"",
+    "Take clear positions, and support each with evidence rather than rhetoric",
+    "Vary sentence length, but favour clarity over punch",
+  ],
+  academic: [
+    "Write as a scholar — precise terminology, careful argument, explicit reasoning",
+    'Write in the third person; never address the reader as "you"',
+    'Hedge in proportion to the evidence ("the data suggest", "in most studies") — never overclaim',
+    "Present competing positions before giving your own assessment",
+    "Build paragraphs as claim → evidence → interpretation",
+  ],
+};
+
+const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  basic: "Basic",
+  standard: "Standard",
+  advanced: "Advanced",
+};
+
+/** Extra VOICE & TONE bullet — the standard level adds none */
+const READING_LEVEL_RULES: Record<ReadingLevel, string | null> = {
+  basic:
+    "Plain language: short sentences (15–20 words on average), one idea per sentence, every technical term explained in plain words, a worked example for each concept",
+  standard: null,
+  advanced:
+    "Dense expert prose: assume the field's vocabulary, skip introductions to standard concepts, go deep on edge cases, trade-offs and recent developments",
+};
+
+/** AI clichés — banned whatever the preset */
+const BANNED_ALWAYS = [
+  '"In today\'s rapidly evolving..." / "In the dynamic world of..."',
+  '"It\'s worth noting that..." / "It\'s important to understand..."',
+  '"Let\'s dive into..." / "Let\'s explore..."',
+  '"In conclusion..." / "To summarize..."',
+  '"Whether you\'re a... or a..." / "From X to Y..."',
+  '"Game-changer" / "revolutionary" / "transformative" / "cutting-edge"',
+  '"Powerful tool" / "robust solution" / "comprehensive approach"',
+  '"Navigate the complexities" / "unlock the potential" / "harness the power"',
+  '"Fascinating" / "remarkable" / "dramatic" / "crucial" / "essential" (overuse)',
+  '"Landscape" (when describing an industry) / "paradigm shift" / "at the forefront"',
+  '"Delve into" / "realm of" / "tapestry of"',
+];
+
+const BANNED_BY_TONE: Record<Tone, string[]> = {
+  conversational: [
+    'Starting paragraphs with "Furthermore" / "Moreover" / "Additionally" — vary transitions',
+  ],
+  formal: [
+    'Contractions ("don\'t", "it\'s") and colloquialisms ("a ton of", "super", "pretty much")',
+    'Exclamation marks and rhetorical openers ("Ever wondered...?", "Here\'s the thing")',
+  ],
+  academic: [
+    'Addressing the reader ("you", "your") and imperatives ("Try this", "Start by")',
+    'Absolute claims without evidence ("proves", "always", "everyone knows", "without doubt")',
+    'Marketing superlatives ("best-in-class", "world-class", "must-have")',
+  ],
+};
+
+const BANNED_BY_READING_LEVEL: Record<ReadingLevel, string[]> = {
+  basic: [
+    "Unexplained acronyms or jargon",
+    "Sentences longer than ~30 words",
+  ],
+  standard: [],
+  advanced: [
+    'Textbook definitions of terms every practitioner knows ("X is a method that...")',
+  ],
+};
+
+/** Polish clichés — kept at the end of every list, as before */
+const BANNED_POLISH = [
+  '"W dzisiejszym dynamicznie zmieniającym się świecie" / "Nie jest tajemnicą, że"',
+  '"Warto zauważyć" / "Należy podkreślić" / "szeroki wybór" / "najwyższa jakość"',
+];
+
+const bullets = (lines: string[]) => lines.map((l) => `- ${l}`).join("\n");
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Prompt variables
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Variables of the "structure" template */
+export function structureVoiceVars(v: VoiceProfile): PromptVars {
+  return {
+    audience: AUDIENCE_PRESETS[v.audience].label,
+    tone: TONE_LABELS[v.tone],
+    readingLevel: READING_LEVEL_LABELS[v.readingLevel],
+    audiencePlan: AUDIENCE_PRESETS[v.audience].plan,
+  };
+}
+
+/** Variables of the "chapter.system" template */
+export function writerVoiceVars(v: VoiceProfile): PromptVars {
+  const rules = [...TONE_RULES[v.tone]];
+  const level = READING_LEVEL_RULES[v.readingLevel];
+  if (level) rules.push(level);
+  return {
+    reader: AUDIENCE_PRESETS[v.audience].reader,
+    voiceRules: bullets(rules),
+    bannedPatterns: bullets([
+      ...BANNED_ALWAYS,
+      ...BANNED_BY_TONE[v.tone],
+      ...BANNED_BY_READING_LEVEL[v.readingLevel],
+      ...BANNED_POLISH,
+    ]),
+  };
+}
+
+/** Variables of the "review.book" template */
+export function reviewVoiceVars(v: VoiceProfile): PromptVars {
+  return {
+    audience: `${AUDIENCE_PRESETS[v.audience].label} — ${TONE_LABELS[v.tone].toLowerCase()} tone, ${READING_LEVEL_LABELS[v.readingLevel].toLowerCase()} reading level`,
+    audienceCheck: AUDIENCE_PRESETS[v.audience].check,
+  };
+}
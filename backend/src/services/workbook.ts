@@ -0,0 +1,211 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Workbook Mode
+// Workbook projects end every section with exercises: multiple choice,
+// fill-in blanks, reflection prompts and worksheets with lines to write
+// on. Answers live inside the exercise (\correctchoice, \blank{},
+// \answer{}) — hidden in the chapter, collected into the Answer Key when
+// the book is compiled.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type ExerciseKind = "exercise" | "worksheet";
+
+export interface AnswerKeyEntry {
+  kind: ExerciseKind;
+  /** "3.2" — the chapter's position in the book, then the exercise's */
+  number: string;
+  title: string;
+  /** LaTeX fragments, in the order they appear in the exercise */
+  answers: string[];
+}
+
+export interface AnswerKeyChapter {
+  /** Position in the compiled book — what \thechapter prints */
+  position: number;
+  title: string;
+  entries: AnswerKeyEntry[];
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Labels
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+interface WorkbookLabels {
+  exercise: string;
+  worksheet: string;
+  answerKey: string;
+  chapter: string;
+}
+
+const LABELS: Record<string, WorkbookLabels> = {
+  en: {
+    exercise: "Exercise",
+    worksheet: "Worksheet",
+    answerKey: "Answer Key",
+    chapter: "Chapter",
+  },
+  pl: {
+    exercise: "Ćwiczenie",
+    worksheet: "Karta pracy",
+    answerKey: "Odpowiedzi",
+    chapter: "Rozdział",
+  },
+  de: {
+    exercise: "Übung",
+    worksheet: "Arbeitsblatt",
+    answerKey: "Lösungen",
+    chapter: "Kapitel",
+  },
+  es: {
+    exercise: "Ejercicio",
+    worksheet: "Hoja de trabajo",
+    answerKey: "Solucionario",
+    chapter: "Capítulo",
+  },
+  fr: {
+    exercise: "Exercice",
+    worksheet: "Fiche pratique",
+    answerKey: "Corrigés",
+    chapter: "Chapitre",
+  },
+};
+
+export function workbookLabels(language: string): WorkbookLabels {
+  return LABELS[language] || LABELS.en;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Parsing
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const EXERCISE_BEGIN_RE = /\\begin\{(exercise|worksheet)\}/g;
+
+export function hasExercises(latex: string | null): boolean {
+  return !!latex && /\\begin\{(?:exercise|worksheet)\}/.test(latex);
+}
+
+/** The {...} group opening at `open`, with nested and escaped braces */
+function readGroup(
+  text: string,
+  open: number,
+): { arg: string; end: number } | null {
+  if (text[open] !== "{") return null;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "{") depth++;
+    if (ch === "}" && --depth === 0) {
+      return { arg: text.slice(open + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Replaces every \name{arg} — the argument may hold nested commands, which
+ * a [^}]* pattern would cut short.
+ */
+export function replaceCommandArg(
+  latex: string,
+  name: string,
+  replace: (arg: string) => string,
+): string {
+  const re = new RegExp(`\\\\${name}\\s*\\{`, "g");
+  let out = "";
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(latex))) {
+    const group = readGroup(latex, m.index + m[0].length - 1);
+    if (!group) break;
+    out += latex.slice(last, m.index) + replace(group.arg);
+    last = group.end;
+    re.lastIndex = group.end;
+  }
+  return out + latex.slice(last);
+}
+
+/** Answers of one exercise body: correct choices, blanks, \answer{} notes */
+function answersOf(body: string): string[] {
+  const answers: string[] = [];
+  const notes: string[] = [];
+  const withoutNotes = replaceCommandArg(body, "answer", (arg) => {
+    notes.push(arg.trim());
+    return "";
+  });
+
+  for (const m of withoutNotes.matchAll(
+    /\\begin\{choices\}([\s\S]*?)\\end\{choices\}/g,
+  )) {
+    const items = m[1]
+      .split(/(?=\\(?:correctchoice|choice)\b)/)
+      .filter((item) => item.startsWith("\\"));
+    items.forEach((item, i) => {
+      if (!item.startsWith("\\correctchoice")) return;
+      const letter = String.fromCharCode(97 + i);
+      const text = item.replace(/^\\correctchoice\s*/, "").trim();
+      answers.push(`(${letter}) ${text}`);
+    });
+  }
+
+  const blanks: string[] = [];
+  replaceCommandArg(withoutNotes, "blank", (arg) => {
+    blanks.push(arg.trim());
+    return "";
+  });
+  if (blanks.length === 1) answers.push(blanks[0]);
+  else blanks.forEach((b, i) => answers.push(`(${i + 1}) ${b}`));
+
+  return [...answers, ...notes].filter(Boolean);
+}
+
+/**
+ * The Answer Key: one block per chapter with exercises, numbered the way
+ * the compiled book numbers them (tcolorbox counter within the chapter).
+ * Exercises without an answer are left out.
+ */
+export function collectAnswerKey(
+  chapters: { title: string; latexContent: string | null }[],
+): AnswerKeyChapter[] {
+  const key: AnswerKeyChapter[] = [];
+  let position = 0;
+
+  for (const ch of chapters) {
+    if (!ch.latexContent) continue;
+    position++;
+    const latex = ch.latexContent;
+    const entries: AnswerKeyEntry[] = [];
+    let count = 0;
+
+    EXERCISE_BEGIN_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = EXERCISE_BEGIN_RE.exec(latex))) {
+      const kind = m[1] as ExerciseKind;
+      count++;
+      let cursor = m.index + m[0].length;
+      while (/\s/.test(latex[cursor] || "")) cursor++;
+      const title = readGroup(latex, cursor);
+      if (title) cursor = title.end;
+      const close = latex.indexOf(`\\end{${kind}}`, cursor);
+      const body = latex.slice(cursor, close === -1 ? undefined : close);
+
+      const answers = answersOf(body);
+      if (answers.length > 0) {
+        entries.push({
+          kind,
+          number: `${position}.${count}`,
+          title: title?.arg.trim() || "",
+          answers,
+        });
+      }
+      if (close !== -1) EXERCISE_BEGIN_RE.lastIndex = close;
+    }
+
+    if (entries.length > 0) {
+      key.push({ position, title: ch.title, entries });
+    }
+  }
+  return key;
+}
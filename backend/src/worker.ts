@@ -0,0 +1,349 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Generation Worker
+// Separate process: consumes the generation queue, retries failed steps
+// and re-queues projects left mid-pipeline by a crash or deploy.
+//
+//   npm run worker         (dev, tsx)
+//   npm run start:worker   (prod, compiled)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import "dotenv/config";
+import { Worker, type Job } from "bullmq";
+import { prisma } from "./lib/prisma";
+import {
+  GenerationCancelledError,
+  markCancelled,
+} from "./lib/cancellation";
+import { SpendCapExceededError, markSpendCapHalted } from "./lib/spendCap";
+import { runWithFixtures } from "./lib/fixtures";
+import {
+  GENERATION_QUEUE,
+  getRedisConnection,
+  enqueueGeneration,
+  findPendingJob,
+  closeQueue,
+  type GenerationJobData,
+  type GenerationJobName,
+} from "./lib/queue";
+
+const CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || "2", 10);
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Job processor
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type GenerationJob = Job<GenerationJobData, unknown, GenerationJobName>;
+
+async function processJob(job: GenerationJob) {
+  const { projectId } = job.data;
+  console.log(
+    `\n  ▶️  [WORKER] ${job.name} for ${projectId} (job ${job.id}, attempt ${job.attemptsMade + 1}/${job.opts.attempts ?? 1}, from ${job.data.source})`,
+  );
+
+  try {
+    // FIXTURE_MODE=record captures the job's external calls
+    const { result } = await runWithFixtures(projectId, job.name, () =>
+      runJob(job),
+    );
+    // A cancel that arrived after the last checkpoint is moot — clear it
+    await prisma.project.updateMany({
+      where: { id: projectId, cancelRequestedAt: { not: null } },
+      data: { cancelRequestedAt: null },
+    });
+    return result;
+  } catch (err) {
+    // Cancelled by the user — final state, never retried
+    if (err instanceof GenerationCancelledError) {
+      console.log(`  🛑 [WORKER] ${job.name} for ${projectId} cancelled`);
+      await markCancelled(projectId);
+      return;
+    }
+    // Over budget — retrying would only halt again; waits for an admin
+    if (err instanceof SpendCapExceededError) {
+      console.log(`  🚨 [WORKER] ${job.name} for ${projectId}: ${err.message}`);
+      // The saved text stands — only its registry stays behind
+      if (job.name === "registry") return;
+      if (job.name === "chapter" || job.name === "section") {
+        await handleFinalFailure(job, err);
+      } else {
+        await markSpendCapHalted(projectId);
+      }
+      return;
+    }
+    throw err;
+  }
+}
+
+async function runJob(job: GenerationJob) {
+  const { projectId } = job.data;
+
+  switch (job.name) {
+    case "structure": {
+      const { generateStructure } =
+        await import("./services/structureGenerator");
+      return generateStructure(projectId);
+    }
+    case "content":
+    case "resume": {
+      const { generateContent } =
+        await import("./services/contentGenerator");
+      // Retries never throw away chapters finished by the failed attempt
+      const resume = job.name === "resume" || job.attemptsMade > 0;
+      return generateContent(projectId, { resume });
+    }
+    case "compile":
+    case "recompile": {
+      const { compileBook } = await import("./services/bookCompiler");
+      return compileBook(projectId);
+    }
+    case "research": {
+      const { conductResearch } =
+        await import("./services/researchService");
+      return conductResearch(projectId);
+    }
+    case "chapter": {
+      const { regenerateChapter } =
+        await import("./services/contentGenerator");
+      return regenerateChapter(
+        projectId,
+        job.data.chapterNumber!,
+        job.data.feedback || "",
+      );
+    }
+    case "section": {
+      const { editSection } = await import("./services/sectionEditor");
+      const section = job.data.section!;
+      return editSection(projectId, job.data.chapterNumber!, {
+        sectionTitle: section.title,
+        action: section.action,
+        newTitle: section.newTitle,
+        instructions: job.data.feedback,
+      });
+    }
+    case "review":
+    case "review-insert": {
+      const { rerunReview, insertSuggestedTopic, ReviewUnavailableError } =
+        await import("./services/reviewService");
+      try {
+        return job.name === "review"
+          ? await rerunReview(
+              projectId,
+              job.data.source === "admin" ? "admin" : "user",
+            )
+          : await insertSuggestedTopic(projectId, job.data.topic!);
+      } catch (err) {
+        // Refused or unplaceable — a retry would pay for the same outcome
+        if (!(err instanceof ReviewUnavailableError)) throw err;
+        console.log(
+          `  ℹ️  [WORKER] ${job.name} for ${projectId} refused: ${err.message}`,
+        );
+        return;
+      }
+    }
+    case "registry": {
+      const { refreshSavedChapterRegistry } =
+        await import("./services/contentGenerator");
+      return refreshSavedChapterRegistry(projectId, job.data.chapterNumber!);
+    }
+    default:
+      throw new Error(`Unknown job: ${job.name}`);
+  }
+}
+
+/**
+ * Called once retries are exhausted. Mirrors what the old fire-and-forget
+ * .catch() handlers in the routes used to do.
+ */
+async function handleFinalFailure(job: GenerationJob, err: Error) {
+  const { projectId } = job.data;
+  console.error(
+    `  ❌ [WORKER] ${job.name} for ${projectId} failed permanently:`,
+    err.message,
+  );
+
+  // Nothing was changed before the failure — nothing to restore
+  if (
+    job.name === "research" ||
+    job.name === "review" ||
+    job.name === "review-insert" ||
+    job.name === "registry"
+  )
+    return;
+
+  // Chapter/section rewrite: old content is untouched — unlock it
+  if (job.name === "chapter" || job.name === "section") {
+    await prisma.chapter
+      .updateMany({
+        where: { projectId, chapterNumber: job.data.chapterNumber },
+        data: { status: "LATEX_READY" },
+      })
+      .catch(console.error);
+    // Only whole-chapter rewrites count against the quota
+    if (job.name === "section") return;
+    await prisma.project
+      .update({
+        where: { id: projectId },
+        data: { chapterRegenUsed: { decrement: 1 } },
+      })
+      .catch(console.error);
+    return;
+  }
+
+  // Recompile failures revert to COMPLETED so the user can try again
+  const status = job.name === "recompile" ? "COMPLETED" : "ERROR";
+
+  await prisma.project
+    .update({
+      where: { id: projectId },
+      data: {
+        currentStage: status,
+        generationStatus: status,
+        cancelRequestedAt: null,
+      },
+    })
+    .catch(console.error);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Boot recovery
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects whose status says "in progress" but have no job in the queue
+ * were interrupted (crash / deploy before the queue existed). Re-queue them.
+ * Active jobs of a dead worker are handled by BullMQ's stalled-job check.
+ */
+async function recoverInterruptedProjects() {
+  const projects = await prisma.project.findMany({
+    where: {
+      paymentStatus: "PAID",
+      OR: [
+        {
+          generationStatus: {
+            in: [
+              "GENERATING_STRUCTURE",
+              "GENERATING_CONTENT",
+              "REVIEWING_CONTENT",
+              "CONTENT_READY",
+              "COMPILING_LATEX",
+              "COMPILING_EPUB",
+            ],
+          },
+        },
+        // Paid, webhook fired, but structure job never started
+        { currentStage: "STRUCTURE", generationStatus: "NOT_STARTED" },
+      ],
+    },
+    select: {
+      id: true,
+      generationStatus: true,
+      currentVersion: true,
+    },
+  });
+
+  // Chapter/section rewrites lost with their job: unlock the chapter
+  const lockedChapters = await prisma.chapter.findMany({
+    where: {
+      status: "GENERATING",
+      project: { currentStage: "COMPLETED" },
+    },
+    select: { id: true, projectId: true, chapterNumber: true },
+  });
+  for (const ch of lockedChapters) {
+    if (await findPendingJob(ch.projectId)) continue;
+    await prisma.chapter.update({
+      where: { id: ch.id },
+      data: { status: "LATEX_READY" },
+    });
+    console.log(
+      `  🔓 [RECOVERY] Ch ${ch.chapterNumber} of ${ch.projectId} unlocked (rewrite lost)`,
+    );
+  }
+
+  if (projects.length === 0) {
+    console.log("  ✅ [RECOVERY] No interrupted projects");
+    return;
+  }
+
+  console.log(`  🔁 [RECOVERY] ${projects.length} interrupted project(s)`);
+
+  for (const p of projects) {
+    if (await findPendingJob(p.id)) continue;
+
+    let name: GenerationJobName;
+    switch (p.generationStatus) {
+      case "GENERATING_CONTENT":
+      case "REVIEWING_CONTENT":
+        name = "resume";
+        break;
+      case "CONTENT_READY":
+      case "COMPILING_LATEX":
+      case "COMPILING_EPUB":
+        // A project with an existing version was being recompiled
+        name = p.currentVersion > 0 ? "recompile" : "compile";
+        break;
+      default:
+        name = "structure";
+    }
+
+    await enqueueGeneration(name, p.id, "recovery");
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Start
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function main() {
+  const worker = new Worker<GenerationJobData, unknown, GenerationJobName>(
+    GENERATION_QUEUE,
+    processJob,
+    {
+      connection: getRedisConnection(),
+      concurrency: CONCURRENCY,
+      // Content generation can run for a long time — keep the lock alive
+      lockDuration: 5 * 60_000,
+    },
+  );
+
+  worker.on("completed", (job) => {
+    console.log(`  ✅ [WORKER] ${job.name} for ${job.data.projectId} done`);
+  });
+
+  worker.on("failed", (job, err) => {
+    if (!job) return;
+    const maxAttempts = job.opts.attempts ?? 1;
+    if (job.attemptsMade >= maxAttempts) {
+      handleFinalFailure(job, err).catch(console.error);
+    } else {
+      console.warn(
+        `  ⚠️  [WORKER] ${job.name} for ${job.data.projectId} failed (attempt ${job.attemptsMade}/${maxAttempts}), retrying: ${err.message}`,
+      );
+    }
+  });
+
+  worker.on("error", (err) => console.error("  ❌ [WORKER]", err));
+
+  console.log(
+    `\n  🛠️  BookForge worker listening on "${GENERATION_QUEUE}" (concurrency ${CONCURRENCY})`,
+  );
+
+  await recoverInterruptedProjects().catch((err) =>
+    console.error("  ❌ [RECOVERY] failed:", err),
+  );
+
+  const shutdown = async (signal: string) => {
+    console.log(`\n  🛑 [WORKER] ${signal} — finishing active jobs...`);
+    await worker.close();
+    await closeQueue();
+    await prisma.$disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+main().catch((err) => {
+  console.error("  ❌ Worker failed to start:", err);
+  process.exit(1);
+});
@@ -9,6 +9,7 @@ import NewProject from "@/pages/NewProject";
 import ProjectDetail from "@/pages/ProjectDetail";
 import AdminDashboard from "@/pages/AdminDashboard";
 import AdminProjectDetail from "@/pages/AdminProjectDetail";
+import AdminPrompts from "@/pages/AdminPrompts";
 
 function Protected({ children }: { children: React.ReactNode }) {
   return useAuthStore((s) => s.isAuthenticated) ? <>{children}</> : <Navigate to="/auth/login" replace />;
@@ -29,6 +30,7 @@ export default function App() {
       {/* Admin */}
       <Route path="/admin" element={<Protected><Layout><AdminDashboard /></Layout></Protected>} />
       <Route path="/admin/projects/:id" element={<Protected><Layout><AdminProjectDetail /></Layout></Protected>} />
+      <Route path="/admin/prompts" element={<Protected><Layout><AdminPrompts /></Layout></Protected>} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
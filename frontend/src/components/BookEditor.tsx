@@ -1,6 +1,6 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // BookForge — Book Editor v4 (Visual + Code)
-// Editing-only — regeneration handled by DownloadPanel
+// Editing + per-chapter "regenerate with notes" — recompile in DownloadPanel
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 import {
@@ -23,6 +23,8 @@ import {
   Type,
   Undo2,
   Info,
+  Wand2,
+  X,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import apiClient from "@/lib/api";
@@ -33,6 +35,16 @@ import { Image as ImageIcon } from "lucide-react";
 import ImageLibrary, {
   type ImageInsertPayload,
 } from "@/components/ImageLibrary";
+import ChapterCoverage, {
+  type ChapterRegistry,
+} from "@/components/ChapterCoverage";
+import ChapterFactCheck, {
+  type FactCheckReport,
+} from "@/components/ChapterFactCheck";
+import ChapterOverlaps, {
+  flaggedPassages,
+  type OverlapReport,
+} from "@/components/ChapterOverlaps";
 
 // ── Types ──
 
@@ -41,11 +53,40 @@ type EditorMode = "visual" | "code";
 interface ChapterData {
   id: string;
   chapterNumber: number;
+  /**
+   * "chapter", "appendix" (numbered from 900) or the front/back matter kind
+   * (preface, conclusion…)
+   */
+  kind: string;
   title: string;
   latexContent: string;
   targetPages: number;
   actualWords: number | null;
   actualPages: number | null;
+  /** GENERATING = being rewritten from feedback, read-only */
+  status: "LATEX_READY" | "GENERATING";
+  registry: ChapterRegistry | null;
+  factCheck: FactCheckReport | null;
+  overlapReport: OverlapReport | null;
+}
+
+type SectionAction = "rewrite" | "expand" | "insert_after";
+
+const SECTION_ACTIONS: Record<SectionAction, string> = {
+  rewrite: "Rewrite section",
+  expand: "Expand section",
+  insert_after: "Insert new section after",
+};
+
+/** \section{} headings, in order — matches the backend's section lookup */
+const getSectionTitles = (latex: string): string[] =>
+  [...latex.matchAll(/\\section\*?\{((?:[^{}]|\{[^{}]*\})*)\}/g)].map((m) =>
+    m[1].trim(),
+  );
+
+interface RegenQuota {
+  regenQuota: number;
+  regenUsed: number;
 }
 
 /** Handle exposed to parent via ref */
@@ -96,6 +137,14 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
   const [expandedChapter, setExpandedChapter] = useState<number | null>(null);
   const [dirtyChapters, setDirtyChapters] = useState<Set<number>>(new Set());
   const [savingChapter, setSavingChapter] = useState<number | null>(null);
+  const [quota, setQuota] = useState<RegenQuota | null>(null);
+  const [regenOpen, setRegenOpen] = useState<number | null>(null);
+  const [regenFeedback, setRegenFeedback] = useState("");
+  const [regenSubmitting, setRegenSubmitting] = useState(false);
+  /** "" = whole chapter, otherwise a \section{} title */
+  const [regenTarget, setRegenTarget] = useState("");
+  const [sectionAction, setSectionAction] = useState<SectionAction>("rewrite");
+  const [newSectionTitle, setNewSectionTitle] = useState("");
 
   const [chapterModes, setChapterModes] = useState<Record<number, EditorMode>>(
     {},
@@ -172,6 +221,7 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
       const res = await apiClient.get(`/projects/${projectId}/chapters`);
       const data: ChapterData[] = res.data.data;
       setChapters(data);
+      setQuota(res.data.meta || null);
 
       const originals: Record<number, string> = {};
       data.forEach((ch) => {
@@ -190,6 +240,100 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
     }
   };
 
+  // ── Poll chapters being regenerated (only those — keeps unsaved edits) ──
+
+  const regeneratingKey = chapters
+    .filter((c) => c.status === "GENERATING")
+    .map((c) => c.chapterNumber)
+    .join(",");
+
+  useEffect(() => {
+    if (!regeneratingKey) return;
+    const timer = setInterval(async () => {
+      try {
+        const res = await apiClient.get(`/projects/${projectId}/chapters`);
+        const fresh: ChapterData[] = res.data.data;
+        const done = fresh.filter(
+          (f) =>
+            f.status === "LATEX_READY" &&
+            chapters.some(
+              (c) =>
+                c.chapterNumber === f.chapterNumber &&
+                c.status === "GENERATING",
+            ),
+        );
+        if (done.length === 0) return;
+
+        done.forEach((f) => {
+          originalContent.current[f.chapterNumber] = f.latexContent;
+          htmlCache.current[f.chapterNumber] = latexToHtml(f.latexContent);
+        });
+        setChapters((prev) =>
+          prev.map(
+            (c) => done.find((f) => f.chapterNumber === c.chapterNumber) || c,
+          ),
+        );
+        setEditorKey((k) => k + 1);
+        done.forEach((f) =>
+          toast.success(`Chapter ${f.chapterNumber} regenerated`),
+        );
+      } catch {
+        /* next tick */
+      }
+    }, 5000);
+    return () => clearInterval(timer);
+  }, [regeneratingKey, projectId]);
+
+  // ── Regenerate with notes ──
+
+  const submitRegenerate = async (chapterNumber: number) => {
+    if (dirtyChapters.has(chapterNumber)) {
+      toast.error("Save or undo your changes to this chapter first");
+      return;
+    }
+    setRegenSubmitting(true);
+    try {
+      if (regenTarget) {
+        await apiClient.post(
+          `/projects/${projectId}/chapters/${chapterNumber}/sections`,
+          {
+            sectionTitle: regenTarget,
+            action: sectionAction,
+            instructions: regenFeedback,
+            newTitle: newSectionTitle,
+          },
+        );
+      } else {
+        const res = await apiClient.post(
+          `/projects/${projectId}/chapters/${chapterNumber}/regenerate`,
+          { feedback: regenFeedback },
+        );
+        setQuota({
+          regenQuota: res.data.data.regenQuota,
+          regenUsed: res.data.data.regenUsed,
+        });
+      }
+      setChapters((prev) =>
+        prev.map((ch) =>
+          ch.chapterNumber === chapterNumber
+            ? { ...ch, status: "GENERATING" }
+            : ch,
+        ),
+      );
+      setRegenOpen(null);
+      setRegenFeedback("");
+      toast.success(
+        regenTarget
+          ? `Editing "${regenTarget}" — takes a minute or two`
+          : `Rewriting chapter ${chapterNumber} — takes a few minutes`,
+      );
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Regeneration failed");
+    } finally {
+      setRegenSubmitting(false);
+    }
+  };
+
   // ── Content updates ──
 
   const updateLatexContent = useCallback(
@@ -364,6 +508,9 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
                 ...ch,
                 latexContent: latexToSave,
                 actualWords: res.data.data?.actualWords,
+                registry: res.data.data?.registry ?? ch.registry,
+                overlapReport:
+                  res.data.data?.overlapReport ?? ch.overlapReport,
               }
             : ch,
         ),
@@ -453,6 +600,9 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
           const isSaving = savingChapter === chapter.chapterNumber;
           const mode = getMode(chapter.chapterNumber);
           const currentWords = countWords(chapter.latexContent);
+          const isRegenerating = chapter.status === "GENERATING";
+          const copied = flaggedPassages(chapter.overlapReport).length;
+          const quotaLeft = quota ? quota.regenQuota - quota.regenUsed : 0;
 
           return (
             <div
@@ -476,12 +626,33 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
                   <ChevronRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
                 )}
                 <span className="text-xs font-bold text-primary-600 dark:text-primary-400 flex-shrink-0">
-                  CH {chapter.chapterNumber}
+                  {chapter.kind === "chapter"
+                    ? `CH ${chapter.chapterNumber}`
+                    : chapter.kind === "appendix"
+                      ? `APP ${String.fromCharCode(65 + chapter.chapterNumber - 900)}`
+                      : chapter.chapterNumber < 1
+                        ? "FRONT"
+                        : "BACK"}
                 </span>
                 <span className="font-medium text-gray-900 dark:text-white truncate flex-1">
                   {chapter.title}
                 </span>
                 <div className="flex items-center gap-3 flex-shrink-0">
+                  {isRegenerating && (
+                    <span className="inline-flex items-center gap-1 text-xs text-purple-600 dark:text-purple-400">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Regenerating
+                    </span>
+                  )}
+                  {copied > 0 && (
+                    <span
+                      title="Passages copied from a research source"
+                      className="inline-flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      {copied} copied
+                    </span>
+                  )}
                   <span className="text-xs text-gray-500 dark:text-gray-400">
                     {currentWords.toLocaleString()} words
                   </span>
@@ -491,8 +662,19 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
                 </div>
               </button>
 
+              {/* Being rewritten — read-only until the worker finishes */}
+              {isExpanded && isRegenerating && (
+                <div className="border-t border-gray-200 dark:border-gray-700 p-8 text-center">
+                  <Loader2 className="w-8 h-8 text-purple-500 animate-spin mx-auto mb-3" />
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Rewriting from your notes. The chapter will reappear
+                    here when done — the previous version is kept.
+                  </p>
+                </div>
+              )}
+
               {/* Expanded editor */}
-              {isExpanded && (
+              {isExpanded && !isRegenerating && (
                 <div className="border-t border-gray-200 dark:border-gray-700 p-4">
                   {/* Toolbar */}
                   <div className="flex items-center justify-between mb-3">
@@ -547,6 +729,25 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
                       >
                         <ImageIcon className="w-3.5 h-3.5" /> Image
                       </button>
+                      {chapter.kind === "chapter" && (
+                        <button
+                          onClick={() => {
+                            setRegenFeedback("");
+                            setRegenTarget("");
+                            setSectionAction("rewrite");
+                            setNewSectionTitle("");
+                            setRegenOpen(
+                              regenOpen === chapter.chapterNumber
+                                ? null
+                                : chapter.chapterNumber,
+                            );
+                          }}
+                          title="Rewrite this chapter from your notes"
+                          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400 rounded-lg hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors"
+                        >
+                          <Wand2 className="w-3.5 h-3.5" /> Regenerate with notes
+                        </button>
+                      )}
                       {mode === "code" && (
                         <span className="text-[10px] text-gray-400 dark:text-gray-500 ml-2 hidden lg:inline">
                           Ctrl+F to search · Ctrl+Z to undo
@@ -575,6 +776,109 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
                     </button>
                   </div>
 
+                  {/* Regenerate with notes */}
+                  {regenOpen === chapter.chapterNumber && (
+                    <div className="mb-3 p-3 bg-purple-50 dark:bg-purple-950/20 rounded-lg border border-purple-200 dark:border-purple-900/50">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-semibold text-purple-700 dark:text-purple-300">
+                          What should change?
+                        </span>
+                        <button
+                          onClick={() => setRegenOpen(null)}
+                          className="text-purple-400 hover:text-purple-600"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <select
+                          value={regenTarget}
+                          onChange={(e) => setRegenTarget(e.target.value)}
+                          className="px-2 py-1.5 text-xs rounded-lg border border-purple-200 dark:border-purple-800 bg-white dark:bg-gray-900 text-gray-900 dark:text-white max-w-xs"
+                        >
+                          <option value="">Whole chapter</option>
+                          {getSectionTitles(chapter.latexContent).map((t) => (
+                            <option key={t} value={t}>
+                              § {t}
+                            </option>
+                          ))}
+                        </select>
+                        {regenTarget && (
+                          <select
+                            value={sectionAction}
+                            onChange={(e) =>
+                              setSectionAction(e.target.value as SectionAction)
+                            }
+                            className="px-2 py-1.5 text-xs rounded-lg border border-purple-200 dark:border-purple-800 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+                          >
+                            {(
+                              Object.entries(SECTION_ACTIONS) as [
+                                SectionAction,
+                                string,
+                              ][]
+                            ).map(([key, label]) => (
+                              <option key={key} value={key}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        {regenTarget && sectionAction === "insert_after" && (
+                          <input
+                            value={newSectionTitle}
+                            onChange={(e) => setNewSectionTitle(e.target.value)}
+                            placeholder="New section title"
+                            className="flex-1 min-w-[160px] px-2 py-1.5 text-xs rounded-lg border border-purple-200 dark:border-purple-800 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+                          />
+                        )}
+                      </div>
+                      <textarea
+                        value={regenFeedback}
+                        onChange={(e) => setRegenFeedback(e.target.value)}
+                        rows={3}
+                        maxLength={4000}
+                        placeholder={
+                          regenTarget
+                            ? "Optional notes, e.g. add a comparison table"
+                            : "e.g. Too generic — add Polish regulations and a real case study"
+                        }
+                        className="w-full px-3 py-2 text-sm rounded-lg border border-purple-200 dark:border-purple-800 bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                      <div className="flex items-center justify-between mt-2">
+                        <span className="text-[11px] text-purple-600 dark:text-purple-400">
+                          {regenTarget
+                            ? "Section edits don't use your chapter regenerations"
+                            : quota
+                              ? `${Math.max(0, quotaLeft)} of ${quota.regenQuota} regenerations left`
+                              : ""}
+                        </span>
+                        <button
+                          onClick={() =>
+                            submitRegenerate(chapter.chapterNumber)
+                          }
+                          disabled={
+                            regenSubmitting ||
+                            (regenTarget
+                              ? sectionAction === "insert_after" &&
+                                !newSectionTitle.trim()
+                              : regenFeedback.trim().length < 5 ||
+                                quotaLeft <= 0)
+                          }
+                          className="inline-flex items-center gap-1.5 px-4 py-1.5 text-xs rounded-lg font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          {regenSubmitting ? (
+                            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                          ) : (
+                            <Wand2 className="w-3.5 h-3.5" />
+                          )}
+                          {regenTarget
+                            ? SECTION_ACTIONS[sectionAction]
+                            : "Rewrite chapter"}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Visual mode hint */}
                   {mode === "visual" && (
                     <div className="mb-3 flex items-start gap-2 px-3 py-2 bg-primary-50 dark:bg-primary-950/20 rounded-lg border border-primary-100 dark:border-primary-900/50">
@@ -587,33 +891,48 @@ const BookEditor = forwardRef<BookEditorHandle, Props>(function BookEditor(
                     </div>
                   )}
 
-                  {/* Editor */}
-                  {mode === "visual" && (
-                    <WysiwygEditor
-                      key={`wysiwyg-${chapter.chapterNumber}-${editorKey}`}
-                      editorRef={wysiwygRef}
-                      content={
-                        htmlCache.current[chapter.chapterNumber] ||
-                        latexToHtml(chapter.latexContent)
-                      }
-                      onChange={(html) =>
-                        updateHtmlContent(chapter.chapterNumber, html)
-                      }
-                      minHeight="300px"
-                      maxHeight="600px"
-                    />
-                  )}
+                  {/* Editor + coverage panel */}
+                  <div className="grid grid-cols-1 lg:grid-cols-[1fr_260px] gap-3">
+                    <div className="min-w-0">
+                      {mode === "visual" && (
+                        <WysiwygEditor
+                          key={`wysiwyg-${chapter.chapterNumber}-${editorKey}`}
+                          editorRef={wysiwygRef}
+                          content={
+                            htmlCache.current[chapter.chapterNumber] ||
+                            latexToHtml(chapter.latexContent)
+                          }
+                          onChange={(html) =>
+                            updateHtmlContent(chapter.chapterNumber, html)
+                          }
+                          minHeight="300px"
+                          maxHeight="600px"
+                        />
+                      )}
 
-                  {mode === "code" && (
-                    <LaTeXEditor
-                      value={chapter.latexContent}
-                      onChange={(val) =>
-                        updateLatexContent(chapter.chapterNumber, val)
-                      }
-                      minHeight="300px"
-                      maxHeight="600px"
-                    />
-                  )}
+                      {mode === "code" && (
+                        <LaTeXEditor
+                          value={chapter.latexContent}
+                          onChange={(val) =>
+                            updateLatexContent(chapter.chapterNumber, val)
+                          }
+                          minHeight="300px"
+                          maxHeight="600px"
+                        />
+                      )}
+                    </div>
+                    <div className="space-y-3">
+                      <ChapterCoverage
+                        registry={chapter.registry}
+                        stale={isDirty}
+                      />
+                      <ChapterOverlaps
+                        report={chapter.overlapReport}
+                        stale={isDirty}
+                      />
+                      <ChapterFactCheck report={chapter.factCheck} />
+                    </div>
+                  </div>
 
                   {/* Stats */}
                   <div className="flex items-center gap-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
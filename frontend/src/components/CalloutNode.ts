@@ -1,9 +1,10 @@
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// BookForge — TipTap Custom Node: Callout Box
-// Renders tipbox, keyinsight, warningbox, examplebox
+// BookForge — TipTap Custom Nodes: Callout Box + Exercise
+// Renders tipbox, keyinsight, warningbox, examplebox — and the workbook
+// exercise / worksheet boxes
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-import { Node, mergeAttributes } from "@tiptap/core";
+import { Node, mergeAttributes, type JSONContent } from "@tiptap/core";
 
 export interface CalloutOptions {
   HTMLAttributes: Record<string, any>;
@@ -132,3 +133,110 @@ export const CALLOUT_STYLES: Record<
     titleDark: "dark:text-blue-400",
   },
 };
+
+// ── Exercise: workbook exercise / worksheet box ──
+// Answers are typed as plain text markers, converted to LaTeX by
+// latexConverter: "✓ " starts the correct choice of a numbered list,
+// [[text]] is a blank, [lines: n] are lines to write on, and a paragraph
+// starting "Answer:" goes to the book's Answer Key.
+
+export const Exercise = Node.create<CalloutOptions>({
+  name: "exercise",
+  group: "block",
+  content: "block+",
+  defining: true,
+
+  addOptions() {
+    return { HTMLAttributes: {} };
+  },
+
+  addAttributes() {
+    return {
+      kind: {
+        default: "exercise",
+        parseHTML: (el) => el.getAttribute("data-exercise") || "exercise",
+        renderHTML: (attrs) => ({ "data-exercise": attrs.kind }),
+      },
+      title: {
+        default: "",
+        parseHTML: (el) => el.getAttribute("data-title") || "",
+        renderHTML: (attrs) => ({ "data-title": attrs.title }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-exercise]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes),
+      0,
+    ];
+  },
+});
+
+const para = (text: string): JSONContent => ({
+  type: "paragraph",
+  content: [{ type: "text", text }],
+});
+
+const choices = (...items: string[]): JSONContent => ({
+  type: "orderedList",
+  content: items.map((text) => ({ type: "listItem", content: [para(text)] })),
+});
+
+/** Starter content per exercise type (used by WysiwygEditor's menu) */
+export const EXERCISE_TEMPLATES: Record<
+  string,
+  {
+    label: string;
+    emoji: string;
+    kind: "exercise" | "worksheet";
+    title: string;
+    content: JSONContent[];
+  }
+> = {
+  choice: {
+    label: "Multiple choice",
+    emoji: "✅",
+    kind: "exercise",
+    title: "Check Your Understanding",
+    content: [
+      para("Your question here?"),
+      choices("A wrong option", "✓ The right option", "Another wrong option"),
+      para("Answer: Why the right option is right."),
+    ],
+  },
+  blank: {
+    label: "Fill in the blanks",
+    emoji: "✍️",
+    kind: "exercise",
+    title: "Fill in the Blanks",
+    content: [para("A sentence where the [[missing words]] are left blank.")],
+  },
+  reflection: {
+    label: "Reflection",
+    emoji: "💭",
+    kind: "exercise",
+    title: "Reflection",
+    content: [
+      para("An open question about the reader's own situation."),
+      para("[lines: 4]"),
+      para("Answer: What a strong answer covers."),
+    ],
+  },
+  worksheet: {
+    label: "Worksheet",
+    emoji: "📄",
+    kind: "worksheet",
+    title: "Worksheet",
+    content: [
+      para("First prompt: [lines: 2]"),
+      para("Second prompt: [lines: 2]"),
+      para("Answer: A short filled-in example."),
+    ],
+  },
+};
@@ -0,0 +1,82 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — "What this chapter covers" side panel
+// Shows the chapter registry the pipeline keeps for continuity: summary,
+// examples and numbers already used, key terms, how the chapter ends.
+// Refreshed by the backend each time the chapter is saved.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { ListChecks } from "lucide-react";
+
+export interface ChapterRegistry {
+  chapterNumber: number;
+  chapterTitle: string;
+  summary: string;
+  usedExamples: string[];
+  usedStats: string[];
+  keyTerms: string[];
+  closingTopic: string;
+}
+
+function Group({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="text-[10px] font-semibold uppercase text-gray-400 dark:text-gray-500 mb-1">
+        {label}
+      </p>
+      <ul className="space-y-1">
+        {items.map((item, i) => (
+          <li
+            key={i}
+            className="text-xs text-gray-600 dark:text-gray-400 leading-snug"
+          >
+            · {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ChapterCoverage({
+  registry,
+  stale,
+}: {
+  registry: ChapterRegistry | null;
+  /** Unsaved edits — the panel describes the last saved version */
+  stale: boolean;
+}) {
+  return (
+    <aside className="rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/40 p-3 space-y-3 max-h-[600px] overflow-y-auto">
+      <div className="flex items-center gap-1.5 text-xs font-semibold text-gray-700 dark:text-gray-300">
+        <ListChecks className="w-3.5 h-3.5 text-primary-500" />
+        What this chapter covers
+      </div>
+
+      {!registry ? (
+        <p className="text-xs text-gray-400 italic">
+          Not available yet — save the chapter to build it.
+        </p>
+      ) : (
+        <>
+          {stale && (
+            <p className="text-[11px] text-amber-600 dark:text-amber-400">
+              Describes the last saved version.
+            </p>
+          )}
+          {registry.summary && (
+            <p className="text-xs text-gray-600 dark:text-gray-400 leading-relaxed">
+              {registry.summary}
+            </p>
+          )}
+          <Group label="Key terms" items={registry.keyTerms} />
+          <Group label="Examples used" items={registry.usedExamples} />
+          <Group label="Numbers cited" items={registry.usedStats} />
+          {registry.closingTopic && (
+            <Group label="Ends with" items={[registry.closingTopic]} />
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
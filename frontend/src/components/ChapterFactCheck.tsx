@@ -0,0 +1,93 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Fact-check report side panel
+// The numbers the chapter cites, checked against its research sources
+// when it was written. Unbacked ones were softened, corrected or removed.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { ShieldCheck } from "lucide-react";
+
+export interface FactClaim {
+  stat: string;
+  verdict: "supported" | "unsupported" | "contradicted";
+  source: string | null;
+  note: string;
+  action: "kept" | "softened" | "corrected" | "removed" | "not-located";
+}
+
+export interface FactCheckReport {
+  checkedAt: string;
+  claims: FactClaim[];
+  skipped?: "no-stats" | "no-research" | "spend-cap" | "check-failed";
+}
+
+const VERDICT_STYLE: Record<FactClaim["verdict"], string> = {
+  supported: "text-green-600 dark:text-green-400",
+  unsupported: "text-amber-600 dark:text-amber-400",
+  contradicted: "text-red-600 dark:text-red-400",
+};
+
+const SKIPPED_LABEL: Record<NonNullable<FactCheckReport["skipped"]>, string> =
+  {
+    "no-stats": "No numbers to check.",
+    "no-research": "No research sources to check against.",
+    "spend-cap": "Skipped — the book was near its spend cap.",
+    "check-failed": "The check could not be completed.",
+  };
+
+export default function ChapterFactCheck({
+  report,
+}: {
+  report: FactCheckReport | null;
+}) {
+  if (!report) return null;
+  return (
+    <aside className="rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/40 p-3 space-y-2 max-h-[400px] overflow-y-auto">
+      <div className="flex items-center gap-1.5 text-xs font-semibold text-gray-700 dark:text-gray-300">
+        <ShieldCheck className="w-3.5 h-3.5 text-primary-500" />
+        Fact check
+      </div>
+
+      {report.skipped ? (
+        <p className="text-xs text-gray-400 italic">
+          {SKIPPED_LABEL[report.skipped]}
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {report.claims.map((c, i) => (
+            <li key={i} className="text-xs leading-snug">
+              <span className={`font-semibold ${VERDICT_STYLE[c.verdict]}`}>
+                {c.verdict}
+              </span>
+              {c.action !== "kept" && (
+                <span className="text-gray-400"> · {c.action}</span>
+              )}
+              <p className="text-gray-600 dark:text-gray-400">{c.stat}</p>
+              {c.note && (
+                <p className="text-[11px] text-gray-400">
+                  {c.note}
+                  {c.source && (
+                    <>
+                      {" "}
+                      <a
+                        href={c.source}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="underline hover:text-primary-500"
+                      >
+                        source
+                      </a>
+                    </>
+                  )}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-[10px] text-gray-400">
+        Checked {new Date(report.checkedAt).toLocaleDateString()} — manual
+        edits are not re-checked.
+      </p>
+    </aside>
+  );
+}
@@ -0,0 +1,92 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Verbatim overlap side panel
+// Passages that repeat a research source word for word. The pipeline
+// rewrites what it can; the rest is listed here until the user rewords it.
+// Re-checked by the backend each time the chapter is saved.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { Copy } from "lucide-react";
+
+export interface OverlapPassage {
+  excerpt: string;
+  url: string;
+  similarity: number;
+  longestRun: number;
+  status: "rewritten" | "flagged";
+}
+
+export interface OverlapReport {
+  checkedAt: string;
+  passages: OverlapPassage[];
+}
+
+/** Passages still copied from a source */
+export function flaggedPassages(report: OverlapReport | null) {
+  return report?.passages.filter((p) => p.status === "flagged") || [];
+}
+
+export default function ChapterOverlaps({
+  report,
+  stale,
+}: {
+  report: OverlapReport | null;
+  /** Unsaved edits — the panel describes the last saved version */
+  stale: boolean;
+}) {
+  const flagged = flaggedPassages(report);
+  const rewritten = (report?.passages.length || 0) - flagged.length;
+  if (flagged.length === 0 && rewritten === 0) return null;
+
+  return (
+    <aside
+      className={`rounded-lg border p-3 space-y-2 max-h-[400px] overflow-y-auto ${
+        flagged.length > 0
+          ? "border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30"
+          : "border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/40"
+      }`}
+    >
+      <div className="flex items-center gap-1.5 text-xs font-semibold text-gray-700 dark:text-gray-300">
+        <Copy className="w-3.5 h-3.5 text-amber-500" />
+        Copied from sources
+      </div>
+
+      {stale && flagged.length > 0 && (
+        <p className="text-[11px] text-amber-600 dark:text-amber-400">
+          Describes the last saved version.
+        </p>
+      )}
+      {flagged.length > 0 ? (
+        <>
+          <p className="text-[11px] text-amber-700 dark:text-amber-400">
+            Reword these passages before publishing.
+          </p>
+          <ul className="space-y-2">
+            {flagged.map((p, i) => (
+              <li key={i} className="text-xs leading-snug">
+                <p className="text-gray-700 dark:text-gray-300 italic">
+                  "{p.excerpt}"
+                </p>
+                <p className="text-[11px] text-gray-400">
+                  {p.longestRun} words verbatim, {p.similarity}% of the
+                  paragraph —{" "}
+                  <a
+                    href={p.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="underline hover:text-primary-500"
+                  >
+                    {p.url.replace(/^https?:\/\/(www\.)?/, "").split("/")[0]}
+                  </a>
+                </p>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="text-xs text-gray-400 italic">
+          {rewritten} passage(s) were rewritten in the book's own words.
+        </p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,99 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Citation Style (References chapter)
+// The research sources are printed as a References chapter; chapters cite
+// them with \cite{}. Picks how citations and references are formatted.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { useState, useEffect } from "react";
+import { Loader2, Check, Quote } from "lucide-react";
+import toast from "react-hot-toast";
+import apiClient from "@/lib/api";
+
+type CitationStyle = "apa" | "ieee" | "chicago";
+
+const STYLES: { value: CitationStyle; label: string; example: string }[] = [
+  { value: "apa", label: "APA", example: "(hbr.org, n.d.)" },
+  { value: "ieee", label: "IEEE", example: "[1]" },
+  { value: "chicago", label: "Chicago", example: "(hbr.org n.d.)" },
+];
+
+interface CitationStyleEditorProps {
+  projectId: string;
+  language: string;
+  currentStyle: CitationStyle | null;
+  onSaved: () => void;
+}
+
+export default function CitationStyleEditor({
+  projectId,
+  language,
+  currentStyle,
+  onSaved,
+}: CitationStyleEditorProps) {
+  const [style, setStyle] = useState<CitationStyle>(currentStyle || "apa");
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const isPolish = language === "pl";
+
+  useEffect(() => {
+    setStyle(currentStyle || "apa");
+  }, [currentStyle]);
+
+  const handleChange = async (next: CitationStyle) => {
+    if (next === style) return;
+    const prev = style;
+    setStyle(next);
+    setSaving(true);
+    try {
+      await apiClient.patch(`/projects/${projectId}/title-page`, {
+        citationStyle: next,
+      });
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+      onSaved();
+    } catch (err: any) {
+      setStyle(prev);
+      toast.error(err.response?.data?.error || "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Quote className="w-5 h-5 text-primary-500" />
+        <h3 className="text-base font-bold text-gray-900 dark:text-white">
+          {isPolish ? "Styl cytowań" : "Citation style"}
+        </h3>
+        {saving && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+        {saved && <Check className="w-4 h-4 text-green-500" />}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {STYLES.map((s) => (
+          <button
+            key={s.value}
+            onClick={() => handleChange(s.value)}
+            disabled={saving}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              style === s.value
+                ? "bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300"
+                : "bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+            }`}
+          >
+            {s.label}{" "}
+            <span className="text-xs font-normal opacity-70">{s.example}</span>
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {isPolish
+          ? "Źródła z researchu trafiają do bibliografii na końcu książki, a rozdziały odwołują się do nich w tekście. Zmiana widoczna po rekompilacji."
+          : "Research sources are listed in a References chapter at the end of the book and cited in the text. Takes effect upon recompilation."}
+      </p>
+    </div>
+  );
+}
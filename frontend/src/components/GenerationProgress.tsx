@@ -2,6 +2,7 @@
 // BookForge — Generation Progress v3
 // Rich pipeline visualization matching backend phases
 // + Review & Revision phase visibility
+// + Live sub-steps from the pipeline event stream (SSE)
 // GenerationProgress.tsx
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
@@ -22,15 +23,13 @@ import {
   Layers,
   Upload,
   Braces,
-  ScanSearch,
-  BrainCircuit,
-  FileCode,
-  Package,
   ClipboardCheck,
-  ShieldCheck,
-  Plus,
-  Trash2,
+  XCircle,
+  AlertTriangle,
+  Radio,
 } from "lucide-react";
+import type { PipelineEvent } from "@/lib/types";
+import { latestRun, sincePhase } from "@/lib/pipelineEvents";
 
 // ── Types ──
 
@@ -48,6 +47,14 @@ interface GenerationProgressProps {
   targetPages: number;
   bookTitle: string;
   language: string;
+  /** Live events from usePipelineEvents */
+  events: PipelineEvent[];
+  /** SSE stream connected */
+  live?: boolean;
+  /** Stop the pipeline — finished chapters are kept */
+  onCancel?: () => void;
+  /** Cancel requested, waiting for the current step to finish */
+  cancelling?: boolean;
 }
 
 type Phase =
@@ -65,6 +72,7 @@ function detectPhase(
   status: string,
   progress: number,
   chapters: Chapter[],
+  contentPhase: number,
 ): Phase {
   if (status === "COMPLETED") return "done";
   if (status === "COMPILING_EPUB") return "compiling_epub";
@@ -78,101 +86,70 @@ function detectPhase(
         c.status === "LATEX_READY" ||
         c.status === "GENERATED",
     );
-    if (anyActive || progress > 0) return "writing";
+    if (anyActive || progress > 0 || contentPhase >= 4) return "writing";
     return "research";
   }
   return "research";
 }
 
-// ── Research sub-steps (animated, not real-time from backend) ──
-
-const RESEARCH_STEPS = [
-  {
-    icon: Globe,
-    label: "Searching web sources for the book topic",
-    detail: "Google Custom Search API",
-  },
-  {
-    icon: ScanSearch,
-    label: "Scraping and extracting content from sources",
-    detail: "Analyzing page content",
-  },
-  {
-    icon: BrainCircuit,
-    label: "AI selecting highest-quality sources",
-    detail: "Claude evaluates relevance & data density",
-  },
-  {
-    icon: Search,
-    label: "Per-chapter targeted research queries",
-    detail: "2 specialized queries per chapter",
-  },
-  {
-    icon: Layers,
-    label: "Building chapter research briefs",
-    detail: "Merging global + chapter-specific sources",
-  },
-];
-
-const REVIEW_STEPS = [
-  {
-    icon: ClipboardCheck,
-    label: "Reviewing book completeness & quality",
-    detail: "AI editor evaluating coverage, redundancy, depth",
-  },
-  {
-    icon: Trash2,
-    label: "Removing redundant content",
-    detail: "Trimming repeated sections across chapters",
-  },
-  {
-    icon: Plus,
-    label: "Adding missing topics",
-    detail: "Writing new subsections for uncovered areas",
-  },
-  {
-    icon: ShieldCheck,
-    label: "Post-revision quality check",
-    detail: "Verifying improvement score",
-  },
-];
+// ── Live state from pipeline events ──
+
+interface LiveState {
+  /** Last Phase N reached by the current CONTENT run */
+  contentPhase: number;
+  /** sources undefined = research in progress */
+  research: Map<number, { title?: string; sources?: number }>;
+  /** words undefined = chapter being written */
+  words: Map<number, { targetWords: number; words?: number }>;
+  reviewScore: { initial: number; final?: number } | null;
+  review: PipelineEvent[];
+  pdflatex: { attempt: number; maxAttempts: number; pass: number } | null;
+  compile: PipelineEvent[];
+  epub: PipelineEvent[];
+}
 
-const COMPILE_PDF_STEPS = [
-  {
-    icon: FileCode,
-    label: "Assembling LaTeX document",
-    detail: "Merging chapter content + preamble",
-  },
-  {
-    icon: Braces,
-    label: "Running pdflatex (pass 1/2)",
-    detail: "Building cross-references",
-  },
-  {
-    icon: Braces,
-    label: "Running pdflatex (pass 2/2)",
-    detail: "Resolving references",
-  },
-  {
-    icon: Upload,
-    label: "Uploading PDF to cloud",
-    detail: "S3 versioned storage",
-  },
-];
+function deriveLiveState(events: PipelineEvent[]): LiveState {
+  const content = latestRun(events, "CONTENT");
+  const compile = latestRun(events, "COMPILE");
+
+  const state: LiveState = {
+    contentPhase: 0,
+    research: new Map(),
+    words: new Map(),
+    reviewScore: null,
+    review: sincePhase(content, 4.5),
+    pdflatex: null,
+    compile,
+    epub: sincePhase(compile, 4),
+  };
 
-const COMPILE_EPUB_STEPS = [
-  {
-    icon: FileCode,
-    label: "Converting chapters to XHTML",
-    detail: "Semantic HTML structure",
-  },
-  {
-    icon: Package,
-    label: "Packaging EPUB container",
-    detail: "OPF + NCX + mimetype",
-  },
-  { icon: Upload, label: "Uploading EPUB", detail: "S3 cloud storage" },
-];
+  for (const e of content) {
+    if (e.level === "phase" && e.phase !== undefined) {
+      state.contentPhase = e.phase;
+    }
+    const d = e.data;
+    if (d?.kind === "research") {
+      const prev = state.research.get(d.chapter);
+      state.research.set(d.chapter, {
+        title: d.title ?? prev?.title,
+        sources: d.sources,
+      });
+    } else if (d?.kind === "chapter") {
+      state.words.set(d.chapter, {
+        targetWords: d.targetWords,
+        words: d.words,
+      });
+    } else if (d?.kind === "review") {
+      state.reviewScore = d.final
+        ? { initial: state.reviewScore?.initial ?? d.score, final: d.score }
+        : { initial: d.score };
+    }
+  }
+  for (const e of compile) {
+    if (e.data?.kind === "pdflatex") state.pdflatex = e.data;
+  }
+  return state;
+}
 
 // ── Phase metadata ──
 
@@ -274,17 +251,21 @@ export default function GenerationProgress({
   targetPages,
   bookTitle,
   language,
+  events,
+  live: streaming,
+  onCancel,
+  cancelling,
 }: GenerationProgressProps) {
   const [elapsed, setElapsed] = useState(0);
-  const [researchStep, setResearchStep] = useState(0);
-  const [reviewStep, setReviewStep] = useState(0);
-  const [compileStep, setCompileStep] = useState(0);
-  const [epubStep, setEpubStep] = useState(0);
+
+  // ── Live state from the event stream ──
+  const live = useMemo(() => deriveLiveState(events), [events]);
 
   const currentPhase = detectPhase(
     generationStatus,
     generationProgress,
     chapters,
+    live.contentPhase,
   );
 
   // ── Elapsed timer ──
@@ -293,51 +274,6 @@ export default function GenerationProgress({
     return () => clearInterval(interval);
   }, []);
 
-  // ── Animated sub-steps for research phase ──
-  useEffect(() => {
-    if (currentPhase !== "research") return;
-    const interval = setInterval(() => {
-      setResearchStep((s) => Math.min(s + 1, RESEARCH_STEPS.length - 1));
-    }, 15000);
-    return () => clearInterval(interval);
-  }, [currentPhase]);
-
-  // ── Animated sub-steps for review phase ──
-  useEffect(() => {
-    if (currentPhase !== "reviewing") {
-      setReviewStep(0);
-      return;
-    }
-    const interval = setInterval(() => {
-      setReviewStep((s) => Math.min(s + 1, REVIEW_STEPS.length - 1));
-    }, 15000); // ~15s per step, total review ~1min
-    return () => clearInterval(interval);
-  }, [currentPhase]);
-
-  // ── Animated sub-steps for compilation ──
-  useEffect(() => {
-    if (currentPhase !== "compiling_pdf") {
-      setCompileStep(0);
-      return;
-    }
-    const interval = setInterval(() => {
-      setCompileStep((s) => Math.min(s + 1, COMPILE_PDF_STEPS.length - 1));
-    }, 12000);
-    return () => clearInterval(interval);
-  }, [currentPhase]);
-
-  // ── Animated sub-steps for EPUB ──
-  useEffect(() => {
-    if (currentPhase !== "compiling_epub") {
-      setEpubStep(0);
-      return;
-    }
-    const interval = setInterval(() => {
-      setEpubStep((s) => Math.min(s + 1, COMPILE_EPUB_STEPS.length - 1));
-    }, 8000);
-    return () => clearInterval(interval);
-  }, [currentPhase]);
-
   // ── Chapter stats ──
   const chapterStats = useMemo(() => {
     const total = chapters.length;
@@ -378,29 +314,24 @@ export default function GenerationProgress({
   const overallProgress = useMemo(() => {
     if (currentPhase === "done") return 100;
     if (currentPhase === "research") {
-      return Math.round((researchStep / RESEARCH_STEPS.length) * 15);
+      const total = chapters.length || 1;
+      const researched = [...live.research.values()].filter(
+        (r) => r.sources !== undefined,
+      ).length;
+      return Math.round((researched / total) * 15);
     }
     if (currentPhase === "writing") {
       return 15 + Math.round(generationProgress * 60);
     }
     if (currentPhase === "reviewing") {
-      return 75 + Math.round((reviewStep / REVIEW_STEPS.length) * 10);
+      return 75 + (live.reviewScore ? 5 : 0);
     }
     if (currentPhase === "compiling_pdf") {
-      return 85 + Math.round((compileStep / COMPILE_PDF_STEPS.length) * 10);
-    }
-    if (currentPhase === "compiling_epub") {
-      return 95 + Math.round((epubStep / COMPILE_EPUB_STEPS.length) * 5);
+      return 85 + (live.pdflatex ? live.pdflatex.pass * 4 : 0);
     }
+    if (currentPhase === "compiling_epub") return 97;
     return 0;
-  }, [
-    currentPhase,
-    researchStep,
-    generationProgress,
-    reviewStep,
-    compileStep,
-    epubStep,
-  ]);
+  }, [currentPhase, chapters.length, live, generationProgress]);
 
   return (
     <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-700 overflow-hidden shadow-sm">
@@ -422,6 +353,14 @@ export default function GenerationProgress({
           </div>
           <div className="text-right">
             <div className="flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400">
+              {streaming && (
+                <span
+                  className="flex items-center gap-1 text-[10px] font-medium text-green-600 dark:text-green-400 mr-1"
+                  title="Receiving live updates"
+                >
+                  <Radio className="w-3 h-3" /> Live
+                </span>
+              )}
               <Clock className="w-3.5 h-3.5" />
               {formatTime(elapsed)}
             </div>
@@ -430,6 +369,20 @@ export default function GenerationProgress({
                 ~{Math.ceil(estimatedMinutes)}m remaining
               </p>
             )}
+            {onCancel && currentPhase !== "done" && (
+              <button
+                onClick={onCancel}
+                disabled={cancelling}
+                className="mt-2 inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-lg text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 hover:bg-red-100 dark:hover:bg-red-900/40 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+              >
+                {cancelling ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <XCircle className="w-3 h-3" />
+                )}
+                {cancelling ? "Cancelling..." : "Cancel"}
+              </button>
+            )}
           </div>
         </div>
 
@@ -538,10 +491,8 @@ export default function GenerationProgress({
                     {/* ── Active phase: expanded detail ── */}
                     {isActive && phase === "research" && (
                       <ResearchDetail
-                        currentStep={researchStep}
-                        chaptersCount={
-                          chapters.length || targetPages > 100 ? 8 : 4
-                        }
+                        chapters={chapters}
+                        research={live.research}
                         language={language}
                       />
                     )}
@@ -550,32 +501,40 @@ export default function GenerationProgress({
                       <WritingDetail
                         chapters={chapters}
                         stats={chapterStats}
-                        progress={generationProgress}
+                        words={live.words}
                       />
                     )}
 
                     {isActive && phase === "reviewing" && (
-                      <SubStepDetail
-                        steps={REVIEW_STEPS}
-                        currentStep={reviewStep}
-                        accentColor="rose"
-                      />
+                      <>
+                        {live.reviewScore && (
+                          <div className="mt-3 inline-flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-lg bg-rose-50 dark:bg-rose-950/30 text-rose-700 dark:text-rose-300">
+                            <ClipboardCheck className="w-3.5 h-3.5" />
+                            Review score {live.reviewScore.initial}/10
+                            {live.reviewScore.final !== undefined &&
+                              ` → ${live.reviewScore.final}/10`}
+                          </div>
+                        )}
+                        <EventFeed events={live.review} accentColor="rose" />
+                      </>
                     )}
 
                     {isActive && phase === "compiling_pdf" && (
-                      <SubStepDetail
-                        steps={COMPILE_PDF_STEPS}
-                        currentStep={compileStep}
-                        accentColor="amber"
-                      />
+                      <>
+                        {live.pdflatex && (
+                          <div className="mt-3 inline-flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-lg bg-amber-50 dark:bg-amber-950/30 text-amber-700 dark:text-amber-300">
+                            <Braces className="w-3.5 h-3.5" />
+                            pdflatex attempt {live.pdflatex.attempt}/
+                            {live.pdflatex.maxAttempts}, pass{" "}
+                            {live.pdflatex.pass}/2
+                          </div>
+                        )}
+                        <EventFeed events={live.compile} accentColor="amber" />
+                      </>
                     )}
 
                     {isActive && phase === "compiling_epub" && (
-                      <SubStepDetail
-                        steps={COMPILE_EPUB_STEPS}
-                        currentStep={epubStep}
-                        accentColor="emerald"
-                      />
+                      <EventFeed events={live.epub} accentColor="emerald" />
                     )}
                   </div>
                 </div>
@@ -619,24 +578,41 @@ export default function GenerationProgress({
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 function ResearchDetail({
-  currentStep,
-  chaptersCount,
+  chapters,
+  research,
   language,
 }: {
-  currentStep: number;
-  chaptersCount: number;
+  chapters: Chapter[];
+  research: LiveState["research"];
   language: string;
 }) {
+  // Chapter records are created after research — fall back to the events
+  const rows =
+    chapters.length > 0
+      ? chapters.map((c) => ({
+          number: c.chapterNumber,
+          title: c.title,
+          ...research.get(c.chapterNumber),
+        }))
+      : [...research.entries()].map(([number, r]) => ({ ...r, number }));
+
   return (
     <div className="mt-3 space-y-1.5">
-      {RESEARCH_STEPS.map((step, idx) => {
-        const Icon = step.icon;
-        const isDone = idx < currentStep;
-        const isActive = idx === currentStep;
+      {rows.length === 0 && (
+        <div className="flex items-center gap-2 py-1.5 px-3 bg-blue-50 dark:bg-blue-950/30 rounded-lg border border-blue-100 dark:border-blue-900">
+          <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin" />
+          <span className="text-xs text-blue-700 dark:text-blue-300">
+            Loading research data...
+          </span>
+        </div>
+      )}
+      {rows.map((row) => {
+        const isDone = row.sources !== undefined;
+        const isActive = !isDone && research.has(row.number);
 
         return (
           <div
-            key={idx}
+            key={row.number}
             className={`flex items-center gap-2.5 py-1.5 px-3 rounded-lg transition-all duration-300 ${
               isActive
                 ? "bg-blue-50 dark:bg-blue-950/30 border border-blue-100 dark:border-blue-900"
@@ -651,27 +627,28 @@ function ResearchDetail({
               ) : isActive ? (
                 <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin" />
               ) : (
-                <Icon className="w-3.5 h-3.5 text-gray-400" />
-              )}
-            </div>
-            <div className="min-w-0">
-              <p
-                className={`text-xs font-medium ${
-                  isActive
-                    ? "text-blue-700 dark:text-blue-300"
-                    : isDone
-                      ? "text-gray-600 dark:text-gray-400"
-                      : "text-gray-400 dark:text-gray-500"
-                }`}
-              >
-                {step.label}
-              </p>
-              {isActive && (
-                <p className="text-[10px] text-blue-500 dark:text-blue-400 mt-0.5">
-                  {step.detail}
-                </p>
+                <Search className="w-3.5 h-3.5 text-gray-400" />
               )}
             </div>
+            <p
+              className={`flex-1 min-w-0 truncate text-xs font-medium ${
+                isActive
+                  ? "text-blue-700 dark:text-blue-300"
+                  : isDone
+                    ? "text-gray-600 dark:text-gray-400"
+                    : "text-gray-400 dark:text-gray-500"
+              }`}
+            >
+              Ch.{row.number}
+              {row.title && ` — ${row.title}`}
+            </p>
+            <span className="text-[10px] text-gray-500 dark:text-gray-400 flex-shrink-0 tabular-nums">
+              {isDone
+                ? `${row.sources} sources`
+                : isActive
+                  ? "researching..."
+                  : ""}
+            </span>
           </div>
         );
       })}
@@ -685,7 +662,7 @@ function ResearchDetail({
             : language === "en"
               ? "English"
               : language.toUpperCase()}{" "}
-          + English supplement • {chaptersCount * 2} targeted queries planned
+          + English supplement
         </span>
       </div>
     </div>
@@ -695,7 +672,7 @@ function ResearchDetail({
 function WritingDetail({
   chapters,
   stats,
-  progress,
+  words,
 }: {
   chapters: Chapter[];
   stats: {
@@ -705,7 +682,7 @@ function WritingDetail({
     pending: number;
     errored: number;
   };
-  progress: number;
+  words: LiveState["words"];
 }) {
   if (chapters.length === 0) {
     return (
@@ -724,6 +701,7 @@ function WritingDetail({
         const isDone = ch.status === "LATEX_READY" || ch.status === "GENERATED";
         const isActive = ch.status === "GENERATING";
         const isError = ch.status === "ERROR";
+        const live = words.get(ch.chapterNumber);
 
         return (
           <div
@@ -786,11 +764,25 @@ function WritingDetail({
               {isActive && (
                 <div className="flex items-center gap-2 mt-1">
                   <p className="text-[10px] text-violet-500 dark:text-violet-400">
-                    Writing with research sources • LaTeX formatting • Tables &
-                    insight boxes
+                    Writing with research sources
+                    {live &&
+                      ` • target ~${live.targetWords.toLocaleString()} words`}
                   </p>
                 </div>
               )}
+              {isDone && live?.words !== undefined && (
+                <p
+                  className={`text-[10px] mt-0.5 tabular-nums ${
+                    Math.abs(live.words / live.targetWords - 1) > 0.2
+                      ? "text-amber-600 dark:text-amber-400"
+                      : "text-gray-500 dark:text-gray-400"
+                  }`}
+                >
+                  {live.words.toLocaleString()} /{" "}
+                  {live.targetWords.toLocaleString()} words (
+                  {Math.round((live.words / live.targetWords) * 100)}%)
+                </p>
+              )}
             </div>
 
             {/* Page count badge */}
@@ -831,13 +823,13 @@ function WritingDetail({
   );
 }
 
-function SubStepDetail({
-  steps,
-  currentStep,
+const FEED_LENGTH = 6;
+
+function EventFeed({
+  events,
   accentColor = "amber",
 }: {
-  steps: Array<{ icon: any; label: string; detail: string }>;
-  currentStep: number;
+  events: PipelineEvent[];
   accentColor?: "amber" | "rose" | "emerald";
 }) {
   const colors = {
@@ -846,66 +838,71 @@ function SubStepDetail({
         "bg-amber-50 dark:bg-amber-950/30 border border-amber-100 dark:border-amber-900",
       spinner: "text-amber-500",
       label: "text-amber-700 dark:text-amber-300",
-      detail: "text-amber-500 dark:text-amber-400",
     },
     rose: {
       activeBg:
         "bg-rose-50 dark:bg-rose-950/30 border border-rose-100 dark:border-rose-900",
       spinner: "text-rose-500",
       label: "text-rose-700 dark:text-rose-300",
-      detail: "text-rose-500 dark:text-rose-400",
     },
     emerald: {
       activeBg:
         "bg-emerald-50 dark:bg-emerald-950/30 border border-emerald-100 dark:border-emerald-900",
       spinner: "text-emerald-500",
       label: "text-emerald-700 dark:text-emerald-300",
-      detail: "text-emerald-500 dark:text-emerald-400",
     },
   };
   const c = colors[accentColor];
 
+  const feed = events
+    .filter((e) => e.level !== "header" && e.level !== "phase")
+    .slice(-FEED_LENGTH);
+
+  if (feed.length === 0) {
+    return (
+      <div
+        className={`mt-3 flex items-center gap-2 py-1.5 px-3 rounded-lg ${c.activeBg}`}
+      >
+        <Loader2 className={`w-3.5 h-3.5 ${c.spinner} animate-spin`} />
+        <span className={`text-xs ${c.label}`}>
+          Waiting for live updates...
+        </span>
+      </div>
+    );
+  }
+
   return (
     <div className="mt-3 space-y-1.5">
-      {steps.map((step, idx) => {
-        const Icon = step.icon;
-        const isDone = idx < currentStep;
-        const isActive = idx === currentStep;
+      {feed.map((event, idx) => {
+        const isLatest = idx === feed.length - 1;
 
         return (
           <div
-            key={idx}
+            key={event.id}
             className={`flex items-center gap-2.5 py-1.5 px-3 rounded-lg transition-all duration-300 ${
-              isActive ? c.activeBg : isDone ? "opacity-60" : "opacity-30"
+              isLatest ? c.activeBg : "opacity-60"
             }`}
           >
             <div className="flex-shrink-0">
-              {isDone ? (
-                <CheckCircle className="w-3.5 h-3.5 text-green-500" />
-              ) : isActive ? (
+              {event.level === "error" ? (
+                <XCircle className="w-3.5 h-3.5 text-red-500" />
+              ) : event.level === "warn" ? (
+                <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+              ) : event.level === "step" && isLatest ? (
                 <Loader2 className={`w-3.5 h-3.5 ${c.spinner} animate-spin`} />
               ) : (
-                <Icon className="w-3.5 h-3.5 text-gray-400" />
-              )}
-            </div>
-            <div>
-              <p
-                className={`text-xs font-medium ${
-                  isActive
-                    ? c.label
-                    : isDone
-                      ? "text-gray-600 dark:text-gray-400"
-                      : "text-gray-400 dark:text-gray-500"
-                }`}
-              >
-                {step.label}
-              </p>
-              {isActive && (
-                <p className={`text-[10px] ${c.detail} mt-0.5`}>
-                  {step.detail}
-                </p>
+                <CheckCircle className="w-3.5 h-3.5 text-green-500" />
               )}
             </div>
+            <p
+              className={`text-xs truncate ${
+                isLatest
+                  ? `font-medium ${c.label}`
+                  : "text-gray-600 dark:text-gray-400"
+              }`}
+            >
+              {event.message}
+            </p>
           </div>
         );
       })}
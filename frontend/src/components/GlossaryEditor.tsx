@@ -0,0 +1,298 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Glossary Editor (book-wide terminology)
+// Terms are collected from the chapters as they are written; the writer
+// must use them verbatim. Chapters that spell or translate a term some
+// other way are listed. Optionally printed as a Glossary chapter.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { useState, useEffect } from "react";
+import {
+  Save,
+  Loader2,
+  Check,
+  BookA,
+  Plus,
+  Trash2,
+  AlertTriangle,
+  ToggleLeft,
+  ToggleRight,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import apiClient from "@/lib/api";
+
+interface GlossaryTerm {
+  id?: string;
+  term: string;
+  definition: string;
+  variants: string[];
+  source: "registry" | "user";
+  chapterNumber: number | null;
+}
+
+interface TermIssue {
+  chapterNumber: number;
+  term: string;
+  found: string;
+  count: number;
+}
+
+/** Editable row — variants typed as a comma-separated list */
+interface Row {
+  id?: string;
+  term: string;
+  definition: string;
+  variants: string;
+  chapterNumber: number | null;
+}
+
+function toRows(terms: GlossaryTerm[]): Row[] {
+  return terms.map((t) => ({
+    id: t.id,
+    term: t.term,
+    definition: t.definition,
+    variants: t.variants.join(", "),
+    chapterNumber: t.chapterNumber,
+  }));
+}
+
+interface GlossaryEditorProps {
+  projectId: string;
+  language: string;
+  onSaved: () => void;
+}
+
+export default function GlossaryEditor({
+  projectId,
+  language,
+  onSaved,
+}: GlossaryEditorProps) {
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [enabled, setEnabled] = useState(false);
+  const [issues, setIssues] = useState<TermIssue[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const isPolish = language === "pl";
+
+  useEffect(() => {
+    load();
+  }, [projectId]);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await apiClient.get(`/projects/${projectId}/glossary`);
+      setRows(toRows(res.data.data.terms));
+      setEnabled(res.data.data.enabled);
+      setIssues(res.data.data.issues);
+      setDirty(false);
+    } catch {
+      toast.error(
+        isPolish
+          ? "Nie udało się wczytać słowniczka"
+          : "Failed to load glossary",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (i: number, patch: Partial<Row>) => {
+    setRows((prev) => prev.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+    setDirty(true);
+  };
+
+  const addRow = () => {
+    setRows((prev) => [
+      ...prev,
+      { term: "", definition: "", variants: "", chapterNumber: null },
+    ]);
+    setDirty(true);
+  };
+
+  const removeRow = (i: number) => {
+    setRows((prev) => prev.filter((_, j) => j !== i));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await apiClient.put(`/projects/${projectId}/glossary`, {
+        enabled,
+        terms: rows.map((r) => ({
+          id: r.id,
+          term: r.term,
+          definition: r.definition,
+          variants: r.variants.split(","),
+        })),
+      });
+      await load();
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+      toast.success(isPolish ? "Słowniczek zapisany" : "Glossary saved");
+      onSaved();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-2.5 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 outline-none";
+
+  return (
+    <div className="space-y-4">
+      {/* ── Header with toggle ── */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <BookA className="w-5 h-5 text-primary-500" />
+          <h3 className="text-base font-bold text-gray-900 dark:text-white">
+            {isPolish ? "Terminologia" : "Terminology"}
+          </h3>
+          <span className="text-xs text-gray-400">({rows.length})</span>
+        </div>
+
+        <button
+          onClick={() => {
+            setEnabled(!enabled);
+            setDirty(true);
+          }}
+          className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+            enabled
+              ? "bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300"
+              : "bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400"
+          }`}
+        >
+          {enabled ? (
+            <ToggleRight className="w-5 h-5" />
+          ) : (
+            <ToggleLeft className="w-5 h-5" />
+          )}
+          {isPolish ? "Słowniczek w książce" : "Glossary in book"}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {isPolish ? "Wczytywanie..." : "Loading..."}
+        </div>
+      ) : (
+        <>
+          {/* ── Consistency issues ── */}
+          {issues.length > 0 && (
+            <div className="rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30 p-3">
+              <p className="flex items-center gap-1.5 text-sm font-medium text-amber-700 dark:text-amber-400 mb-1.5">
+                <AlertTriangle className="w-4 h-4" />
+                {isPolish
+                  ? "Niespójna terminologia"
+                  : "Inconsistent terminology"}
+              </p>
+              <ul className="space-y-0.5">
+                {issues.map((issue, i) => (
+                  <li
+                    key={i}
+                    className="text-xs text-amber-700 dark:text-amber-400"
+                  >
+                    {isPolish ? "Rozdz." : "Ch."} {issue.chapterNumber}: "
+                    {issue.found}" ×{issue.count} →{" "}
+                    <strong>{issue.term}</strong>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* ── Term rows ── */}
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">
+              {isPolish
+                ? "Brak terminów — zostaną zebrane z rozdziałów."
+                : "No terms yet — they are collected from the chapters."}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="hidden md:grid grid-cols-[1fr_2fr_1fr_auto] gap-2 text-[10px] font-semibold uppercase text-gray-400">
+                <span>{isPolish ? "Termin" : "Term"}</span>
+                <span>{isPolish ? "Definicja" : "Definition"}</span>
+                <span>
+                  {isPolish
+                    ? "Zakazane warianty (po przecinku)"
+                    : "Variants to flag (comma-separated)"}
+                </span>
+                <span />
+              </div>
+              {rows.map((row, i) => (
+                <div
+                  key={row.id || `new-${i}`}
+                  className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_auto] gap-2"
+                >
+                  <input
+                    value={row.term}
+                    onChange={(e) => update(i, { term: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    value={row.definition}
+                    onChange={(e) => update(i, { definition: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    value={row.variants}
+                    onChange={(e) => update(i, { variants: e.target.value })}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => removeRow(i)}
+                    title={isPolish ? "Usuń" : "Remove"}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* ── Footer ── */}
+          <div className="flex items-center justify-between pt-1">
+            <button
+              onClick={addRow}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs bg-primary-50 dark:bg-primary-950/30 text-primary-600 dark:text-primary-400 border border-primary-200 dark:border-primary-800 rounded-lg hover:bg-primary-100 dark:hover:bg-primary-950/50 transition-colors font-medium"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {isPolish ? "Dodaj termin" : "Add term"}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving}
+              className={`inline-flex items-center gap-1.5 px-4 py-2 text-sm rounded-lg font-medium transition-colors ${
+                dirty
+                  ? "bg-primary-600 text-white hover:bg-primary-700"
+                  : "bg-gray-200 dark:bg-gray-700 text-gray-400 cursor-not-allowed"
+              }`}
+            >
+              {saving ? (
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              ) : saved ? (
+                <Check className="w-3.5 h-3.5" />
+              ) : (
+                <Save className="w-3.5 h-3.5" />
+              )}
+              {isPolish ? "Zapisz" : "Save"}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">
+            {isPolish
+              ? "Terminy są obowiązkowe przy pisaniu i regeneracji rozdziałów. Słowniczek (terminy z definicją) pojawi się na końcu książki po rekompilacji."
+              : "Terms are mandatory when chapters are written or regenerated. The Glossary (terms with a definition) appears at the end of the book upon recompilation."}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Editorial review report
+// The whole-book review from the pipeline (score, summary, gaps, overlaps
+// between chapters). Can be re-run after the user's own edits; each missing
+// topic can be written into the book with one click.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { useState, useEffect, useRef } from "react";
+import { ClipboardCheck, Loader2, Plus, Check, RefreshCw } from "lucide-react";
+import toast from "react-hot-toast";
+import apiClient from "@/lib/api";
+
+export interface ReviewResult {
+  missing_topics: string[];
+  redundancies: Array<{ chapters: number[]; description: string }>;
+  removals: Array<{ chapter: number; description: string }>;
+  score: number;
+  needs_revision: boolean;
+  summary: string;
+}
+
+export interface ReviewStats {
+  reviewTokens: number;
+  revisionTokens: number;
+  editsApplied: number;
+  originalScore: number;
+  finalScore: number;
+}
+
+export interface StoredReview {
+  id: string;
+  source: "pipeline" | "user" | "admin";
+  result: ReviewResult;
+  stats: ReviewStats;
+  appliedTopics: string[];
+  createdAt: string;
+}
+
+/** Report body — shared with the admin project page */
+export function ReviewDetails({
+  review,
+  isPolish = false,
+  inserting = null,
+  onInsert,
+}: {
+  review: StoredReview;
+  isPolish?: boolean;
+  /** Topic being written right now */
+  inserting?: string | null;
+  /** Omitted = topics are listed without the insert action */
+  onInsert?: (topic: string) => void;
+}) {
+  const { result, stats } = review;
+  const ch = isPolish ? "Rozdz." : "Ch.";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline gap-3">
+        <span
+          className={`text-2xl font-bold ${
+            result.score >= 8
+              ? "text-green-600 dark:text-green-400"
+              : result.score >= 6
+                ? "text-amber-600 dark:text-amber-400"
+                : "text-red-600 dark:text-red-400"
+          }`}
+        >
+          {result.score}/10
+        </span>
+        {stats.editsApplied > 0 && (
+          <span className="text-xs text-gray-400">
+            {isPolish
+              ? `automatyczna korekta: ${stats.originalScore}→${stats.finalScore}/10, ${stats.editsApplied} zmian`
+              : `automatic pass: ${stats.originalScore}→${stats.finalScore}/10, ${stats.editsApplied} edit(s)`}
+          </span>
+        )}
+      </div>
+      {result.summary && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {result.summary}
+        </p>
+      )}
+
+      {result.missing_topics.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold uppercase text-gray-400 mb-1">
+            {isPolish ? "Brakujące tematy" : "Missing topics"}
+          </p>
+          <ul className="space-y-1.5">
+            {result.missing_topics.map((topic) => {
+              const applied = review.appliedTopics.includes(topic);
+              return (
+                <li
+                  key={topic}
+                  className="flex items-center justify-between gap-3 text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <span>{topic}</span>
+                  {applied ? (
+                    <span className="inline-flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+                      <Check className="w-3.5 h-3.5" />
+                      {isPolish ? "Dodano" : "Inserted"}
+                    </span>
+                  ) : (
+                    onInsert && (
+                      <button
+                        onClick={() => onInsert(topic)}
+                        disabled={inserting !== null}
+                        className="inline-flex items-center gap-1 px-2.5 py-1 text-xs bg-primary-50 dark:bg-primary-950/30 text-primary-600 dark:text-primary-400 border border-primary-200 dark:border-primary-800 rounded-lg hover:bg-primary-100 dark:hover:bg-primary-950/50 transition-colors font-medium disabled:opacity-50 shrink-0"
+                      >
+                        {inserting === topic ? (
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        ) : (
+                          <Plus className="w-3.5 h-3.5" />
+                        )}
+                        {isPolish ? "Dopisz" : "Insert"}
+                      </button>
+                    )
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {result.redundancies.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold uppercase text-gray-400 mb-1">
+            {isPolish ? "Powtórzenia" : "Redundancies"}
+          </p>
+          <ul className="space-y-0.5">
+            {result.redundancies.map((r, i) => (
+              <li key={i} className="text-xs text-gray-600 dark:text-gray-400">
+                {ch} {r.chapters.join(", ")} — {r.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.removals.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold uppercase text-gray-400 mb-1">
+            {isPolish ? "Do skrócenia" : "Suggested cuts"}
+          </p>
+          <ul className="space-y-0.5">
+            {result.removals.map((r, i) => (
+              <li key={i} className="text-xs text-gray-600 dark:text-gray-400">
+                {ch} {r.chapter} — {r.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ReviewReportProps {
+  projectId: string;
+  language: string;
+  /** The editor holds unsaved changes — the review reads saved chapters */
+  unsavedEdits: boolean;
+  /** A topic was written into a chapter */
+  onInserted: () => void;
+}
+
+export default function ReviewReport({
+  projectId,
+  language,
+  unsavedEdits,
+  onInserted,
+}: ReviewReportProps) {
+  const [loading, setLoading] = useState(true);
+  const [reviews, setReviews] = useState<StoredReview[]>([]);
+  const [rerunning, setRerunning] = useState(false);
+  const [inserting, setInserting] = useState<string | null>(null);
+  /** Latest review when a re-run was queued — tells the new one apart */
+  const rerunFrom = useRef<string | undefined>(undefined);
+
+  const isPolish = language === "pl";
+  const latest = reviews[0];
+  const busy = rerunning || inserting !== null;
+
+  useEffect(() => {
+    apiClient
+      .get(`/projects/${projectId}/review`)
+      .then((res) => setReviews(res.data.data.reviews))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  // ── Poll while the queued review / insertion runs in the worker ──
+
+  useEffect(() => {
+    if (!busy) return;
+    const timer = setInterval(async () => {
+      try {
+        const res = await apiClient.get(`/projects/${projectId}/review`);
+        if (res.data.data.reviewPending) return;
+        const fresh: StoredReview[] = res.data.data.reviews;
+        setReviews(fresh);
+
+        if (inserting !== null) {
+          if (fresh[0]?.appliedTopics.includes(inserting)) {
+            toast.success(isPolish ? "Temat dopisany" : "Topic added");
+            onInserted();
+          } else {
+            toast.error(
+              isPolish ? "Nie udało się dopisać" : "Insert failed",
+            );
+          }
+          setInserting(null);
+        } else {
+          if (fresh[0] && fresh[0].id !== rerunFrom.current) {
+            toast.success(isPolish ? "Recenzja gotowa" : "Review updated");
+          } else {
+            toast.error(
+              isPolish ? "Recenzja nie powiodła się" : "Review failed",
+            );
+          }
+          setRerunning(false);
+        }
+      } catch {
+        /* next tick */
+      }
+    }, 5000);
+    return () => clearInterval(timer);
+  }, [busy, inserting, projectId]);
+
+  const handleRerun = async () => {
+    rerunFrom.current = latest?.id;
+    setRerunning(true);
+    try {
+      await apiClient.post(`/projects/${projectId}/review`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Review failed");
+      setRerunning(false);
+    }
+  };
+
+  const handleInsert = async (topic: string) => {
+    setInserting(topic);
+    try {
+      await apiClient.post(`/projects/${projectId}/review/insertions`, {
+        topic,
+      });
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Insert failed");
+      setInserting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-primary-500" />
+          <h3 className="text-base font-bold text-gray-900 dark:text-white">
+            {isPolish ? "Recenzja redakcyjna" : "Editorial review"}
+          </h3>
+          {latest && (
+            <span className="text-xs text-gray-400">
+              {new Date(latest.createdAt).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={handleRerun}
+          disabled={busy || unsavedEdits}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {rerunning ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <RefreshCw className="w-3.5 h-3.5" />
+          )}
+          {isPolish ? "Oceń ponownie" : "Re-run review"}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {isPolish ? "Wczytywanie..." : "Loading..."}
+        </div>
+      ) : !latest ? (
+        <p className="text-sm text-gray-400 italic">
+          {isPolish
+            ? "Brak recenzji — uruchom ją, aby ocenić kompletność książki."
+            : "No review yet — run one to check how complete the book is."}
+        </p>
+      ) : (
+        <>
+          <ReviewDetails
+            review={latest}
+            isPolish={isPolish}
+            inserting={inserting}
+            onInsert={unsavedEdits ? undefined : handleInsert}
+          />
+          {reviews.length > 1 && (
+            <p className="text-xs text-gray-400">
+              {isPolish ? "Wcześniej: " : "Earlier: "}
+              {reviews
+                .slice(1, 6)
+                .map(
+                  (r) =>
+                    `${r.result.score}/10 (${new Date(r.createdAt).toLocaleDateString()})`,
+                )
+                .join(" · ")}
+            </p>
+          )}
+        </>
+      )}
+      <p className="text-xs text-gray-400">
+        {unsavedEdits
+          ? isPolish
+            ? "Zapisz zmiany w edytorze — recenzja czyta zapisane rozdziały."
+            : "Save your edits first — the review reads the saved chapters."
+          : isPolish
+            ? "Dopisany temat trafia do wybranego rozdziału; poprzednia wersja zostaje w historii rozdziału."
+            : "An inserted topic goes into the best-fitting chapter; the previous version stays in the chapter's history."}
+      </p>
+    </div>
+  );
+}
@@ -32,9 +32,19 @@ interface Chapter {
   sections: Section[];
 }
 
+/** Reference material — lettered A, B… after the chapters */
+interface Appendix {
+  id: string;
+  letter: string;
+  title: string;
+  description: string;
+  targetPages: number;
+}
+
 interface StructureData {
   suggestedTitle?: string;
   chapters: Chapter[];
+  appendices?: Appendix[];
 }
 
 interface Props {
@@ -64,7 +74,9 @@ export default function StructureEditor({
   const [redoFeedback, setRedoFeedback] = useState("");
   const [showRedo, setShowRedo] = useState(false);
 
+  const appendices = structure.appendices || [];
   const totalPages = structure.chapters.reduce((s, c) => s + c.targetPages, 0);
+  const appendixPages = appendices.reduce((s, a) => s + a.targetPages, 0);
 
   // ── Toggle chapter expand ──
   const toggleChapter = (id: string) => {
@@ -94,14 +106,17 @@ export default function StructureEditor({
         ...c,
         sections: [...c.sections],
       })),
+      appendices: appendices.map((a) => ({ ...a })),
     };
 
     if (parts[0] === "title") {
       updated.suggestedTitle = editValue;
     } else if (parts.length === 2) {
-      // chapter field: ch1.title, ch1.description
-      const ch = updated.chapters.find((c) => c.id === parts[0]);
-      if (ch) (ch as any)[parts[1]] = editValue;
+      // chapter or appendix field: ch1.title, appA.description
+      const item =
+        updated.chapters.find((c) => c.id === parts[0]) ||
+        updated.appendices.find((a) => a.id === parts[0]);
+      if (item) (item as any)[parts[1]] = editValue;
     } else if (parts.length === 3) {
       // section field: ch1.s1.title
       const ch = updated.chapters.find((c) => c.id === parts[0]);
@@ -221,12 +236,51 @@ export default function StructureEditor({
     }));
   };
 
+  // ── Appendices — letters follow the order ──
+  const reletter = (list: Appendix[]) =>
+    list.map((a, i) => ({ ...a, letter: String.fromCharCode(65 + i) }));
+
+  const addAppendix = () => {
+    setStructure((prev) => ({
+      ...prev,
+      appendices: reletter([
+        ...(prev.appendices || []),
+        {
+          id: `app-${Date.now()}`,
+          letter: "",
+          title: "New Appendix",
+          description: "Checklist, template or reference table it holds",
+          targetPages: 2,
+        },
+      ]),
+    }));
+  };
+
+  const removeAppendix = (id: string) => {
+    setStructure((prev) => ({
+      ...prev,
+      appendices: reletter(
+        (prev.appendices || []).filter((a) => a.id !== id),
+      ),
+    }));
+  };
+
+  const updateAppendixPages = (id: string, pages: number) => {
+    setStructure((prev) => ({
+      ...prev,
+      appendices: (prev.appendices || []).map((a) =>
+        a.id === id ? { ...a, targetPages: Math.max(1, pages) } : a,
+      ),
+    }));
+  };
+
   // ── Save to backend ──
   const saveStructure = async () => {
     setSaving(true);
     try {
       await apiClient.put(`/projects/${projectId}/structure`, {
         chapters: structure.chapters,
+        appendices,
       });
       toast.success("Structure saved!");
     } catch (err: any) {
@@ -316,6 +370,8 @@ export default function StructureEditor({
         <div className="flex items-center gap-3 text-sm">
           <span className="text-gray-500 dark:text-gray-400">
             {structure.chapters.length} chapters • {totalPages} pages
+            {appendices.length > 0 &&
+              ` + ${appendices.length} appendices (${appendixPages} pages)`}
           </span>
         </div>
       </div>
@@ -483,6 +539,74 @@ export default function StructureEditor({
         <Plus className="w-4 h-4" /> Add Chapter
       </button>
 
+      {/* Appendices — own page budget, written after the chapters */}
+      <div className="mb-6">
+        <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase mb-2">
+          Appendices
+        </p>
+        <div className="space-y-3 mb-3">
+          {appendices.map((appendix) => (
+            <div
+              key={appendix.id}
+              className="flex items-center gap-3 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-primary-600 dark:text-primary-400 flex-shrink-0">
+                    APP {appendix.letter}
+                  </span>
+                  <EditableText
+                    fieldKey={`${appendix.id}.title`}
+                    value={appendix.title}
+                    className="font-semibold text-gray-900 dark:text-white truncate"
+                  />
+                </div>
+                <EditableText
+                  fieldKey={`${appendix.id}.description`}
+                  value={appendix.description}
+                  className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 block"
+                />
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() =>
+                      updateAppendixPages(appendix.id, appendix.targetPages - 1)
+                    }
+                    className="w-6 h-6 flex items-center justify-center rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 text-xs"
+                  >
+                    -
+                  </button>
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300 w-8 text-center">
+                    {appendix.targetPages}p
+                  </span>
+                  <button
+                    onClick={() =>
+                      updateAppendixPages(appendix.id, appendix.targetPages + 1)
+                    }
+                    className="w-6 h-6 flex items-center justify-center rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 text-xs"
+                  >
+                    +
+                  </button>
+                </div>
+                <button
+                  onClick={() => removeAppendix(appendix.id)}
+                  className="p-1 text-red-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={addAppendix}
+          className="w-full py-3 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-xl text-sm text-gray-500 dark:text-gray-400 hover:border-primary-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Add Appendix
+        </button>
+      </div>
+
       {/* Redo section */}
       {canRedo && (
         <div className="mb-6">
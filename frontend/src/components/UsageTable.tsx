@@ -0,0 +1,93 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — LLM usage breakdown table (admin)
+// Renders one grouping of the LlmCall ledger: per day, model, project…
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { Link } from "react-router-dom";
+
+export interface UsageRow {
+  key: string;
+  /** Display name when `key` is an id */
+  label?: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheTokens: number;
+  cost: number;
+}
+
+export default function UsageTable({
+  title,
+  rows,
+  linkTo,
+}: {
+  title: string;
+  rows: UsageRow[];
+  linkTo?: (row: UsageRow) => string;
+}) {
+  const total = rows.reduce((sum, r) => sum + r.cost, 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          {title}
+        </h3>
+        <span className="text-xs font-mono text-orange-600">
+          ${total.toFixed(4)}
+        </span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-gray-400 italic">No calls yet</p>
+      ) : (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-gray-50 dark:bg-gray-800/50">
+                {["", "Calls", "In", "Out", "Cache", "Cost"].map((h) => (
+                  <th
+                    key={h}
+                    className="px-3 py-2 text-left font-semibold text-gray-500 dark:text-gray-400 uppercase"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {rows.map((r) => (
+                <tr key={r.key}>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300 font-medium">
+                    {linkTo ? (
+                      <Link
+                        to={linkTo(r)}
+                        className="text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                      >
+                        {r.label || r.key}
+                      </Link>
+                    ) : (
+                      r.label || r.key
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">{r.calls}</td>
+                  <td className="px-3 py-2 text-gray-500">
+                    {r.inputTokens.toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">
+                    {r.outputTokens.toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">
+                    {r.cacheTokens ? r.cacheTokens.toLocaleString() : "—"}
+                  </td>
+                  <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">
+                    ${r.cost.toFixed(4)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -31,7 +31,12 @@ import {
   Trash2,
   Plus,
 } from "lucide-react";
-import { Callout, CALLOUT_STYLES } from "./CalloutNode";
+import {
+  Callout,
+  CALLOUT_STYLES,
+  Exercise,
+  EXERCISE_TEMPLATES,
+} from "./CalloutNode";
 
 // ── Props ──
 interface WysiwygEditorProps {
@@ -76,6 +81,7 @@ export default function WysiwygEditor({
         placeholder: "Start writing…",
       }),
       Callout,
+      Exercise,
     ],
     content,
     editable: !readOnly,
@@ -176,6 +182,20 @@ export default function WysiwygEditor({
     setShowCalloutMenu(false);
   };
 
+  const insertExercise = (key: string) => {
+    const template = EXERCISE_TEMPLATES[key];
+    editor
+      .chain()
+      .focus()
+      .insertContent({
+        type: "exercise",
+        attrs: { kind: template.kind, title: template.title },
+        content: template.content,
+      })
+      .run();
+    setShowCalloutMenu(false);
+  };
+
   const insertTable = () => {
     editor
       .chain()
@@ -311,7 +331,7 @@ export default function WysiwygEditor({
             </button>
 
             {showCalloutMenu && (
-              <div className="absolute top-full left-0 mt-1 z-50 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl py-1 w-48">
+              <div className="absolute top-full left-0 mt-1 z-50 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl py-1 w-56">
                 {Object.entries(CALLOUT_STYLES).map(([type, style]) => (
                   <button
                     key={type}
@@ -322,6 +342,26 @@ export default function WysiwygEditor({
                     <span>{style.label}</span>
                   </button>
                 ))}
+                <div className="border-t border-gray-100 dark:border-gray-800 mt-1 pt-1">
+                  <p className="px-3 pt-1 text-[11px] font-semibold uppercase text-gray-400">
+                    Exercises
+                  </p>
+                  {Object.entries(EXERCISE_TEMPLATES).map(([key, t]) => (
+                    <button
+                      key={key}
+                      onClick={() => insertExercise(key)}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                    >
+                      <span>{t.emoji}</span>
+                      <span>{t.label}</span>
+                    </button>
+                  ))}
+                  <p className="px-3 py-1.5 text-[11px] leading-snug text-gray-400">
+                    ✓ marks the right choice, [[…]] a blank, [lines: 4]
+                    writing lines; an "Answer:" paragraph goes to the Answer
+                    Key.
+                  </p>
+                </div>
               </div>
             )}
           </div>
@@ -477,6 +517,35 @@ export default function WysiwygEditor({
         }
         .dark .wysiwyg-content div[data-callout="examplebox"]::before { color: #93c5fd; }
 
+        /* ── Exercises ── */
+        .wysiwyg-content div[data-exercise] {
+          border: 1px solid #7c3aed;
+          border-left-width: 4px;
+          border-radius: 0.5rem;
+          padding: 0.75rem 1rem;
+          margin: 1rem 0;
+        }
+        .wysiwyg-content div[data-exercise]::before {
+          content: "✏️ Exercise: " attr(data-title);
+          display: block;
+          font-weight: 700;
+          font-size: 0.8rem;
+          margin-bottom: 0.25rem;
+          color: #7c3aed;
+        }
+        .wysiwyg-content div[data-exercise="worksheet"] {
+          border-width: 2px;
+          border-radius: 0;
+        }
+        .wysiwyg-content div[data-exercise="worksheet"]::before {
+          content: "📄 Worksheet: " attr(data-title);
+        }
+        .wysiwyg-content div[data-exercise] ol { list-style-type: lower-alpha; }
+        .dark .wysiwyg-content div[data-exercise] {
+          border-color: #a78bfa;
+        }
+        .dark .wysiwyg-content div[data-exercise]::before { color: #a78bfa; }
+
         /* ── Tables ── */
         .wysiwyg-table {
           width: 100%;
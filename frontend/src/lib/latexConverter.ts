@@ -52,6 +52,22 @@ export function latexToHtml(latex: string): string {
     });
   }
 
+  // ── Exercises → HTML divs, answers as text markers (CalloutNode) ──
+  html = html.replace(
+    /\\begin\{(exercise|worksheet)\}\{([^}]*)\}([\s\S]*?)\\end\{\1\}/g,
+    (_match, kind, title, body) => {
+      const text = body
+        .replace(/\\begin\{choices\}/g, "\\begin{enumerate}")
+        .replace(/\\end\{choices\}/g, "\\end{enumerate}")
+        .replace(/\\correctchoice\s*/g, "\\item ✓ ")
+        .replace(/\\choice\s*/g, "\\item ")
+        .replace(/\\blank\{([^}]*)\}/g, "[[$1]]")
+        .replace(/\\writelines\{(\d+)\}/g, "[lines: $1]")
+        .replace(/\\answer\{([^}]*)\}/g, "\n\nAnswer: $1\n\n");
+      return `<div data-exercise="${kind}" data-title="${escHtml(title)}">\n\n${text.trim()}\n\n</div>`;
+    },
+  );
+
   // ── Tables ──
   html = html.replace(
     /\\begin\{table\}[\s\S]*?\\begin\{tabular[x]?\}[^}]*\{[^}]*\}([\s\S]*?)\\end\{tabular[x]?\}[\s\S]*?\\end\{table\}/g,
@@ -394,8 +410,15 @@ function nodeToLatex(node: Node): string {
     case "blockquote":
       return `\n\\begin{quote}\n${children().trim()}\n\\end{quote}\n\n`;
 
-    // ── Divs: callout boxes ──
+    // ── Divs: exercises and callout boxes ──
     case "div": {
+      const exerciseKind = el.dataset.exercise;
+      if (exerciseKind) {
+        const title = el.dataset.title || "";
+        const content = exerciseMarkersToLatex(children().trim());
+        return `\n\\begin{${exerciseKind}}{${title}}\n${content}\n\\end{${exerciseKind}}\n\n`;
+      }
+
       const calloutType = el.dataset.callout;
       if (calloutType) {
         const title = el.dataset.title || "";
@@ -459,6 +482,21 @@ function nodeToLatex(node: Node): string {
   }
 }
 
+/** Exercise answer markers (see CalloutNode Exercise) → workbook LaTeX */
+function exerciseMarkersToLatex(latex: string): string {
+  return latex
+    .replace(
+      /\\begin\{enumerate\}([\s\S]*?)\\end\{enumerate\}/g,
+      (_match, items: string) =>
+        `\\begin{choices}${items
+          .replace(/\\item ✓\s*/g, "\\correctchoice ")
+          .replace(/\\item /g, "\\choice ")}\\end{choices}`,
+    )
+    .replace(/\[\[([^\]]*)\]\]/g, "\\blank{$1}")
+    .replace(/\[lines:\s*(\d+)\]/g, "\\writelines{$1}")
+    .replace(/^Answer:\s*(.*)$/gm, "\\answer{$1}");
+}
+
 /** Convert an <img> element (or wrapper dataset) to LaTeX figure/wrapfigure */
 function imageToLatex(img: Element, dataset: DOMStringMap): string {
   const src = img.getAttribute("src") || "";
@@ -0,0 +1,98 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Live pipeline events (SSE)
+// Subscribes to GET /api/projects/:id/events while a pipeline is running
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { useEffect, useRef, useState } from "react";
+import apiClient from "@/lib/api";
+import type { PipelineEvent } from "@/lib/types";
+
+const MAX_EVENTS = 500;
+const RECONNECT_DELAY_MS = 5000;
+
+export function usePipelineEvents(
+  projectId: string | undefined,
+  enabled: boolean,
+  onEvent?: (event: PipelineEvent) => void,
+) {
+  const [events, setEvents] = useState<PipelineEvent[]>([]);
+  const [connected, setConnected] = useState(false);
+  const [reconnects, setReconnects] = useState(0);
+  const lastIdRef = useRef(0);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!projectId || !enabled) return;
+
+    let source: EventSource | undefined;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    const reconnectLater = () => {
+      retry = setTimeout(
+        () => setReconnects((n) => n + 1),
+        RECONNECT_DELAY_MS,
+      );
+    };
+
+    // EventSource can't send headers — a short-lived stream token (and the
+    // resume point) go in the URL, never the access token itself
+    apiClient
+      .post(`/projects/${projectId}/events/token`)
+      .then((res) => {
+        if (cancelled) return;
+        source = new EventSource(
+          `/api/projects/${projectId}/events?token=${res.data.data.token}&lastEventId=${lastIdRef.current}`,
+        );
+        source.onopen = () => setConnected(true);
+        source.onerror = () => {
+          setConnected(false);
+          // CLOSED = the server refused (e.g. the stream token expired) — the
+          // browser won't retry on its own, so reopen with a fresh token
+          if (source!.readyState === EventSource.CLOSED) reconnectLater();
+        };
+        source.addEventListener("pipeline", (msg) => {
+          const event: PipelineEvent = JSON.parse((msg as MessageEvent).data);
+          if (event.id <= lastIdRef.current) return;
+          lastIdRef.current = event.id;
+          setEvents((prev) => [...prev.slice(-(MAX_EVENTS - 1)), event]);
+          onEventRef.current?.(event);
+        });
+      })
+      .catch(() => {
+        if (!cancelled) reconnectLater();
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retry);
+      source?.close();
+      setConnected(false);
+    };
+  }, [projectId, enabled, reconnects]);
+
+  return { events, connected };
+}
+
+/** Events of the latest run of `pipeline` (everything after its last header) */
+export function latestRun(
+  events: PipelineEvent[],
+  pipeline: string,
+): PipelineEvent[] {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].pipeline === pipeline && events[i].level === "header") {
+      return events.slice(i).filter((e) => e.pipeline === pipeline);
+    }
+  }
+  return [];
+}
+
+/** Events after the latest `phase` marker of a run */
+export function sincePhase(run: PipelineEvent[], phase: number) {
+  for (let i = run.length - 1; i >= 0; i--) {
+    if (run[i].level === "phase" && run[i].phase === phase) {
+      return run.slice(i + 1);
+    }
+  }
+  return [];
+}
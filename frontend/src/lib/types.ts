@@ -22,6 +22,7 @@ export type GenerationStatus =
   | "COMPILING_LATEX"
   | "COMPILING_EPUB"
   | "COMPLETED"
+  | "CANCELLED"
   | "ERROR";
 
 export const STAGE_LABELS: Record<ProjectStage, string> = {
@@ -129,3 +130,22 @@ export function calculatePrice(pages: number) {
     perPageCents: Math.round(tier.priceUsdCents / clamped),
   };
 }
+
+// ── Live pipeline events (GET /api/projects/:id/events, match backend) ──
+
+export type PipelineEventData =
+  | { kind: "research"; chapter: number; title?: string; sources?: number }
+  | { kind: "chapter"; chapter: number; targetWords: number; words?: number }
+  | { kind: "review"; score: number; final: boolean }
+  | { kind: "pdflatex"; attempt: number; maxAttempts: number; pass: number }
+  | { kind: "result"; status: "SUCCESS" | "ERROR" };
+
+export interface PipelineEvent {
+  id: number;
+  at: string;
+  pipeline: string;
+  level: "header" | "phase" | "step" | "ok" | "warn" | "error" | "footer";
+  message: string;
+  phase?: number;
+  data?: PipelineEventData;
+}
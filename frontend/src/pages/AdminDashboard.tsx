@@ -11,8 +11,10 @@ import {
   Loader2,
   ExternalLink,
   RefreshCw,
+  MessageSquare,
 } from "lucide-react";
 import apiClient from "@/lib/api";
+import UsageTable from "@/components/UsageTable";
 
 export default function AdminDashboard() {
   const { data, isLoading, refetch } = useQuery({
@@ -40,7 +42,7 @@ export default function AdminDashboard() {
     );
   }
 
-  const { stats, recentProjects } = data;
+  const { stats, recentProjects, usage, spendCapAlerts } = data;
 
   const stageColor = (stage: string) => {
     const colors: Record<string, string> = {
@@ -69,14 +71,50 @@ export default function AdminDashboard() {
             BookForge.ai — full visibility
           </p>
         </div>
-        <button
-          onClick={() => refetch()}
-          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
-        >
-          <RefreshCw className="w-5 h-5 text-gray-500" />
-        </button>
+        <div className="flex items-center gap-2">
+          <Link
+            to="/admin/prompts"
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <MessageSquare className="w-4 h-4" /> Prompts
+          </Link>
+          <button
+            onClick={() => refetch()}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <RefreshCw className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
       </div>
 
+      {/* Spend cap halts — waiting for an admin to raise the cap */}
+      {spendCapAlerts?.length > 0 && (
+        <div className="mb-8 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900 rounded-2xl p-5">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-red-800 dark:text-red-300 mb-3">
+            <AlertCircle className="w-4 h-4" />
+            {spendCapAlerts.length} project(s) halted at the spend cap
+          </h2>
+          <ul className="space-y-1 text-sm">
+            {spendCapAlerts.map((a: any) => (
+              <li key={a.id} className="flex items-center gap-3">
+                <Link
+                  to={`/admin/projects/${a.id}`}
+                  className="font-medium text-red-700 hover:text-red-800 dark:text-red-300"
+                >
+                  {a.title}
+                </Link>
+                <span className="text-xs text-red-600 dark:text-red-400 font-mono">
+                  ${a.spentUsd.toFixed(2)} / ${a.capUsd?.toFixed(2)}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {new Date(a.haltedAt).toLocaleString("pl-PL")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Stats cards */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
         {[
@@ -116,6 +154,17 @@ export default function AdminDashboard() {
         </div>
       </div>
 
+      {/* LLM spend (LlmCall ledger) */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-8">
+        <UsageTable title="Spend per day (30d)" rows={usage.byDay} />
+        <UsageTable title="Spend per model" rows={usage.byModel} />
+        <UsageTable
+          title="Top projects by spend"
+          rows={usage.byProject}
+          linkTo={(r) => `/admin/projects/${r.key}`}
+        />
+      </div>
+
       {/* Projects table */}
       <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden">
         <div className="p-5 border-b border-gray-100 dark:border-gray-800">
@@ -23,10 +23,14 @@ import {
   Zap,
   Trash2,
   Download,
+  DollarSign,
+  ClipboardCheck,
 } from "lucide-react";
 import apiClient from "@/lib/api";
 import { useAuthStore } from "@/stores/authStore";
 import toast from "react-hot-toast";
+import UsageTable from "@/components/UsageTable";
+import { ReviewDetails, type StoredReview } from "@/components/ReviewReport";
 
 export default function AdminProjectDetail() {
   const { id } = useParams<{ id: string }>();
@@ -43,6 +47,9 @@ export default function AdminProjectDetail() {
       const res = await apiClient.get(`/admin/projects/${id}`);
       return res.data.data;
     },
+    // A queued re-review / insertion — reload until the worker is done
+    refetchInterval: (query) =>
+      query.state.data?.reviewPending ? 5000 : false,
   });
 
   const {
@@ -302,8 +309,14 @@ export default function AdminProjectDetail() {
 
       {/* ═══ 1. STRUCTURE GENERATION ═══ */}
       <Section title="1. Structure Generation" icon={FileText}>
+        <PromptVariantPanel
+          projectId={id!}
+          variant={project.promptVariant}
+          onSaved={refetchProject}
+        />
         {promptsData?.structure ? (
           <div className="space-y-4">
+            <PromptRefs refs={promptsData.structure.promptRefs} />
             <PromptBlock
               label="Prompt → Claude"
               content={promptsData.structure.prompt}
@@ -341,14 +354,468 @@ export default function AdminProjectDetail() {
         )}
       </Section>
 
-      {/* ═══ 3. RAW PROJECT DATA ═══ */}
-      <Section title="3. Raw Project Data" icon={Hash}>
+      {/* ═══ 3. BOOK REVIEW ═══ */}
+      <Section title="3. Book Review" icon={ClipboardCheck}>
+        <ReviewPanel
+          projectId={id!}
+          reviews={project.reviews}
+          pending={project.reviewPending}
+          onChanged={refetchProject}
+        />
+      </Section>
+
+      {/* ═══ 4. LLM USAGE ═══ */}
+      <Section
+        title="4. LLM Usage & Cost"
+        icon={DollarSign}
+        defaultOpen={!!project.spendCapHitAt}
+      >
+        <SpendCapPanel
+          projectId={id!}
+          project={project}
+          onSaved={refetchProject}
+        />
+        <UsageView usage={project.usage} />
+      </Section>
+
+      {/* ═══ 5. RAW PROJECT DATA ═══ */}
+      <Section title="5. Raw Project Data" icon={Hash}>
         <CollapsibleJson label="Full project object" data={project} />
       </Section>
     </div>
   );
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Book Review — latest editorial review, earlier runs, re-run / insert
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function ReviewPanel({
+  projectId,
+  reviews,
+  pending,
+  onChanged,
+}: {
+  projectId: string;
+  reviews: StoredReview[];
+  /** A queued re-review / insertion has not finished yet */
+  pending: boolean;
+  onChanged: () => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [inserting, setInserting] = useState<string | null>(null);
+  const [latest, ...earlier] = reviews;
+
+  const rerun = async () => {
+    setBusy(true);
+    try {
+      await apiClient.post(`/admin/projects/${projectId}/review`);
+      toast.success("Review queued");
+      onChanged();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const insert = async (topic: string) => {
+    setInserting(topic);
+    try {
+      await apiClient.post(`/admin/projects/${projectId}/review/insertions`, {
+        topic,
+      });
+      toast.success("Insertion queued");
+      onChanged();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed");
+    } finally {
+      setInserting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          {latest
+            ? `${latest.source} · ${new Date(latest.createdAt).toLocaleString("pl-PL")} · ${(latest.stats.reviewTokens + latest.stats.revisionTokens).toLocaleString()} tokens`
+            : "No review stored"}
+        </span>
+        <button
+          onClick={rerun}
+          disabled={busy || pending || inserting !== null}
+          className="inline-flex items-center gap-1.5 px-3 py-1 text-xs bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          {busy || pending ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <RefreshCw className="w-3 h-3" />
+          )}
+          Re-run review
+        </button>
+      </div>
+      {latest && (
+        <ReviewDetails
+          review={latest}
+          inserting={inserting}
+          onInsert={pending ? undefined : insert}
+        />
+      )}
+      {earlier.length > 0 && (
+        <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1 font-mono">
+          {earlier.map((r) => (
+            <li key={r.id}>
+              {new Date(r.createdAt).toLocaleString("pl-PL")} · {r.source} ·{" "}
+              {r.stats.originalScore}→{r.stats.finalScore}/10 ·{" "}
+              {r.stats.editsApplied} edit(s)
+              {r.appliedTopics.length > 0 &&
+                ` · +${r.appliedTopics.length} inserted`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Spend Cap — current cap, fired degradations, admin override
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function SpendCapPanel({
+  projectId,
+  project,
+  onSaved,
+}: {
+  projectId: string;
+  project: any;
+  onSaved: () => void;
+}) {
+  const [capInput, setCapInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { capUsd, isOverride, degradations } = project.spend;
+  const spent = project.totalCostUsd || 0;
+  const share = capUsd ? Math.min(1, spent / capUsd) : 0;
+
+  const saveCap = async (value: number | null) => {
+    setSaving(true);
+    try {
+      const res = await apiClient.post(
+        `/admin/projects/${projectId}/spend-cap`,
+        { capUsd: value },
+      );
+      toast.success(
+        res.data.data.resumed ? "Cap updated — generation resumed" : "Cap updated",
+      );
+      setCapInput("");
+      onSaved();
+    } catch {
+      toast.error("Failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-5 space-y-3">
+      {project.spendCapHitAt && (
+        <div className="rounded-lg bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900 px-3 py-2 text-xs text-red-700 dark:text-red-300">
+          Halted at the spend cap on{" "}
+          {new Date(project.spendCapHitAt).toLocaleString("pl-PL")} — raise
+          the cap to resume.
+        </div>
+      )}
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="text-sm text-gray-700 dark:text-gray-300">
+          Spent <span className="font-mono font-bold">${spent.toFixed(4)}</span>
+          {" of "}
+          <span className="font-mono font-bold">
+            {capUsd ? `$${capUsd.toFixed(2)}` : "no cap"}
+          </span>
+          {isOverride && (
+            <span className="ml-1 text-[10px] text-amber-600">(override)</span>
+          )}
+        </div>
+        {capUsd && (
+          <div className="flex-1 min-w-[120px] h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${share >= 1 ? "bg-red-500" : share >= 0.7 ? "bg-amber-500" : "bg-green-500"}`}
+              style={{ width: `${share * 100}%` }}
+            />
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={capInput}
+            onChange={(e) => setCapInput(e.target.value)}
+            placeholder="Cap $"
+            className="w-24 px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950"
+          />
+          <button
+            onClick={() => saveCap(parseFloat(capInput))}
+            disabled={saving || !(parseFloat(capInput) > 0)}
+            className="px-3 py-1 text-xs bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            Set cap
+          </button>
+          {isOverride && (
+            <button
+              onClick={() => saveCap(null)}
+              disabled={saving}
+              className="px-3 py-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              Reset to default
+            </button>
+          )}
+        </div>
+      </div>
+      {degradations.length > 0 && (
+        <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+          {degradations.map((d: any, i: number) => (
+            <li key={i} className="font-mono">
+              <span className="text-amber-600">{d.degradation}</span> at{" "}
+              {d.step} — ${d.spentUsd.toFixed(4)} of ${d.capUsd.toFixed(2)} (
+              {new Date(d.at).toLocaleString("pl-PL")})
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Prompt templates — variant for A/B runs, versions that were used
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function PromptVariantPanel({
+  projectId,
+  variant,
+  onSaved,
+}: {
+  projectId: string;
+  variant: string;
+  onSaved: () => void;
+}) {
+  const [value, setValue] = useState(variant);
+  const [saving, setSaving] = useState(false);
+
+  const { data: registry } = useQuery({
+    queryKey: ["admin-prompts"],
+    queryFn: async () => {
+      const res = await apiClient.get("/admin/prompts");
+      return res.data.data;
+    },
+  });
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await apiClient.post(`/admin/projects/${projectId}/prompt-variant`, {
+        variant: value,
+      });
+      toast.success(`Prompt variant → ${value} (applies from the next run)`);
+      onSaved();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 flex items-center gap-2 text-xs">
+      <span className="text-gray-500">Prompt variant:</span>
+      <input
+        list="prompt-variants"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="w-36 px-2 py-1 font-mono rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950"
+      />
+      <datalist id="prompt-variants">
+        {registry?.variants.map((v: any) => (
+          <option key={v.variant} value={v.variant} />
+        ))}
+      </datalist>
+      <button
+        onClick={save}
+        disabled={saving || !value || value === variant}
+        className="px-3 py-1 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+      >
+        Set
+      </button>
+      <Link
+        to="/admin/prompts"
+        className="text-primary-600 hover:text-primary-700 dark:text-primary-400"
+      >
+        Templates →
+      </Link>
+    </div>
+  );
+}
+
+function PromptRefs({ refs }: { refs?: any[] }) {
+  if (!refs?.length) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {refs.map((r) => (
+        <span
+          key={r.key}
+          className="px-2 py-0.5 rounded-full text-[10px] font-mono bg-indigo-50 text-indigo-700 dark:bg-indigo-950 dark:text-indigo-300"
+        >
+          {r.key} v{r.version} · {r.variant}
+          {r.language ? ` · ${r.language}` : ""}
+          {r.hash ? ` · ${r.hash}` : ""}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/** Per-section word accuracy — chapters written in section mode only */
+function SectionStats({ stats }: { stats?: any[] | null }) {
+  if (!stats?.length) return null;
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-x-auto">
+      <table className="w-full text-[11px] font-mono">
+        <thead>
+          <tr className="bg-gray-100 dark:bg-gray-800 text-gray-500">
+            {["Section", "Target", "Written", "Accuracy"].map((h) => (
+              <th key={h} className="px-2 py-1.5 text-left font-semibold">
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {stats.map((s, i) => (
+            <tr key={i}>
+              <td className="px-2 py-1 text-gray-700 dark:text-gray-300">
+                {i + 1}. {s.title}
+              </td>
+              <td className="px-2 py-1 text-gray-500">{s.targetWords}w</td>
+              <td className="px-2 py-1 text-gray-500">{s.words}w</td>
+              <td
+                className={`px-2 py-1 font-semibold ${s.accuracy < 80 ? "text-red-600" : s.accuracy > 120 ? "text-amber-600" : "text-green-600"}`}
+              >
+                {s.accuracy}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** Expand / condense passes run after the chapter was written */
+function LengthCorrections({ passes }: { passes?: any[] }) {
+  if (!passes?.length) return null;
+  return (
+    <div className="space-y-1 text-xs">
+      {passes.map((p) => (
+        <div key={p.pass} className="text-gray-600 dark:text-gray-400">
+          <span className="font-semibold">
+            📏 Pass {p.pass} · {p.action}
+          </span>{" "}
+          {p.wordsBefore}→{p.wordsAfter}w of {p.targetWords}w —{" "}
+          {p.sections
+            .map((s: any) => `${s.title} ${s.wordsBefore}→${s.wordsAfter}`)
+            .join(", ")}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function FactCheck({ report }: { report?: any }) {
+  if (!report) return null;
+  if (report.skipped) {
+    return (
+      <div className="text-xs text-gray-500">
+        🔎 Fact check skipped: {report.skipped}
+      </div>
+    );
+  }
+  const icon: Record<string, string> = {
+    supported: "✅",
+    unsupported: "⚠️",
+    contradicted: "❌",
+  };
+  return (
+    <div className="space-y-1 text-xs">
+      {report.claims.map((c: any, i: number) => (
+        <div key={i} className="text-gray-600 dark:text-gray-400">
+          <span className="font-semibold">
+            {icon[c.verdict]} {c.verdict} · {c.action}
+          </span>{" "}
+          {c.stat}
+          {c.note && <span className="text-gray-400"> — {c.note}</span>}
+          {c.source && (
+            <span className="text-gray-400 font-mono"> [{c.source}]</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Usage View — LlmCall ledger breakdowns
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function UsageView({ usage }: { usage: any }) {
+  if (!usage?.recentCalls?.length) {
+    return <p className="text-gray-400 text-sm italic">No LLM calls recorded</p>;
+  }
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <UsageTable title="Per pipeline phase" rows={usage.byPipeline} />
+        <UsageTable title="Per chapter" rows={usage.byChapter} />
+        <UsageTable title="Per model" rows={usage.byModel} />
+        <UsageTable title="Per day" rows={usage.byDay} />
+      </div>
+      <div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-[11px] font-mono">
+          <thead>
+            <tr className="bg-gray-100 dark:bg-gray-800 text-gray-500">
+              {["Time", "Pipeline", "Task", "Ch", "Model", "In", "Out", "Latency", "Cost"].map(
+                (h) => (
+                  <th key={h} className="px-2 py-1.5 text-left font-semibold">
+                    {h}
+                  </th>
+                ),
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800 text-gray-600 dark:text-gray-400">
+            {usage.recentCalls.map((c: any, i: number) => (
+              <tr key={i}>
+                <td className="px-2 py-1">
+                  {new Date(c.createdAt).toLocaleTimeString("pl-PL")}
+                </td>
+                <td className="px-2 py-1">{c.pipeline}</td>
+                <td className="px-2 py-1">{c.task}</td>
+                <td className="px-2 py-1">{c.chapterNumber ?? "—"}</td>
+                <td className="px-2 py-1">{c.model}</td>
+                <td className="px-2 py-1">{c.inputTokens.toLocaleString()}</td>
+                <td className="px-2 py-1">{c.outputTokens.toLocaleString()}</td>
+                <td className="px-2 py-1">{(c.latencyMs / 1000).toFixed(1)}s</td>
+                <td className="px-2 py-1">${c.costUsd.toFixed(4)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Research View — full pipeline visualization
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -760,6 +1227,10 @@ function ChapterBlock({
 
       {expanded && (
         <div className="p-4 space-y-4">
+          <PromptRefs refs={chapter.promptRefs} />
+          <SectionStats stats={chapter.sectionStats} />
+          <LengthCorrections passes={chapter.lengthCorrections} />
+          <FactCheck report={chapter.factCheck} />
           {chapter.prompts?.length > 0 ? (
             chapter.prompts.map((p: any, i: number) => (
               <PromptBlock
@@ -0,0 +1,307 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BookForge — Prompt Template Registry (admin)
+// Versions, variants and language overrides of every pipeline prompt;
+// per-variant project results for A/B comparison.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { useState } from "react";
+import {
+  ArrowLeft,
+  Loader2,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw,
+} from "lucide-react";
+import apiClient from "@/lib/api";
+import toast from "react-hot-toast";
+
+export default function AdminPrompts() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ["admin-prompts"],
+    queryFn: async () => {
+      const res = await apiClient.get("/admin/prompts");
+      return res.data.data;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-8 h-8 text-primary-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="text-center py-20 text-red-500">
+        Failed to load prompt templates.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="mb-6">
+        <Link
+          to="/admin"
+          className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 mb-3"
+        >
+          <ArrowLeft className="w-4 h-4" /> Admin Panel
+        </Link>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Prompt Templates
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              The latest version matching a project's variant and language is
+              used on its next pipeline run. Versions marked stale were
+              written against an older built-in.
+            </p>
+          </div>
+          <button
+            onClick={() => refetch()}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {/* Variants — A/B comparison */}
+      <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden mb-6">
+        <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-800">
+          <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+            Variants
+          </h2>
+        </div>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-gray-50 dark:bg-gray-800/50">
+              {["Variant", "Projects", "Avg cost", "Avg tokens"].map((h) => (
+                <th
+                  key={h}
+                  className="px-3 py-2 text-left font-semibold text-gray-500 dark:text-gray-400 uppercase"
+                >
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {data.variants.map((v: any) => (
+              <tr key={v.variant}>
+                <td className="px-3 py-2 font-mono font-medium text-gray-700 dark:text-gray-300">
+                  {v.variant}
+                </td>
+                <td className="px-3 py-2 text-gray-500">{v.projects}</td>
+                <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">
+                  ${v.avgCostUsd.toFixed(4)}
+                </td>
+                <td className="px-3 py-2 text-gray-500">
+                  {v.avgTokens.toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-4">
+        {data.templates.map((t: any) => (
+          <TemplateBlock key={t.key} template={t} onSaved={refetch} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TemplateBlock({
+  template,
+  onSaved,
+}: {
+  template: any;
+  onSaved: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<any>(template.versions[0]);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [variant, setVariant] = useState("default");
+  const [language, setLanguage] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const startDraft = () => {
+    setDraft(selected.body);
+    setVariant(selected.variant);
+    setLanguage(selected.language || "");
+    setNotes("");
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await apiClient.post(`/admin/prompts/${template.key}`, {
+        body: draft,
+        variant,
+        language: language || null,
+        notes: notes || undefined,
+      });
+      toast.success(`Saved ${template.key} v${res.data.data.version}`);
+      setDraft(null);
+      onSaved();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-800/50"
+      >
+        {open ? (
+          <ChevronDown className="w-4 h-4 text-gray-400" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-gray-400" />
+        )}
+        <span className="font-mono text-sm font-semibold text-gray-900 dark:text-white">
+          {template.key}
+        </span>
+        <span className="text-xs text-gray-500 flex-1 truncate">
+          {template.description}
+        </span>
+        <span className="text-xs text-gray-400">
+          {template.versions.length} version(s)
+        </span>
+      </button>
+
+      {open && (
+        <div className="p-4 border-t border-gray-100 dark:border-gray-800 space-y-4">
+          <div className="flex flex-wrap gap-1">
+            {template.variables.map((v: string) => (
+              <code
+                key={v}
+                className="px-1.5 py-0.5 text-[10px] rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400"
+              >
+                {`{{${v}}}`}
+              </code>
+            ))}
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-gray-50 dark:bg-gray-800/50">
+                {["Version", "Variant", "Language", "Notes", "Created"].map(
+                  (h) => (
+                    <th
+                      key={h}
+                      className="px-3 py-2 text-left font-semibold text-gray-500 dark:text-gray-400 uppercase"
+                    >
+                      {h}
+                    </th>
+                  ),
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {template.versions.map((v: any) => (
+                <tr
+                  key={v.id}
+                  onClick={() => setSelected(v)}
+                  className={`cursor-pointer ${selected?.id === v.id ? "bg-primary-50 dark:bg-primary-950/30" : "hover:bg-gray-50 dark:hover:bg-gray-800/50"}`}
+                >
+                  <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">
+                    v{v.version}
+                    {v.stale && (
+                      <span
+                        title="Written against an older built-in — it lacks instructions added since. Start a new version from the built-in."
+                        className="ml-1.5 px-1.5 py-0.5 rounded text-[10px] font-sans bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300"
+                      >
+                        stale
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 font-mono text-gray-500">
+                    {v.variant}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">
+                    {v.language || "any"}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">{v.notes || "—"}</td>
+                  <td className="px-3 py-2 text-gray-400">
+                    {v.createdAt
+                      ? new Date(v.createdAt).toLocaleString("pl-PL")
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {draft === null ? (
+            <div className="space-y-2">
+              <pre className="max-h-96 overflow-auto text-[11px] leading-relaxed bg-gray-50 dark:bg-gray-950 rounded-lg p-3 whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+                {selected?.body}
+              </pre>
+              <button
+                onClick={startDraft}
+                className="px-3 py-1.5 text-xs bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+              >
+                New version from v{selected?.version}
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={20}
+                className="w-full font-mono text-[11px] p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950"
+              />
+              <div className="flex items-center gap-2 flex-wrap">
+                <input
+                  value={variant}
+                  onChange={(e) => setVariant(e.target.value)}
+                  placeholder="variant"
+                  className="w-32 px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950"
+                />
+                <input
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  placeholder="language (any)"
+                  className="w-28 px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950"
+                />
+                <input
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What changed?"
+                  className="flex-1 min-w-[160px] px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950"
+                />
+                <button
+                  onClick={save}
+                  disabled={saving || !draft.trim() || !variant}
+                  className="px-3 py-1.5 text-xs bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                >
+                  Save version
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-1.5 text-xs text-gray-500 hover:text-gray-700"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
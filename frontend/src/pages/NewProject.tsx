@@ -44,6 +44,34 @@ const FORMATS: Record<string, string> = {
   letter: "Letter (216×279mm) — US",
   a4: "A4 (210×297mm) — Full",
 };
+const GENRES: Record<string, string> = {
+  nonfiction: "Non-fiction — Guides, research-backed",
+  fiction: "Fiction — Novels & stories",
+};
+const BOOK_MATTER: Record<string, string> = {
+  dedication: "Dedication",
+  preface: "Preface",
+  acknowledgements: "Acknowledgements",
+  introduction: "Introduction",
+  conclusion: "Conclusion",
+  "about-author": "About the Author",
+};
+const AUDIENCES: Record<string, string> = {
+  beginner: "Beginners — New to the topic",
+  practitioner: "Practitioners — Working in the field",
+  executive: "Executives — Decision-makers",
+  academic: "Academics — Researchers & students",
+};
+const TONES: Record<string, string> = {
+  conversational: "Conversational — Direct, speaks to the reader",
+  formal: "Formal — Measured, professional",
+  academic: "Academic — Scholarly, evidence-first",
+};
+const READING_LEVELS: Record<string, string> = {
+  basic: "Basic — Plain language",
+  standard: "Standard",
+  advanced: "Advanced — Dense, expert prose",
+};
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Color palette — 20 curated presets
@@ -92,7 +120,13 @@ const schema = z.object({
   language: z.string().default("en"),
   guidelines: z.string().max(5000).optional(),
   stylePreset: z.string().default("modern"),
+  genre: z.string().default("nonfiction"),
+  audience: z.string().default("practitioner"),
+  tone: z.string().default("conversational"),
+  readingLevel: z.string().default("standard"),
   bookFormat: z.string().default("a5"),
+  workbook: z.boolean().default(false),
+  bookMatter: z.array(z.string()).default([]),
 });
 type FormData = z.infer<typeof schema>;
 
@@ -118,7 +152,13 @@ export default function NewProject() {
       targetPages: PAGE_SIZE_TIERS[1].targetPages,
       language: "en",
       stylePreset: "modern",
+      genre: "nonfiction",
+      audience: "practitioner",
+      tone: "conversational",
+      readingLevel: "standard",
       bookFormat: "a5",
+      workbook: false,
+      bookMatter: [],
     },
   });
 
@@ -500,7 +540,7 @@ export default function NewProject() {
             Settings
           </h2>
 
-          <div className="grid sm:grid-cols-2 gap-5">
+          <div className="grid sm:grid-cols-3 gap-5">
             <div>
               <label className={labelCls}>Language</label>
               <select {...register("language")} className={inputCls}>
@@ -521,6 +561,88 @@ export default function NewProject() {
                 ))}
               </select>
             </div>
+            <div>
+              <label className={labelCls}>Genre</label>
+              <select {...register("genre")} className={inputCls}>
+                {Object.entries(GENRES).map(([k, v]) => (
+                  <option key={k} value={k}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-3 gap-5">
+            <div>
+              <label className={labelCls}>Target Audience</label>
+              <select {...register("audience")} className={inputCls}>
+                {Object.entries(AUDIENCES).map(([k, v]) => (
+                  <option key={k} value={k}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>Tone</label>
+              <select {...register("tone")} className={inputCls}>
+                {Object.entries(TONES).map(([k, v]) => (
+                  <option key={k} value={k}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>Reading Level</label>
+              <select {...register("readingLevel")} className={inputCls}>
+                {Object.entries(READING_LEVELS).map(([k, v]) => (
+                  <option key={k} value={k}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg hover:border-primary-300 dark:hover:border-primary-700 cursor-pointer transition-colors has-[:checked]:border-primary-500 has-[:checked]:bg-primary-50 dark:has-[:checked]:bg-primary-950">
+            <input
+              type="checkbox"
+              {...register("workbook")}
+              className="accent-primary-600"
+            />
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              Workbook — exercises after every section and an Answer Key at
+              the back (non-fiction)
+            </span>
+          </label>
+
+          <div>
+            <label className={labelCls}>Front &amp; Back Matter</label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {Object.entries(BOOK_MATTER).map(([k, v]) => (
+                <label
+                  key={k}
+                  className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg hover:border-primary-300 dark:hover:border-primary-700 cursor-pointer transition-colors has-[:checked]:border-primary-500 has-[:checked]:bg-primary-50 dark:has-[:checked]:bg-primary-950"
+                >
+                  <input
+                    type="checkbox"
+                    value={k}
+                    {...register("bookMatter")}
+                    className="accent-primary-600"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    {v}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Written once the chapters are done, so they sum up the real
+              content; editable like any chapter. Fiction skips the
+              introduction and conclusion.
+            </p>
           </div>
 
           <div>
@@ -6,6 +6,9 @@ import TitlePageEditor, {
 import ColophonEditor, {
   type ColophonEditorHandle,
 } from "@/components/ColophonEditor";
+import GlossaryEditor from "@/components/GlossaryEditor";
+import CitationStyleEditor from "@/components/CitationStyleEditor";
+import ReviewReport from "@/components/ReviewReport";
 import {
   ArrowLeft,
   Loader2,
@@ -13,10 +16,13 @@ import {
   Image,
   Sparkles,
   Pencil,
+  AlertTriangle,
+  RotateCcw,
 } from "lucide-react";
 import DownloadPanel from "@/components/DownloadPanel";
 import GenerationProgress from "@/components/GenerationProgress";
 import apiClient from "@/lib/api";
+import { usePipelineEvents, latestRun } from "@/lib/pipelineEvents";
 import { STAGE_LABELS, type ProjectStage } from "@/lib/types";
 import { useAuthStore } from "@/stores/authStore";
 import toast from "react-hot-toast";
@@ -46,12 +52,15 @@ export default function ProjectDetail() {
   // ── BookEditor ↔ DownloadPanel bridge ──
   const editorRef = useRef<BookEditorHandle>(null);
   const [unsavedCount, setUnsavedCount] = useState(0);
+  // Bumped when the backend changes a chapter — the editor reloads
+  const [editorKey, setEditorKey] = useState(0);
 
   // ── TitlePageEditor & ColophonEditor refs + dirty tracking ──
   const titlePageRef = useRef<TitlePageEditorHandle>(null);
   const colophonRef = useRef<ColophonEditorHandle>(null);
   const [titlePageFormDirty, setTitlePageFormDirty] = useState(false);
   const [colophonFormDirty, setColophonFormDirty] = useState(false);
+  const liveRef = useRef(false);
 
   const { data, isLoading, refetch } = useQuery({
     queryKey: ["project", id],
@@ -62,12 +71,26 @@ export default function ProjectDetail() {
     refetchInterval: (query) => {
       const stage = query.state.data?.currentStage;
       if (stage === "STRUCTURE" && !query.state.data?.structure) return 3000;
-      if (stage === "GENERATING") return 5000;
-      if (stage === "COMPILING") return 3000;
+      // With the event stream connected, polling is only a safety net
+      if (stage === "GENERATING") return liveRef.current ? 15000 : 5000;
+      if (stage === "COMPILING") return liveRef.current ? 15000 : 3000;
       return false;
     },
   });
 
+  // ── Live pipeline events — refetch on milestones ──
+  const running =
+    data?.currentStage === "GENERATING" || data?.currentStage === "COMPILING";
+  const { events, connected } = usePipelineEvents(id, running, (event) => {
+    if (
+      event.level === "phase" ||
+      event.level === "footer" ||
+      event.data?.kind === "chapter"
+    )
+      refetch();
+  });
+  liveRef.current = connected;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -122,6 +145,39 @@ export default function ProjectDetail() {
     }
   };
 
+  const handleCancelGeneration = async () => {
+    if (
+      !window.confirm(
+        "Stop generation? Finished chapters are kept and you can resume later.",
+      )
+    )
+      return;
+    try {
+      const res = await apiClient.post(`/projects/${id}/generation/cancel`);
+      toast.success(res.data.message || "Generation cancelled");
+      refetch();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed");
+    }
+  };
+
+  const handleResumeGeneration = async () => {
+    try {
+      await apiClient.post(`/projects/${id}/generate/resume`);
+      toast.success("Generation resumed!");
+      refetch();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed");
+    }
+  };
+
+  const finishedChapters = (project.chapters || []).filter(
+    (c: any) => c.status === "LATEX_READY",
+  ).length;
+  const lastCompileEvent = latestRun(events, "COMPILE")
+    .filter((e) => e.level !== "header" && e.level !== "phase")
+    .pop();
+
   // ── Combined save-all: chapters + title page + colophon ──
   const handleSaveAll = async (): Promise<boolean> => {
     let allOk = true;
@@ -202,6 +258,17 @@ export default function ProjectDetail() {
               ["Pages", project.targetPages],
               ["Language", project.language.toUpperCase()],
               ["Style", project.stylePreset],
+              ["Genre", project.genre],
+              ["Audience", project.audience],
+              ["Tone", project.tone],
+              ["Reading level", project.readingLevel],
+              ["Workbook", project.workbook ? "Yes" : "No"],
+              [
+                "Front/back matter",
+                project.bookMatter?.length
+                  ? project.bookMatter.join(", ")
+                  : "None",
+              ],
               ["Format", project.bookFormat.toUpperCase()],
             ].map(([label, val]) => (
               <div key={label as string} className="flex justify-between">
@@ -319,6 +386,21 @@ export default function ProjectDetail() {
             <p className="text-gray-600 dark:text-gray-400 mb-6">
               Upload images or skip to generate without them.
             </p>
+            {project.generationStatus === "CANCELLED" &&
+              finishedChapters > 0 && (
+                <div className="mb-6 text-sm text-gray-600 dark:text-gray-400">
+                  <p className="mb-3">
+                    Generation was cancelled with {finishedChapters} of{" "}
+                    {project.chapters.length} chapters finished.
+                  </p>
+                  <button
+                    onClick={handleResumeGeneration}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-primary-600 text-primary-600 dark:text-primary-400 rounded-xl hover:bg-primary-50 dark:hover:bg-primary-950/30 transition-colors font-medium"
+                  >
+                    <RotateCcw className="w-4 h-4" /> Resume Generation
+                  </button>
+                </div>
+              )}
             <button
               onClick={handleStartGeneration}
               className="inline-flex items-center gap-2 px-8 py-4 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors font-semibold text-lg shadow-lg shadow-primary-600/25"
@@ -337,9 +419,51 @@ export default function ProjectDetail() {
             targetPages={project.targetPages}
             bookTitle={project.title || project.topic}
             language={project.language}
+            events={events}
+            live={connected}
+            onCancel={handleCancelGeneration}
+            cancelling={!!project.cancelRequestedAt}
           />
         )}
 
+        {/* ERROR — resume from the last finished chapter */}
+        {project.currentStage === "ERROR" && (
+          <div className="bg-white dark:bg-gray-900 rounded-2xl border border-red-200 dark:border-red-900/50 p-6 text-center">
+            <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+              {project.spendCapHitAt
+                ? "Generation Paused"
+                : "Generation Interrupted"}
+            </h3>
+            {project.spendCapHitAt ? (
+              // Spend cap — an admin raises it and the book resumes
+              <p className="text-gray-600 dark:text-gray-400">
+                This book needs more processing than planned. Our team has
+                been notified and will continue it shortly —{" "}
+                {finishedChapters} finished chapters are kept.
+              </p>
+            ) : finishedChapters > 0 ? (
+              <>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  {finishedChapters} of {project.chapters.length} chapters
+                  were finished. Resume to continue from where it stopped —
+                  finished chapters are kept.
+                </p>
+                <button
+                  onClick={handleResumeGeneration}
+                  className="inline-flex items-center gap-2 px-8 py-4 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors font-semibold text-lg shadow-lg shadow-primary-600/25"
+                >
+                  <RotateCcw className="w-5 h-5" /> Resume Generation
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-600 dark:text-gray-400">
+                Something went wrong. Please contact support.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* COMPILING (also shown during recompilation) */}
         {project.currentStage === "COMPILING" && (
           <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-6 text-center">
@@ -350,6 +474,18 @@ export default function ProjectDetail() {
             <p className="text-gray-600 dark:text-gray-400">
               Assembling LaTeX and generating PDF... This takes 30-60 seconds.
             </p>
+            {lastCompileEvent && (
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                {lastCompileEvent.message}
+              </p>
+            )}
+            <button
+              onClick={handleCancelGeneration}
+              disabled={!!project.cancelRequestedAt}
+              className="mt-4 text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-60 disabled:no-underline"
+            >
+              {project.cancelRequestedAt ? "Cancelling..." : "Cancel"}
+            </button>
           </div>
         )}
 
@@ -402,6 +538,43 @@ export default function ProjectDetail() {
 
             <div className="border-t border-gray-200 dark:border-gray-700 my-6" />
 
+            <GlossaryEditor
+              projectId={id!}
+              language={project.language}
+              onSaved={() => setTitlePageDirty(true)}
+            />
+
+            <div className="border-t border-gray-200 dark:border-gray-700 my-6" />
+
+            <CitationStyleEditor
+              projectId={id!}
+              language={project.language}
+              currentStyle={project.citationStyle}
+              onSaved={() => {
+                refetch();
+                setTitlePageDirty(true);
+              }}
+            />
+
+            <div className="border-t border-gray-200 dark:border-gray-700 my-6" />
+
+            {/* The editorial review judges non-fiction only */}
+            {project.genre !== "fiction" && (
+              <>
+                <ReviewReport
+                  projectId={id!}
+                  language={project.language}
+                  unsavedEdits={unsavedCount > 0}
+                  onInserted={() => {
+                    setEditorKey((k) => k + 1);
+                    setTitlePageDirty(true);
+                  }}
+                />
+
+                <div className="border-t border-gray-200 dark:border-gray-700 my-6" />
+              </>
+            )}
+
             {!showEditor ? (
               <div className="text-center">
                 <button
@@ -416,6 +589,7 @@ export default function ProjectDetail() {
               </div>
             ) : (
               <BookEditor
+                key={editorKey}
                 ref={editorRef}
                 projectId={id!}
                 onDirtyChange={setUnsavedCount}